@@ -1,12 +1,13 @@
-import type { Animal, Corpse } from '../entities/types';
+import type { Animal, Corpse, DeathCause } from '../entities/types';
 import type { SimulationConfig } from '../config/types';
 import type { VegetationGrid } from '../spatial/VegetationGrid';
 import type { RandomGenerator } from '../core/SeededRandom';
 import type { Action, ThreatInfo, FoodTarget } from './types';
 import { findThreats, calculateFleeVector } from './ThreatCalculator';
 import { selectFoodTarget, isAtFoodPosition, findNearestPrey } from './FoodFinder';
+import { findEligibleMates, selectBestMate, isSexualReproduction, isInMatingRange } from './MateFinder';
 import { distance } from '../utils/vector';
-import { isReproductionReady } from '../entities/Animal';
+import { isReproductionReady, getEffectiveSpeed } from '../entities/Animal';
 
 export interface DecisionContext {
   animal: Animal;
@@ -19,11 +20,12 @@ export interface DecisionContext {
 
 /**
  * Check if animal should die.
- * Returns true if hunger <= 0 (starvation) or age >= maxAge (old age).
+ * Returns true if health <= 0 (starvation or wounds) or age >= maxAge (old age).
+ * Hunger 0 drains health rather than killing outright.
  */
-export function shouldDie(animal: Animal): { should: boolean; cause?: string } {
-  if (animal.state.hunger <= 0) {
-    return { should: true, cause: 'starvation' };
+export function shouldDie(animal: Animal): { should: boolean; cause?: DeathCause } {
+  if (animal.state.health <= 0) {
+    return { should: true, cause: animal.state.hunger <= 0 ? 'starvation' : 'wounds' };
   }
 
   if (animal.state.age >= animal.lifecycleAttributes.maxAge) {
@@ -72,6 +74,7 @@ export function shouldFlee(
 export function shouldAttack(
   animal: Animal,
   target: Animal,
+  config: SimulationConfig,
   rng: RandomGenerator
 ): boolean {
   const aggression = animal.behavioralAttributes.aggression;
@@ -83,24 +86,28 @@ export function shouldAttack(
   // Attack motivation increases as hunger decreases
   // When full (hunger = MAX_HUNGER), attackChance = 0
   // When starving (hunger = 0), attackChance = aggression
-  const hungerRatio = animal.state.hunger / 100; // Assume MAX_HUNGER = 100
+  const hungerRatio = animal.state.hunger / config.entities.MAX_HUNGER;
   const attackChance = aggression * (1 - hungerRatio);
 
   return rng.next() < attackChance;
 }
 
 /**
- * Determine if attacker can kill defender.
- * True when attackPower > defense.
+ * Damage dealt by a single attack.
+ * damage = max(MIN_DAMAGE, attackPower - defense), so weaker attackers still
+ * wear defenders down over several ticks.
  */
-export function canKill(attacker: Animal, defender: Animal): boolean {
-  return attacker.derivedStats.attackPower > defender.derivedStats.defense;
+export function calculateDamage(attacker: Animal, defender: Animal, config: SimulationConfig): number {
+  return Math.max(
+    config.combat.MIN_DAMAGE,
+    attacker.derivedStats.attackPower - defender.derivedStats.defense
+  );
 }
 
 /**
  * Main decision-making function.
- * Priority order: DIE > FLEE > EAT > MOVE_TO_FOOD > ATTACK > REPRODUCE > DRIFT/STAY
- * Note: V1 uses asexual reproduction - no mate required
+ * Priority order: DIE > FLEE > EAT > MOVE_TO_FOOD > ATTACK > REPRODUCE/MOVE_TO_MATE > DRIFT/STAY
+ * Reproduction is asexual unless REPRODUCTION_MODE selects sexual mode.
  */
 export function makeDecision(context: DecisionContext): Action {
   const { animal, nearbyAnimals, corpses, vegetationGrid, config, rng } = context;
@@ -111,6 +118,8 @@ export function makeDecision(context: DecisionContext): Action {
     return { type: 'DIE', details: deathCheck.cause };
   }
 
+  const speed = getEffectiveSpeed(animal, config);
+
   // 2. Check threats and flee
   if (shouldFlee(animal, nearbyAnimals, config, rng)) {
     const threats = findThreats(animal, nearbyAnimals);
@@ -120,8 +129,8 @@ export function makeDecision(context: DecisionContext): Action {
     return {
       type: 'FLEE',
       targetPosition: {
-        x: animal.state.position.x + fleeDir.x * animal.derivedStats.speed,
-        y: animal.state.position.y + fleeDir.y * animal.derivedStats.speed,
+        x: animal.state.position.x + fleeDir.x * speed,
+        y: animal.state.position.y + fleeDir.y * speed,
       },
     };
   }
@@ -143,7 +152,7 @@ export function makeDecision(context: DecisionContext): Action {
 
           if (dist <= contactDist) {
             // In contact range - attack if conditions met
-            if (shouldAttack(animal, preyAnimal, rng)) {
+            if (shouldAttack(animal, preyAnimal, config, rng)) {
               return {
                 type: 'ATTACK',
                 targetId: preyAnimal.id,
@@ -156,6 +165,7 @@ export function makeDecision(context: DecisionContext): Action {
               type: 'MOVE_TO_FOOD',
               targetId: foodTarget.targetId,
               targetPosition: foodTarget.position,
+              details: foodTarget.type,
             };
           }
         }
@@ -175,6 +185,7 @@ export function makeDecision(context: DecisionContext): Action {
           type: 'MOVE_TO_FOOD',
           targetId: foodTarget.targetId,
           targetPosition: foodTarget.position,
+          details: foodTarget.type,
         };
       }
     }
@@ -192,7 +203,7 @@ export function makeDecision(context: DecisionContext): Action {
         const dist = distance(animal.state.position, preyAnimal.state.position);
 
         // If in contact range and should attack
-        if (dist <= contactDist && shouldAttack(animal, preyAnimal, rng)) {
+        if (dist <= contactDist && shouldAttack(animal, preyAnimal, config, rng)) {
           return {
             type: 'ATTACK',
             targetId: preyAnimal.id,
@@ -203,13 +214,35 @@ export function makeDecision(context: DecisionContext): Action {
     }
   }
 
-  // 5. Check for reproduction (asexual - no mate required)
+  // 5. Check for reproduction
   if (isReproductionReady(animal, config)) {
     // Reproduction chance based on reproductive urge
     if (rng.next() < animal.behavioralAttributes.reproductiveUrge) {
-      return {
-        type: 'REPRODUCE',
-      };
+      if (!isSexualReproduction(config)) {
+        // Asexual - no mate required
+        return {
+          type: 'REPRODUCE',
+        };
+      }
+
+      // Sexual - pick the fittest ready mate in range
+      const mate = selectBestMate(findEligibleMates(animal, nearbyAnimals, config));
+      const mateAnimal = mate ? nearbyAnimals.find((a) => a.id === mate.id) : undefined;
+      if (mate && mateAnimal) {
+        if (isInMatingRange(animal, mateAnimal)) {
+          return {
+            type: 'REPRODUCE',
+            targetId: mate.id,
+            targetPosition: mate.position,
+          };
+        }
+
+        return {
+          type: 'MOVE_TO_MATE',
+          targetId: mate.id,
+          targetPosition: mate.position,
+        };
+      }
     }
   }
 
@@ -222,8 +255,8 @@ export function makeDecision(context: DecisionContext): Action {
     return {
       type: 'DRIFT',
       targetPosition: {
-        x: animal.state.position.x + driftDir.x * animal.derivedStats.speed * 0.5,
-        y: animal.state.position.y + driftDir.y * animal.derivedStats.speed * 0.5,
+        x: animal.state.position.x + driftDir.x * speed * 0.5,
+        y: animal.state.position.y + driftDir.y * speed * 0.5,
       },
     };
   }
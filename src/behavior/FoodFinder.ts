@@ -3,9 +3,11 @@ import type { VegetationGrid } from '../spatial/VegetationGrid';
 import type { FoodTarget } from './types';
 import type { RandomGenerator } from '../core/SeededRandom';
 import { distance } from '../utils/vector';
+import { canHunt } from '../entities/Animal';
 
 /**
- * Find the nearest vegetation tile within alert range.
+ * Find the nearest vegetation tile within alert range. Ties go to the tile
+ * that grew first.
  */
 export function findNearestVegetation(
   animal: Animal,
@@ -16,7 +18,7 @@ export function findNearestVegetation(
   }
 
   const alertRange = animal.derivedStats.alertRange;
-  const positions = grid.getAllPositions();
+  const positions = grid.queryRadius(animal.state.position, alertRange);
 
   let nearest: FoodTarget | null = null;
   let nearestDist = Infinity;
@@ -92,14 +94,8 @@ export function findNearestPrey(
   let nearestDist = Infinity;
 
   for (const other of nearbyAnimals) {
-    // Can't eat own species or dead animals
-    if (other.species === animal.species || other.state.isDead) {
-      continue;
-    }
-
-    // Can only eat animals we can hunt (herbivores if we're carnivore)
-    if (other.diet.canEatAnimals) {
-      // Don't attack other predators
+    // Can only eat living animals of a species we hunt
+    if (other.state.isDead || !canHunt(animal, other)) {
       continue;
     }
 
@@ -4,10 +4,17 @@ import type { MateTarget } from './types';
 import { distance } from '../utils/vector';
 import { isReproductionReady, isMature, getFitness } from '../entities/Animal';
 
+/**
+ * Check if the config selects two-parent reproduction.
+ */
+export function isSexualReproduction(config: SimulationConfig): boolean {
+  return config.reproduction.REPRODUCTION_MODE >= 1;
+}
+
 /**
  * Find all eligible mates within alert range.
- * An eligible mate is a same-species animal that is mature, reproduction-ready,
- * and alive.
+ * An eligible mate is a same-sub-species animal that is mature,
+ * reproduction-ready, and alive.
  */
 export function findEligibleMates(
   animal: Animal,
@@ -28,8 +35,8 @@ export function findEligibleMates(
       continue;
     }
 
-    // Must be same species
-    if (other.species !== animal.species) {
+    // Must be same species and sub-species
+    if (other.species !== animal.species || other.subspecies !== animal.subspecies) {
       continue;
     }
 
@@ -0,0 +1,131 @@
+import type { Animal, Corpse } from '../entities/types';
+import type { EntityManager } from '../entities/EntityManager';
+import type { SpatialIndex, SpatialEntity } from '../spatial/SpatialIndex';
+import type { EntityId } from '../utils/id';
+import type { Vector2 } from '../utils/vector';
+import type { Action, FoodTarget, ThreatInfo } from './types';
+import { findThreats } from './ThreatCalculator';
+import { distance } from '../utils/vector';
+
+export interface PerceivedThreat extends ThreatInfo {
+  position: Vector2;
+}
+
+// What one animal notices, for inspecting its decisions
+export interface PerceptionSummary {
+  // Closest first
+  threats: PerceivedThreat[];
+  foodTarget: FoodTarget | null;
+}
+
+export interface Perception {
+  // Living animals within the animal's alert range, excluding itself
+  getNearbyAnimals(animal: Animal): Animal[];
+  // Corpses within the animal's alert range
+  getNearbyCorpses(animal: Animal): Corpse[];
+}
+
+/**
+ * Entities from a spatial query that are truly within range, in entity order.
+ * Index entries are copies, so current state comes from the entity list.
+ */
+function resolveInRange<T extends { id: EntityId }>(
+  candidates: SpatialEntity[],
+  entities: T[],
+  order: Map<EntityId, number>,
+  getPosition: (entity: T) => Vector2,
+  center: Vector2,
+  range: number,
+  excludeId?: EntityId
+): T[] {
+  const indices: number[] = [];
+  for (const candidate of candidates) {
+    const index = order.get(candidate.id);
+    if (index === undefined || candidate.id === excludeId) continue;
+
+    const position = getPosition(entities[index]);
+    const dx = center.x - position.x;
+    const dy = center.y - position.y;
+    if (Math.sqrt(dx * dx + dy * dy) <= range) {
+      indices.push(index);
+    }
+  }
+
+  indices.sort((a, b) => a - b);
+  return indices.map(i => entities[i]);
+}
+
+/**
+ * Neighbor lookups for one decision phase. Candidates come from the spatial
+ * indexes and results keep entity order, so decisions come out exactly as
+ * they would from a full scan.
+ */
+export function createPerception(
+  entityManager: EntityManager,
+  animalIndex: SpatialIndex<Animal & SpatialEntity>,
+  corpseIndex: SpatialIndex<Corpse & SpatialEntity>
+): Perception {
+  // Nothing moves during the decision phase, so one snapshot serves every query
+  const animals = entityManager.getLivingAnimals();
+  const corpses = entityManager.getAllCorpses();
+  const animalOrder = new Map(animals.map((a, i) => [a.id, i]));
+  const corpseOrder = new Map(corpses.map((c, i) => [c.id, i]));
+
+  return {
+    getNearbyAnimals(animal: Animal): Animal[] {
+      const { position } = animal.state;
+      const range = animal.derivedStats.alertRange;
+      return resolveInRange(
+        animalIndex.queryRadius(position, range),
+        animals,
+        animalOrder,
+        a => a.state.position,
+        position,
+        range,
+        animal.id
+      );
+    },
+
+    getNearbyCorpses(animal: Animal): Corpse[] {
+      const { position } = animal.state;
+      const range = animal.derivedStats.alertRange;
+      return resolveInRange(corpseIndex.queryRadius(position, range), corpses, corpseOrder, c => c.position, position, range);
+    },
+  };
+}
+
+/**
+ * The food an action went after, or null when the animal wasn't feeding.
+ */
+function foodTargetFromAction(animal: Animal, action: Action | undefined): FoodTarget | null {
+  if (!action?.targetPosition) return null;
+  const position = action.targetPosition;
+  let type: FoodTarget['type'];
+  if (action.type === 'ATTACK') {
+    type = 'prey';
+  } else if ((action.type === 'EAT' || action.type === 'MOVE_TO_FOOD')
+    && (action.details === 'vegetation' || action.details === 'corpse' || action.details === 'prey')) {
+    type = action.details;
+  } else {
+    return null;
+  }
+  return { type, position, targetId: action.targetId, distance: distance(animal.state.position, position) };
+}
+
+/**
+ * The threats an animal notices and the food it went after in its last
+ * decision, so the overlay shows the pick the animal actually made.
+ */
+export function inspectPerception(
+  animal: Animal,
+  perception: Perception,
+  action: Action | undefined
+): PerceptionSummary {
+  const nearbyAnimals = perception.getNearbyAnimals(animal);
+  const positions = new Map(nearbyAnimals.map(a => [a.id, a.state.position]));
+  const threats = findThreats(animal, nearbyAnimals).map(threat => ({
+    ...threat,
+    position: positions.get(threat.id)!,
+  }));
+  return { threats, foodTarget: foodTargetFromAction(animal, action) };
+}
@@ -1,6 +1,7 @@
 import type { Animal } from '../entities/types';
 import type { ThreatInfo } from './types';
 import { distance, subtract, normalize } from '../utils/vector';
+import { canHunt } from '../entities/Animal';
 
 /**
  * Calculate perceived threat from another animal.
@@ -31,7 +32,7 @@ export function isThreatening(self: Animal, other: Animal): boolean {
 }
 
 /**
- * Find all threatening animals within alert range.
+ * Find all threatening predators within alert range.
  * Returns array of ThreatInfo sorted by distance (closest first).
  */
 export function findThreats(self: Animal, nearbyAnimals: Animal[]): ThreatInfo[] {
@@ -39,7 +40,8 @@ export function findThreats(self: Animal, nearbyAnimals: Animal[]): ThreatInfo[]
   const alertRange = self.derivedStats.alertRange;
 
   for (const other of nearbyAnimals) {
-    if (other.id === self.id) {
+    // Only animals that hunt our species are a danger
+    if (other.id === self.id || !canHunt(other, self)) {
       continue;
     }
 
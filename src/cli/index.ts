@@ -0,0 +1,255 @@
+import { readFileSync, writeFileSync, openSync, writeSync, closeSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { SimulationConfig } from '../config/types';
+import { getDefaultConfig } from '../config/defaults';
+import { importConfig } from '../config/persistence';
+import { generateRandomSeed } from '../core/SeededRandom';
+import { runHeadless, isTotalExtinction } from '../core/HeadlessRunner';
+import { parseExperiment, runExperiment, experimentResultsToCSV } from '../core/Experiment';
+
+const USAGE = `Usage: evolution-sandbox run [options]
+       evolution-sandbox sweep <experiment.json> [--out <file>] [--format csv|jsonl]
+
+Run options:
+  --config <file>        Config JSON (exported from the UI or a raw config object)
+  --seed <n>             Seed for the first run (default: random)
+  --ticks <n>            Ticks to simulate per run (default: 10000)
+  --runs <n>             Number of runs; run i uses seed + i (default: 1)
+  --out <file>           JSONL output file (default: stdout)
+  --stop-on-extinction   End a run early once no animals remain
+  --help                 Show this message
+
+Sweep options:
+  --out <file>           Results table file (default: stdout)
+  --format <csv|jsonl>   Results format (default: csv, or from the --out extension)
+
+An experiment file lists the config keys to vary and how to run each cell:
+  {
+    "name": "mutation-vs-wolves",
+    "baseConfig": { "world": { "WORLD_WIDTH": 800 } },
+    "sampling": "grid",                       // or "random" with "samples": n
+    "parameters": [
+      { "key": "evolution.BASE_MUTATION_RATE", "min": 0.05, "max": 0.3, "steps": 4 },
+      { "key": "species.wolf.initialCount", "values": [5, 10] }
+    ],
+    "seedsPerCell": 3,
+    "firstSeed": 1,
+    "stop": { "maxTicks": 5000, "extinction": "any" }   // "none" | "any" | "all"
+  }
+`;
+
+interface LineWriter {
+  write(record: object): void;
+  close(): void;
+}
+
+/**
+ * Buffered JSONL writer. Writes synchronously so the runner never has to
+ * yield to the event loop between ticks.
+ */
+function createLineWriter(path: string | undefined): LineWriter {
+  const fd = path ? openSync(path, 'w') : 1;
+  const flushThreshold = 1000;
+  let buffer: string[] = [];
+
+  function flush(): void {
+    if (buffer.length === 0) return;
+    writeSync(fd, buffer.join(''));
+    buffer = [];
+  }
+
+  return {
+    write(record: object): void {
+      buffer.push(JSON.stringify(record) + '\n');
+      if (buffer.length >= flushThreshold) {
+        flush();
+      }
+    },
+
+    close(): void {
+      flush();
+      if (path) {
+        closeSync(fd);
+      }
+    },
+  };
+}
+
+function loadConfig(path: string | undefined): SimulationConfig {
+  if (!path) {
+    return getDefaultConfig();
+  }
+
+  const result = importConfig(readFileSync(path, 'utf8'));
+  for (const warning of result.warnings) {
+    process.stderr.write(`warning: ${warning}\n`);
+  }
+  if (!result.success || !result.config) {
+    throw new Error(`Failed to load config ${path}:\n${result.errors.join('\n')}`);
+  }
+  return result.config;
+}
+
+function parseInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function runCommand(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      seed: { type: 'string' },
+      ticks: { type: 'string' },
+      runs: { type: 'string' },
+      out: { type: 'string' },
+      'stop-on-extinction': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const config = loadConfig(values.config);
+  const firstSeed = parseInteger('seed', values.seed, generateRandomSeed());
+  const ticks = parseInteger('ticks', values.ticks, 10000);
+  const runs = parseInteger('runs', values.runs, 1);
+  const stopOnExtinction = values['stop-on-extinction'];
+
+  const writer = createLineWriter(values.out);
+
+  try {
+    for (let run = 0; run < runs; run++) {
+      const seed = firstSeed + run;
+
+      const summary = runHeadless({
+        // Each run gets its own copy so nothing leaks between seeds
+        config: JSON.parse(JSON.stringify(config)) as SimulationConfig,
+        seed,
+        ticks,
+        onTick: (sample) => {
+          writer.write({
+            type: 'tick',
+            run,
+            seed,
+            tick: sample.tick,
+            species: sample.speciesCounts,
+            vegetation: sample.vegetationCount,
+            corpses: sample.corpseCount,
+            births: sample.births,
+            deaths: sample.deaths,
+          });
+        },
+        stopWhen: stopOnExtinction ? isTotalExtinction : undefined,
+      });
+
+      writer.write({ type: 'summary', run, ...summary });
+
+      if (values.out) {
+        const counts = Object.entries(summary.finalSpeciesCounts)
+          .map(([species, count]) => `${species}=${count}`)
+          .join(' ');
+        process.stderr.write(
+          `run ${run + 1}/${runs} seed=${seed} ticks=${summary.ticksRun} ${counts} ` +
+          `(${(summary.durationMs / 1000).toFixed(1)}s)\n`
+        );
+      }
+    }
+  } finally {
+    writer.close();
+  }
+
+  return 0;
+}
+
+function sweepCommand(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      format: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    throw new Error('sweep takes exactly one experiment file');
+  }
+
+  const format = values.format ?? (values.out?.endsWith('.jsonl') ? 'jsonl' : 'csv');
+  if (format !== 'csv' && format !== 'jsonl') {
+    throw new Error(`--format must be "csv" or "jsonl", got "${format}"`);
+  }
+
+  const parsed = parseExperiment(readFileSync(positionals[0], 'utf8'));
+  for (const warning of parsed.warnings) {
+    process.stderr.write(`warning: ${warning}\n`);
+  }
+  if (!parsed.success || !parsed.definition) {
+    throw new Error(`Failed to load experiment ${positionals[0]}:\n${parsed.errors.join('\n')}`);
+  }
+
+  const results = runExperiment(parsed.definition, {
+    onRun: (result, completed, total) => {
+      process.stderr.write(
+        `run ${completed}/${total} cell=${result.cell} seed=${result.seed} ticks=${result.ticksRun} ` +
+        `${result.stopReason} (${(result.durationMs / 1000).toFixed(1)}s)\n`
+      );
+    },
+  });
+
+  const output = format === 'csv'
+    ? experimentResultsToCSV(results) + '\n'
+    : results.map(result => JSON.stringify(result) + '\n').join('');
+  if (values.out) {
+    writeFileSync(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  return 0;
+}
+
+export function main(argv: string[]): number {
+  const [command, ...rest] = argv;
+
+  try {
+    switch (command) {
+      case 'run':
+        return runCommand(rest);
+
+      case 'sweep':
+        return sweepCommand(rest);
+
+      case undefined:
+      case '--help':
+      case 'help':
+        process.stdout.write(USAGE);
+        return command === undefined ? 1 : 0;
+
+      default:
+        process.stderr.write(`Unknown command "${command}"\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (e) {
+    process.stderr.write(`error: ${e instanceof Error ? e.message : String(e)}\n`);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -1,4 +1,5 @@
 import type { SimulationConfig } from './types';
+import { getDefaultSpecies } from '../species/registry';
 
 export function getDefaultConfig(): SimulationConfig {
   return {
@@ -7,14 +8,27 @@ export function getDefaultConfig(): SimulationConfig {
       WORLD_HEIGHT: 300,
       VEGETATION_TILE_SIZE: 5,
       TICK_RATE: 10,
-      INITIAL_DEER_COUNT: 10,
-      INITIAL_WOLF_COUNT: 5,
       INITIAL_SPAWN_MIN_DISTANCE: 50,
     },
     vegetation: {
       INITIAL_VEGETATION_DENSITY: 0.4,
       VEGETATION_SPREAD_RATE: 0.05,
       VEGETATION_FOOD_VALUE: 10,
+      VEGETATION_GROWTH_RATE: 0.05,
+      VEGETATION_SEED_BIOMASS: 0.1,
+      FOREST_VEGETATION_CAPACITY: 0.6,
+    },
+    terrain: {
+      FOREST_COVERAGE: 0.15,
+      WATER_COVERAGE: 0.05,
+      ROCK_COVERAGE: 0.05,
+      TERRAIN_CLUSTER_SIZE: 40,
+      WATER_MOVE_COST: 3,
+    },
+    seasons: {
+      SEASON_LENGTH: 250,
+      VEGETATION_AMPLITUDE: 0.3,
+      METABOLISM_AMPLITUDE: 0.2,
     },
     entities: {
       MAX_HUNGER: 100,
@@ -35,16 +49,37 @@ export function getDefaultConfig(): SimulationConfig {
       REPRODUCTION_SAFETY_BUFFER: 0.2,
       REPRODUCTION_COOLDOWN: 100,
       OFFSPRING_SPAWN_OFFSET_MAX: 2.0,
+      REPRODUCTION_MODE: 0,
     },
     evolution: {
       BASE_MUTATION_RATE: 0.05,
       BEHAVIORAL_MUTATION_RATE: 0.10,
       LIFECYCLE_MUTATION_RATE: 0.05,
+      SPECIATION_ENABLED: 1,
+      SPECIATION_THRESHOLD: 0.15,
+      SPECIATION_CHECK_INTERVAL: 100,
+      SPECIATION_MIN_POPULATION: 10,
     },
     corpse: {
       CORPSE_DECAY_TICKS: 100,
       CORPSE_FOOD_MULTIPLIER: 50,
     },
+    combat: {
+      HEALTH_MULTIPLIER: 1.5,
+      MIN_DAMAGE: 1,
+      WOUND_SPEED_PENALTY: 0.5,
+      STARVATION_DAMAGE: 2,
+      HEAL_RATE: 0.1,
+      HEAL_HUNGER_THRESHOLD: 0.5,
+    },
+    stamina: {
+      STAMINA_MULTIPLIER: 10,
+      FLEE_STAMINA_COST: 10,
+      SPRINT_STAMINA_COST: 8,
+      STAMINA_RECOVERY: 5,
+      PASSIVE_RECOVERY_RATE: 0.25,
+      EXHAUSTED_SPEED_MULTIPLIER: 0.5,
+    },
     performance: {
       MAX_ENTITIES: 2000,
       ENTITY_WARNING_THRESHOLD: 1000,
@@ -56,7 +91,16 @@ export function getDefaultConfig(): SimulationConfig {
       SIDEBAR_WIDTH: 300,
       MAX_ACTION_LOG_HISTORY: 10,
       MIN_ACCEPTABLE_FPS: 30,
+      TRAIT_SAMPLE_INTERVAL: 10,
+      HEATMAP_CELL_SIZE: 25,
+      TRAIL_LENGTH: 30,
+      AUTOSAVE_INTERVAL: 30,
+    },
+    replay: {
+      KEYFRAME_INTERVAL: 100,
+      MAX_KEYFRAMES: 50,
     },
+    species: getDefaultSpecies(),
   };
 }
 
@@ -50,20 +50,6 @@ export const CONFIG_METADATA: Record<string, ConfigCategoryMetadata> = {
         precision: 0,
         unit: 'tps',
       },
-      INITIAL_DEER_COUNT: {
-        label: 'Initial Deer',
-        description: 'Number of deer spawned at simulation start',
-        isLiveChangeable: false,
-        step: 1,
-        precision: 0,
-      },
-      INITIAL_WOLF_COUNT: {
-        label: 'Initial Wolves',
-        description: 'Number of wolves spawned at simulation start',
-        isLiveChangeable: false,
-        step: 1,
-        precision: 0,
-      },
       INITIAL_SPAWN_MIN_DISTANCE: {
         label: 'Spawn Min Distance',
         description: 'Minimum distance between spawned entities at start',
@@ -94,11 +80,103 @@ export const CONFIG_METADATA: Record<string, ConfigCategoryMetadata> = {
       },
       VEGETATION_FOOD_VALUE: {
         label: 'Food Value',
-        description: 'Hunger restored when eating vegetation',
+        description: 'Hunger restored by a fully grown tile',
         isLiveChangeable: true,
         step: 1,
         precision: 0,
       },
+      VEGETATION_GROWTH_RATE: {
+        label: 'Growth Rate',
+        description: 'How fast grazed tiles regrow towards capacity',
+        isLiveChangeable: true,
+        step: 0.005,
+        precision: 3,
+      },
+      VEGETATION_SEED_BIOMASS: {
+        label: 'Seed Biomass',
+        description: 'Biomass a newly spread tile starts with (0-1)',
+        isLiveChangeable: true,
+        step: 0.01,
+        precision: 2,
+      },
+      FOREST_VEGETATION_CAPACITY: {
+        label: 'Forest Capacity',
+        description: 'Biomass forest tiles can hold, relative to grassland (0-1)',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
+    },
+  },
+  terrain: {
+    label: 'Terrain',
+    description: 'Grassland, forest, water and rock layout',
+    properties: {
+      FOREST_COVERAGE: {
+        label: 'Forest Coverage',
+        description: 'Fraction of the world covered by forest (0-1)',
+        isLiveChangeable: false,
+        step: 0.05,
+        precision: 2,
+      },
+      WATER_COVERAGE: {
+        label: 'Water Coverage',
+        description: 'Fraction of the world covered by water (0-1)',
+        isLiveChangeable: false,
+        step: 0.05,
+        precision: 2,
+      },
+      ROCK_COVERAGE: {
+        label: 'Rock Coverage',
+        description: 'Fraction of the world covered by rock (0-1)',
+        isLiveChangeable: false,
+        step: 0.05,
+        precision: 2,
+      },
+      TERRAIN_CLUSTER_SIZE: {
+        label: 'Cluster Size',
+        description: 'Maximum number of tiles in each terrain patch',
+        isLiveChangeable: false,
+        step: 5,
+        precision: 0,
+        unit: 'tiles',
+      },
+      WATER_MOVE_COST: {
+        label: 'Water Move Cost',
+        description: 'Movement cost multiplier when moving through water',
+        isLiveChangeable: true,
+        step: 0.5,
+        precision: 1,
+        unit: 'x',
+      },
+    },
+  },
+  seasons: {
+    label: 'Seasons',
+    description: 'Yearly cycle of growth and metabolism',
+    properties: {
+      SEASON_LENGTH: {
+        label: 'Season Length',
+        description: 'Ticks per season (four seasons per year)',
+        isLiveChangeable: true,
+        step: 10,
+        precision: 0,
+        unit: 'ticks',
+      },
+      VEGETATION_AMPLITUDE: {
+        label: 'Vegetation Swing',
+        description: 'How far spread rate and food value rise in summer and fall in winter (0-1)',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
+      METABOLISM_AMPLITUDE: {
+        label: 'Metabolism Swing',
+        description: 'How far hunger decay rises in winter and falls in summer (0-1)',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
     },
   },
   entities: {
@@ -209,11 +287,18 @@ export const CONFIG_METADATA: Record<string, ConfigCategoryMetadata> = {
         precision: 1,
         unit: 'px',
       },
+      REPRODUCTION_MODE: {
+        label: 'Reproduction Mode',
+        description: '0 = asexual (clone one parent), 1 = sexual (blend two parents)',
+        isLiveChangeable: true,
+        step: 1,
+        precision: 0,
+      },
     },
   },
   evolution: {
     label: 'Evolution',
-    description: 'Mutation rate settings',
+    description: 'Mutation rate and speciation settings',
     properties: {
       BASE_MUTATION_RATE: {
         label: 'Base Mutation Rate',
@@ -236,6 +321,35 @@ export const CONFIG_METADATA: Record<string, ConfigCategoryMetadata> = {
         step: 0.01,
         precision: 2,
       },
+      SPECIATION_ENABLED: {
+        label: 'Speciation',
+        description: '0 = off, 1 = split genetically diverged populations into sub-species',
+        isLiveChangeable: true,
+        step: 1,
+        precision: 0,
+      },
+      SPECIATION_THRESHOLD: {
+        label: 'Divergence Threshold',
+        description: 'Genetic distance (0-1) between two clusters of a population that splits it',
+        isLiveChangeable: true,
+        step: 0.01,
+        precision: 2,
+      },
+      SPECIATION_CHECK_INTERVAL: {
+        label: 'Speciation Check Interval',
+        description: 'Ticks between checks for diverged populations',
+        isLiveChangeable: true,
+        step: 10,
+        precision: 0,
+        unit: 'ticks',
+      },
+      SPECIATION_MIN_POPULATION: {
+        label: 'Min Sub-species Size',
+        description: 'Smallest cluster that can branch off as a sub-species',
+        isLiveChangeable: true,
+        step: 1,
+        precision: 0,
+      },
     },
   },
   corpse: {
@@ -259,6 +373,105 @@ export const CONFIG_METADATA: Record<string, ConfigCategoryMetadata> = {
       },
     },
   },
+  combat: {
+    label: 'Combat',
+    description: 'Health, damage, wounds and healing',
+    properties: {
+      HEALTH_MULTIPLIER: {
+        label: 'Health Multiplier',
+        description: 'Max health = size * endurance * multiplier',
+        isLiveChangeable: false,
+        step: 0.1,
+        precision: 1,
+      },
+      MIN_DAMAGE: {
+        label: 'Min Damage',
+        description: 'Damage dealt per attack when attack power does not exceed defense',
+        isLiveChangeable: true,
+        step: 0.1,
+        precision: 1,
+        unit: 'hp',
+      },
+      WOUND_SPEED_PENALTY: {
+        label: 'Wound Speed Penalty',
+        description: 'Fraction of speed lost at zero health (scales with missing health)',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
+      STARVATION_DAMAGE: {
+        label: 'Starvation Damage',
+        description: 'Health lost per tick while hunger is zero',
+        isLiveChangeable: true,
+        step: 0.1,
+        precision: 1,
+        unit: 'hp/tick',
+      },
+      HEAL_RATE: {
+        label: 'Heal Rate',
+        description: 'Health regained per tick while well fed',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+        unit: 'hp/tick',
+      },
+      HEAL_HUNGER_THRESHOLD: {
+        label: 'Heal Hunger Threshold',
+        description: 'Minimum hunger ratio required to heal',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
+    },
+  },
+  stamina: {
+    label: 'Stamina',
+    description: 'Sprinting, fleeing and exhaustion',
+    properties: {
+      STAMINA_MULTIPLIER: {
+        label: 'Stamina Multiplier',
+        description: 'Max stamina = endurance * multiplier',
+        isLiveChangeable: false,
+        step: 1,
+        precision: 0,
+      },
+      FLEE_STAMINA_COST: {
+        label: 'Flee Cost',
+        description: 'Stamina drained per tick of fleeing',
+        isLiveChangeable: true,
+        step: 0.5,
+        precision: 1,
+      },
+      SPRINT_STAMINA_COST: {
+        label: 'Sprint Cost',
+        description: 'Stamina drained per tick of moving to food',
+        isLiveChangeable: true,
+        step: 0.5,
+        precision: 1,
+      },
+      STAMINA_RECOVERY: {
+        label: 'Rest Recovery',
+        description: 'Stamina restored per tick while staying',
+        isLiveChangeable: true,
+        step: 0.5,
+        precision: 1,
+      },
+      PASSIVE_RECOVERY_RATE: {
+        label: 'Passive Recovery Rate',
+        description: 'Fraction of rest recovery gained during other non-sprinting actions',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
+      EXHAUSTED_SPEED_MULTIPLIER: {
+        label: 'Exhausted Speed',
+        description: 'Speed multiplier when stamina is depleted',
+        isLiveChangeable: true,
+        step: 0.05,
+        precision: 2,
+      },
+    },
+  },
   performance: {
     label: 'Performance',
     description: 'Performance and limit settings',
@@ -328,6 +541,58 @@ export const CONFIG_METADATA: Record<string, ConfigCategoryMetadata> = {
         precision: 0,
         unit: 'fps',
       },
+      TRAIT_SAMPLE_INTERVAL: {
+        label: 'Trait Sample Interval',
+        description: 'Ticks between trait statistics samples',
+        isLiveChangeable: true,
+        step: 5,
+        precision: 0,
+        unit: 'ticks',
+      },
+      HEATMAP_CELL_SIZE: {
+        label: 'Heatmap Cell Size',
+        description: 'World units covered by one heatmap cell (applies on reset)',
+        isLiveChangeable: false,
+        step: 5,
+        precision: 0,
+      },
+      TRAIL_LENGTH: {
+        label: 'Trail Length',
+        description: 'Recent positions drawn behind each trailed animal (applies on reset)',
+        isLiveChangeable: false,
+        step: 5,
+        precision: 0,
+        unit: 'ticks',
+      },
+      AUTOSAVE_INTERVAL: {
+        label: 'Autosave Interval',
+        description: 'Seconds between saves of the current run to browser storage (0 disables)',
+        isLiveChangeable: true,
+        step: 5,
+        precision: 0,
+        unit: 's',
+      },
+    },
+  },
+  replay: {
+    label: 'Replay',
+    description: 'Replay recording and timeline settings',
+    properties: {
+      KEYFRAME_INTERVAL: {
+        label: 'Keyframe Interval',
+        description: 'Ticks between full world keyframes (longer saves memory, slower seeking)',
+        isLiveChangeable: true,
+        step: 10,
+        precision: 0,
+        unit: 'ticks',
+      },
+      MAX_KEYFRAMES: {
+        label: 'Max Keyframes',
+        description: 'Keyframes kept before the oldest are discarded',
+        isLiveChangeable: true,
+        step: 5,
+        precision: 0,
+      },
     },
   },
 };
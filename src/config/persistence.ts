@@ -1,16 +1,18 @@
 import type { SimulationConfig } from './types';
 import { getDefaultConfig } from './defaults';
-import { validateConfig, mergeWithDefaults } from './validation';
+import type { ConfigPatch } from './validation';
+import { validateConfig, mergeWithDefaults, toSpeciesPatch } from './validation';
+import { downloadText } from '../utils/download';
 
 export interface ConfigFile {
   version: string;
   name: string;
   description: string;
-  config: Partial<SimulationConfig>;
+  config: ConfigPatch;
   exportedAt: string;
 }
 
-const CONFIG_VERSION = '1.0';
+const CONFIG_VERSION = '1.1';
 
 export function exportConfig(
   config: SimulationConfig,
@@ -21,7 +23,8 @@ export function exportConfig(
     version: CONFIG_VERSION,
     name,
     description,
-    config,
+    // Name removed built-in species so importing doesn't bring them back
+    config: { ...config, species: toSpeciesPatch(config.species) },
     exportedAt: new Date().toISOString(),
   };
   return JSON.stringify(configFile, null, 2);
@@ -36,6 +39,27 @@ export interface ImportResult {
   description?: string;
 }
 
+/**
+ * Move the initial deer and wolf counts of a config from before the species
+ * registry (config version 1.0) onto those species. Returns null when the
+ * config has no old counts.
+ */
+export function migrateInitialCounts(config: Record<string, unknown>): Record<string, unknown> | null {
+  const world = config.world as Record<string, unknown> | undefined;
+  if (!world || !('INITIAL_DEER_COUNT' in world || 'INITIAL_WOLF_COUNT' in world)) {
+    return null;
+  }
+
+  const { INITIAL_DEER_COUNT, INITIAL_WOLF_COUNT, ...rest } = world;
+  const species = { ...(config.species as Record<string, Record<string, unknown>> | undefined) };
+  for (const [id, count] of Object.entries({ deer: INITIAL_DEER_COUNT, wolf: INITIAL_WOLF_COUNT })) {
+    if (typeof count === 'number') {
+      species[id] = { ...species[id], initialCount: count };
+    }
+  }
+  return { ...config, world: rest, species };
+}
+
 export function importConfig(json: string): ImportResult {
   const warnings: string[] = [];
   const errors: string[] = [];
@@ -83,8 +107,14 @@ export function importConfig(json: string): ImportResult {
     }
   }
 
+  const migrated = migrateInitialCounts(configData as Record<string, unknown>);
+  if (migrated) {
+    configData = migrated;
+    warnings.push('Moved INITIAL_DEER_COUNT and INITIAL_WOLF_COUNT to the deer and wolf initial counts');
+  }
+
   // Merge with defaults to fill any missing values
-  const mergedConfig = mergeWithDefaults(configData as Partial<SimulationConfig>);
+  const mergedConfig = mergeWithDefaults(configData as ConfigPatch);
 
   // Validate
   const validationResult = validateConfig(mergedConfig);
@@ -103,17 +133,7 @@ export function downloadConfigFile(
   config: SimulationConfig,
   filename: string = 'evolution-sandbox-config.json'
 ): void {
-  const json = exportConfig(config);
-  const blob = new Blob([json], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  downloadText(exportConfig(config), filename);
 }
 
 export function promptConfigUpload(): Promise<ImportResult | null> {
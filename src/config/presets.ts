@@ -45,8 +45,8 @@ export function getPresetConfig(preset: ConfigPreset): DeepPartial<SimulationCon
         vegetation: {
           VEGETATION_SPREAD_RATE: 0.1,
         },
-        world: {
-          INITIAL_WOLF_COUNT: 0,
+        species: {
+          wolf: { initialCount: 0 },
         },
         reproduction: {
           REPRODUCTION_COOLDOWN: 50,
@@ -75,6 +75,8 @@ function deepMerge<T extends object>(target: T, source: DeepPartial<T>): T {
         sourceValue !== undefined &&
         typeof sourceValue === 'object' &&
         sourceValue !== null &&
+        // Arrays (e.g. diet.prey) replace rather than merge
+        !Array.isArray(sourceValue) &&
         typeof targetValue === 'object' &&
         targetValue !== null
       ) {
@@ -1,17 +1,43 @@
+import type { Species, DietFlags, BaseAttributes, BehavioralAttributes, LifecycleAttributes } from '../entities/types';
+import type { TerrainType } from '../spatial/TerrainGrid';
+
 export interface WorldConfig {
   WORLD_WIDTH: number;
   WORLD_HEIGHT: number;
   VEGETATION_TILE_SIZE: number;
   TICK_RATE: number;
-  INITIAL_DEER_COUNT: number;
-  INITIAL_WOLF_COUNT: number;
   INITIAL_SPAWN_MIN_DISTANCE: number;
 }
 
 export interface VegetationConfig {
   INITIAL_VEGETATION_DENSITY: number;
   VEGETATION_SPREAD_RATE: number;
+  // Hunger restored by a tile at full biomass
   VEGETATION_FOOD_VALUE: number;
+  // Logistic regrowth rate of tile biomass per tick
+  VEGETATION_GROWTH_RATE: number;
+  // Biomass a newly spread tile starts with (1 = a full grassland tile)
+  VEGETATION_SEED_BIOMASS: number;
+  // Biomass forest tiles regrow to, relative to grassland
+  FOREST_VEGETATION_CAPACITY: number;
+}
+
+export interface TerrainConfig {
+  FOREST_COVERAGE: number;
+  WATER_COVERAGE: number;
+  ROCK_COVERAGE: number;
+  TERRAIN_CLUSTER_SIZE: number;
+  // Movement cost multiplier while wading through water
+  WATER_MOVE_COST: number;
+}
+
+export interface SeasonConfig {
+  // Ticks per season; a year is four seasons
+  SEASON_LENGTH: number;
+  // Fractional swing in vegetation spread and food value over the year
+  VEGETATION_AMPLITUDE: number;
+  // Fractional swing in hunger decay over the year (highest in winter)
+  METABOLISM_AMPLITUDE: number;
 }
 
 export interface EntityConfig {
@@ -36,12 +62,21 @@ export interface ReproductionConfig {
   REPRODUCTION_SAFETY_BUFFER: number;
   REPRODUCTION_COOLDOWN: number;
   OFFSPRING_SPAWN_OFFSET_MAX: number;
+  // 0 = asexual (single parent), 1 = sexual (two parents)
+  REPRODUCTION_MODE: number;
 }
 
 export interface EvolutionConfig {
   BASE_MUTATION_RATE: number;
   BEHAVIORAL_MUTATION_RATE: number;
   LIFECYCLE_MUTATION_RATE: number;
+  // 0 = off, 1 = split diverged populations into sub-species
+  SPECIATION_ENABLED: number;
+  // Genetic distance between cluster centres that triggers a split (0-1)
+  SPECIATION_THRESHOLD: number;
+  SPECIATION_CHECK_INTERVAL: number;
+  // Smallest cluster that can become a sub-species
+  SPECIATION_MIN_POPULATION: number;
 }
 
 export interface CorpseConfig {
@@ -49,6 +84,24 @@ export interface CorpseConfig {
   CORPSE_FOOD_MULTIPLIER: number;
 }
 
+export interface CombatConfig {
+  HEALTH_MULTIPLIER: number;
+  MIN_DAMAGE: number;
+  WOUND_SPEED_PENALTY: number;
+  STARVATION_DAMAGE: number;
+  HEAL_RATE: number;
+  HEAL_HUNGER_THRESHOLD: number;
+}
+
+export interface StaminaConfig {
+  STAMINA_MULTIPLIER: number;
+  FLEE_STAMINA_COST: number;
+  SPRINT_STAMINA_COST: number;
+  STAMINA_RECOVERY: number;
+  PASSIVE_RECOVERY_RATE: number;
+  EXHAUSTED_SPEED_MULTIPLIER: number;
+}
+
 export interface PerformanceConfig {
   MAX_ENTITIES: number;
   ENTITY_WARNING_THRESHOLD: number;
@@ -61,19 +114,57 @@ export interface UIConfig {
   SIDEBAR_WIDTH: number;
   MAX_ACTION_LOG_HISTORY: number;
   MIN_ACCEPTABLE_FPS: number;
+  // Ticks between trait statistics samples
+  TRAIT_SAMPLE_INTERVAL: number;
+  // World units covered by one heatmap cell
+  HEATMAP_CELL_SIZE: number;
+  // Recent positions kept per animal for movement trails
+  TRAIL_LENGTH: number;
+  // Seconds between saves of the current run to browser storage; 0 disables
+  AUTOSAVE_INTERVAL: number;
+}
+
+export interface ReplayConfig {
+  KEYFRAME_INTERVAL: number;
+  MAX_KEYFRAMES: number;
+}
+
+export interface SpeciesColors {
+  body: string;
+  outline: string;
+  dead: string;
+}
+
+export interface SpeciesDefinition {
+  name: string;
+  diet: DietFlags;
+  baseAttributes: BaseAttributes;
+  behavioralAttributes: BehavioralAttributes;
+  lifecycleAttributes: LifecycleAttributes;
+  colors: SpeciesColors;
+  // Speed multiplier per terrain type; 0 makes the terrain impassable
+  terrainSpeed: Record<TerrainType, number>;
+  initialCount: number;
 }
 
 export interface SimulationConfig {
   world: WorldConfig;
   vegetation: VegetationConfig;
+  terrain: TerrainConfig;
+  seasons: SeasonConfig;
   entities: EntityConfig;
   derivedStats: DerivedStatsConfig;
   movement: MovementConfig;
   reproduction: ReproductionConfig;
   evolution: EvolutionConfig;
   corpse: CorpseConfig;
+  combat: CombatConfig;
+  stamina: StaminaConfig;
   performance: PerformanceConfig;
   ui: UIConfig;
+  replay: ReplayConfig;
+  // Registered species in spawn order
+  species: Record<Species, SpeciesDefinition>;
 }
 
 export type ConfigPreset = 'balanced' | 'fastEvolution' | 'harshWorld' | 'peaceful';
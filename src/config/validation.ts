@@ -1,5 +1,11 @@
-import type { SimulationConfig } from './types';
+import type { SimulationConfig, SpeciesDefinition } from './types';
+import type { Species } from '../entities/types';
 import { getDefaultConfig } from './defaults';
+import {
+  BASE_ATTRIBUTE_BOUNDS,
+  BEHAVIORAL_ATTRIBUTE_BOUNDS,
+  LIFECYCLE_ATTRIBUTE_BOUNDS,
+} from '../genetics/attributes';
 
 export interface ValidationResult {
   valid: boolean;
@@ -19,14 +25,27 @@ export const CONFIG_RANGES: Record<string, Record<string, ConfigRange>> = {
     WORLD_HEIGHT: { min: 400, max: 4000 },
     VEGETATION_TILE_SIZE: { min: 2, max: 20 },
     TICK_RATE: { min: 1, max: 60 },
-    INITIAL_DEER_COUNT: { min: 1, max: 100 },
-    INITIAL_WOLF_COUNT: { min: 0, max: 50 },
     INITIAL_SPAWN_MIN_DISTANCE: { min: 10, max: 200 },
   },
   vegetation: {
     INITIAL_VEGETATION_DENSITY: { min: 0.1, max: 0.9 },
     VEGETATION_SPREAD_RATE: { min: 0.01, max: 0.2 },
     VEGETATION_FOOD_VALUE: { min: 5, max: 50 },
+    VEGETATION_GROWTH_RATE: { min: 0.001, max: 0.5 },
+    VEGETATION_SEED_BIOMASS: { min: 0.01, max: 1 },
+    FOREST_VEGETATION_CAPACITY: { min: 0, max: 1 },
+  },
+  terrain: {
+    FOREST_COVERAGE: { min: 0.0, max: 0.6 },
+    WATER_COVERAGE: { min: 0.0, max: 0.4 },
+    ROCK_COVERAGE: { min: 0.0, max: 0.4 },
+    TERRAIN_CLUSTER_SIZE: { min: 1, max: 500 },
+    WATER_MOVE_COST: { min: 1, max: 10 },
+  },
+  seasons: {
+    SEASON_LENGTH: { min: 10, max: 5000 },
+    VEGETATION_AMPLITUDE: { min: 0.0, max: 0.9 },
+    METABOLISM_AMPLITUDE: { min: 0.0, max: 0.9 },
   },
   entities: {
     MAX_HUNGER: { min: 50, max: 200 },
@@ -47,16 +66,37 @@ export const CONFIG_RANGES: Record<string, Record<string, ConfigRange>> = {
     REPRODUCTION_SAFETY_BUFFER: { min: 0.1, max: 0.5 },
     REPRODUCTION_COOLDOWN: { min: 20, max: 500 },
     OFFSPRING_SPAWN_OFFSET_MAX: { min: 0.5, max: 10.0 },
+    REPRODUCTION_MODE: { min: 0, max: 1 },
   },
   evolution: {
     BASE_MUTATION_RATE: { min: 0.0, max: 0.3 },
     BEHAVIORAL_MUTATION_RATE: { min: 0.0, max: 0.5 },
     LIFECYCLE_MUTATION_RATE: { min: 0.0, max: 0.3 },
+    SPECIATION_ENABLED: { min: 0, max: 1 },
+    SPECIATION_THRESHOLD: { min: 0.02, max: 1 },
+    SPECIATION_CHECK_INTERVAL: { min: 10, max: 1000 },
+    SPECIATION_MIN_POPULATION: { min: 2, max: 200 },
   },
   corpse: {
     CORPSE_DECAY_TICKS: { min: 20, max: 500 },
     CORPSE_FOOD_MULTIPLIER: { min: 10, max: 200 },
   },
+  combat: {
+    HEALTH_MULTIPLIER: { min: 0.5, max: 10.0 },
+    MIN_DAMAGE: { min: 0.1, max: 20 },
+    WOUND_SPEED_PENALTY: { min: 0.0, max: 0.9 },
+    STARVATION_DAMAGE: { min: 0.1, max: 20 },
+    HEAL_RATE: { min: 0.0, max: 5.0 },
+    HEAL_HUNGER_THRESHOLD: { min: 0.0, max: 1.0 },
+  },
+  stamina: {
+    STAMINA_MULTIPLIER: { min: 1, max: 50 },
+    FLEE_STAMINA_COST: { min: 0, max: 50 },
+    SPRINT_STAMINA_COST: { min: 0, max: 50 },
+    STAMINA_RECOVERY: { min: 0, max: 50 },
+    PASSIVE_RECOVERY_RATE: { min: 0.0, max: 1.0 },
+    EXHAUSTED_SPEED_MULTIPLIER: { min: 0.1, max: 1.0 },
+  },
   performance: {
     MAX_ENTITIES: { min: 500, max: 10000 },
     ENTITY_WARNING_THRESHOLD: { min: 100, max: 5000 },
@@ -68,13 +108,87 @@ export const CONFIG_RANGES: Record<string, Record<string, ConfigRange>> = {
     SIDEBAR_WIDTH: { min: 200, max: 500 },
     MAX_ACTION_LOG_HISTORY: { min: 20, max: 500 },
     MIN_ACCEPTABLE_FPS: { min: 15, max: 60 },
+    TRAIT_SAMPLE_INTERVAL: { min: 1, max: 500 },
+    HEATMAP_CELL_SIZE: { min: 5, max: 200 },
+    TRAIL_LENGTH: { min: 2, max: 500 },
+    AUTOSAVE_INTERVAL: { min: 0, max: 3600 },
+  },
+  replay: {
+    KEYFRAME_INTERVAL: { min: 10, max: 1000 },
+    MAX_KEYFRAMES: { min: 1, max: 500 },
   },
 };
 
+export const SPECIES_INITIAL_COUNT_RANGE: ConfigRange = { min: 0, max: 500 };
+
 export function clampConfigValue(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a species definition has the fields the simulation reads, so a
+ * hand-written config fails validation instead of throwing later.
+ */
+function validateSpeciesShape(id: string, definition: unknown): string[] {
+  if (!isObject(definition)) {
+    return [`species.${id} must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (typeof definition.initialCount !== 'number') {
+    errors.push(`species.${id}.initialCount must be a number`);
+  }
+
+  const diet = definition.diet;
+  if (!isObject(diet)) {
+    errors.push(`species.${id}.diet must be an object`);
+  } else {
+    for (const flag of ['canEatVegetation', 'canEatAnimals', 'canEatCorpses']) {
+      if (typeof diet[flag] !== 'boolean') {
+        errors.push(`species.${id}.diet.${flag} must be true or false`);
+      }
+    }
+    if (!Array.isArray(diet.prey) || !diet.prey.every(prey => typeof prey === 'string')) {
+      errors.push(`species.${id}.diet.prey must be a list of species ids`);
+    }
+  }
+
+  const attributeGroups = {
+    baseAttributes: BASE_ATTRIBUTE_BOUNDS,
+    behavioralAttributes: BEHAVIORAL_ATTRIBUTE_BOUNDS,
+    lifecycleAttributes: LIFECYCLE_ATTRIBUTE_BOUNDS,
+  };
+  for (const [group, bounds] of Object.entries(attributeGroups)) {
+    const attributes = definition[group];
+    if (!isObject(attributes)) {
+      errors.push(`species.${id}.${group} must be an object`);
+      continue;
+    }
+    for (const key of Object.keys(bounds)) {
+      if (typeof attributes[key] !== 'number') {
+        errors.push(`species.${id}.${group}.${key} must be a number`);
+      }
+    }
+  }
+
+  const colors = definition.colors;
+  if (!isObject(colors)) {
+    errors.push(`species.${id}.colors must be an object`);
+  } else {
+    for (const key of ['body', 'outline', 'dead']) {
+      if (typeof colors[key] !== 'string') {
+        errors.push(`species.${id}.colors.${key} must be a color string`);
+      }
+    }
+  }
+
+  return errors;
+}
+
 export function validateConfig(config: SimulationConfig): ValidationResult {
   const warnings: string[] = [];
   const errors: string[] = [];
@@ -109,9 +223,55 @@ export function validateConfig(config: SimulationConfig): ValidationResult {
     clampedConfig.reproduction.REPRODUCTION_SAFETY_BUFFER *= scale;
   }
 
+  // Keep enough grassland for vegetation and spawning
+  const terrainCoverage =
+    clampedConfig.terrain.FOREST_COVERAGE +
+    clampedConfig.terrain.WATER_COVERAGE +
+    clampedConfig.terrain.ROCK_COVERAGE;
+  if (terrainCoverage > 0.8) {
+    warnings.push('Terrain coverage exceeds 0.8, clamping proportionally');
+    const scale = 0.8 / terrainCoverage;
+    clampedConfig.terrain.FOREST_COVERAGE *= scale;
+    clampedConfig.terrain.WATER_COVERAGE *= scale;
+    clampedConfig.terrain.ROCK_COVERAGE *= scale;
+  }
+
+  // Validate species definitions
+  const speciesIds = Object.keys(clampedConfig.species);
+  if (speciesIds.length === 0) {
+    errors.push('At least one species must be defined');
+  }
+  for (const [id, definition] of Object.entries(clampedConfig.species)) {
+    // Entity IDs are "<species>_<n>", so species IDs must be plain words
+    if (!/^[a-zA-Z]+$/.test(id)) {
+      errors.push(`Species id "${id}" must contain only letters`);
+    }
+
+    const shapeErrors = validateSpeciesShape(id, definition);
+    if (shapeErrors.length > 0) {
+      errors.push(...shapeErrors);
+      continue;
+    }
+
+    const { min, max } = SPECIES_INITIAL_COUNT_RANGE;
+    if (definition.initialCount < min || definition.initialCount > max) {
+      const clamped = clampConfigValue(definition.initialCount, min, max);
+      warnings.push(
+        `species.${id}.initialCount value ${definition.initialCount} clamped to ${clamped} (range: ${min}-${max})`
+      );
+      definition.initialCount = clamped;
+    }
+
+    for (const prey of definition.diet.prey) {
+      if (!(prey in clampedConfig.species)) {
+        warnings.push(`species.${id} hunts unknown species "${prey}"`);
+      }
+    }
+  }
+
   // Check initial populations vs MAX_ENTITIES
-  const totalInitial =
-    clampedConfig.world.INITIAL_DEER_COUNT + clampedConfig.world.INITIAL_WOLF_COUNT;
+  const totalInitial = Object.values(clampedConfig.species)
+    .reduce((sum, definition) => sum + (typeof definition?.initialCount === 'number' ? definition.initialCount : 0), 0);
   if (totalInitial > clampedConfig.performance.MAX_ENTITIES) {
     warnings.push(
       `Initial population (${totalInitial}) exceeds MAX_ENTITIES (${clampedConfig.performance.MAX_ENTITIES})`
@@ -138,9 +298,42 @@ type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
 };
 
-export function mergeWithDefaults(partial: DeepPartial<SimulationConfig>): SimulationConfig {
+// Species set to null are removed from the registry
+export type SpeciesPatch = Record<Species, DeepPartial<SpeciesDefinition> | null>;
+
+export type ConfigPatch = DeepPartial<Omit<SimulationConfig, 'species'>> & { species?: SpeciesPatch };
+
+/**
+ * A registry as a patch that keeps exactly its species: built-in species it
+ * lacks are set to null.
+ */
+export function toSpeciesPatch(species: Record<Species, SpeciesDefinition>): SpeciesPatch {
+  const patch: SpeciesPatch = { ...species };
+  for (const id of Object.keys(getDefaultConfig().species)) {
+    if (!(id in species)) {
+      patch[id] = null;
+    }
+  }
+  return patch;
+}
+
+export function mergeWithDefaults(partial: ConfigPatch): SimulationConfig {
   const defaults = getDefaultConfig();
-  return deepMerge(defaults, partial);
+  const { species, ...rest } = partial;
+  const merged = deepMerge(defaults, rest as DeepPartial<SimulationConfig>);
+
+  // Species merge one by one over the default registry; null removes one
+  for (const [id, definition] of Object.entries(species ?? {})) {
+    if (definition === null) {
+      delete merged.species[id];
+    } else {
+      merged.species[id] = id in defaults.species
+        ? deepMerge(defaults.species[id], definition)
+        : definition as SpeciesDefinition;
+    }
+  }
+
+  return merged;
 }
 
 function deepMerge<T extends object>(target: T, source: DeepPartial<T>): T {
@@ -155,6 +348,8 @@ function deepMerge<T extends object>(target: T, source: DeepPartial<T>): T {
         sourceValue !== undefined &&
         typeof sourceValue === 'object' &&
         sourceValue !== null &&
+        // Arrays (e.g. diet.prey) replace rather than merge
+        !Array.isArray(sourceValue) &&
         typeof targetValue === 'object' &&
         targetValue !== null
       ) {
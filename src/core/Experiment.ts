@@ -0,0 +1,465 @@
+import type { SimulationConfig } from '../config/types';
+import type { Species } from '../entities/types';
+import type { World } from './World';
+import type { HeadlessTickSample } from './HeadlessRunner';
+import { CONFIG_METADATA } from '../config/metadata';
+import { CONFIG_RANGES, SPECIES_INITIAL_COUNT_RANGE, mergeWithDefaults } from '../config/validation';
+import { createSeededRandom } from './SeededRandom';
+import { runHeadless } from './HeadlessRunner';
+import { collectTraitSample, TRAIT_DEFINITIONS } from '../data/TraitStatistics';
+
+export interface ExperimentParameter {
+  // "category.KEY" from CONFIG_METADATA, or "species.<id>.initialCount"
+  key: string;
+  // Explicit grid values; otherwise sampled between min and max
+  values?: number[];
+  // Defaults to the key's validation range
+  min?: number;
+  max?: number;
+  // Evenly spaced grid values over min..max (default: 3)
+  steps?: number;
+}
+
+export type ExtinctionStop = 'none' | 'any' | 'all';
+
+export interface ExperimentDefinition {
+  name: string;
+  description?: string;
+  // Raw (possibly partial) config the varied parameters are applied on top of
+  baseConfig?: object;
+  sampling: 'grid' | 'random';
+  parameters: ExperimentParameter[];
+  // Number of cells drawn with random sampling
+  samples?: number;
+  // Seed for random sampling, so the cells are reproducible
+  samplingSeed?: number;
+  seedsPerCell: number;
+  // Run i of a cell uses firstSeed + i
+  firstSeed: number;
+  stop: {
+    maxTicks: number;
+    // 'any': a species that started with members died out; 'all': no animals left
+    extinction: ExtinctionStop;
+  };
+}
+
+export interface ExperimentParseResult {
+  success: boolean;
+  definition?: ExperimentDefinition;
+  warnings: string[];
+  errors: string[];
+}
+
+export interface ExperimentCell {
+  index: number;
+  // Parameter key -> value, in definition order
+  values: Record<string, number>;
+}
+
+export interface ExperimentRunResult {
+  cell: number;
+  parameters: Record<string, number>;
+  seed: number;
+  ticksRun: number;
+  stopReason: 'tickLimit' | 'extinction';
+  finalSpeciesCounts: Record<Species, number>;
+  // First tick each species died out, or null if it survived
+  extinctionTicks: Record<Species, number | null>;
+  finalVegetationCount: number;
+  totalBirths: number;
+  totalDeaths: number;
+  // Species -> trait id -> mean over the survivors; extinct species are absent
+  traitMeans: Record<Species, Record<string, number>>;
+  durationMs: number;
+}
+
+export interface ExperimentRunOptions {
+  onRun?: (result: ExperimentRunResult, completed: number, total: number) => void;
+}
+
+interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+  precision: number;
+}
+
+const DEFAULT_GRID_STEPS = 3;
+const SPECIES_KEY = /^species\.([^.]+)\.initialCount$/;
+
+/**
+ * Range, step and precision of a sweepable config key, or null if the key
+ * cannot be swept.
+ */
+export function getParameterRange(key: string): ParameterRange | null {
+  if (SPECIES_KEY.test(key)) {
+    return { ...SPECIES_INITIAL_COUNT_RANGE, step: 1, precision: 0 };
+  }
+
+  const [category, property, ...rest] = key.split('.');
+  const range = CONFIG_RANGES[category]?.[property];
+  const meta = CONFIG_METADATA[category]?.properties[property];
+  if (rest.length > 0 || !range || !meta) {
+    return null;
+  }
+  return { min: range.min, max: range.max, step: meta.step, precision: meta.precision };
+}
+
+function roundTo(value: number, precision: number): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse and validate an experiment definition file.
+ */
+export function parseExperiment(json: string): ExperimentParseResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      success: false,
+      errors: [`Invalid JSON: ${e instanceof Error ? e.message : 'Parse error'}`],
+      warnings: [],
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return { success: false, errors: ['Experiment file must be an object'], warnings: [] };
+  }
+
+  const file = parsed as Record<string, unknown>;
+  const sampling = file.sampling ?? 'grid';
+  if (sampling !== 'grid' && sampling !== 'random') {
+    errors.push(`sampling must be "grid" or "random", got "${String(sampling)}"`);
+  }
+
+  const parameters: ExperimentParameter[] = [];
+  if (!Array.isArray(file.parameters) || file.parameters.length === 0) {
+    errors.push('parameters must be a non-empty array');
+  } else {
+    for (const entry of file.parameters as Array<Record<string, unknown>>) {
+      const key = typeof entry?.key === 'string' ? entry.key : '';
+      const range = getParameterRange(key);
+      if (!range) {
+        errors.push(`Unknown parameter "${key}"`);
+        continue;
+      }
+
+      const parameter: ExperimentParameter = { key };
+      if (entry.values !== undefined) {
+        if (!Array.isArray(entry.values) || entry.values.length === 0 ||
+            !entry.values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+          errors.push(`${key}: values must be a non-empty array of numbers`);
+          continue;
+        }
+        parameter.values = entry.values as number[];
+        if (sampling === 'random') {
+          warnings.push(`${key}: random sampling picks from the listed values`);
+        }
+      }
+
+      const min = entry.min ?? range.min;
+      const max = entry.max ?? range.max;
+      if (typeof min !== 'number' || typeof max !== 'number' || min > max) {
+        errors.push(`${key}: min and max must be numbers with min <= max`);
+        continue;
+      }
+      if (min < range.min || max > range.max) {
+        warnings.push(`${key}: ${min}..${max} extends outside the allowed range ${range.min}..${range.max}`);
+      }
+      parameter.min = min;
+      parameter.max = max;
+
+      const steps = entry.steps ?? DEFAULT_GRID_STEPS;
+      if (!Number.isInteger(steps) || (steps as number) < 1) {
+        errors.push(`${key}: steps must be a positive integer`);
+        continue;
+      }
+      parameter.steps = steps as number;
+
+      if (parameters.some(p => p.key === key)) {
+        errors.push(`Parameter "${key}" is listed more than once`);
+        continue;
+      }
+      parameters.push(parameter);
+    }
+  }
+
+  const samples = file.samples ?? 10;
+  if (sampling === 'random' && (!Number.isInteger(samples) || (samples as number) < 1)) {
+    errors.push('samples must be a positive integer');
+  }
+
+  const seedsPerCell = file.seedsPerCell ?? 1;
+  if (!Number.isInteger(seedsPerCell) || (seedsPerCell as number) < 1) {
+    errors.push('seedsPerCell must be a positive integer');
+  }
+
+  const firstSeed = file.firstSeed ?? 1;
+  const samplingSeed = file.samplingSeed ?? firstSeed;
+  if (!Number.isInteger(firstSeed) || !Number.isInteger(samplingSeed)) {
+    errors.push('firstSeed and samplingSeed must be integers');
+  }
+
+  const stop = (file.stop ?? {}) as Record<string, unknown>;
+  const maxTicks = stop.maxTicks ?? 10000;
+  if (!Number.isInteger(maxTicks) || (maxTicks as number) < 1) {
+    errors.push('stop.maxTicks must be a positive integer');
+  }
+  const extinction = stop.extinction ?? 'all';
+  if (extinction !== 'none' && extinction !== 'any' && extinction !== 'all') {
+    errors.push(`stop.extinction must be "none", "any" or "all", got "${String(extinction)}"`);
+  }
+
+  if (file.baseConfig !== undefined && (typeof file.baseConfig !== 'object' || file.baseConfig === null)) {
+    errors.push('baseConfig must be an object');
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors, warnings };
+  }
+
+  return {
+    success: true,
+    definition: {
+      name: typeof file.name === 'string' ? file.name : 'experiment',
+      description: typeof file.description === 'string' ? file.description : undefined,
+      baseConfig: file.baseConfig as object | undefined,
+      sampling: sampling as ExperimentDefinition['sampling'],
+      parameters,
+      samples: samples as number,
+      samplingSeed: samplingSeed as number,
+      seedsPerCell: seedsPerCell as number,
+      firstSeed: firstSeed as number,
+      stop: { maxTicks: maxTicks as number, extinction: extinction as ExtinctionStop },
+    },
+    errors,
+    warnings,
+  };
+}
+
+function gridValues(parameter: ExperimentParameter): number[] {
+  if (parameter.values) {
+    return [...parameter.values];
+  }
+
+  const range = getParameterRange(parameter.key)!;
+  const min = parameter.min ?? range.min;
+  const max = parameter.max ?? range.max;
+  const steps = parameter.steps ?? DEFAULT_GRID_STEPS;
+  if (steps === 1) {
+    return [roundTo((min + max) / 2, range.precision)];
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    const value = roundTo(min + ((max - min) * i) / (steps - 1), range.precision);
+    // Rounding can collapse neighbouring steps of narrow ranges
+    if (!values.includes(value)) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Expand a definition into the parameter combinations to run: the full
+ * cartesian product for grid sampling, or `samples` seeded draws for random.
+ */
+export function expandExperiment(definition: ExperimentDefinition): ExperimentCell[] {
+  if (definition.sampling === 'random') {
+    const rng = createSeededRandom(definition.samplingSeed ?? definition.firstSeed);
+    const cells: ExperimentCell[] = [];
+    for (let index = 0; index < (definition.samples ?? 10); index++) {
+      const values: Record<string, number> = {};
+      for (const parameter of definition.parameters) {
+        if (parameter.values) {
+          values[parameter.key] = parameter.values[rng.nextInt(0, parameter.values.length - 1)];
+          continue;
+        }
+        const range = getParameterRange(parameter.key)!;
+        const value = rng.nextFloat(parameter.min ?? range.min, parameter.max ?? range.max);
+        values[parameter.key] = roundTo(value, range.precision);
+      }
+      cells.push({ index, values });
+    }
+    return cells;
+  }
+
+  let combinations: Array<Record<string, number>> = [{}];
+  for (const parameter of definition.parameters) {
+    const next: Array<Record<string, number>> = [];
+    for (const combination of combinations) {
+      for (const value of gridValues(parameter)) {
+        next.push({ ...combination, [parameter.key]: value });
+      }
+    }
+    combinations = next;
+  }
+  return combinations.map((values, index) => ({ index, values }));
+}
+
+/**
+ * Build the config for one cell. Values are written as given; the base config
+ * is merged with the defaults first.
+ */
+export function buildCellConfig(definition: ExperimentDefinition, cell: ExperimentCell): SimulationConfig {
+  const config = mergeWithDefaults(JSON.parse(JSON.stringify(definition.baseConfig ?? {})));
+
+  for (const [key, value] of Object.entries(cell.values)) {
+    const speciesMatch = SPECIES_KEY.exec(key);
+    if (speciesMatch) {
+      const species = config.species[speciesMatch[1]];
+      if (!species) {
+        throw new Error(`Species "${speciesMatch[1]}" is not registered in the config`);
+      }
+      species.initialCount = Math.round(value);
+      continue;
+    }
+
+    const [category, property] = key.split('.');
+    (config[category as keyof SimulationConfig] as unknown as Record<string, number>)[property] = value;
+  }
+
+  return config;
+}
+
+function createStopCondition(
+  extinction: ExtinctionStop,
+  startingSpecies: Species[]
+): ((sample: HeadlessTickSample) => boolean) | undefined {
+  switch (extinction) {
+    case 'any':
+      return (sample) => startingSpecies.some(species => (sample.speciesCounts[species] ?? 0) === 0);
+    case 'all':
+      return (sample) => Object.values(sample.speciesCounts).every(count => count === 0);
+    default:
+      return undefined;
+  }
+}
+
+function collectTraitMeans(world: World): Record<Species, Record<string, number>> {
+  const sample = collectTraitSample(world.currentTick, world.getLivingAnimals());
+  const means: Record<Species, Record<string, number>> = {};
+  for (const [species, speciesSample] of Object.entries(sample.species)) {
+    means[species] = Object.fromEntries(
+      Object.entries(speciesSample.traits).map(([id, summary]) => [id, summary.mean])
+    );
+  }
+  return means;
+}
+
+/**
+ * Run every cell of an experiment for each of its seeds, headlessly and in
+ * order. Results come back in cell-then-seed order.
+ */
+export function runExperiment(
+  definition: ExperimentDefinition,
+  options: ExperimentRunOptions = {}
+): ExperimentRunResult[] {
+  const cells = expandExperiment(definition);
+  const total = cells.length * definition.seedsPerCell;
+  const results: ExperimentRunResult[] = [];
+
+  for (const cell of cells) {
+    const config = buildCellConfig(definition, cell);
+    const startingSpecies = Object.entries(config.species)
+      .filter(([, species]) => species.initialCount > 0)
+      .map(([id]) => id);
+    const stopWhen = createStopCondition(definition.stop.extinction, startingSpecies);
+
+    for (let i = 0; i < definition.seedsPerCell; i++) {
+      const seed = definition.firstSeed + i;
+      let finalWorld: World | null = null;
+      let extinct = false;
+
+      const summary = runHeadless({
+        // Each run gets its own copy so nothing leaks between seeds
+        config: JSON.parse(JSON.stringify(config)) as SimulationConfig,
+        seed,
+        ticks: definition.stop.maxTicks,
+        onTick: (_sample, world) => {
+          finalWorld = world;
+        },
+        stopWhen: stopWhen && ((sample) => {
+          extinct = stopWhen(sample);
+          return extinct;
+        }),
+      });
+
+      const result: ExperimentRunResult = {
+        cell: cell.index,
+        parameters: { ...cell.values },
+        seed,
+        ticksRun: summary.ticksRun,
+        stopReason: extinct ? 'extinction' : 'tickLimit',
+        finalSpeciesCounts: summary.finalSpeciesCounts,
+        extinctionTicks: summary.extinctionTicks,
+        finalVegetationCount: summary.finalVegetationCount,
+        totalBirths: summary.totalBirths,
+        totalDeaths: summary.totalDeaths,
+        traitMeans: finalWorld ? collectTraitMeans(finalWorld) : {},
+        durationMs: summary.durationMs,
+      };
+      results.push(result);
+      options.onRun?.(result, results.length, total);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Results table with one row per run. Species columns cover every species
+ * seen in any run; empty cells mean the species was extinct or absent.
+ */
+export function experimentResultsToCSV(results: ExperimentRunResult[]): string {
+  const parameterKeys: string[] = [];
+  const species: Species[] = [];
+  for (const result of results) {
+    for (const key of Object.keys(result.parameters)) {
+      if (!parameterKeys.includes(key)) parameterKeys.push(key);
+    }
+    for (const id of Object.keys(result.finalSpeciesCounts)) {
+      if (!species.includes(id)) species.push(id);
+    }
+  }
+
+  const header = [
+    'cell',
+    'seed',
+    ...parameterKeys,
+    'ticks_run',
+    'stop_reason',
+    'vegetation',
+    'births',
+    'deaths',
+    ...species.flatMap(id => [`${id}_final`, `${id}_extinction_tick`]),
+    ...species.flatMap(id => TRAIT_DEFINITIONS.map(t => `${id}_mean_${t.key}`)),
+  ];
+
+  const lines = [header.join(',')];
+  for (const result of results) {
+    lines.push([
+      result.cell,
+      result.seed,
+      ...parameterKeys.map(key => result.parameters[key] ?? ''),
+      result.ticksRun,
+      result.stopReason,
+      result.finalVegetationCount,
+      result.totalBirths,
+      result.totalDeaths,
+      ...species.flatMap(id => [result.finalSpeciesCounts[id] ?? 0, result.extinctionTicks[id] ?? '']),
+      ...species.flatMap(id => TRAIT_DEFINITIONS.map(t => {
+        const mean = result.traitMeans[id]?.[t.id];
+        return mean === undefined ? '' : mean.toFixed(4);
+      })),
+    ].join(','));
+  }
+  return lines.join('\n');
+}
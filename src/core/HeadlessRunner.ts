@@ -0,0 +1,124 @@
+import type { SimulationConfig } from '../config/types';
+import type { Species } from '../entities/types';
+import type { World } from './World';
+import type { MortalityRow } from '../data/MortalityTable';
+import { createWorld, initializePopulation } from './World';
+import { runTick, createTickContext } from './TickLoop';
+import { createMortalityTable } from '../data/MortalityTable';
+
+export interface HeadlessTickSample {
+  tick: number;
+  speciesCounts: Record<Species, number>;
+  vegetationCount: number;
+  corpseCount: number;
+  births: number;
+  deaths: number;
+}
+
+export interface HeadlessRunOptions {
+  config: SimulationConfig;
+  seed: number;
+  ticks: number;
+  onTick?: (sample: HeadlessTickSample, world: World) => void;
+  stopWhen?: (sample: HeadlessTickSample, world: World) => boolean;
+}
+
+export interface HeadlessRunSummary {
+  seed: number;
+  requestedTicks: number;
+  ticksRun: number;
+  stoppedEarly: boolean;
+  finalSpeciesCounts: Record<Species, number>;
+  finalVegetationCount: number;
+  peakSpeciesCounts: Record<Species, number>;
+  totalBirths: number;
+  totalDeaths: number;
+  // First tick each species died out, or null if it survived (or never existed)
+  extinctionTicks: Record<Species, number | null>;
+  mortalityBySpecies: MortalityRow[];
+  mortalityByGeneration: MortalityRow[];
+  durationMs: number;
+}
+
+/**
+ * Stop condition that ends a run once no living animals remain.
+ */
+export function isTotalExtinction(sample: HeadlessTickSample): boolean {
+  return Object.values(sample.speciesCounts).every(count => count === 0);
+}
+
+/**
+ * Run a simulation to completion without a browser.
+ * Drives runTick directly, so the result is identical to stepping a
+ * Simulation with the same config and seed.
+ */
+export function runHeadless(options: HeadlessRunOptions): HeadlessRunSummary {
+  const { config, seed, ticks, onTick, stopWhen } = options;
+  const startTime = performance.now();
+
+  const world = createWorld(config, seed);
+  initializePopulation(world);
+
+  const peakSpeciesCounts = world.getSpeciesCounts();
+  const extinctionTicks: Record<Species, number | null> = {};
+  for (const species of Object.keys(peakSpeciesCounts)) {
+    extinctionTicks[species] = null;
+  }
+  let totalBirths = 0;
+  let totalDeaths = 0;
+  let stoppedEarly = false;
+  const mortalityTable = createMortalityTable();
+
+  while (world.currentTick < ticks) {
+    const result = runTick(createTickContext(world));
+    world.currentTick++;
+    mortalityTable.record(result.deathRecords);
+
+    const sample: HeadlessTickSample = {
+      tick: world.currentTick,
+      speciesCounts: world.getSpeciesCounts(),
+      vegetationCount: world.getVegetationCount(),
+      corpseCount: world.getAllCorpses().length,
+      births: result.births.length,
+      deaths: result.deaths.length,
+    };
+
+    totalBirths += sample.births;
+    totalDeaths += sample.deaths;
+
+    for (const [species, count] of Object.entries(sample.speciesCounts)) {
+      const peak = Math.max(peakSpeciesCounts[species] ?? 0, count);
+      peakSpeciesCounts[species] = peak;
+
+      // Record the first tick each species dies out (only if it existed)
+      if ((extinctionTicks[species] ?? null) === null && peak > 0 && count === 0) {
+        extinctionTicks[species] = sample.tick;
+      }
+    }
+
+    if (onTick) {
+      onTick(sample, world);
+    }
+
+    if (stopWhen && stopWhen(sample, world)) {
+      stoppedEarly = world.currentTick < ticks;
+      break;
+    }
+  }
+
+  return {
+    seed,
+    requestedTicks: ticks,
+    ticksRun: world.currentTick,
+    stoppedEarly,
+    finalSpeciesCounts: world.getSpeciesCounts(),
+    finalVegetationCount: world.getVegetationCount(),
+    peakSpeciesCounts,
+    totalBirths,
+    totalDeaths,
+    extinctionTicks,
+    mortalityBySpecies: mortalityTable.getSpeciesTotals(),
+    mortalityByGeneration: mortalityTable.getRows(),
+    durationMs: performance.now() - startTime,
+  };
+}
@@ -0,0 +1,158 @@
+import type { ReplayConfig } from '../config/types';
+import type { Species } from '../entities/types';
+import type { World } from './World';
+import type { TickResult } from './TickLoop';
+import type { WorldSnapshot } from './WorldSnapshot';
+import { serializeWorld, deserializeWorld } from './WorldSnapshot';
+import { runTick, createTickContext } from './TickLoop';
+
+/**
+ * Compact record of what changed during one tick.
+ */
+export interface TickDelta {
+  tick: number;
+  births: string[];
+  deaths: string[];
+  corpsesCreated: string[];
+  corpsesRemoved: string[];
+  speciesCounts: Record<Species, number>;
+  vegetationCount: number;
+}
+
+export interface ReplayRecorder {
+  // Recording
+  recordKeyframe(world: World): void;
+  recordTick(world: World, result: TickResult): void;
+  truncateAfter(tick: number): void;
+  clear(): void;
+
+  // Playback
+  reconstruct(tick: number): World | null;
+  getDelta(tick: number): TickDelta | undefined;
+  getDeltas(fromTick: number, toTick: number): TickDelta[];
+
+  // Range
+  getStartTick(): number;
+  getEndTick(): number;
+  getKeyframeCount(): number;
+  isEmpty(): boolean;
+}
+
+export function createReplayRecorder(config: ReplayConfig): ReplayRecorder {
+  // Keyframes and deltas are kept in ascending tick order
+  let keyframes: WorldSnapshot[] = [];
+  let deltas: TickDelta[] = [];
+
+  function evictOldest(): void {
+    const maxKeyframes = Math.max(1, Math.floor(config.MAX_KEYFRAMES));
+    if (keyframes.length <= maxKeyframes) return;
+
+    keyframes = keyframes.slice(keyframes.length - maxKeyframes);
+    const oldestTick = keyframes[0].currentTick;
+    // Deltas before the oldest keyframe can no longer be replayed
+    deltas = deltas.filter(d => d.tick > oldestTick);
+  }
+
+  function findKeyframe(tick: number): WorldSnapshot | null {
+    for (let i = keyframes.length - 1; i >= 0; i--) {
+      if (keyframes[i].currentTick <= tick) {
+        return keyframes[i];
+      }
+    }
+    return null;
+  }
+
+  return {
+    recordKeyframe(world: World): void {
+      // Recording from a rewound tick starts a new branch
+      this.truncateAfter(world.currentTick);
+
+      const last = keyframes[keyframes.length - 1];
+      const snapshot = serializeWorld(world);
+      if (last && last.currentTick === world.currentTick) {
+        // Replace, e.g. after a config change at the same tick
+        keyframes[keyframes.length - 1] = snapshot;
+      } else {
+        keyframes.push(snapshot);
+      }
+      evictOldest();
+    },
+
+    recordTick(world: World, result: TickResult): void {
+      if (keyframes.length === 0) {
+        // Nothing to replay from, so start recording at this tick
+        this.recordKeyframe(world);
+        return;
+      }
+
+      deltas.push({
+        tick: world.currentTick,
+        births: result.births.map(a => a.id),
+        deaths: [...result.deaths],
+        corpsesCreated: result.corpsesCreated.map(c => c.id),
+        corpsesRemoved: [...result.corpsesRemoved],
+        speciesCounts: world.getSpeciesCounts(),
+        vegetationCount: world.getVegetationCount(),
+      });
+
+      const interval = Math.max(1, Math.floor(config.KEYFRAME_INTERVAL));
+      if (world.currentTick % interval === 0) {
+        this.recordKeyframe(world);
+      }
+    },
+
+    truncateAfter(tick: number): void {
+      keyframes = keyframes.filter(k => k.currentTick <= tick);
+      deltas = deltas.filter(d => d.tick <= tick);
+    },
+
+    clear(): void {
+      keyframes = [];
+      deltas = [];
+    },
+
+    reconstruct(tick: number): World | null {
+      if (tick < this.getStartTick() || tick > this.getEndTick()) {
+        return null;
+      }
+
+      const keyframe = findKeyframe(tick);
+      if (!keyframe) return null;
+
+      // Re-run the deterministic tick loop from the nearest keyframe
+      const world = deserializeWorld(keyframe);
+      while (world.currentTick < tick) {
+        runTick(createTickContext(world));
+        world.currentTick++;
+      }
+      return world;
+    },
+
+    getDelta(tick: number): TickDelta | undefined {
+      return deltas.find(d => d.tick === tick);
+    },
+
+    getDeltas(fromTick: number, toTick: number): TickDelta[] {
+      return deltas.filter(d => d.tick >= fromTick && d.tick <= toTick);
+    },
+
+    getStartTick(): number {
+      return keyframes.length > 0 ? keyframes[0].currentTick : 0;
+    },
+
+    getEndTick(): number {
+      if (keyframes.length === 0) return 0;
+      const lastKeyframeTick = keyframes[keyframes.length - 1].currentTick;
+      const lastDeltaTick = deltas.length > 0 ? deltas[deltas.length - 1].tick : 0;
+      return Math.max(lastKeyframeTick, lastDeltaTick);
+    },
+
+    getKeyframeCount(): number {
+      return keyframes.length;
+    },
+
+    isEmpty(): boolean {
+      return keyframes.length === 0;
+    },
+  };
+}
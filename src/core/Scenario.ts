@@ -0,0 +1,322 @@
+import type { Animal, BaseAttributes, BehavioralAttributes, LifecycleAttributes, Species } from '../entities/types';
+import type { SimulationConfig } from '../config/types';
+import type { AttributeBounds } from '../genetics/attributes';
+import type { EntityId } from '../utils/id';
+import type { Vector2 } from '../utils/vector';
+import type { World } from './World';
+import { animalToSpatialEntity } from './World';
+import { updateAnimalState } from '../entities/Animal';
+import { BASE_ATTRIBUTE_BOUNDS, BEHAVIORAL_ATTRIBUTE_BOUNDS, LIFECYCLE_ATTRIBUTE_BOUNDS, clampAttribute, widenBounds } from '../genetics/attributes';
+import { clamp } from '../utils/math';
+import { downloadText } from '../utils/download';
+
+export const SCENARIO_VERSION = '1.0';
+
+export interface ScenarioAnimal {
+  species: Species;
+  position: Vector2;
+  // Missing attributes fall back to the species defaults
+  baseAttributes?: Partial<BaseAttributes>;
+  behavioralAttributes?: Partial<BehavioralAttributes>;
+  lifecycleAttributes?: Partial<LifecycleAttributes>;
+}
+
+/**
+ * A hand-made starting population, loaded by initializePopulation in place of
+ * random spawning. Animals start fresh (newborn hunger, age 0).
+ */
+export interface Scenario {
+  version: string;
+  name: string;
+  // Seed of the world it was laid out on, so the terrain matches
+  seed?: number;
+  // Grid positions and biomass, in the order they are planted
+  vegetation: Array<[number, number, number]>;
+  // Spawned in this order
+  animals: ScenarioAnimal[];
+}
+
+export interface ScenarioParseResult {
+  success: boolean;
+  scenario?: Scenario;
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Scenario of a world's living animals and vegetation as they are now.
+ */
+export function captureScenario(world: World, name: string = 'Scenario'): Scenario {
+  return {
+    version: SCENARIO_VERSION,
+    name,
+    seed: world.rng.getSeed(),
+    vegetation: world.vegetationGrid.getAllPositions().map(
+      (p) => [p.x, p.y, world.vegetationGrid.getBiomass(p.x, p.y)] as [number, number, number]
+    ),
+    animals: world.getLivingAnimals().map((animal) => ({
+      species: animal.species,
+      position: { ...animal.state.position },
+      baseAttributes: { ...animal.baseAttributes },
+      behavioralAttributes: { ...animal.behavioralAttributes },
+      lifecycleAttributes: { ...animal.lifecycleAttributes },
+    })),
+  };
+}
+
+export function exportScenario(scenario: Scenario): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+/**
+ * Keep known numeric attributes, clamped to their bounds widened by the
+ * species default.
+ */
+function parseAttributes(
+  value: unknown,
+  bounds: Record<string, AttributeBounds>,
+  defaults: object,
+  label: string,
+  warnings: string[]
+): Record<string, number> | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null) {
+    warnings.push(`${label} is not an object and was ignored`);
+    return undefined;
+  }
+
+  const attributes: Record<string, number> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (!bounds[key]) {
+      warnings.push(`${label}.${key} is not an attribute and was ignored`);
+    } else if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+      warnings.push(`${label}.${key} is not a number and was ignored`);
+    } else {
+      const fallback = (defaults as Record<string, number>)[key] ?? bounds[key].min;
+      attributes[key] = clampAttribute(raw, widenBounds(bounds[key], fallback));
+      if (attributes[key] !== raw) {
+        warnings.push(`${label}.${key} clamped from ${raw} to ${attributes[key]}`);
+      }
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Parse a scenario file against the config it will be loaded with. Animals of
+ * unregistered species and tiles off the grid are skipped; positions and
+ * attributes are clamped into range.
+ */
+export function parseScenario(json: string, config: SimulationConfig): ScenarioParseResult {
+  const warnings: string[] = [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      success: false,
+      errors: [`Invalid JSON: ${e instanceof Error ? e.message : 'Parse error'}`],
+      warnings: [],
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return { success: false, errors: ['Scenario file must be an object'], warnings: [] };
+  }
+
+  const file = parsed as Record<string, unknown>;
+  if (!Array.isArray(file.animals)) {
+    return { success: false, errors: ['Scenario missing "animals"'], warnings: [] };
+  }
+  if (file.vegetation !== undefined && !Array.isArray(file.vegetation)) {
+    return { success: false, errors: ['Scenario "vegetation" must be an array'], warnings: [] };
+  }
+  if (file.version !== SCENARIO_VERSION) {
+    warnings.push(`Scenario version mismatch: expected ${SCENARIO_VERSION}, got ${file.version}`);
+  }
+
+  const { WORLD_WIDTH, WORLD_HEIGHT, VEGETATION_TILE_SIZE } = config.world;
+  // Matches VegetationGrid, which leaves out partial tiles at the far edges
+  const cols = Math.floor(WORLD_WIDTH / VEGETATION_TILE_SIZE);
+  const rows = Math.floor(WORLD_HEIGHT / VEGETATION_TILE_SIZE);
+
+  const vegetation: Array<[number, number, number]> = [];
+  let offGrid = 0;
+  for (const entry of (file.vegetation ?? []) as unknown[]) {
+    const [x, y, biomass = 1] = Array.isArray(entry) ? entry : [];
+    if (
+      !Number.isInteger(x) || !Number.isInteger(y) || typeof biomass !== 'number' ||
+      x < 0 || y < 0 || x >= cols || y >= rows
+    ) {
+      offGrid++;
+      continue;
+    }
+    vegetation.push([x, y, clamp(biomass, 0, 1)]);
+  }
+  if (offGrid > 0) {
+    warnings.push(`Skipped ${offGrid} vegetation tiles that are invalid or off the grid`);
+  }
+
+  const animals: ScenarioAnimal[] = [];
+  (file.animals as unknown[]).forEach((entry, index) => {
+    const label = `animals[${index}]`;
+    const animal = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const species = animal.species;
+    if (typeof species !== 'string' || !config.species[species]) {
+      warnings.push(`Skipped ${label}: unknown species "${String(species)}"`);
+      return;
+    }
+
+    const position = animal.position as Partial<Vector2> | undefined;
+    if (typeof position?.x !== 'number' || typeof position?.y !== 'number') {
+      warnings.push(`Skipped ${label}: missing position`);
+      return;
+    }
+    const clamped = { x: clamp(position.x, 0, WORLD_WIDTH), y: clamp(position.y, 0, WORLD_HEIGHT) };
+    if (clamped.x !== position.x || clamped.y !== position.y) {
+      warnings.push(`${label}.position moved inside the world`);
+    }
+
+    const definition = config.species[species];
+    const lifecycleAttributes = parseAttributes(
+      animal.lifecycleAttributes, LIFECYCLE_ATTRIBUTE_BOUNDS, definition.lifecycleAttributes,
+      `${label}.lifecycleAttributes`, warnings
+    );
+    // An animal that matures at or after its maximum age could never breed
+    const maxAge = lifecycleAttributes?.maxAge ?? definition.lifecycleAttributes.maxAge;
+    const maturityAge = lifecycleAttributes?.maturityAge ?? definition.lifecycleAttributes.maturityAge;
+    if (lifecycleAttributes && maturityAge >= maxAge) {
+      lifecycleAttributes.maturityAge = maxAge - 1;
+      warnings.push(`${label}.lifecycleAttributes.maturityAge lowered from ${maturityAge} to ${maxAge - 1}, below maxAge`);
+    }
+
+    animals.push({
+      species,
+      position: clamped,
+      baseAttributes: parseAttributes(
+        animal.baseAttributes, BASE_ATTRIBUTE_BOUNDS, definition.baseAttributes, `${label}.baseAttributes`, warnings
+      ),
+      behavioralAttributes: parseAttributes(
+        animal.behavioralAttributes, BEHAVIORAL_ATTRIBUTE_BOUNDS, definition.behavioralAttributes,
+        `${label}.behavioralAttributes`, warnings
+      ),
+      lifecycleAttributes,
+    });
+  });
+
+  return {
+    success: true,
+    scenario: {
+      version: SCENARIO_VERSION,
+      name: typeof file.name === 'string' ? file.name : 'Scenario',
+      seed: typeof file.seed === 'number' ? file.seed : undefined,
+      vegetation,
+      animals,
+    },
+    warnings,
+    errors: [],
+  };
+}
+
+function tilesWithin(world: World, center: Vector2, radius: number): Array<{ x: number; y: number }> {
+  const grid = world.vegetationGrid;
+  const min = grid.worldToGrid(center.x - radius, center.y - radius);
+  const max = grid.worldToGrid(center.x + radius, center.y + radius);
+  const tiles: Array<{ x: number; y: number }> = [];
+  for (let y = min.y; y <= max.y; y++) {
+    for (let x = min.x; x <= max.x; x++) {
+      const tileCenter = grid.gridToWorld(x, y);
+      if (grid.isValidGridPosition(x, y) && Math.hypot(tileCenter.x - center.x, tileCenter.y - center.y) <= radius) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Fill every tile whose centre lies within radius to its capacity.
+ * Tiles where nothing grows stay bare.
+ */
+export function paintVegetation(world: World, center: Vector2, radius: number): void {
+  for (const { x, y } of tilesWithin(world, center, radius)) {
+    world.vegetationGrid.setBiomass(x, y, world.vegetationGrid.getCapacity(x, y));
+  }
+}
+
+export function eraseVegetation(world: World, center: Vector2, radius: number): void {
+  for (const { x, y } of tilesWithin(world, center, radius)) {
+    world.vegetationGrid.remove(x, y);
+  }
+}
+
+export function moveAnimal(world: World, id: EntityId, position: Vector2): void {
+  const animal = world.getAnimal(id);
+  if (!animal || animal.state.isDead) return;
+
+  const moved: Animal = updateAnimalState(animal, {
+    position: {
+      x: clamp(position.x, 0, world.config.world.WORLD_WIDTH),
+      y: clamp(position.y, 0, world.config.world.WORLD_HEIGHT),
+    },
+  });
+  world.entityManager.updateAnimal(id, moved);
+  world.animalSpatialIndex.update(animalToSpatialEntity(moved));
+}
+
+export function removeAnimal(world: World, id: EntityId): void {
+  world.entityManager.removeAnimal(id);
+  world.animalSpatialIndex.remove(id);
+}
+
+export function removeCorpse(world: World, id: EntityId): void {
+  world.entityManager.removeCorpse(id);
+  world.corpseSpatialIndex.remove(id);
+}
+
+/**
+ * Remove every animal, corpse and vegetation tile, leaving bare terrain.
+ */
+export function clearWorld(world: World): void {
+  world.entityManager.clear();
+  world.animalSpatialIndex.clear();
+  world.corpseSpatialIndex.clear();
+  world.vegetationGrid.clear();
+}
+
+export function downloadScenario(scenario: Scenario, filename: string = 'evolution-sandbox-scenario.json'): void {
+  downloadText(exportScenario(scenario), filename);
+}
+
+export function promptScenarioUpload(config: SimulationConfig): Promise<ScenarioParseResult | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+
+      try {
+        resolve(parseScenario(await file.text(), config));
+      } catch (e) {
+        resolve({
+          success: false,
+          errors: [`Failed to read file: ${e instanceof Error ? e.message : 'Unknown error'}`],
+          warnings: [],
+        });
+      }
+    };
+
+    input.oncancel = () => {
+      resolve(null);
+    };
+
+    input.click();
+  });
+}
@@ -0,0 +1,55 @@
+import type { SeasonConfig } from '../config/types';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+// Calendar order; a year starts at the beginning of spring
+export const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export interface SeasonState {
+  season: Season;
+  year: number;
+  // Fraction of the current season that has passed (0-1)
+  progress: number;
+  // Smooth yearly wave: 1 at midsummer, -1 at midwinter
+  warmth: number;
+}
+
+export interface SeasonalModifiers {
+  // Multiplier on vegetation spread rate and food value
+  vegetation: number;
+  // Multiplier on hunger decay
+  metabolism: number;
+}
+
+// Year fraction at midsummer (halfway through the second season)
+const MIDSUMMER = 0.375;
+
+/**
+ * Season at a tick. Derived from the tick alone, so restored and replayed
+ * worlds always agree on the season.
+ */
+export function getSeasonState(tick: number, config: SeasonConfig): SeasonState {
+  const seasonLength = Math.max(1, Math.floor(config.SEASON_LENGTH));
+  const yearLength = seasonLength * SEASONS.length;
+  const seasonCount = Math.floor(tick / seasonLength);
+  const yearFraction = (tick % yearLength) / yearLength;
+
+  return {
+    season: SEASONS[seasonCount % SEASONS.length],
+    year: Math.floor(seasonCount / SEASONS.length),
+    progress: (tick % seasonLength) / seasonLength,
+    warmth: Math.cos(2 * Math.PI * (yearFraction - MIDSUMMER)),
+  };
+}
+
+export function getSeasonalModifiers(tick: number, config: SeasonConfig): SeasonalModifiers {
+  const { warmth } = getSeasonState(tick, config);
+  return {
+    vegetation: 1 + config.VEGETATION_AMPLITUDE * warmth,
+    metabolism: 1 - config.METABOLISM_AMPLITUDE * warmth,
+  };
+}
+
+export function getSeasonName(season: Season): string {
+  return season.charAt(0).toUpperCase() + season.slice(1);
+}
@@ -1,3 +1,8 @@
+export interface RandomState {
+  state: number;
+  spareNormal: number | null;
+}
+
 export interface RandomGenerator {
   next(): number;
   nextInt(min: number, max: number): number;
@@ -5,6 +10,8 @@ export interface RandomGenerator {
   nextBoolean(probability?: number): boolean;
   nextNormal(mean?: number, stdDev?: number): number;
   getSeed(): number;
+  getState(): RandomState;
+  setState(state: RandomState): void;
   clone(): RandomGenerator;
 }
 
@@ -28,6 +35,10 @@ class Mulberry32 {
     return this.state;
   }
 
+  setState(state: number): void {
+    this.state = state;
+  }
+
   clone(): Mulberry32 {
     const cloned = new Mulberry32(0);
     cloned.state = this.state;
@@ -80,9 +91,18 @@ export function createSeededRandom(seed: number): RandomGenerator {
       return seed;
     },
 
+    getState(): RandomState {
+      return { state: rng.getState(), spareNormal };
+    },
+
+    setState(state: RandomState): void {
+      rng.setState(state.state);
+      spareNormal = state.spareNormal;
+    },
+
     clone(): RandomGenerator {
       const clonedRng = rng.clone();
-      const clonedSpare = spareNormal;
+      let clonedSpare = spareNormal;
 
       const clonedGenerator: RandomGenerator = {
         next(): number {
@@ -98,10 +118,9 @@ export function createSeededRandom(seed: number): RandomGenerator {
           return this.next() < probability;
         },
         nextNormal(mean: number = 0, stdDev: number = 1): number {
-          let spare = clonedSpare;
-          if (spare !== null) {
-            const result = spare * stdDev + mean;
-            spare = null;
+          if (clonedSpare !== null) {
+            const result = clonedSpare * stdDev + mean;
+            clonedSpare = null;
             return result;
           }
           let u, v, s;
@@ -111,12 +130,19 @@ export function createSeededRandom(seed: number): RandomGenerator {
             s = u * u + v * v;
           } while (s >= 1 || s === 0);
           const mul = Math.sqrt((-2 * Math.log(s)) / s);
-          spare = v * mul;
+          clonedSpare = v * mul;
           return u * mul * stdDev + mean;
         },
         getSeed(): number {
           return seed;
         },
+        getState(): RandomState {
+          return { state: clonedRng.getState(), spareNormal: clonedSpare };
+        },
+        setState(state: RandomState): void {
+          clonedRng.setState(state.state);
+          clonedSpare = state.spareNormal;
+        },
         clone(): RandomGenerator {
           return clonedGenerator.clone();
         },
@@ -170,6 +196,13 @@ function createClonedGenerator(rng: Mulberry32, seed: number, spare: number | nu
     getSeed(): number {
       return seed;
     },
+    getState(): RandomState {
+      return { state: rng.getState(), spareNormal };
+    },
+    setState(state: RandomState): void {
+      rng.setState(state.state);
+      spareNormal = state.spareNormal;
+    },
     clone(): RandomGenerator {
       return createClonedGenerator(rng.clone(), seed, spareNormal);
     },
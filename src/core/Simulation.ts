@@ -1,20 +1,36 @@
 import type { SimulationConfig } from '../config/types';
 import type { World } from './World';
-import type { Animal, Corpse } from '../entities/types';
+import type { Animal, AnimalEdit, Corpse, DeathRecord, Species, Subspecies } from '../entities/types';
 import type { ActionHistory } from '../data/ActionHistory';
-import { createWorld, initializePopulation } from './World';
-import { runTick } from './TickLoop';
+import type { TrailStore } from '../data/TrailStore';
+import type { Action } from '../behavior/types';
+import type { EntityId } from '../utils/id';
+import type { ReplayRecorder } from './ReplayRecorder';
+import type { Season } from './Seasons';
+import type { GrazingRecord, TickResult } from './TickLoop';
+import type { EventEmitter } from '../utils/events';
+import type { AnimalEditResult } from '../entities/Animal';
+import { createWorld, editAnimal, initializePopulation } from './World';
+import { runTick, createTickContext } from './TickLoop';
 import { createEventEmitter } from '../utils/events';
 
 export interface SimulationEvents {
-  tick: { tick: number; deerCount: number; wolfCount: number; vegetationCount: number };
+  tick: { tick: number; speciesCounts: Record<Species, number>; vegetationCount: number };
   animalBorn: { animal: Animal };
-  animalDied: { animal: Animal; cause: string };
+  animalDied: { animal: Animal; record: DeathRecord };
   corpseCreated: { corpse: Corpse };
   corpseRemoved: { corpseId: string };
   paused: void;
   resumed: void;
   reset: void;
+  worldLoaded: { tick: number };
+  seeked: { tick: number };
+  seasonChanged: { tick: number; season: Season; year: number };
+  speciation: { tick: number; subspecies: Subspecies };
+  // Every bite of vegetation taken during the tick
+  grazing: { tick: number; records: GrazingRecord[] };
+  // What each animal alive at the start of the tick decided to do
+  decisions: { tick: number; decisions: Map<EntityId, Action> };
 }
 
 export interface ISimulation {
@@ -33,7 +49,15 @@ export interface ISimulation {
   reset(newSeed?: number): void;
   setSpeed(multiplier: number): void;
   step(): void;
+  loadWorld(world: World): void;
+  seek(tick: number): boolean;
   setActionHistory(history: ActionHistory | null): void;
+  setTrailStore(store: TrailStore | null): void;
+  setReplayRecorder(recorder: ReplayRecorder | null): void;
+  // Push edits made in place to config to wherever the ticks run
+  syncConfig(): void;
+  // Hand edits to a living animal, applied wherever the ticks run
+  editAnimal(id: EntityId, edit: AnimalEdit): AnimalEditResult;
 
   // Events
   on<K extends keyof SimulationEvents>(
@@ -46,8 +70,58 @@ export interface ISimulation {
   ): void;
 }
 
+/**
+ * Emit the events for a tick that has just run and advanced world.currentTick.
+ */
+export function emitTickEvents(
+  emitter: EventEmitter<SimulationEvents>,
+  world: World,
+  result: TickResult,
+  previousSeason: Season
+): void {
+  emitter.emit('tick', {
+    tick: world.currentTick,
+    speciesCounts: world.getSpeciesCounts(),
+    vegetationCount: world.getVegetationCount(),
+  });
+
+  const { season, year } = world.getSeason();
+  if (season !== previousSeason) {
+    emitter.emit('seasonChanged', { tick: world.currentTick, season, year });
+  }
+
+  for (const record of result.deathRecords) {
+    const animal = world.entityManager.getAnimal(record.animalId);
+    if (animal) {
+      emitter.emit('animalDied', { animal, record });
+    }
+  }
+
+  for (const birth of result.births) {
+    emitter.emit('animalBorn', { animal: birth });
+  }
+
+  for (const corpse of result.corpsesCreated) {
+    emitter.emit('corpseCreated', { corpse });
+  }
+
+  for (const corpseId of result.corpsesRemoved) {
+    emitter.emit('corpseRemoved', { corpseId });
+  }
+
+  for (const subspecies of result.speciations) {
+    emitter.emit('speciation', { tick: world.currentTick, subspecies });
+  }
+
+  if (result.grazing.length > 0) {
+    emitter.emit('grazing', { tick: world.currentTick, records: result.grazing });
+  }
+
+  emitter.emit('decisions', { tick: world.currentTick, decisions: result.decisions });
+}
+
 export function createSimulation(config: SimulationConfig, seed?: number): ISimulation {
-  const actualSeed = seed ?? Date.now();
+  let actualSeed = seed ?? Date.now();
   let world = createWorld(config, actualSeed);
   initializePopulation(world);
 
@@ -56,54 +130,31 @@ export function createSimulation(config: SimulationConfig, seed?: number): ISimu
   let animationFrameId: number | null = null;
   let lastTickTime = 0;
   let actionHistory: ActionHistory | null = null;
+  let trailStore: TrailStore | null = null;
+  let replayRecorder: ReplayRecorder | null = null;
 
   const emitter = createEventEmitter<SimulationEvents>();
 
-  function tick(): void {
-    const result = runTick({
-      entityManager: world.entityManager,
-      vegetationGrid: world.vegetationGrid,
-      animalSpatialIndex: world.animalSpatialIndex,
-      config: world.config,
-      rng: world.rng,
-      currentTick: world.currentTick,
-      actionHistory: actionHistory ?? undefined,
-      deerIdGen: world.deerIdGen,
-      wolfIdGen: world.wolfIdGen,
-      corpseIdGen: world.corpseIdGen,
-    });
-
-    world.currentTick++;
+  function restartRecording(): void {
+    if (!replayRecorder) return;
+    replayRecorder.clear();
+    replayRecorder.recordKeyframe(world);
+  }
 
-    // Emit events
-    emitter.emit('tick', {
-      tick: world.currentTick,
-      deerCount: world.getDeerCount(),
-      wolfCount: world.getWolfCount(),
-      vegetationCount: world.getVegetationCount(),
-    });
-
-    for (const death of result.deaths) {
-      const animal = world.entityManager.getAnimal(death);
-      if (animal) {
-        const cause = animal.state.hunger <= 0 ? 'starvation' :
-                      animal.state.age >= animal.lifecycleAttributes.maxAge ? 'old age' :
-                      'killed';
-        emitter.emit('animalDied', { animal, cause });
-      }
+  function tick(): void {
+    // Continuing from a rewound tick discards the recorded future
+    if (replayRecorder && replayRecorder.getEndTick() > world.currentTick) {
+      replayRecorder.truncateAfter(world.currentTick);
+      replayRecorder.recordKeyframe(world);
     }
 
-    for (const birth of result.births) {
-      emitter.emit('animalBorn', { animal: birth });
-    }
+    const previousSeason = world.getSeason().season;
+    const result = runTick(createTickContext(world, actionHistory ?? undefined, trailStore ?? undefined));
 
-    for (const corpse of result.corpsesCreated) {
-      emitter.emit('corpseCreated', { corpse });
-    }
+    world.currentTick++;
+    replayRecorder?.recordTick(world, result);
 
-    for (const corpseId of result.corpsesRemoved) {
-      emitter.emit('corpseRemoved', { corpseId });
-    }
+    emitTickEvents(emitter, world, result, previousSeason);
   }
 
   function gameLoop(currentTime: number): void {
@@ -169,6 +220,7 @@ export function createSimulation(config: SimulationConfig, seed?: number): ISimu
       const resetSeed = newSeed ?? actualSeed;
       world = createWorld(config, resetSeed);
       initializePopulation(world);
+      restartRecording();
       emitter.emit('reset', undefined as unknown as void);
     },
 
@@ -180,10 +232,58 @@ export function createSimulation(config: SimulationConfig, seed?: number): ISimu
       tick();
     },
 
+    loadWorld(loadedWorld: World): void {
+      this.pause();
+      // Copy the loaded config into the shared config object so every
+      // component holding a reference to it sees the restored values.
+      // The loaded world may register different species, so drop ours first.
+      for (const species of Object.keys(config.species)) {
+        delete config.species[species];
+      }
+      for (const category of Object.keys(loadedWorld.config) as Array<keyof SimulationConfig>) {
+        Object.assign(config[category], loadedWorld.config[category]);
+      }
+      loadedWorld.config = config;
+      world = loadedWorld;
+      actualSeed = loadedWorld.rng.getSeed();
+      restartRecording();
+      emitter.emit('worldLoaded', { tick: world.currentTick });
+    },
+
+    seek(targetTick: number): boolean {
+      if (!replayRecorder) return false;
+      const restored = replayRecorder.reconstruct(targetTick);
+      if (!restored) return false;
+
+      this.pause();
+      // Keyframes carry their own config copy; keep sharing the live one
+      restored.config = config;
+      world = restored;
+      emitter.emit('seeked', { tick: world.currentTick });
+      return true;
+    },
+
     setActionHistory(history: ActionHistory | null): void {
       actionHistory = history;
     },
 
+    setTrailStore(store: TrailStore | null): void {
+      trailStore = store;
+    },
+
+    setReplayRecorder(recorder: ReplayRecorder | null): void {
+      replayRecorder = recorder;
+      restartRecording();
+    },
+
+    syncConfig(): void {
+      // Ticks run here and read config directly
+    },
+
+    editAnimal(id: EntityId, edit: AnimalEdit): AnimalEditResult {
+      return editAnimal(world, id, edit);
+    },
+
     on<K extends keyof SimulationEvents>(
       event: K,
       callback: (data: SimulationEvents[K]) => void
@@ -223,7 +323,13 @@ export class SimulationClass implements ISimulation {
   reset(newSeed?: number): void { this._sim.reset(newSeed); }
   setSpeed(multiplier: number): void { this._sim.setSpeed(multiplier); }
   step(): void { this._sim.step(); }
+  loadWorld(world: World): void { this._sim.loadWorld(world); }
+  seek(tick: number): boolean { return this._sim.seek(tick); }
   setActionHistory(history: ActionHistory | null): void { this._sim.setActionHistory(history); }
+  setTrailStore(store: TrailStore | null): void { this._sim.setTrailStore(store); }
+  setReplayRecorder(recorder: ReplayRecorder | null): void { this._sim.setReplayRecorder(recorder); }
+  syncConfig(): void { this._sim.syncConfig(); }
+  editAnimal(id: EntityId, edit: AnimalEdit): AnimalEditResult { return this._sim.editAnimal(id, edit); }
 
   on<K extends keyof SimulationEvents>(
     event: K,
@@ -0,0 +1,55 @@
+import type { Animal, Subspecies, SubspeciesId } from '../entities/types';
+import type { SimulationConfig } from '../config/types';
+import type { EntityManager } from '../entities/EntityManager';
+import { getGenome, bisectGenomes } from '../genetics/distance';
+import { createSubspecies } from '../species/subspecies';
+
+/**
+ * Check whether this tick is one where populations are tested for divergence.
+ */
+export function isSpeciationTick(tick: number, config: SimulationConfig): boolean {
+  const { SPECIATION_ENABLED, SPECIATION_CHECK_INTERVAL } = config.evolution;
+  const interval = Math.max(1, Math.round(SPECIATION_CHECK_INTERVAL));
+  return SPECIATION_ENABLED >= 1 && (tick + 1) % interval === 0;
+}
+
+/**
+ * Split every sub-species whose members have drifted into two genetically
+ * distinct clusters. The smaller cluster becomes a new sub-species; the
+ * larger keeps its label. Returns the sub-species founded.
+ */
+export function runSpeciation(
+  entityManager: EntityManager,
+  registry: Subspecies[],
+  config: SimulationConfig,
+  tick: number
+): Subspecies[] {
+  const minPopulation = Math.max(1, Math.round(config.evolution.SPECIATION_MIN_POPULATION));
+
+  // Group by sub-species in entity order, so splits are deterministic
+  const groups = new Map<SubspeciesId, Animal[]>();
+  for (const animal of entityManager.getLivingAnimals()) {
+    const members = groups.get(animal.subspecies) ?? [];
+    members.push(animal);
+    groups.set(animal.subspecies, members);
+  }
+
+  const founded: Subspecies[] = [];
+  for (const [id, members] of groups) {
+    if (members.length < minPopulation * 2) continue;
+
+    const split = bisectGenomes(members.map(getGenome));
+    const [first, second] = split.clusters;
+    if (split.distance < config.evolution.SPECIATION_THRESHOLD) continue;
+    if (first.length < minPopulation || second.length < minPopulation) continue;
+
+    const branch = second.length <= first.length ? second : first;
+    const subspecies = createSubspecies(registry, config, members[0].species, id, tick);
+    for (const index of branch) {
+      entityManager.updateAnimal(members[index].id, { subspecies: subspecies.id });
+    }
+    founded.push(subspecies);
+  }
+
+  return founded;
+}
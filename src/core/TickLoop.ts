@@ -1,41 +1,93 @@
-import type { Animal, Corpse } from '../entities/types';
+import type { Animal, Corpse, DeathCause, DeathRecord, Species, Subspecies } from '../entities/types';
 import type { SimulationConfig } from '../config/types';
 import type { VegetationGrid } from '../spatial/VegetationGrid';
+import type { TerrainGrid } from '../spatial/TerrainGrid';
 import type { SpatialIndex, SpatialEntity } from '../spatial/SpatialIndex';
 import type { EntityManager } from '../entities/EntityManager';
 import type { RandomGenerator } from './SeededRandom';
 import type { Action } from '../behavior/types';
 import type { ActionHistory } from '../data/ActionHistory';
-import { makeDecision, canKill } from '../behavior/DecisionEngine';
+import type { TrailStore } from '../data/TrailStore';
+import type { World } from './World';
+import type { EntityId, IdGenerator } from '../utils/id';
+import type { Vector2 } from '../utils/vector';
+import { getSpeciesIdGen, animalToSpatialEntity, corpseToSpatialEntity } from './World';
+import { getSeasonalModifiers } from './Seasons';
+import { isSpeciationTick, runSpeciation } from './Speciation';
+import { makeDecision, calculateDamage } from '../behavior/DecisionEngine';
+import { createPerception } from '../behavior/Perception';
 import { createCorpseFromAnimal, decayCorpse, isCorpseExhausted } from '../entities/Corpse';
-import { applyHungerDecay, applyMovementCost, updateAnimalState, createAnimal } from '../entities/Animal';
-import { createOffspringAttributes } from '../genetics/inheritance';
+import { applyHungerDecay, applyMovementCost, applyDamage, applyHealthChange, applyStaminaChange, getEffectiveSpeed, getTerrainSpeedMultiplier, updateAnimalState, createAnimal, isReproductionReady } from '../entities/Animal';
+import { createOffspringAttributes, createSexualOffspringAttributes } from '../genetics/inheritance';
+import { isInMatingRange } from '../behavior/MateFinder';
 import { distance, normalize, subtract } from '../utils/vector';
 import { createIdGenerator } from '../utils/id';
 import { clamp } from '../utils/math';
 import { formatActionDetails } from '../data/ActionHistory';
 
+export interface GrazingRecord {
+  // Centre of the grazed vegetation tile
+  position: Vector2;
+  biomass: number;
+}
+
 export interface TickResult {
   tick: number;
   decisions: Map<string, Action>;
   deaths: string[];
+  // Why each animal in deaths died, in the same order
+  deathRecords: DeathRecord[];
   births: Animal[];
   corpsesCreated: Corpse[];
   corpsesRemoved: string[];
+  grazing: GrazingRecord[];
+  // Sub-species founded at the end of the tick
+  speciations: Subspecies[];
 }
 
 export interface TickContext {
   entityManager: EntityManager;
   vegetationGrid: VegetationGrid;
+  terrainGrid: TerrainGrid;
   animalSpatialIndex: SpatialIndex<Animal & SpatialEntity>;
+  corpseSpatialIndex: SpatialIndex<Corpse & SpatialEntity>;
   config: SimulationConfig;
   rng: RandomGenerator;
   currentTick: number;
-  actionHistory?: ActionHistory;
+  // Only record() is used, so any action sink will do
+  actionHistory?: Pick<ActionHistory, 'record'>;
+  // Receives every position an animal moves to
+  trailStore?: Pick<TrailStore, 'record'>;
   // Persistent ID generators for offspring (to avoid ID collisions across ticks)
-  deerIdGen: () => string;
-  wolfIdGen: () => string;
+  speciesIdGens: Record<Species, IdGenerator>;
   corpseIdGen: () => string;
+  // Sub-species registry, appended to when a population splits
+  subspecies: Subspecies[];
+}
+
+/**
+ * Build a tick context from a world's current state.
+ */
+export function createTickContext(
+  world: World,
+  actionHistory?: Pick<ActionHistory, 'record'>,
+  trailStore?: Pick<TrailStore, 'record'>
+): TickContext {
+  return {
+    entityManager: world.entityManager,
+    vegetationGrid: world.vegetationGrid,
+    terrainGrid: world.terrainGrid,
+    animalSpatialIndex: world.animalSpatialIndex,
+    corpseSpatialIndex: world.corpseSpatialIndex,
+    config: world.config,
+    rng: world.rng,
+    currentTick: world.currentTick,
+    actionHistory,
+    trailStore,
+    speciesIdGens: world.speciesIdGens,
+    corpseIdGen: world.corpseIdGen,
+    subspecies: world.subspecies,
+  };
 }
 
 /**
@@ -51,24 +103,18 @@ export function sortByAlertRange(animals: Animal[]): Animal[] {
  * Each animal decides what action to take based on its current state.
  */
 export function executeDecisionPhase(context: TickContext): Map<string, Action> {
-  const { entityManager, vegetationGrid, config, rng } = context;
+  const { entityManager, vegetationGrid, animalSpatialIndex, corpseSpatialIndex, config, rng } = context;
   const decisions = new Map<string, Action>();
 
   // Get living animals sorted by perception (more perceptive act first)
   const livingAnimals = sortByAlertRange(entityManager.getLivingAnimals());
-  const corpses = entityManager.getAllCorpses();
+  const perception = createPerception(entityManager, animalSpatialIndex, corpseSpatialIndex);
 
   for (const animal of livingAnimals) {
-    // Get nearby animals for decision making
-    const nearbyAnimals = entityManager.getLivingAnimals().filter(
-      a => a.id !== animal.id &&
-      distance(animal.state.position, a.state.position) <= animal.derivedStats.alertRange
-    );
-
     const action = makeDecision({
       animal,
-      nearbyAnimals,
-      corpses,
+      nearbyAnimals: perception.getNearbyAnimals(animal),
+      corpses: perception.getNearbyCorpses(animal),
       vegetationGrid,
       config,
       rng,
@@ -81,19 +127,60 @@ export function executeDecisionPhase(context: TickContext): Map<string, Action>
 }
 
 /**
- * Convert animal to spatial entity for indexing.
+ * Record how and when an animal died for the mortality log.
  */
-function animalToSpatialEntity(animal: Animal): Animal & SpatialEntity {
+function createDeathRecord(
+  animal: Animal,
+  cause: DeathCause,
+  tick: number,
+  killerId: EntityId | null
+): DeathRecord {
   return {
-    ...animal,
-    position: animal.state.position,
-    size: animal.baseAttributes.size,
+    animalId: animal.id,
+    species: animal.species,
+    generation: animal.generation,
+    tick,
+    age: animal.state.age,
+    cause,
+    killerId,
   };
 }
 
 /**
- * Clamp position to world bounds.
+ * Move an animal toward a target, slowed by the terrain it stands on.
+ * Impassable destinations are avoided by sliding along one axis, or by
+ * staying put. Cost is the distance travelled, weighted up when wading.
  */
+function moveAcrossTerrain(
+  animal: Animal,
+  target: { x: number; y: number },
+  terrainGrid: TerrainGrid,
+  config: SimulationConfig
+): { position: { x: number; y: number }; cost: number } {
+  const from = animal.state.position;
+  const speedHere = getTerrainSpeedMultiplier(animal.species, terrainGrid.getAt(from.x, from.y), config);
+  // Animals stranded on impassable terrain (e.g. a spawned offspring) move freely to get off it
+  const stranded = speedHere === 0;
+  const scale = stranded ? 1 : speedHere;
+
+  const clamped = clampToWorld(target, config);
+  const scaled = {
+    x: from.x + (clamped.x - from.x) * scale,
+    y: from.y + (clamped.y - from.y) * scale,
+  };
+
+  const candidates = [scaled, { x: scaled.x, y: from.y }, { x: from.x, y: scaled.y }];
+  for (const position of candidates) {
+    const terrain = terrainGrid.getAt(position.x, position.y);
+    if (stranded || getTerrainSpeedMultiplier(animal.species, terrain, config) > 0) {
+      const costMultiplier = terrain === 'water' ? config.terrain.WATER_MOVE_COST : 1;
+      return { position, cost: distance(from, position) * costMultiplier };
+    }
+  }
+
+  return { position: from, cost: 0 };
+}
+
 function clampToWorld(pos: { x: number; y: number }, config: SimulationConfig): { x: number; y: number } {
   return {
     x: clamp(pos.x, 0, config.world.WORLD_WIDTH),
@@ -108,28 +195,35 @@ function clampToWorld(pos: { x: number; y: number }, config: SimulationConfig):
 export function executeExecutionPhase(
   context: TickContext,
   decisions: Map<string, Action>
-): Omit<TickResult, 'tick' | 'decisions'> {
-  const { entityManager, vegetationGrid, animalSpatialIndex, config, rng, currentTick, actionHistory, deerIdGen, wolfIdGen, corpseIdGen } = context;
+): Omit<TickResult, 'tick' | 'decisions' | 'speciations'> {
+  const { entityManager, vegetationGrid, terrainGrid, animalSpatialIndex, corpseSpatialIndex, config, rng, currentTick, actionHistory, trailStore, speciesIdGens, corpseIdGen } = context;
 
   const deaths: string[] = [];
+  const deathRecords: DeathRecord[] = [];
   const births: Animal[] = [];
   const corpsesCreated: Corpse[] = [];
   const corpsesRemoved: string[] = [];
+  const grazing: GrazingRecord[] = [];
+  const seasonal = getSeasonalModifiers(currentTick, config.seasons);
 
   // Get animals sorted by alert range for execution order
   const animals = sortByAlertRange(entityManager.getLivingAnimals());
 
   // Process each animal's decision
-  for (const animal of animals) {
-    const action = decisions.get(animal.id);
+  for (const sortedAnimal of animals) {
+    const action = decisions.get(sortedAnimal.id);
     if (!action) continue;
 
+    // Re-read state: an earlier action this tick may have changed this animal (e.g. as a mate)
+    const animal = entityManager.getAnimal(sortedAnimal.id) ?? sortedAnimal;
+
     // Skip if animal died this tick
     if (deaths.includes(animal.id)) continue;
 
     switch (action.type) {
       case 'DIE': {
         deaths.push(animal.id);
+        deathRecords.push(createDeathRecord(animal, action.details as DeathCause, currentTick, null));
         const updatedAnimal = updateAnimalState(animal, { isDead: true });
         entityManager.updateAnimal(animal.id, updatedAnimal);
         animalSpatialIndex.remove(animal.id);
@@ -137,38 +231,42 @@ export function executeExecutionPhase(
         // Create corpse
         const corpse = createCorpseFromAnimal(updatedAnimal, config, corpseIdGen);
         entityManager.addCorpse(corpse);
+        corpseSpatialIndex.insert(corpseToSpatialEntity(corpse));
         corpsesCreated.push(corpse);
         break;
       }
 
       case 'FLEE': {
         if (action.targetPosition) {
-          const newPos = clampToWorld(action.targetPosition, config);
-          const dist = distance(animal.state.position, newPos);
-          let updatedAnimal = updateAnimalState(animal, { position: newPos });
-          updatedAnimal = applyMovementCost(updatedAnimal, dist, true, config);
-          updatedAnimal = applyHungerDecay(updatedAnimal);
+          const move = moveAcrossTerrain(animal, action.targetPosition, terrainGrid, config);
+          let updatedAnimal = updateAnimalState(animal, { position: move.position });
+          updatedAnimal = applyMovementCost(updatedAnimal, move.cost, true, config);
+          updatedAnimal = applyHungerDecay(updatedAnimal, seasonal.metabolism);
           entityManager.updateAnimal(animal.id, updatedAnimal);
           animalSpatialIndex.update(animalToSpatialEntity(updatedAnimal));
+          trailStore?.record(animal.id, move.position);
         }
         break;
       }
 
       case 'EAT': {
         if (action.details === 'vegetation') {
-          // Eat vegetation
+          // Graze only as much biomass as the animal has room for
           const gridPos = vegetationGrid.worldToGrid(
             animal.state.position.x,
             animal.state.position.y
           );
-          if (vegetationGrid.has(gridPos.x, gridPos.y)) {
-            vegetationGrid.remove(gridPos.x, gridPos.y);
+          const foodPerBiomass = config.vegetation.VEGETATION_FOOD_VALUE * seasonal.vegetation;
+          const appetite = (config.entities.MAX_HUNGER - animal.state.hunger) / foodPerBiomass;
+          const eaten = vegetationGrid.graze(gridPos.x, gridPos.y, appetite);
+          if (eaten > 0) {
+            grazing.push({ position: vegetationGrid.gridToWorld(gridPos.x, gridPos.y), biomass: eaten });
             const newHunger = Math.min(
               config.entities.MAX_HUNGER,
-              animal.state.hunger + config.vegetation.VEGETATION_FOOD_VALUE
+              animal.state.hunger + eaten * foodPerBiomass
             );
             let updatedAnimal = updateAnimalState(animal, { hunger: newHunger });
-            updatedAnimal = applyHungerDecay(updatedAnimal);
+            updatedAnimal = applyHungerDecay(updatedAnimal, seasonal.metabolism);
             entityManager.updateAnimal(animal.id, updatedAnimal);
           }
         } else if (action.details === 'corpse' && action.targetId) {
@@ -181,13 +279,14 @@ export function executeExecutionPhase(
               animal.state.hunger + amountToEat
             );
             let updatedAnimal = updateAnimalState(animal, { hunger: newHunger });
-            updatedAnimal = applyHungerDecay(updatedAnimal);
+            updatedAnimal = applyHungerDecay(updatedAnimal, seasonal.metabolism);
             entityManager.updateAnimal(animal.id, updatedAnimal);
 
             // Update corpse
             const updatedCorpse = { ...corpse, foodValue: corpse.foodValue - amountToEat };
             if (updatedCorpse.foodValue <= 0) {
               entityManager.removeCorpse(corpse.id);
+              corpseSpatialIndex.remove(corpse.id);
               corpsesRemoved.push(corpse.id);
             }
           }
@@ -195,22 +294,24 @@ export function executeExecutionPhase(
         break;
       }
 
-      case 'MOVE_TO_FOOD': {
+      case 'MOVE_TO_FOOD':
+      case 'MOVE_TO_MATE': {
         if (action.targetPosition) {
           const direction = normalize(subtract(action.targetPosition, animal.state.position));
           const moveDistance = Math.min(
-            animal.derivedStats.speed,
+            getEffectiveSpeed(animal, config),
             distance(animal.state.position, action.targetPosition)
           );
-          const newPos = clampToWorld({
+          const move = moveAcrossTerrain(animal, {
             x: animal.state.position.x + direction.x * moveDistance,
             y: animal.state.position.y + direction.y * moveDistance,
-          }, config);
-          let updatedAnimal = updateAnimalState(animal, { position: newPos });
-          updatedAnimal = applyMovementCost(updatedAnimal, moveDistance, false, config);
-          updatedAnimal = applyHungerDecay(updatedAnimal);
+          }, terrainGrid, config);
+          let updatedAnimal = updateAnimalState(animal, { position: move.position });
+          updatedAnimal = applyMovementCost(updatedAnimal, move.cost, false, config);
+          updatedAnimal = applyHungerDecay(updatedAnimal, seasonal.metabolism);
           entityManager.updateAnimal(animal.id, updatedAnimal);
           animalSpatialIndex.update(animalToSpatialEntity(updatedAnimal));
+          trailStore?.record(animal.id, move.position);
         }
         break;
       }
@@ -218,23 +319,37 @@ export function executeExecutionPhase(
       case 'ATTACK': {
         if (action.targetId) {
           const prey = entityManager.getAnimal(action.targetId);
-          if (prey && !prey.state.isDead && canKill(animal, prey)) {
+          if (prey && !prey.state.isDead) {
+            const woundedPrey = applyDamage(prey, calculateDamage(animal, prey, config));
+
+            if (woundedPrey.state.health > 0) {
+              // Prey survives the hit, wounded and slower
+              entityManager.updateAnimal(prey.id, woundedPrey);
+              animalSpatialIndex.update(animalToSpatialEntity(woundedPrey));
+
+              const updatedAnimal = applyHungerDecay(animal, seasonal.metabolism);
+              entityManager.updateAnimal(animal.id, updatedAnimal);
+              break;
+            }
+
             // Kill prey
             deaths.push(prey.id);
-            const deadPrey = updateAnimalState(prey, { isDead: true });
+            deathRecords.push(createDeathRecord(prey, 'predation', currentTick, animal.id));
+            const deadPrey = updateAnimalState(woundedPrey, { isDead: true });
             entityManager.updateAnimal(prey.id, deadPrey);
             animalSpatialIndex.remove(prey.id);
 
             // Create corpse
             const corpse = createCorpseFromAnimal(deadPrey, config, corpseIdGen);
             entityManager.addCorpse(corpse);
+            corpseSpatialIndex.insert(corpseToSpatialEntity(corpse));
             corpsesCreated.push(corpse);
 
             // Predator gains some hunger
             const foodGain = prey.baseAttributes.size * 10;
             const newHunger = Math.min(config.entities.MAX_HUNGER, animal.state.hunger + foodGain);
             let updatedAnimal = updateAnimalState(animal, { hunger: newHunger });
-            updatedAnimal = applyHungerDecay(updatedAnimal);
+            updatedAnimal = applyHungerDecay(updatedAnimal, seasonal.metabolism);
             entityManager.updateAnimal(animal.id, updatedAnimal);
           }
         }
@@ -242,10 +357,27 @@ export function executeExecutionPhase(
       }
 
       case 'REPRODUCE': {
-        // Asexual reproduction - no mate required
-        const offspringAttrs = createOffspringAttributes(animal, rng, config);
-        const litterSize = animal.lifecycleAttributes.litterSize;
-        const idGen = animal.species === 'deer' ? deerIdGen : wolfIdGen;
+        // Sexual reproduction names a mate; without one, reproduce asexually
+        const mate = action.targetId ? entityManager.getAnimal(action.targetId) : undefined;
+        if (action.targetId) {
+          // Either partner may have already mated this tick
+          if (
+            !mate || mate.state.isDead ||
+            !isReproductionReady(animal, config) || !isReproductionReady(mate, config) ||
+            !isInMatingRange(animal, mate)
+          ) {
+            break;
+          }
+        }
+
+        const offspringAttrs = mate
+          ? createSexualOffspringAttributes(animal, mate, rng, config)
+          : createOffspringAttributes(animal, rng, config);
+        const litterSize = mate
+          ? Math.round((animal.lifecycleAttributes.litterSize + mate.lifecycleAttributes.litterSize) / 2)
+          : animal.lifecycleAttributes.litterSize;
+        const generation = Math.max(animal.generation, mate?.generation ?? 0) + 1;
+        const idGen = getSpeciesIdGen(speciesIdGens, animal.species);
 
         for (let i = 0; i < litterSize; i++) {
           // Random offset from parent
@@ -264,7 +396,9 @@ export function executeExecutionPhase(
               behavioralAttributes: offspringAttrs.behavioralAttributes,
               lifecycleAttributes: offspringAttrs.lifecycleAttributes,
               parentId: animal.id,
-              generation: animal.generation + 1,
+              secondParentId: mate?.id ?? null,
+              generation,
+              subspecies: animal.subspecies,
               initialHunger: config.entities.INITIAL_HUNGER_OFFSPRING,
             },
             config,
@@ -276,35 +410,44 @@ export function executeExecutionPhase(
           births.push(offspring);
         }
 
-        // Apply reproduction cost to parent (cost scales with litter size)
-        const hungerCost = config.reproduction.REPRODUCTION_COST * litterSize * config.entities.MAX_HUNGER;
+        // Apply reproduction cost to parent (cost scales with litter size, split between mates)
+        const totalCost = config.reproduction.REPRODUCTION_COST * litterSize * config.entities.MAX_HUNGER;
+        const hungerCost = mate ? totalCost / 2 : totalCost;
         const newHunger = Math.max(0, animal.state.hunger - hungerCost);
 
+        if (mate) {
+          const updatedMate = updateAnimalState(mate, {
+            hunger: Math.max(0, mate.state.hunger - hungerCost),
+            ticksSinceLastReproduction: 0,
+          });
+          entityManager.updateAnimal(mate.id, updatedMate);
+        }
+
         let updatedParent = updateAnimalState(animal, {
           hunger: newHunger,
           ticksSinceLastReproduction: 0,
         });
-        updatedParent = applyHungerDecay(updatedParent);
+        updatedParent = applyHungerDecay(updatedParent, seasonal.metabolism);
         entityManager.updateAnimal(animal.id, updatedParent);
         break;
       }
 
       case 'DRIFT': {
         if (action.targetPosition) {
-          const newPos = clampToWorld(action.targetPosition, config);
-          const dist = distance(animal.state.position, newPos);
-          let updatedAnimal = updateAnimalState(animal, { position: newPos });
-          updatedAnimal = applyMovementCost(updatedAnimal, dist, false, config);
-          updatedAnimal = applyHungerDecay(updatedAnimal);
+          const move = moveAcrossTerrain(animal, action.targetPosition, terrainGrid, config);
+          let updatedAnimal = updateAnimalState(animal, { position: move.position });
+          updatedAnimal = applyMovementCost(updatedAnimal, move.cost, false, config);
+          updatedAnimal = applyHungerDecay(updatedAnimal, seasonal.metabolism);
           entityManager.updateAnimal(animal.id, updatedAnimal);
           animalSpatialIndex.update(animalToSpatialEntity(updatedAnimal));
+          trailStore?.record(animal.id, move.position);
         }
         break;
       }
 
       case 'STAY': {
         // Just apply hunger decay
-        let updatedAnimal = applyHungerDecay(animal);
+        let updatedAnimal = applyHungerDecay(animal, seasonal.metabolism);
         entityManager.updateAnimal(animal.id, updatedAnimal);
         break;
       }
@@ -317,10 +460,11 @@ export function executeExecutionPhase(
     }
   }
 
-  // Age all living animals and update reproduction cooldown
+  // Age all living animals, update reproduction cooldown, starve or heal, and tire or rest
   for (const animal of entityManager.getLivingAnimals()) {
     if (!deaths.includes(animal.id)) {
-      const updatedAnimal = updateAnimalState(animal, {
+      const rested = applyStaminaChange(animal, decisions.get(animal.id)?.type, config);
+      const updatedAnimal = updateAnimalState(applyHealthChange(rested, config), {
         age: animal.state.age + 1,
         ticksSinceLastReproduction: animal.state.ticksSinceLastReproduction + 1,
       });
@@ -333,20 +477,28 @@ export function executeExecutionPhase(
     const decayed = decayCorpse(corpse);
     if (isCorpseExhausted(decayed)) {
       entityManager.removeCorpse(corpse.id);
+      corpseSpatialIndex.remove(corpse.id);
       if (!corpsesRemoved.includes(corpse.id)) {
         corpsesRemoved.push(corpse.id);
       }
     }
   }
 
-  // Spread vegetation
-  vegetationGrid.spread(rng, config.vegetation.VEGETATION_SPREAD_RATE);
+  // Regrow and spread vegetation, faster in summer and slower in winter
+  vegetationGrid.grow(config.vegetation.VEGETATION_GROWTH_RATE * seasonal.vegetation);
+  vegetationGrid.spread(
+    rng,
+    Math.min(1, config.vegetation.VEGETATION_SPREAD_RATE * seasonal.vegetation),
+    config.vegetation.VEGETATION_SEED_BIOMASS
+  );
 
   return {
     deaths,
+    deathRecords,
     births,
     corpsesCreated,
     corpsesRemoved,
+    grazing,
   };
 }
 
@@ -360,9 +512,15 @@ export function runTick(context: TickContext): TickResult {
   // Phase 2: Execution
   const executionResult = executeExecutionPhase(context, decisions);
 
+  // Phase 3: Speciation (every SPECIATION_CHECK_INTERVAL ticks)
+  const speciations = isSpeciationTick(context.currentTick, context.config)
+    ? runSpeciation(context.entityManager, context.subspecies, context.config, context.currentTick)
+    : [];
+
   return {
     tick: context.currentTick,
     decisions,
     ...executionResult,
+    speciations,
   };
 }
@@ -1,28 +1,40 @@
-import type { Animal, Corpse, Species } from '../entities/types';
+import type { Animal, AnimalEdit, Corpse, Species, Subspecies, SubspeciesId } from '../entities/types';
 import type { SimulationConfig } from '../config/types';
 import type { EntityManager } from '../entities/EntityManager';
 import type { VegetationGrid } from '../spatial/VegetationGrid';
+import type { TerrainGrid } from '../spatial/TerrainGrid';
+import type { SeasonState } from './Seasons';
 import type { SpatialIndex, SpatialEntity } from '../spatial/SpatialIndex';
 import type { RandomGenerator } from './SeededRandom';
-import type { EntityId } from '../utils/id';
+import type { EntityId, IdGenerator } from '../utils/id';
+import type { AnimalEditResult, CreateAnimalOptions } from '../entities/Animal';
+import type { Scenario } from './Scenario';
 import { createEntityManager } from '../entities/EntityManager';
 import { createVegetationGrid, initializeVegetation } from '../spatial/VegetationGrid';
+import { createTerrainGrid, generateTerrain, getVegetationCapacity } from '../spatial/TerrainGrid';
 import { createSpatialIndex } from '../spatial/SpatialIndex';
 import { createSeededRandom } from './SeededRandom';
-import { createAnimal } from '../entities/Animal';
+import { applyAnimalEdit, createAnimal, getTerrainSpeedMultiplier } from '../entities/Animal';
 import { createIdGenerator } from '../utils/id';
+import { getSpeciesIds } from '../species/registry';
+import { getSeasonState } from './Seasons';
+
+const TERRAIN_SEED_SALT = 0x7e4a11;
 
 export interface World {
   entityManager: EntityManager;
   vegetationGrid: VegetationGrid;
+  terrainGrid: TerrainGrid;
   animalSpatialIndex: SpatialIndex<Animal & SpatialEntity>;
+  corpseSpatialIndex: SpatialIndex<Corpse & SpatialEntity>;
   config: SimulationConfig;
   rng: RandomGenerator;
   currentTick: number;
-  // Persistent ID generators for offspring
-  deerIdGen: () => string;
-  wolfIdGen: () => string;
-  corpseIdGen: () => string;
+  // Persistent ID generators for offspring, one per registered species
+  speciesIdGens: Record<Species, IdGenerator>;
+  corpseIdGen: IdGenerator;
+  // Sub-species that split off, in founding order
+  subspecies: Subspecies[];
 
   // Accessors
   getAnimal(id: EntityId): Animal | undefined;
@@ -32,42 +44,63 @@ export interface World {
   getAnimalsBySpecies(species: Species): Animal[];
   getAllCorpses(): Corpse[];
   getVegetationCount(): number;
+  getSeason(): SeasonState;
 
   // Population counts
-  getDeerCount(): number;
-  getWolfCount(): number;
+  getSpeciesCount(species: Species): number;
+  getSpeciesCounts(): Record<Species, number>;
+  getSubspeciesCounts(): Record<SubspeciesId, number>;
   getTotalAnimalCount(): number;
 }
 
 export function createWorld(config: SimulationConfig, seed: number): World {
   const rng = createSeededRandom(seed);
   const entityManager = createEntityManager();
-  const vegetationGrid = createVegetationGrid(
+  const terrainGrid = createTerrainGrid(
     config.world.WORLD_WIDTH,
     config.world.WORLD_HEIGHT,
     config.world.VEGETATION_TILE_SIZE
   );
+  // Terrain draws from its own stream so it never shifts the simulation's randomness
+  generateTerrain(terrainGrid, config.terrain, createSeededRandom(seed ^ TERRAIN_SEED_SALT));
+  // Capacity follows the terrain and the live config
+  const vegetationGrid = createVegetationGrid(
+    config.world.WORLD_WIDTH,
+    config.world.WORLD_HEIGHT,
+    config.world.VEGETATION_TILE_SIZE,
+    (x, y) => getVegetationCapacity(terrainGrid.get(x, y), world.config.vegetation)
+  );
+
   const animalSpatialIndex = createSpatialIndex<Animal & SpatialEntity>(
     config.performance.SPATIAL_INDEX_BUCKET_SIZE,
     config.world.WORLD_WIDTH,
     config.world.WORLD_HEIGHT
   );
+  const corpseSpatialIndex = createSpatialIndex<Corpse & SpatialEntity>(
+    config.performance.SPATIAL_INDEX_BUCKET_SIZE,
+    config.world.WORLD_WIDTH,
+    config.world.WORLD_HEIGHT
+  );
 
   // Create persistent ID generators (shared across initial population and offspring)
-  const deerIdGen = createIdGenerator('deer');
-  const wolfIdGen = createIdGenerator('wolf');
+  const speciesIdGens: Record<Species, IdGenerator> = {};
+  for (const species of getSpeciesIds(config)) {
+    speciesIdGens[species] = createIdGenerator(species);
+  }
   const corpseIdGen = createIdGenerator('corpse');
 
   const world: World = {
     entityManager,
     vegetationGrid,
+    terrainGrid,
     animalSpatialIndex,
+    corpseSpatialIndex,
     config,
     rng,
     currentTick: 0,
-    deerIdGen,
-    wolfIdGen,
+    speciesIdGens,
     corpseIdGen,
+    subspecies: [],
 
     getAnimal(id: EntityId): Animal | undefined {
       return entityManager.getAnimal(id);
@@ -97,12 +130,39 @@ export function createWorld(config: SimulationConfig, seed: number): World {
       return vegetationGrid.getCount();
     },
 
-    getDeerCount(): number {
-      return entityManager.getAnimalsBySpecies('deer').filter(a => !a.state.isDead).length;
+    getSeason(): SeasonState {
+      return getSeasonState(this.currentTick, this.config.seasons);
+    },
+
+    getSpeciesCount(species: Species): number {
+      return entityManager.getAnimalsBySpecies(species).filter(a => !a.state.isDead).length;
     },
 
-    getWolfCount(): number {
-      return entityManager.getAnimalsBySpecies('wolf').filter(a => !a.state.isDead).length;
+    getSpeciesCounts(): Record<Species, number> {
+      // Registered species first (in registration order), even when extinct
+      const counts: Record<Species, number> = {};
+      for (const species of getSpeciesIds(this.config)) {
+        counts[species] = 0;
+      }
+      for (const animal of entityManager.getLivingAnimals()) {
+        counts[animal.species] = (counts[animal.species] ?? 0) + 1;
+      }
+      return counts;
+    },
+
+    getSubspeciesCounts(): Record<SubspeciesId, number> {
+      // Founding populations first, then sub-species in founding order, even when extinct
+      const counts: Record<SubspeciesId, number> = {};
+      for (const species of getSpeciesIds(this.config)) {
+        counts[species] = 0;
+      }
+      for (const subspecies of this.subspecies) {
+        counts[subspecies.id] = 0;
+      }
+      for (const animal of entityManager.getLivingAnimals()) {
+        counts[animal.subspecies] = (counts[animal.subspecies] ?? 0) + 1;
+      }
+      return counts;
     },
 
     getTotalAnimalCount(): number {
@@ -117,7 +177,8 @@ function getRandomPosition(
   config: SimulationConfig,
   rng: RandomGenerator,
   existingAnimals: Animal[],
-  minDistance: number
+  minDistance: number,
+  isPassable: (x: number, y: number) => boolean
 ): { x: number; y: number } {
   const maxAttempts = 100;
 
@@ -125,6 +186,10 @@ function getRandomPosition(
     const x = rng.next() * config.world.WORLD_WIDTH;
     const y = rng.next() * config.world.WORLD_HEIGHT;
 
+    if (!isPassable(x, y)) {
+      continue;
+    }
+
     // Check distance from existing animals
     let tooClose = false;
     for (const animal of existingAnimals) {
@@ -142,14 +207,32 @@ function getRandomPosition(
     }
   }
 
-  // Fallback: return random position even if too close
-  return {
-    x: rng.next() * config.world.WORLD_WIDTH,
-    y: rng.next() * config.world.WORLD_HEIGHT,
-  };
+  // Fallback: return a passable position even if too close
+  let fallback = { x: 0, y: 0 };
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    fallback = {
+      x: rng.next() * config.world.WORLD_WIDTH,
+      y: rng.next() * config.world.WORLD_HEIGHT,
+    };
+    if (isPassable(fallback.x, fallback.y)) {
+      break;
+    }
+  }
+  return fallback;
 }
 
-function animalToSpatialEntity(animal: Animal): Animal & SpatialEntity {
+/**
+ * ID generator for a species, created on first use for species that were
+ * registered after the world was built.
+ */
+export function getSpeciesIdGen(idGens: Record<Species, IdGenerator>, species: Species): IdGenerator {
+  if (!idGens[species]) {
+    idGens[species] = createIdGenerator(species);
+  }
+  return idGens[species];
+}
+
+export function animalToSpatialEntity(animal: Animal): Animal & SpatialEntity {
   return {
     ...animal,
     position: animal.state.position,
@@ -157,51 +240,86 @@ function animalToSpatialEntity(animal: Animal): Animal & SpatialEntity {
   };
 }
 
-export function initializePopulation(world: World): void {
-  const { config, rng, entityManager, vegetationGrid, animalSpatialIndex, deerIdGen, wolfIdGen } = world;
+export function corpseToSpatialEntity(corpse: Corpse): Corpse & SpatialEntity {
+  return {
+    ...corpse,
+    size: corpse.sourceSize,
+  };
+}
 
-  // Initialize vegetation
-  initializeVegetation(vegetationGrid, config.vegetation.INITIAL_VEGETATION_DENSITY, rng);
+/**
+ * Add a new animal to the world at a chosen position.
+ */
+export function spawnAnimal(world: World, options: CreateAnimalOptions): Animal {
+  const animal = createAnimal(options, world.config, getSpeciesIdGen(world.speciesIdGens, options.species));
+  world.entityManager.addAnimal(animal);
+  world.animalSpatialIndex.insert(animalToSpatialEntity(animal));
+  return animal;
+}
 
-  const allAnimals: Animal[] = [];
+/**
+ * Apply hand edits to a living animal in place, keeping the spatial index in step.
+ */
+export function editAnimal(world: World, id: EntityId, edit: AnimalEdit): AnimalEditResult {
+  const animal = world.getAnimal(id);
+  if (!animal || animal.state.isDead) {
+    return { success: false, errors: [`Animal ${id} is not alive`] };
+  }
 
-  // Create deer
-  for (let i = 0; i < config.world.INITIAL_DEER_COUNT; i++) {
-    const position = getRandomPosition(
-      config,
-      rng,
-      allAnimals,
-      config.world.INITIAL_SPAWN_MIN_DISTANCE
-    );
-
-    const deer = createAnimal(
-      { species: 'deer', position },
-      config,
-      deerIdGen
-    );
-
-    allAnimals.push(deer);
-    entityManager.addAnimal(deer);
-    animalSpatialIndex.insert(animalToSpatialEntity(deer));
+  const result = applyAnimalEdit(animal, edit, world.config);
+  if (result.animal) {
+    world.entityManager.updateAnimal(id, result.animal);
+    world.animalSpatialIndex.update(animalToSpatialEntity(result.animal));
   }
+  return result;
+}
 
-  // Create wolves
-  for (let i = 0; i < config.world.INITIAL_WOLF_COUNT; i++) {
-    const position = getRandomPosition(
-      config,
-      rng,
-      allAnimals,
-      config.world.INITIAL_SPAWN_MIN_DISTANCE
-    );
-
-    const wolf = createAnimal(
-      { species: 'wolf', position },
-      config,
-      wolfIdGen
-    );
-
-    allAnimals.push(wolf);
-    entityManager.addAnimal(wolf);
-    animalSpatialIndex.insert(animalToSpatialEntity(wolf));
+/**
+ * Populate a new world: at random from the config, or exactly as a scenario
+ * lays it out.
+ */
+export function initializePopulation(world: World, scenario?: Scenario): void {
+  const { config, rng, entityManager, vegetationGrid, terrainGrid, animalSpatialIndex } = world;
+
+  if (scenario) {
+    for (const [x, y, biomass] of scenario.vegetation) {
+      vegetationGrid.setBiomass(x, y, biomass);
+    }
+    for (const animal of scenario.animals) {
+      spawnAnimal(world, animal);
+    }
+    return;
+  }
+
+  // Initialize vegetation
+  initializeVegetation(
+    vegetationGrid,
+    config.vegetation.INITIAL_VEGETATION_DENSITY,
+    rng
+  );
+
+  const allAnimals: Animal[] = [];
+
+  // Spawn each species in registration order
+  for (const species of getSpeciesIds(config)) {
+    const idGen = getSpeciesIdGen(world.speciesIdGens, species);
+    const isPassable = (x: number, y: number): boolean =>
+      getTerrainSpeedMultiplier(species, terrainGrid.getAt(x, y), config) > 0;
+
+    for (let i = 0; i < config.species[species].initialCount; i++) {
+      const position = getRandomPosition(
+        config,
+        rng,
+        allAnimals,
+        config.world.INITIAL_SPAWN_MIN_DISTANCE,
+        isPassable
+      );
+
+      const animal = createAnimal({ species, position }, config, idGen);
+
+      allAnimals.push(animal);
+      entityManager.addAnimal(animal);
+      animalSpatialIndex.insert(animalToSpatialEntity(animal));
+    }
   }
 }
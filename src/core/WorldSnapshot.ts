@@ -0,0 +1,283 @@
+import type { Animal, Corpse, Species, Subspecies } from '../entities/types';
+import type { SimulationConfig } from '../config/types';
+import type { RandomState } from './SeededRandom';
+import type { World } from './World';
+import { createWorld, animalToSpatialEntity, corpseToSpatialEntity } from './World';
+import { createIdGenerator } from '../utils/id';
+import type { ConfigPatch } from '../config/validation';
+import { mergeWithDefaults, toSpeciesPatch } from '../config/validation';
+import { migrateInitialCounts } from '../config/persistence';
+import { calculateAllDerivedStats } from '../genetics/derived';
+import { downloadText } from '../utils/download';
+
+export const SNAPSHOT_VERSION = '1.4';
+
+export interface WorldSnapshot {
+  version: string;
+  seed: number;
+  currentTick: number;
+  config: SimulationConfig;
+  rng: RandomState;
+  idCounters: {
+    species: Record<Species, number>;
+    corpse: number;
+  };
+  // Grid positions and biomass in insertion order (spread order depends on it)
+  vegetation: Array<[number, number, number]>;
+  // Encoded terrain tiles, see TerrainGrid.encode
+  terrain: string;
+  // Entities in insertion order (decision order depends on it)
+  animals: Animal[];
+  corpses: Corpse[];
+  subspecies: Subspecies[];
+}
+
+export interface SnapshotFile {
+  version: string;
+  name: string;
+  snapshot: WorldSnapshot;
+  exportedAt: string;
+}
+
+export interface SnapshotImportResult {
+  success: boolean;
+  world?: World;
+  warnings: string[];
+  errors: string[];
+  name?: string;
+}
+
+function deepCopy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Capture the complete state of a world, including RNG state and ID counters,
+ * so that a restored world continues bit-identically.
+ */
+export function serializeWorld(world: World): WorldSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    seed: world.rng.getSeed(),
+    currentTick: world.currentTick,
+    config: deepCopy(world.config),
+    rng: world.rng.getState(),
+    idCounters: {
+      species: Object.fromEntries(
+        Object.entries(world.speciesIdGens).map(([species, idGen]) => [species, idGen.getCount()])
+      ),
+      corpse: world.corpseIdGen.getCount(),
+    },
+    vegetation: world.vegetationGrid.getAllPositions().map(
+      (p) => [p.x, p.y, world.vegetationGrid.getBiomass(p.x, p.y)] as [number, number, number]
+    ),
+    terrain: world.terrainGrid.encode(),
+    animals: deepCopy(world.getAllAnimals()),
+    corpses: deepCopy(world.getAllCorpses()),
+    subspecies: deepCopy(world.subspecies),
+  };
+}
+
+/**
+ * Rebuild a world from a snapshot. The snapshot is copied, so the same
+ * snapshot can be restored more than once.
+ */
+export function deserializeWorld(snapshot: WorldSnapshot): World {
+  const data = deepCopy(snapshot);
+  const world = createWorld(data.config, data.seed);
+
+  world.currentTick = data.currentTick;
+  world.rng.setState(data.rng);
+  for (const [species, count] of Object.entries(data.idCounters.species)) {
+    world.speciesIdGens[species] = createIdGenerator(species, count);
+  }
+  world.corpseIdGen = createIdGenerator('corpse', data.idCounters.corpse);
+
+  world.terrainGrid.decode(data.terrain);
+  world.subspecies = data.subspecies;
+
+  for (const [x, y, biomass] of data.vegetation) {
+    world.vegetationGrid.setBiomass(x, y, biomass);
+  }
+
+  for (const animal of data.animals) {
+    world.entityManager.addAnimal(animal);
+    if (!animal.state.isDead) {
+      world.animalSpatialIndex.insert(animalToSpatialEntity(animal));
+    }
+  }
+
+  for (const corpse of data.corpses) {
+    world.entityManager.addCorpse(corpse);
+    world.corpseSpatialIndex.insert(corpseToSpatialEntity(corpse));
+  }
+
+  return world;
+}
+
+function validateSnapshot(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (typeof value !== 'object' || value === null) {
+    return ['Snapshot must be an object'];
+  }
+
+  const snapshot = value as Record<string, unknown>;
+  if (typeof snapshot.seed !== 'number') errors.push('Snapshot missing "seed"');
+  if (typeof snapshot.currentTick !== 'number') errors.push('Snapshot missing "currentTick"');
+  if (typeof snapshot.config !== 'object' || snapshot.config === null) errors.push('Snapshot missing "config"');
+  if (typeof snapshot.rng !== 'object' || snapshot.rng === null) errors.push('Snapshot missing "rng"');
+  if (typeof snapshot.idCounters !== 'object' || snapshot.idCounters === null) errors.push('Snapshot missing "idCounters"');
+  if (!Array.isArray(snapshot.vegetation)) errors.push('Snapshot missing "vegetation"');
+  if (!Array.isArray(snapshot.animals)) errors.push('Snapshot missing "animals"');
+  if (!Array.isArray(snapshot.corpses)) errors.push('Snapshot missing "corpses"');
+
+  return errors;
+}
+
+/**
+ * Upgrade a version 1.0 snapshot, which predates the species registry.
+ */
+function migrateSnapshot(snapshot: Record<string, unknown>): Record<string, unknown> {
+  const idCounters = snapshot.idCounters as Record<string, unknown>;
+  if (typeof idCounters.species === 'object' && idCounters.species !== null) {
+    // Saved registries are complete, so built-in species they lack stay removed
+    const config = snapshot.config as SimulationConfig;
+    return { ...snapshot, config: { ...config, species: toSpeciesPatch(config.species ?? {}) } };
+  }
+
+  const { corpse, ...species } = idCounters;
+  const config = snapshot.config as Record<string, unknown>;
+
+  return {
+    ...snapshot,
+    // Carry the old initial counts over to the matching species
+    config: migrateInitialCounts(config) ?? config,
+    idCounters: { species, corpse },
+  };
+}
+
+export function exportWorldSnapshot(world: World, name: string = 'Saved World'): string {
+  const file: SnapshotFile = {
+    version: SNAPSHOT_VERSION,
+    name,
+    snapshot: serializeWorld(world),
+    exportedAt: new Date().toISOString(),
+  };
+  return JSON.stringify(file);
+}
+
+export function importWorldSnapshot(json: string): SnapshotImportResult {
+  const warnings: string[] = [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      success: false,
+      errors: [`Invalid JSON: ${e instanceof Error ? e.message : 'Parse error'}`],
+      warnings: [],
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return { success: false, errors: ['Snapshot file must be an object'], warnings: [] };
+  }
+
+  const file = parsed as Record<string, unknown>;
+
+  // Accept both the wrapped export and a bare snapshot
+  const snapshot = (file.snapshot ?? file) as Record<string, unknown>;
+
+  const errors = validateSnapshot(snapshot);
+  if (errors.length > 0) {
+    return { success: false, errors, warnings };
+  }
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    warnings.push(`Snapshot version mismatch: expected ${SNAPSHOT_VERSION}, got ${snapshot.version}`);
+  }
+
+  // Fill config values added since the snapshot was taken
+  const migrated = migrateSnapshot(snapshot);
+  const config = mergeWithDefaults(migrated.config as ConfigPatch);
+  const restored = {
+    ...migrated,
+    config,
+    // Worlds saved before terrain existed were all grassland
+    terrain: typeof migrated.terrain === 'string' ? migrated.terrain : '',
+    // Tiles saved before biomass existed were full; forest tiles get clamped to capacity
+    vegetation: (migrated.vegetation as number[][]).map(([x, y, biomass]) => [x, y, biomass ?? 1]),
+    // Worlds saved before speciation have only founding populations
+    subspecies: Array.isArray(migrated.subspecies) ? migrated.subspecies : [],
+    animals: (migrated.animals as Animal[]).map((animal) => {
+      // Animals saved before health and stamina existed get the stats they
+      // would be born with, fully healed and rested
+      const derivedStats = { ...calculateAllDerivedStats(animal.baseAttributes, config), ...animal.derivedStats };
+      return {
+        ...animal,
+        derivedStats,
+        state: {
+          ...animal.state,
+          health: animal.state.health ?? derivedStats.maxHealth,
+          stamina: animal.state.stamina ?? derivedStats.maxStamina,
+        },
+        subspecies: animal.subspecies ?? animal.species,
+        // Animals saved before prey lists existed hunt what their species hunts now
+        diet: {
+          ...animal.diet,
+          prey: animal.diet.prey ?? [...(config.species[animal.species]?.diet.prey ?? [])],
+        },
+      };
+    }),
+  } as unknown as WorldSnapshot;
+
+  return {
+    success: true,
+    world: deserializeWorld(restored),
+    warnings,
+    errors: [],
+    name: typeof file.name === 'string' ? file.name : undefined,
+  };
+}
+
+export function downloadWorldSnapshot(
+  world: World,
+  filename: string = 'evolution-sandbox-world.json'
+): void {
+  downloadText(exportWorldSnapshot(world), filename);
+}
+
+export function promptWorldSnapshotUpload(): Promise<SnapshotImportResult | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const text = await file.text();
+        resolve(importWorldSnapshot(text));
+      } catch (e) {
+        resolve({
+          success: false,
+          errors: [`Failed to read file: ${e instanceof Error ? e.message : 'Unknown error'}`],
+          warnings: [],
+        });
+      }
+    };
+
+    input.oncancel = () => {
+      resolve(null);
+    };
+
+    input.click();
+  });
+}
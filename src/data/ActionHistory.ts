@@ -1,18 +1,22 @@
 import type { EntityId } from '../utils/id';
-import type { ActionLogEntry, ActionType } from '../entities/types';
+import type { ActionLogEntry, ActionType, Animal, AnimalEdit, LogEntryType } from '../entities/types';
 
 export interface ActionHistory {
-  record(animalId: EntityId, tick: number, action: ActionType, details: string): void;
+  record(animalId: EntityId, tick: number, action: LogEntryType, details: string): void;
   getHistory(animalId: EntityId, limit?: number): ActionLogEntry[];
+  truncateAfter(tick: number): void;
   clear(): void;
   clearAnimal(animalId: EntityId): void;
+  // Every animal's log, for saving and restoring a run
+  getAll(): Array<[EntityId, ActionLogEntry[]]>;
+  load(entries: Array<[EntityId, ActionLogEntry[]]>): void;
 }
 
 export function createActionHistory(maxPerAnimal: number = 100): ActionHistory {
   const historyMap = new Map<EntityId, ActionLogEntry[]>();
 
   return {
-    record(animalId: EntityId, tick: number, action: ActionType, details: string): void {
+    record(animalId: EntityId, tick: number, action: LogEntryType, details: string): void {
       if (!historyMap.has(animalId)) {
         historyMap.set(animalId, []);
       }
@@ -34,6 +38,17 @@ export function createActionHistory(maxPerAnimal: number = 100): ActionHistory {
       return [...entries];
     },
 
+    truncateAfter(tick: number): void {
+      for (const [animalId, entries] of historyMap) {
+        const kept = entries.filter(e => e.tick <= tick);
+        if (kept.length > 0) {
+          historyMap.set(animalId, kept);
+        } else {
+          historyMap.delete(animalId);
+        }
+      }
+    },
+
     clear(): void {
       historyMap.clear();
     },
@@ -41,6 +56,17 @@ export function createActionHistory(maxPerAnimal: number = 100): ActionHistory {
     clearAnimal(animalId: EntityId): void {
       historyMap.delete(animalId);
     },
+
+    getAll(): Array<[EntityId, ActionLogEntry[]]> {
+      return [...historyMap].map(([animalId, entries]) => [animalId, [...entries]]);
+    },
+
+    load(entries: Array<[EntityId, ActionLogEntry[]]>): void {
+      historyMap.clear();
+      for (const [animalId, animalEntries] of entries) {
+        historyMap.set(animalId, animalEntries.slice(-maxPerAnimal));
+      }
+    },
   };
 }
 
@@ -58,8 +84,10 @@ export function formatActionDetails(action: ActionType, targetId?: EntityId, det
       return details === 'vegetation' ? 'Moving to vegetation' : (targetId ? `Moving to ${targetId}` : 'Moving to food');
     case 'ATTACK':
       return targetId ? `Attacked ${targetId}` : 'Attacked';
+    case 'MOVE_TO_MATE':
+      return targetId ? `Moving to mate ${targetId}` : 'Moving to mate';
     case 'REPRODUCE':
-      return 'Reproduced';
+      return targetId ? `Reproduced with ${targetId}` : 'Reproduced';
     case 'DRIFT':
       return 'Drifting';
     case 'STAY':
@@ -68,3 +96,27 @@ export function formatActionDetails(action: ActionType, targetId?: EntityId, det
       return action;
   }
 }
+
+/**
+ * Log line for an inspector edit, listing each value that changed as
+ * old -> new. Call with the animal as it was before the edit.
+ */
+export function formatInterventionDetails(animal: Animal, edit: AnimalEdit): string {
+  const changes: string[] = [];
+  const describe = (key: string, before: number, after: number | undefined): void => {
+    if (after !== undefined && after !== before) {
+      changes.push(`${key} ${Number(before.toFixed(2))} -> ${Number(after.toFixed(2))}`);
+    }
+  };
+
+  for (const group of ['baseAttributes', 'behavioralAttributes', 'lifecycleAttributes'] as const) {
+    const current = animal[group] as unknown as Record<string, number>;
+    for (const [key, value] of Object.entries(edit[group] ?? {})) {
+      describe(key, current[key], value);
+    }
+  }
+  describe('hunger', animal.state.hunger, edit.hunger);
+  describe('age', animal.state.age, edit.age);
+
+  return changes.length > 0 ? `Edited ${changes.join(', ')}` : 'Edited (no changes)';
+}
@@ -0,0 +1,118 @@
+import type { Animal, DeathRecord, Species, Subspecies } from '../entities/types';
+import type { Season } from '../core/Seasons';
+import type { EntityId } from '../utils/id';
+
+export type EventLogType = 'birth' | 'death' | 'speciation' | 'season' | 'intervention';
+
+export interface EventLogEntry {
+  // World tick at which the event is first visible, so a birth during the
+  // tick from 9 to 10 reads 10
+  tick: number;
+  type: EventLogType;
+  // Animal or sub-species id; the season name for season changes
+  subject: string;
+  species: Species | null;
+  details: string;
+}
+
+export interface EventLog {
+  recordBirth(animal: Animal, tick: number): void;
+  recordDeath(record: DeathRecord): void;
+  recordSpeciation(subspecies: Subspecies, tick: number): void;
+  recordSeason(season: Season, year: number, tick: number): void;
+  recordIntervention(animal: Animal, details: string, tick: number): void;
+  getEntries(): EventLogEntry[];
+  getLength(): number;
+  truncateAfter(tick: number): void;
+  clear(): void;
+  toCSV(): string;
+  toJSON(): string;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function createEventLog(): EventLog {
+  let entries: EventLogEntry[] = [];
+
+  function add(entry: EventLogEntry): void {
+    entries.push(entry);
+  }
+
+  return {
+    recordBirth(animal: Animal, tick: number): void {
+      const parents = [animal.parentId, animal.secondParentId].filter((id): id is EntityId => id !== null);
+      add({
+        tick,
+        type: 'birth',
+        subject: animal.id,
+        species: animal.species,
+        details: `Generation ${animal.generation}${parents.length > 0 ? `, parents ${parents.join(' & ')}` : ''}`,
+      });
+    },
+
+    recordDeath(record: DeathRecord): void {
+      add({
+        // Death records carry the tick the death happened during
+        tick: record.tick + 1,
+        type: 'death',
+        subject: record.animalId,
+        species: record.species,
+        details: `${record.cause} at age ${record.age}${record.killerId ? ` (killed by ${record.killerId})` : ''}`,
+      });
+    },
+
+    recordSpeciation(subspecies: Subspecies, tick: number): void {
+      add({
+        tick,
+        type: 'speciation',
+        subject: subspecies.id,
+        species: subspecies.species,
+        details: `${subspecies.label} split from ${subspecies.parent}`,
+      });
+    },
+
+    recordSeason(season: Season, year: number, tick: number): void {
+      add({ tick, type: 'season', subject: season, species: null, details: `Year ${year}` });
+    },
+
+    recordIntervention(animal: Animal, details: string, tick: number): void {
+      add({ tick, type: 'intervention', subject: animal.id, species: animal.species, details });
+    },
+
+    getEntries(): EventLogEntry[] {
+      return [...entries];
+    },
+
+    getLength(): number {
+      return entries.length;
+    },
+
+    truncateAfter(tick: number): void {
+      entries = entries.filter(e => e.tick <= tick);
+    },
+
+    clear(): void {
+      entries = [];
+    },
+
+    toCSV(): string {
+      const lines = ['tick,type,subject,species,details'];
+      for (const entry of entries) {
+        lines.push([
+          entry.tick,
+          entry.type,
+          csvField(entry.subject),
+          entry.species ?? '',
+          csvField(entry.details),
+        ].join(','));
+      }
+      return lines.join('\n');
+    },
+
+    toJSON(): string {
+      return JSON.stringify({ entries }, null, 2);
+    },
+  };
+}
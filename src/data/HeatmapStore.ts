@@ -0,0 +1,149 @@
+import type { DeathCause } from '../entities/types';
+import type { Vector2 } from '../utils/vector';
+import { DEATH_CAUSES } from './MortalityTable';
+
+export type HeatmapLayer = 'density' | 'births' | 'deaths' | 'grazing';
+
+export interface HeatmapView {
+  layer: HeatmapLayer;
+  // Deaths of one cause only; null for every cause
+  cause: DeathCause | null;
+}
+
+export interface HeatmapGrid {
+  cols: number;
+  rows: number;
+  cellSize: number;
+  // Row by row, already faded by the decay window
+  values: Float64Array;
+  max: number;
+}
+
+export interface HeatmapStore {
+  // Start a new tick: fade what came before and sample where animals are
+  recordTick(positions: Vector2[]): void;
+  recordBirth(position: Vector2): void;
+  recordDeath(position: Vector2, cause: DeathCause): void;
+  recordGrazing(position: Vector2, biomass: number): void;
+  // Ticks for events to fade to about a third; 0 keeps everything
+  setDecayWindow(ticks: number): void;
+  getDecayWindow(): number;
+  getGrid(view: HeatmapView): HeatmapGrid;
+  clear(): void;
+}
+
+// Views in the order the heatmap shortcut cycles through them
+export const HEATMAP_VIEWS: Array<HeatmapView & { label: string }> = [
+  { layer: 'density', cause: null, label: 'Animal density' },
+  { layer: 'births', cause: null, label: 'Births' },
+  { layer: 'deaths', cause: null, label: 'Deaths' },
+  ...DEATH_CAUSES.map(cause => ({ layer: 'deaths' as const, cause, label: `Deaths (${cause})` })),
+  { layer: 'grazing', cause: null, label: 'Grazing' },
+];
+
+export function getHeatmapLabel(view: HeatmapView): string {
+  return HEATMAP_VIEWS.find(v => v.layer === view.layer && v.cause === view.cause)?.label ?? view.layer;
+}
+
+// Rescale the stored values before the running weight loses precision
+const MAX_WEIGHT = 1e12;
+
+export function createHeatmapStore(
+  worldWidth: number,
+  worldHeight: number,
+  cellSize: number,
+  decayWindow: number = 0
+): HeatmapStore {
+  const cols = Math.max(1, Math.ceil(worldWidth / cellSize));
+  const rows = Math.max(1, Math.ceil(worldHeight / cellSize));
+
+  const density = new Float64Array(cols * rows);
+  const births = new Float64Array(cols * rows);
+  const grazing = new Float64Array(cols * rows);
+  const deaths = new Map<DeathCause, Float64Array>(
+    DEATH_CAUSES.map(cause => [cause, new Float64Array(cols * rows)])
+  );
+  const layers = [density, births, grazing, ...deaths.values()];
+
+  // Instead of fading every cell each tick, new events are added with a
+  // weight that grows each tick, and cells are divided by it when read
+  let weight = 1;
+  let decayTicks = decayWindow;
+
+  function cellIndex(position: Vector2): number {
+    const x = Math.min(cols - 1, Math.max(0, Math.floor(position.x / cellSize)));
+    const y = Math.min(rows - 1, Math.max(0, Math.floor(position.y / cellSize)));
+    return y * cols + x;
+  }
+
+  function rescale(): void {
+    for (const layer of layers) {
+      for (let i = 0; i < layer.length; i++) {
+        layer[i] /= weight;
+      }
+    }
+    weight = 1;
+  }
+
+  return {
+    recordTick(positions: Vector2[]): void {
+      if (decayTicks > 0) {
+        weight /= 1 - 1 / decayTicks;
+        if (weight > MAX_WEIGHT) rescale();
+      }
+      for (const position of positions) {
+        density[cellIndex(position)] += weight;
+      }
+    },
+
+    recordBirth(position: Vector2): void {
+      births[cellIndex(position)] += weight;
+    },
+
+    recordDeath(position: Vector2, cause: DeathCause): void {
+      deaths.get(cause)![cellIndex(position)] += weight;
+    },
+
+    recordGrazing(position: Vector2, biomass: number): void {
+      grazing[cellIndex(position)] += biomass * weight;
+    },
+
+    setDecayWindow(ticks: number): void {
+      // Bring stored values to today's scale so the new rate starts from here
+      rescale();
+      decayTicks = Math.max(0, ticks);
+    },
+
+    getDecayWindow(): number {
+      return decayTicks;
+    },
+
+    getGrid(view: HeatmapView): HeatmapGrid {
+      let sources: Float64Array[];
+      if (view.layer === 'deaths') {
+        sources = view.cause ? [deaths.get(view.cause)!] : [...deaths.values()];
+      } else {
+        sources = [{ density, births, grazing }[view.layer]];
+      }
+
+      const values = new Float64Array(cols * rows);
+      let max = 0;
+      for (let i = 0; i < values.length; i++) {
+        let sum = 0;
+        for (const source of sources) {
+          sum += source[i];
+        }
+        values[i] = sum / weight;
+        max = Math.max(max, values[i]);
+      }
+      return { cols, rows, cellSize, values, max };
+    },
+
+    clear(): void {
+      for (const layer of layers) {
+        layer.fill(0);
+      }
+      weight = 1;
+    },
+  };
+}
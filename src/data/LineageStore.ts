@@ -0,0 +1,235 @@
+import type { Animal, DeathCause, DeathRecord, Species } from '../entities/types';
+import type { EntityId } from '../utils/id';
+import { TRAIT_DEFINITIONS, getTraitValue } from './TraitStatistics';
+
+export interface LineageNode {
+  id: EntityId;
+  species: Species;
+  parentId: EntityId | null;
+  secondParentId: EntityId | null;
+  generation: number;
+  // Tick the animal was born during, or first seen for founders
+  birthTick: number;
+  deathTick: number | null;
+  deathCause: DeathCause | null;
+  // Trait id -> value at birth
+  traits: Record<string, number>;
+}
+
+export interface LineageStore {
+  // Animals already in the world (initial population or a loaded world)
+  recordFounders(animals: Animal[], tick: number): void;
+  recordBirth(animal: Animal, tick: number): void;
+  recordDeath(record: DeathRecord): void;
+  getNode(id: EntityId): LineageNode | undefined;
+  // In birth order
+  getChildren(id: EntityId): LineageNode[];
+  // From the oldest recorded ancestor down to the animal itself
+  getAncestry(id: EntityId): LineageNode[];
+  // Nodes whose parent is not recorded, in recording order
+  getRoots(): LineageNode[];
+  getNodes(): LineageNode[];
+  size(): number;
+  // Drop every node without a living descendant; returns the number removed
+  pruneExtinct(): number;
+  truncateAfter(tick: number): void;
+  clear(): void;
+  // Whole forest, or the subtree under rootId
+  toNewick(rootId?: EntityId): string;
+  toJSON(): string;
+}
+
+function createNode(animal: Animal, tick: number): LineageNode {
+  const traits: Record<string, number> = {};
+  for (const definition of TRAIT_DEFINITIONS) {
+    traits[definition.id] = getTraitValue(animal, definition);
+  }
+  return {
+    id: animal.id,
+    species: animal.species,
+    parentId: animal.parentId,
+    secondParentId: animal.secondParentId,
+    generation: animal.generation,
+    birthTick: tick,
+    deathTick: null,
+    deathCause: null,
+    traits,
+  };
+}
+
+export function createLineageStore(): LineageStore {
+  // Insertion order is recording order, which keeps children in birth order
+  const nodes = new Map<EntityId, LineageNode>();
+  const children = new Map<EntityId, EntityId[]>();
+
+  function add(node: LineageNode): void {
+    if (nodes.has(node.id)) return;
+    nodes.set(node.id, node);
+    if (node.parentId) {
+      const siblings = children.get(node.parentId) ?? [];
+      siblings.push(node.id);
+      children.set(node.parentId, siblings);
+    }
+  }
+
+  function rebuildChildren(): void {
+    children.clear();
+    for (const node of nodes.values()) {
+      if (node.parentId) {
+        const siblings = children.get(node.parentId) ?? [];
+        siblings.push(node.id);
+        children.set(node.parentId, siblings);
+      }
+    }
+  }
+
+  function isRoot(node: LineageNode): boolean {
+    return node.parentId === null || !nodes.has(node.parentId);
+  }
+
+  /**
+   * Newick for one subtree, built bottom-up without recursion so long
+   * lineages cannot overflow the stack. Branch lengths are ticks between births.
+   */
+  function subtreeToNewick(rootId: EntityId): string {
+    const parts = new Map<EntityId, string>();
+    const stack: Array<[EntityId, boolean]> = [[rootId, false]];
+
+    while (stack.length > 0) {
+      const [id, expanded] = stack.pop()!;
+      const childIds = children.get(id) ?? [];
+      if (!expanded) {
+        stack.push([id, true]);
+        for (let i = childIds.length - 1; i >= 0; i--) {
+          stack.push([childIds[i], false]);
+        }
+        continue;
+      }
+
+      const node = nodes.get(id)!;
+      const inner = childIds.length > 0 ? `(${childIds.map(childId => parts.get(childId)).join(',')})` : '';
+      for (const childId of childIds) {
+        parts.delete(childId);
+      }
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      const length = parent && id !== rootId ? `:${node.birthTick - parent.birthTick}` : '';
+      // Ids contain underscores, which unquoted Newick reads as spaces
+      parts.set(id, `${inner}'${id}'${length}`);
+    }
+
+    return parts.get(rootId)!;
+  }
+
+  return {
+    recordFounders(animals: Animal[], tick: number): void {
+      for (const animal of animals) {
+        add(createNode(animal, tick));
+      }
+    },
+
+    recordBirth(animal: Animal, tick: number): void {
+      add(createNode(animal, tick));
+    },
+
+    recordDeath(record: DeathRecord): void {
+      const node = nodes.get(record.animalId);
+      if (node) {
+        node.deathTick = record.tick;
+        node.deathCause = record.cause;
+      }
+    },
+
+    getNode(id: EntityId): LineageNode | undefined {
+      return nodes.get(id);
+    },
+
+    getChildren(id: EntityId): LineageNode[] {
+      return (children.get(id) ?? []).map(childId => nodes.get(childId)!);
+    },
+
+    getAncestry(id: EntityId): LineageNode[] {
+      const ancestry: LineageNode[] = [];
+      let node = nodes.get(id);
+      while (node) {
+        ancestry.push(node);
+        node = node.parentId ? nodes.get(node.parentId) : undefined;
+      }
+      return ancestry.reverse();
+    },
+
+    getRoots(): LineageNode[] {
+      return [...nodes.values()].filter(isRoot);
+    },
+
+    getNodes(): LineageNode[] {
+      return [...nodes.values()];
+    },
+
+    size(): number {
+      return nodes.size;
+    },
+
+    pruneExtinct(): number {
+      // Children are always recorded after their parents, so a reverse pass
+      // sees every descendant before its ancestors. Mates count as ancestors too.
+      const hasLiving = new Set<EntityId>();
+      const all = [...nodes.values()];
+      for (let i = all.length - 1; i >= 0; i--) {
+        const node = all[i];
+        if (node.deathTick === null || hasLiving.has(node.id)) {
+          hasLiving.add(node.id);
+          if (node.parentId) {
+            hasLiving.add(node.parentId);
+          }
+          if (node.secondParentId) {
+            hasLiving.add(node.secondParentId);
+          }
+        }
+      }
+
+      let removed = 0;
+      for (const node of all) {
+        if (!hasLiving.has(node.id)) {
+          nodes.delete(node.id);
+          removed++;
+        }
+      }
+      rebuildChildren();
+      return removed;
+    },
+
+    truncateAfter(tick: number): void {
+      for (const node of [...nodes.values()]) {
+        if (node.birthTick > tick) {
+          nodes.delete(node.id);
+        } else if (node.deathTick !== null && node.deathTick > tick) {
+          node.deathTick = null;
+          node.deathCause = null;
+        }
+      }
+      rebuildChildren();
+    },
+
+    clear(): void {
+      nodes.clear();
+      children.clear();
+    },
+
+    toNewick(rootId?: EntityId): string {
+      if (rootId !== undefined) {
+        return nodes.has(rootId) ? `${subtreeToNewick(rootId)};` : ';';
+      }
+
+      const trees = this.getRoots().map(root => subtreeToNewick(root.id));
+      // Several founders become siblings under an unnamed root
+      return trees.length === 1 ? `${trees[0]};` : `(${trees.join(',')});`;
+    },
+
+    toJSON(): string {
+      return JSON.stringify({
+        // Flat list in recording order; parentId links rebuild the tree
+        nodes: [...nodes.values()],
+      }, null, 2);
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import type { DeathCause, DeathRecord, Species } from '../entities/types';
+
+// Display and export order
+export const DEATH_CAUSES: DeathCause[] = ['predation', 'starvation', 'wounds', 'old age'];
+
+export interface MortalityRow {
+  species: Species;
+  // null for the all-generations total of a species
+  generation: number | null;
+  deaths: number;
+  causes: Record<DeathCause, number>;
+  meanAgeAtDeath: number;
+}
+
+export interface MortalityRatioPoint {
+  tickStart: number;
+  tickEnd: number;
+  predation: number;
+  starvation: number;
+  // predation / (predation + starvation)
+  predationRatio: number;
+}
+
+export interface MortalityTable {
+  record(records: DeathRecord[]): void;
+  getRecords(): DeathRecord[];
+  // One row per species and generation, species in first-death order
+  getRows(): MortalityRow[];
+  getSpeciesTotals(): MortalityRow[];
+  getRatioSeries(bucketSize: number, species?: Species): MortalityRatioPoint[];
+  getTotalDeaths(): number;
+  truncateAfter(tick: number): void;
+  clear(): void;
+  toCSV(): string;
+  toJSON(): string;
+}
+
+function emptyCauses(): Record<DeathCause, number> {
+  return { predation: 0, starvation: 0, wounds: 0, 'old age': 0 };
+}
+
+function summarize(species: Species, generation: number | null, records: DeathRecord[]): MortalityRow {
+  const causes = emptyCauses();
+  let totalAge = 0;
+  for (const record of records) {
+    causes[record.cause]++;
+    totalAge += record.age;
+  }
+  return {
+    species,
+    generation,
+    deaths: records.length,
+    causes,
+    meanAgeAtDeath: records.length > 0 ? totalAge / records.length : 0,
+  };
+}
+
+export function createMortalityTable(): MortalityTable {
+  let records: DeathRecord[] = [];
+
+  function groupBySpecies(): Map<Species, DeathRecord[]> {
+    const groups = new Map<Species, DeathRecord[]>();
+    for (const record of records) {
+      const group = groups.get(record.species) ?? [];
+      group.push(record);
+      groups.set(record.species, group);
+    }
+    return groups;
+  }
+
+  return {
+    record(newRecords: DeathRecord[]): void {
+      records.push(...newRecords);
+    },
+
+    getRecords(): DeathRecord[] {
+      return [...records];
+    },
+
+    getRows(): MortalityRow[] {
+      const rows: MortalityRow[] = [];
+      for (const [species, speciesRecords] of groupBySpecies()) {
+        const byGeneration = new Map<number, DeathRecord[]>();
+        for (const record of speciesRecords) {
+          const group = byGeneration.get(record.generation) ?? [];
+          group.push(record);
+          byGeneration.set(record.generation, group);
+        }
+
+        const generations = [...byGeneration.keys()].sort((a, b) => a - b);
+        for (const generation of generations) {
+          rows.push(summarize(species, generation, byGeneration.get(generation)!));
+        }
+      }
+      return rows;
+    },
+
+    getSpeciesTotals(): MortalityRow[] {
+      return [...groupBySpecies()].map(([species, speciesRecords]) => summarize(species, null, speciesRecords));
+    },
+
+    getRatioSeries(bucketSize: number, species?: Species): MortalityRatioPoint[] {
+      // Buckets without predation or starvation deaths are omitted
+      const size = Math.max(1, Math.floor(bucketSize));
+      const buckets = new Map<number, MortalityRatioPoint>();
+
+      for (const record of records) {
+        if (species !== undefined && record.species !== species) continue;
+        if (record.cause !== 'predation' && record.cause !== 'starvation') continue;
+
+        const tickStart = Math.floor(record.tick / size) * size;
+        let bucket = buckets.get(tickStart);
+        if (!bucket) {
+          bucket = { tickStart, tickEnd: tickStart + size - 1, predation: 0, starvation: 0, predationRatio: 0 };
+          buckets.set(tickStart, bucket);
+        }
+        bucket[record.cause]++;
+      }
+
+      return [...buckets.values()]
+        .sort((a, b) => a.tickStart - b.tickStart)
+        .map(bucket => ({
+          ...bucket,
+          predationRatio: bucket.predation / (bucket.predation + bucket.starvation),
+        }));
+    },
+
+    getTotalDeaths(): number {
+      return records.length;
+    },
+
+    truncateAfter(tick: number): void {
+      records = records.filter(r => r.tick <= tick);
+    },
+
+    clear(): void {
+      records = [];
+    },
+
+    toCSV(): string {
+      const header = ['species', 'generation', 'deaths', ...DEATH_CAUSES.map(c => c.replace(' ', '_')), 'mean_age_at_death'];
+      const lines = [header.join(',')];
+      for (const row of [...this.getRows(), ...this.getSpeciesTotals()]) {
+        lines.push([
+          row.species,
+          row.generation ?? 'all',
+          row.deaths,
+          ...DEATH_CAUSES.map(c => row.causes[c]),
+          row.meanAgeAtDeath.toFixed(2),
+        ].join(','));
+      }
+      return lines.join('\n');
+    },
+
+    toJSON(): string {
+      return JSON.stringify({
+        rows: this.getRows(),
+        speciesTotals: this.getSpeciesTotals(),
+        records,
+      }, null, 2);
+    },
+  };
+}
@@ -1,68 +1,116 @@
+import type { Species } from '../entities/types';
+import type { HistoryMode } from './TickSeries';
+import { createTickSeries } from './TickSeries';
+
 export interface PopulationDataPoint {
   tick: number;
-  deerCount: number;
-  wolfCount: number;
+  speciesCounts: Record<Species, number>;
   vegetationCount: number;
   timestamp: number;
 }
 
 export interface PopulationHistory {
-  record(tick: number, deerCount: number, wolfCount: number, vegetationCount: number): void;
+  record(tick: number, speciesCounts: Record<Species, number>, vegetationCount: number): void;
   getData(): PopulationDataPoint[];
   getDataSince(tick: number): PopulationDataPoint[];
   getLatest(): PopulationDataPoint | null;
+  truncateAfter(tick: number): void;
   clear(): void;
   setMaxHistory(maxPoints: number): void;
+  // 'whole-run' downsamples instead of dropping the oldest points
+  setMode(mode: HistoryMode): void;
+  getMode(): HistoryMode;
   getLength(): number;
+  // Replace the history with saved points, oldest first
+  load(points: PopulationDataPoint[]): void;
+  toCSV(): string;
+  toJSON(): string;
 }
 
-export function createPopulationHistory(maxPoints: number = 1000): PopulationHistory {
-  let data: PopulationDataPoint[] = [];
-  let maxSize = maxPoints;
+export function createPopulationHistory(maxPoints: number = 1000, mode: HistoryMode = 'recent'): PopulationHistory {
+  const series = createTickSeries<PopulationDataPoint>(maxPoints, mode);
+
+  // Every species that appears anywhere, in first-seen order
+  function getColumns(data: PopulationDataPoint[]): Species[] {
+    const columns = new Set<Species>();
+    for (const point of data) {
+      for (const species of Object.keys(point.speciesCounts)) {
+        columns.add(species);
+      }
+    }
+    return [...columns];
+  }
 
   return {
-    record(tick: number, deerCount: number, wolfCount: number, vegetationCount: number): void {
-      const point: PopulationDataPoint = {
+    record(tick: number, speciesCounts: Record<Species, number>, vegetationCount: number): void {
+      series.push({
         tick,
-        deerCount,
-        wolfCount,
+        speciesCounts: { ...speciesCounts },
         vegetationCount,
         timestamp: Date.now(),
-      };
-
-      data.push(point);
-
-      // Trim if exceeds max size (circular buffer behavior)
-      if (data.length > maxSize) {
-        data = data.slice(data.length - maxSize);
-      }
+      });
     },
 
     getData(): PopulationDataPoint[] {
-      return [...data];
+      return series.getPoints();
     },
 
     getDataSince(tick: number): PopulationDataPoint[] {
-      return data.filter(d => d.tick >= tick);
+      return series.getPoints().filter(d => d.tick >= tick);
     },
 
     getLatest(): PopulationDataPoint | null {
-      return data.length > 0 ? data[data.length - 1] : null;
+      return series.getLatest();
+    },
+
+    truncateAfter(tick: number): void {
+      series.truncateAfter(tick);
     },
 
     clear(): void {
-      data = [];
+      series.clear();
     },
 
     setMaxHistory(maxPoints: number): void {
-      maxSize = maxPoints;
-      if (data.length > maxSize) {
-        data = data.slice(data.length - maxSize);
-      }
+      series.setMaxPoints(maxPoints);
+    },
+
+    setMode(newMode: HistoryMode): void {
+      series.setMode(newMode);
+    },
+
+    getMode(): HistoryMode {
+      return series.getMode();
     },
 
     getLength(): number {
-      return data.length;
+      return series.getLength();
+    },
+
+    load(points: PopulationDataPoint[]): void {
+      series.clear();
+      for (const point of points) {
+        series.push(point);
+      }
+    },
+
+    toCSV(): string {
+      const data = series.getPoints();
+      const columns = getColumns(data);
+      const lines = [['tick', 'vegetation', ...columns].join(',')];
+      for (const point of data) {
+        // Species that had died out (or not yet split off) count as 0
+        lines.push([point.tick, point.vegetationCount, ...columns.map(c => point.speciesCounts[c] ?? 0)].join(','));
+      }
+      return lines.join('\n');
+    },
+
+    toJSON(): string {
+      return JSON.stringify({
+        mode: series.getMode(),
+        stride: series.getStride(),
+        points: series.getPoints(),
+      }, null, 2);
     },
   };
 }
@@ -0,0 +1,186 @@
+import type { ActionLogEntry, Species } from '../entities/types';
+import type { EntityId } from '../utils/id';
+import type { PopulationDataPoint } from './PopulationHistory';
+
+export interface SavedRunSummary {
+  id: string;
+  name: string;
+  // Epoch milliseconds
+  createdAt: number;
+  updatedAt: number;
+  tick: number;
+  seed: number;
+  speciesCounts: Record<Species, number>;
+}
+
+export interface SavedRun extends SavedRunSummary {
+  // exportWorldSnapshot JSON, so saved runs migrate like snapshot files
+  snapshot: string;
+  population: PopulationDataPoint[];
+  actions: Array<[EntityId, ActionLogEntry[]]>;
+}
+
+/**
+ * Storage behind the run store. Summaries are kept apart from the runs so
+ * the recent runs list never loads whole worlds.
+ */
+export interface RunDatabase {
+  listSummaries(): Promise<SavedRunSummary[]>;
+  getRun(id: string): Promise<SavedRun | null>;
+  putRun(run: SavedRun): Promise<void>;
+  deleteRun(id: string): Promise<void>;
+}
+
+export interface RunStore {
+  // Newest first
+  list(): Promise<SavedRunSummary[]>;
+  save(run: SavedRun): Promise<void>;
+  load(id: string): Promise<SavedRun | null>;
+  rename(id: string, name: string): Promise<SavedRunSummary | null>;
+  duplicate(id: string): Promise<SavedRunSummary | null>;
+  delete(id: string): Promise<void>;
+}
+
+const SUMMARIES = 'summaries';
+const RUNS = 'runs';
+
+function toSummary(run: SavedRun): SavedRunSummary {
+  const { id, name, createdAt, updatedAt, tick, seed, speciesCounts } = run;
+  return { id, name, createdAt, updatedAt, tick, seed, speciesCounts };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function openIndexedDBRunDatabase(name: string = 'evolution-sandbox'): Promise<RunDatabase> {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+    db.createObjectStore(RUNS, { keyPath: 'id' });
+  };
+
+  return requestToPromise(request).then((db): RunDatabase => ({
+    async listSummaries(): Promise<SavedRunSummary[]> {
+      const tx = db.transaction(SUMMARIES, 'readonly');
+      return requestToPromise(tx.objectStore(SUMMARIES).getAll() as IDBRequest<SavedRunSummary[]>);
+    },
+
+    async getRun(id: string): Promise<SavedRun | null> {
+      const tx = db.transaction(RUNS, 'readonly');
+      const run = await requestToPromise(tx.objectStore(RUNS).get(id) as IDBRequest<SavedRun | undefined>);
+      return run ?? null;
+    },
+
+    // The run and its summary are written together so the list never points at a missing run
+    async putRun(run: SavedRun): Promise<void> {
+      const tx = db.transaction([SUMMARIES, RUNS], 'readwrite');
+      tx.objectStore(RUNS).put(run);
+      tx.objectStore(SUMMARIES).put(toSummary(run));
+      await transactionDone(tx);
+    },
+
+    async deleteRun(id: string): Promise<void> {
+      const tx = db.transaction([SUMMARIES, RUNS], 'readwrite');
+      tx.objectStore(RUNS).delete(id);
+      tx.objectStore(SUMMARIES).delete(id);
+      await transactionDone(tx);
+    },
+  }));
+}
+
+/**
+ * In-memory database for tests and browsers without IndexedDB, where runs
+ * last until the page closes. Runs are copied in and out so callers can't
+ * mutate what is stored.
+ */
+export function createMemoryRunDatabase(): RunDatabase {
+  const runs = new Map<string, SavedRun>();
+  const summaries = new Map<string, SavedRunSummary>();
+
+  return {
+    async listSummaries(): Promise<SavedRunSummary[]> {
+      return [...summaries.values()].map(s => structuredClone(s));
+    },
+
+    async getRun(id: string): Promise<SavedRun | null> {
+      const run = runs.get(id);
+      return run ? structuredClone(run) : null;
+    },
+
+    async putRun(run: SavedRun): Promise<void> {
+      runs.set(run.id, structuredClone(run));
+      summaries.set(run.id, structuredClone(toSummary(run)));
+    },
+
+    async deleteRun(id: string): Promise<void> {
+      runs.delete(id);
+      summaries.delete(id);
+    },
+  };
+}
+
+export function createRunId(): string {
+  return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Accepts a database still being opened; every call waits for it
+export function createRunStore(database: RunDatabase | Promise<RunDatabase>): RunStore {
+  const ready = Promise.resolve(database);
+
+  return {
+    async list(): Promise<SavedRunSummary[]> {
+      const summaries = await (await ready).listSummaries();
+      return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    async save(run: SavedRun): Promise<void> {
+      await (await ready).putRun(run);
+    },
+
+    async load(id: string): Promise<SavedRun | null> {
+      return (await ready).getRun(id);
+    },
+
+    async rename(id: string, name: string): Promise<SavedRunSummary | null> {
+      const db = await ready;
+      const run = await db.getRun(id);
+      if (!run) return null;
+      run.name = name;
+      await db.putRun(run);
+      return toSummary(run);
+    },
+
+    async duplicate(id: string): Promise<SavedRunSummary | null> {
+      const db = await ready;
+      const run = await db.getRun(id);
+      if (!run) return null;
+      const now = Date.now();
+      const copy: SavedRun = {
+        ...run,
+        id: createRunId(),
+        name: `${run.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.putRun(copy);
+      return toSummary(copy);
+    },
+
+    async delete(id: string): Promise<void> {
+      await (await ready).deleteRun(id);
+    },
+  };
+}
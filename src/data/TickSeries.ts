@@ -0,0 +1,108 @@
+// 'recent' keeps the newest points; 'whole-run' keeps the whole run at falling resolution
+export type HistoryMode = 'recent' | 'whole-run';
+
+export interface TickSeries<T extends { tick: number }> {
+  push(point: T): void;
+  getPoints(): T[];
+  getLatest(): T | null;
+  truncateAfter(tick: number): void;
+  clear(): void;
+  setMaxPoints(maxPoints: number): void;
+  setMode(mode: HistoryMode): void;
+  getMode(): HistoryMode;
+  // Recorded points per kept point; 1 until a whole-run series first fills
+  getStride(): number;
+  getLength(): number;
+}
+
+/**
+ * Bounded buffer of tick-stamped points. Both views are always kept, so
+ * switching mode never loses history: the recent window holds the newest
+ * points, and the whole-run series drops every other point when it fills and
+ * from then on keeps only every stride-th point, so memory stays bounded
+ * however long the run. The newest point is always kept, whatever the stride.
+ */
+export function createTickSeries<T extends { tick: number }>(
+  maxPoints: number,
+  mode: HistoryMode = 'recent'
+): TickSeries<T> {
+  let recent: T[] = [];
+  // Whole-run points with the order they were recorded in, counted from the first
+  let entries: Array<{ point: T; index: number }> = [];
+  let nextIndex = 0;
+  let stride = 1;
+  let maxSize = Math.max(2, maxPoints);
+  let currentMode = mode;
+
+  function trim(): void {
+    if (recent.length > maxSize) {
+      recent = recent.slice(recent.length - maxSize);
+    }
+
+    while (entries.length > maxSize) {
+      stride *= 2;
+      const last = entries[entries.length - 1];
+      entries = entries.filter(e => e.index % stride === 0 || e === last);
+    }
+  }
+
+  function getPoints(): T[] {
+    return currentMode === 'recent' ? [...recent] : entries.map(e => e.point);
+  }
+
+  return {
+    push(point: T): void {
+      recent.push(point);
+      // The previous newest point only stays if it falls on the stride
+      const last = entries[entries.length - 1];
+      if (last && last.index % stride !== 0) {
+        entries.pop();
+      }
+      entries.push({ point, index: nextIndex++ });
+      trim();
+    },
+
+    getPoints,
+
+    getLatest(): T | null {
+      if (currentMode === 'recent') {
+        return recent.length > 0 ? recent[recent.length - 1] : null;
+      }
+      return entries.length > 0 ? entries[entries.length - 1].point : null;
+    },
+
+    truncateAfter(tick: number): void {
+      recent = recent.filter(p => p.tick <= tick);
+      entries = entries.filter(e => e.point.tick <= tick);
+      nextIndex = entries.length > 0 ? entries[entries.length - 1].index + 1 : 0;
+    },
+
+    clear(): void {
+      recent = [];
+      entries = [];
+      nextIndex = 0;
+      stride = 1;
+    },
+
+    setMaxPoints(newMaxPoints: number): void {
+      maxSize = Math.max(2, newMaxPoints);
+      trim();
+    },
+
+    setMode(newMode: HistoryMode): void {
+      currentMode = newMode;
+    },
+
+    getMode(): HistoryMode {
+      return currentMode;
+    },
+
+    getStride(): number {
+      return currentMode === 'recent' ? 1 : stride;
+    },
+
+    getLength(): number {
+      return currentMode === 'recent' ? recent.length : entries.length;
+    },
+  };
+}
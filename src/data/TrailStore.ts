@@ -0,0 +1,60 @@
+import type { EntityId } from '../utils/id';
+import type { Vector2 } from '../utils/vector';
+
+export interface TrailStore {
+  // Where an animal moved to this tick
+  record(animalId: EntityId, position: Vector2): void;
+  // Oldest first, at most the store's length
+  getTrail(animalId: EntityId): Vector2[];
+  clearAnimal(animalId: EntityId): void;
+  clear(): void;
+}
+
+// Fixed-size ring of positions; the oldest is overwritten once it is full
+interface Trail {
+  xs: Float64Array;
+  ys: Float64Array;
+  next: number;
+  count: number;
+}
+
+export function createTrailStore(maxLength: number = 30): TrailStore {
+  const length = Math.max(1, Math.floor(maxLength));
+  const trails = new Map<EntityId, Trail>();
+
+  return {
+    record(animalId: EntityId, position: Vector2): void {
+      let trail = trails.get(animalId);
+      if (!trail) {
+        trail = { xs: new Float64Array(length), ys: new Float64Array(length), next: 0, count: 0 };
+        trails.set(animalId, trail);
+      }
+
+      trail.xs[trail.next] = position.x;
+      trail.ys[trail.next] = position.y;
+      trail.next = (trail.next + 1) % length;
+      trail.count = Math.min(length, trail.count + 1);
+    },
+
+    getTrail(animalId: EntityId): Vector2[] {
+      const trail = trails.get(animalId);
+      if (!trail) return [];
+
+      const points: Vector2[] = [];
+      const start = (trail.next - trail.count + length) % length;
+      for (let i = 0; i < trail.count; i++) {
+        const index = (start + i) % length;
+        points.push({ x: trail.xs[index], y: trail.ys[index] });
+      }
+      return points;
+    },
+
+    clearAnimal(animalId: EntityId): void {
+      trails.delete(animalId);
+    },
+
+    clear(): void {
+      trails.clear();
+    },
+  };
+}
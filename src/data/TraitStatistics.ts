@@ -0,0 +1,221 @@
+import type { Animal, Species } from '../entities/types';
+import type { HistoryMode } from './TickSeries';
+import { createTickSeries } from './TickSeries';
+
+export type TraitGroup = 'baseAttributes' | 'behavioralAttributes' | 'lifecycleAttributes';
+
+export interface TraitDefinition {
+  // Unique id, e.g. "baseAttributes.agility"
+  id: string;
+  group: TraitGroup;
+  key: string;
+  label: string;
+}
+
+function trait<G extends TraitGroup>(
+  group: G,
+  key: keyof Animal[G] & string,
+  label: string
+): TraitDefinition {
+  return { id: `${group}.${key}`, group, key, label };
+}
+
+// Every heritable attribute, in display order
+export const TRAIT_DEFINITIONS: TraitDefinition[] = [
+  trait('baseAttributes', 'strength', 'Strength'),
+  trait('baseAttributes', 'agility', 'Agility'),
+  trait('baseAttributes', 'endurance', 'Endurance'),
+  trait('baseAttributes', 'perception', 'Perception'),
+  trait('baseAttributes', 'size', 'Size'),
+  trait('behavioralAttributes', 'aggression', 'Aggression'),
+  trait('behavioralAttributes', 'flightInstinct', 'Flight Instinct'),
+  trait('behavioralAttributes', 'foodPriorityThreshold', 'Food Priority'),
+  trait('behavioralAttributes', 'reproductiveUrge', 'Reproductive Urge'),
+  trait('behavioralAttributes', 'carrionPreference', 'Carrion Preference'),
+  trait('lifecycleAttributes', 'maxAge', 'Max Age'),
+  trait('lifecycleAttributes', 'maturityAge', 'Maturity Age'),
+  trait('lifecycleAttributes', 'litterSize', 'Litter Size'),
+];
+
+export interface TraitSummary {
+  mean: number;
+  stdDev: number;
+  min: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export interface SpeciesTraitSample {
+  count: number;
+  // Keyed by trait id
+  traits: Record<string, TraitSummary>;
+}
+
+export interface TraitSample {
+  tick: number;
+  // Only species with living members are present
+  species: Record<Species, SpeciesTraitSample>;
+}
+
+export interface TraitStatistics {
+  // Samples the animals when the tick falls on the sample interval; returns whether it did
+  record(tick: number, animals: Animal[]): boolean;
+  getSamples(): TraitSample[];
+  getLatest(): TraitSample | null;
+  truncateAfter(tick: number): void;
+  clear(): void;
+  setSampleInterval(interval: number): void;
+  getSampleInterval(): number;
+  // 'whole-run' downsamples instead of dropping the oldest samples
+  setMode(mode: HistoryMode): void;
+  getMode(): HistoryMode;
+  getLength(): number;
+  // One row per sample, species and trait
+  toCSV(): string;
+  toJSON(): string;
+}
+
+export function getTraitValue(animal: Animal, definition: TraitDefinition): number {
+  return (animal[definition.group] as unknown as Record<string, number>)[definition.key];
+}
+
+/**
+ * Percentile of an ascending-sorted list, interpolating between neighbours.
+ */
+function percentile(sorted: number[], fraction: number): number {
+  const index = (sorted.length - 1) * fraction;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function summarizeValues(values: number[]): TraitSummary {
+  if (values.length === 0) {
+    return { mean: 0, stdDev: 0, min: 0, p10: 0, p25: 0, median: 0, p75: 0, p90: 0, max: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  // Population standard deviation: the sample is the whole living population
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    p10: percentile(sorted, 0.1),
+    p25: percentile(sorted, 0.25),
+    median: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Summarize every trait of the living animals, grouped by species.
+ */
+export function collectTraitSample(tick: number, animals: Animal[]): TraitSample {
+  const bySpecies = new Map<Species, Animal[]>();
+  for (const animal of animals) {
+    if (animal.state.isDead) continue;
+    const members = bySpecies.get(animal.species) ?? [];
+    members.push(animal);
+    bySpecies.set(animal.species, members);
+  }
+
+  const species: Record<Species, SpeciesTraitSample> = {};
+  for (const [id, members] of bySpecies) {
+    const traits: Record<string, TraitSummary> = {};
+    for (const definition of TRAIT_DEFINITIONS) {
+      traits[definition.id] = summarizeValues(members.map(a => getTraitValue(a, definition)));
+    }
+    species[id] = { count: members.length, traits };
+  }
+
+  return { tick, species };
+}
+
+const SUMMARY_FIELDS: Array<keyof TraitSummary> = ['mean', 'stdDev', 'min', 'p10', 'p25', 'median', 'p75', 'p90', 'max'];
+
+export function createTraitStatistics(
+  sampleInterval: number = 10,
+  maxSamples: number = 500,
+  mode: HistoryMode = 'recent'
+): TraitStatistics {
+  const series = createTickSeries<TraitSample>(maxSamples, mode);
+  let interval = Math.max(1, Math.floor(sampleInterval));
+
+  return {
+    record(tick: number, animals: Animal[]): boolean {
+      if (tick % interval !== 0) {
+        return false;
+      }
+
+      series.push(collectTraitSample(tick, animals));
+      return true;
+    },
+
+    getSamples(): TraitSample[] {
+      return series.getPoints();
+    },
+
+    getLatest(): TraitSample | null {
+      return series.getLatest();
+    },
+
+    truncateAfter(tick: number): void {
+      series.truncateAfter(tick);
+    },
+
+    clear(): void {
+      series.clear();
+    },
+
+    setSampleInterval(newInterval: number): void {
+      interval = Math.max(1, Math.floor(newInterval));
+    },
+
+    getSampleInterval(): number {
+      return interval;
+    },
+
+    setMode(newMode: HistoryMode): void {
+      series.setMode(newMode);
+    },
+
+    getMode(): HistoryMode {
+      return series.getMode();
+    },
+
+    getLength(): number {
+      return series.getLength();
+    },
+
+    toCSV(): string {
+      const lines = [['tick', 'species', 'count', 'trait', ...SUMMARY_FIELDS].join(',')];
+      for (const sample of series.getPoints()) {
+        for (const [species, { count, traits }] of Object.entries(sample.species)) {
+          for (const definition of TRAIT_DEFINITIONS) {
+            const summary = traits[definition.id];
+            lines.push([sample.tick, species, count, definition.id, ...SUMMARY_FIELDS.map(f => summary[f])].join(','));
+          }
+        }
+      }
+      return lines.join('\n');
+    },
+
+    toJSON(): string {
+      return JSON.stringify({
+        sampleInterval: interval,
+        mode: series.getMode(),
+        stride: series.getStride(),
+        samples: series.getPoints(),
+      }, null, 2);
+    },
+  };
+}
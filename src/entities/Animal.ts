@@ -1,10 +1,12 @@
-import type { Animal, Species, BaseAttributes, BehavioralAttributes, LifecycleAttributes, DerivedStats, DietFlags, AnimalState } from './types';
+import type { ActionType, Animal, AnimalEdit, Species, SubspeciesId, BaseAttributes, BehavioralAttributes, LifecycleAttributes, DerivedStats, DietFlags, AnimalState } from './types';
 import type { Vector2 } from '../utils/vector';
 import type { EntityId } from '../utils/id';
 import type { SimulationConfig } from '../config/types';
-import { DEER_BASE_ATTRIBUTES, DEER_BEHAVIORAL_ATTRIBUTES, DEER_LIFECYCLE_ATTRIBUTES, DEER_DIET } from '../species/deer';
-import { WOLF_BASE_ATTRIBUTES, WOLF_BEHAVIORAL_ATTRIBUTES, WOLF_LIFECYCLE_ATTRIBUTES, WOLF_DIET } from '../species/wolf';
+import type { TerrainType } from '../spatial/TerrainGrid';
+import { getSpeciesDefinition } from '../species/registry';
 import { calculateAllDerivedStats } from '../genetics/derived';
+import type { AttributeBounds } from '../genetics/attributes';
+import { BASE_ATTRIBUTE_BOUNDS, BEHAVIORAL_ATTRIBUTE_BOUNDS, LIFECYCLE_ATTRIBUTE_BOUNDS, widenBounds } from '../genetics/attributes';
 
 export interface CreateAnimalOptions {
   species: Species;
@@ -13,31 +15,26 @@ export interface CreateAnimalOptions {
   behavioralAttributes?: Partial<BehavioralAttributes>;
   lifecycleAttributes?: Partial<LifecycleAttributes>;
   parentId?: EntityId | null;
+  secondParentId?: EntityId | null;
   generation?: number;
+  // Defaults to the species' founding population
+  subspecies?: SubspeciesId;
   initialHunger?: number;
 }
 
-function getSpeciesDefaults(species: Species): {
+function getSpeciesDefaults(species: Species, config: SimulationConfig): {
   baseAttributes: BaseAttributes;
   behavioralAttributes: BehavioralAttributes;
   lifecycleAttributes: LifecycleAttributes;
   diet: DietFlags;
 } {
-  if (species === 'deer') {
-    return {
-      baseAttributes: { ...DEER_BASE_ATTRIBUTES },
-      behavioralAttributes: { ...DEER_BEHAVIORAL_ATTRIBUTES },
-      lifecycleAttributes: { ...DEER_LIFECYCLE_ATTRIBUTES },
-      diet: { ...DEER_DIET },
-    };
-  } else {
-    return {
-      baseAttributes: { ...WOLF_BASE_ATTRIBUTES },
-      behavioralAttributes: { ...WOLF_BEHAVIORAL_ATTRIBUTES },
-      lifecycleAttributes: { ...WOLF_LIFECYCLE_ATTRIBUTES },
-      diet: { ...WOLF_DIET },
-    };
-  }
+  const definition = getSpeciesDefinition(config, species);
+  return {
+    baseAttributes: { ...definition.baseAttributes },
+    behavioralAttributes: { ...definition.behavioralAttributes },
+    lifecycleAttributes: { ...definition.lifecycleAttributes },
+    diet: { ...definition.diet, prey: [...definition.diet.prey] },
+  };
 }
 
 export function createAnimal(
@@ -45,7 +42,7 @@ export function createAnimal(
   config: SimulationConfig,
   idGenerator: () => EntityId
 ): Animal {
-  const defaults = getSpeciesDefaults(options.species);
+  const defaults = getSpeciesDefaults(options.species, config);
 
   const baseAttributes: BaseAttributes = {
     ...defaults.baseAttributes,
@@ -67,6 +64,8 @@ export function createAnimal(
   const state: AnimalState = {
     position: { ...options.position },
     hunger: options.initialHunger ?? config.entities.INITIAL_HUNGER_SPAWN,
+    health: derivedStats.maxHealth,
+    stamina: derivedStats.maxStamina,
     age: 0,
     ticksSinceLastReproduction: config.reproduction.REPRODUCTION_COOLDOWN,
     isDead: false,
@@ -82,7 +81,9 @@ export function createAnimal(
     derivedStats,
     state,
     parentId: options.parentId ?? null,
+    secondParentId: options.secondParentId ?? null,
     generation: options.generation ?? 0,
+    subspecies: options.subspecies ?? options.species,
   };
 }
 
@@ -119,6 +120,13 @@ export function isReproductionReady(animal: Animal, config: SimulationConfig): b
   return true;
 }
 
+/**
+ * Whether an animal's diet lets it hunt another animal's species.
+ */
+export function canHunt(hunter: Animal, target: Animal): boolean {
+  return hunter.diet.canEatAnimals && hunter.diet.prey.includes(target.species);
+}
+
 export function getFitness(animal: Animal): number {
   return animal.baseAttributes.strength +
          animal.baseAttributes.agility +
@@ -138,8 +146,91 @@ export function updateAnimalState(
   };
 }
 
-export function applyHungerDecay(animal: Animal): Animal {
-  const newHunger = Math.max(0, animal.state.hunger - animal.derivedStats.hungerDecayRate);
+export interface AnimalEditResult {
+  success: boolean;
+  animal?: Animal;
+  errors: string[];
+}
+
+function validateAttributes(
+  values: object | undefined,
+  bounds: Record<string, AttributeBounds>,
+  defaults: object,
+  errors: string[]
+): void {
+  for (const [key, value] of Object.entries(values ?? {})) {
+    const range = bounds[key];
+    if (!range) {
+      errors.push(`${key} is not an attribute`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else {
+      const { min, max } = widenBounds(range, (defaults as Record<string, number>)[key] ?? range.min);
+      if (value < min || value > max) {
+        errors.push(`${key} must be between ${min} and ${max}`);
+      }
+    }
+  }
+}
+
+/**
+ * Apply hand edits to an animal. Attributes must lie within their bounds
+ * (widened by the species default); derived stats are recomputed and health
+ * and stamina capped at the new maximums. Nothing changes if any value fails.
+ */
+export function applyAnimalEdit(animal: Animal, edit: AnimalEdit, config: SimulationConfig): AnimalEditResult {
+  const errors: string[] = [];
+  const definition = getSpeciesDefinition(config, animal.species);
+
+  validateAttributes(edit.baseAttributes, BASE_ATTRIBUTE_BOUNDS, definition.baseAttributes, errors);
+  validateAttributes(edit.behavioralAttributes, BEHAVIORAL_ATTRIBUTE_BOUNDS, definition.behavioralAttributes, errors);
+  validateAttributes(edit.lifecycleAttributes, LIFECYCLE_ATTRIBUTE_BOUNDS, definition.lifecycleAttributes, errors);
+
+  const lifecycleAttributes: LifecycleAttributes = { ...animal.lifecycleAttributes, ...edit.lifecycleAttributes };
+  if (lifecycleAttributes.maturityAge >= lifecycleAttributes.maxAge) {
+    errors.push('maturityAge must be below maxAge');
+  }
+
+  const { MAX_HUNGER } = config.entities;
+  if (edit.hunger !== undefined && !(edit.hunger >= 0 && edit.hunger <= MAX_HUNGER)) {
+    errors.push(`hunger must be between 0 and ${MAX_HUNGER}`);
+  }
+  if (edit.age !== undefined && !(Number.isInteger(edit.age) && edit.age >= 0 && edit.age < lifecycleAttributes.maxAge)) {
+    errors.push(`age must be a whole number from 0 to below maxAge (${lifecycleAttributes.maxAge})`);
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const baseAttributes: BaseAttributes = { ...animal.baseAttributes, ...edit.baseAttributes };
+  const derivedStats = calculateAllDerivedStats(baseAttributes, config);
+
+  return {
+    success: true,
+    animal: {
+      ...animal,
+      baseAttributes,
+      behavioralAttributes: { ...animal.behavioralAttributes, ...edit.behavioralAttributes },
+      lifecycleAttributes,
+      derivedStats,
+      state: {
+        ...animal.state,
+        hunger: edit.hunger ?? animal.state.hunger,
+        age: edit.age ?? animal.state.age,
+        health: Math.min(animal.state.health, derivedStats.maxHealth),
+        stamina: Math.min(animal.state.stamina, derivedStats.maxStamina),
+      },
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Apply one tick of hunger decay, scaled by the season's metabolism multiplier.
+ */
+export function applyHungerDecay(animal: Animal, rateMultiplier: number = 1): Animal {
+  const newHunger = Math.max(0, animal.state.hunger - animal.derivedStats.hungerDecayRate * rateMultiplier);
   return updateAnimalState(animal, { hunger: newHunger });
 }
 
@@ -157,3 +248,75 @@ export function applyMovementCost(
   const newHunger = Math.max(0, animal.state.hunger - totalCost);
   return updateAnimalState(animal, { hunger: newHunger });
 }
+
+export function isExhausted(animal: Animal): boolean {
+  return animal.state.stamina <= 0;
+}
+
+/**
+ * Movement speed after wounds and exhaustion: speed drops linearly with
+ * missing health, down to (1 - WOUND_SPEED_PENALTY) at zero health, and is
+ * further multiplied by EXHAUSTED_SPEED_MULTIPLIER with no stamina left.
+ */
+export function getEffectiveSpeed(animal: Animal, config: SimulationConfig): number {
+  const healthRatio = Math.max(0, Math.min(1, animal.state.health / animal.derivedStats.maxHealth));
+  const woundedSpeed = animal.derivedStats.speed * (1 - config.combat.WOUND_SPEED_PENALTY * (1 - healthRatio));
+  return isExhausted(animal) ? woundedSpeed * config.stamina.EXHAUSTED_SPEED_MULTIPLIER : woundedSpeed;
+}
+
+/**
+ * Speed multiplier for a species on a terrain type, where 0 means impassable.
+ * Species without terrain settings move freely everywhere.
+ */
+export function getTerrainSpeedMultiplier(
+  species: Species,
+  terrain: TerrainType,
+  config: SimulationConfig
+): number {
+  return config.species[species]?.terrainSpeed?.[terrain] ?? 1;
+}
+
+/**
+ * Fleeing and moving to food drain stamina; staying restores it, and any
+ * other action restores a fraction of that.
+ */
+export function applyStaminaChange(
+  animal: Animal,
+  action: ActionType | undefined,
+  config: SimulationConfig
+): Animal {
+  let change: number;
+  if (action === 'FLEE') {
+    change = -config.stamina.FLEE_STAMINA_COST;
+  } else if (action === 'MOVE_TO_FOOD') {
+    change = -config.stamina.SPRINT_STAMINA_COST;
+  } else if (action === 'STAY') {
+    change = config.stamina.STAMINA_RECOVERY;
+  } else {
+    change = config.stamina.STAMINA_RECOVERY * config.stamina.PASSIVE_RECOVERY_RATE;
+  }
+
+  const stamina = Math.max(0, Math.min(animal.derivedStats.maxStamina, animal.state.stamina + change));
+  return updateAnimalState(animal, { stamina });
+}
+
+export function applyDamage(animal: Animal, damage: number): Animal {
+  return updateAnimalState(animal, { health: Math.max(0, animal.state.health - damage) });
+}
+
+/**
+ * Starving animals lose health; well-fed animals heal.
+ */
+export function applyHealthChange(animal: Animal, config: SimulationConfig): Animal {
+  if (animal.state.hunger <= 0) {
+    return applyDamage(animal, config.combat.STARVATION_DAMAGE);
+  }
+
+  const hungerRatio = animal.state.hunger / config.entities.MAX_HUNGER;
+  if (hungerRatio >= config.combat.HEAL_HUNGER_THRESHOLD && animal.state.health < animal.derivedStats.maxHealth) {
+    const health = Math.min(animal.derivedStats.maxHealth, animal.state.health + config.combat.HEAL_RATE);
+    return updateAnimalState(animal, { health });
+  }
+
+  return animal;
+}
@@ -1,12 +1,29 @@
 import type { Vector2 } from '../utils/vector';
 import type { EntityId } from '../utils/id';
+import type { SpeciesColors } from '../config/types';
 
-export type Species = 'deer' | 'wolf';
+// Species are registered in config.species, keyed by id (e.g. 'deer')
+export type Species = string;
+
+// A species' founding population uses the species id; splits get their own ids
+export type SubspeciesId = string;
+
+export interface Subspecies {
+  id: SubspeciesId;
+  species: Species;
+  // Sub-species it split off from
+  parent: SubspeciesId;
+  label: string;
+  colors: SpeciesColors;
+  foundedTick: number;
+}
 
 export interface DietFlags {
   canEatVegetation: boolean;
   canEatAnimals: boolean;
   canEatCorpses: boolean;
+  // Species this one hunts (only used when canEatAnimals)
+  prey: Species[];
 }
 
 export interface BaseAttributes {
@@ -37,11 +54,15 @@ export interface DerivedStats {
   attackPower: number;
   defense: number;
   hungerDecayRate: number;
+  maxHealth: number;
+  maxStamina: number;
 }
 
 export interface AnimalState {
   position: Vector2;
   hunger: number;
+  health: number;
+  stamina: number;
   age: number;
   ticksSinceLastReproduction: number;
   isDead: boolean;
@@ -57,7 +78,10 @@ export interface Animal {
   derivedStats: DerivedStats;
   state: AnimalState;
   parentId: EntityId | null;
+  // Mate that contributed genes (sexual reproduction only)
+  secondParentId: EntityId | null;
   generation: number;
+  subspecies: SubspeciesId;
 }
 
 export interface Corpse {
@@ -71,18 +95,46 @@ export interface Corpse {
   decayTimer: number;
 }
 
+export type DeathCause = 'predation' | 'starvation' | 'wounds' | 'old age';
+
+export interface DeathRecord {
+  animalId: EntityId;
+  species: Species;
+  generation: number;
+  tick: number;
+  age: number;
+  cause: DeathCause;
+  // Predator that landed the killing blow (predation only)
+  killerId: EntityId | null;
+}
+
 export type ActionType =
   | 'DIE'
   | 'FLEE'
   | 'EAT'
   | 'MOVE_TO_FOOD'
   | 'ATTACK'
+  | 'MOVE_TO_MATE'
   | 'REPRODUCE'
   | 'DRIFT'
   | 'STAY';
 
+// Action log entries: executed actions, plus hand edits made from the inspector
+export type LogEntryType = ActionType | 'INTERVENTION';
+
 export interface ActionLogEntry {
   tick: number;
-  action: ActionType;
+  action: LogEntryType;
   details: string;
 }
+
+/**
+ * Hand edits to one animal. Omitted fields are left as they are.
+ */
+export interface AnimalEdit {
+  baseAttributes?: Partial<BaseAttributes>;
+  behavioralAttributes?: Partial<BehavioralAttributes>;
+  lifecycleAttributes?: Partial<LifecycleAttributes>;
+  hunger?: number;
+  age?: number;
+}
@@ -25,6 +25,14 @@ export const LIFECYCLE_ATTRIBUTE_BOUNDS: Record<string, AttributeBounds> = {
   litterSize: { min: 1, max: 4 },
 };
 
+/**
+ * Bounds stretched to take in a species default, since some species start
+ * outside what mutation allows.
+ */
+export function widenBounds(bounds: AttributeBounds, value: number): AttributeBounds {
+  return { min: Math.min(bounds.min, value), max: Math.max(bounds.max, value) };
+}
+
 export function clampAttribute(value: number, bounds: AttributeBounds): number {
   return Math.max(bounds.min, Math.min(bounds.max, value));
 }
@@ -26,6 +26,14 @@ export function calculateHungerDecayRate(
   return baseDecay * (size + speed * 0.3) / endurance;
 }
 
+export function calculateMaxHealth(size: number, endurance: number, multiplier: number): number {
+  return size * endurance * multiplier;
+}
+
+export function calculateMaxStamina(endurance: number, multiplier: number): number {
+  return endurance * multiplier;
+}
+
 export function calculateAllDerivedStats(
   baseAttributes: BaseAttributes,
   config: SimulationConfig
@@ -38,6 +46,8 @@ export function calculateAllDerivedStats(
   const attackPower = calculateAttackPower(strength, size);
   const defense = calculateDefense(size, agility);
   const hungerDecayRate = calculateHungerDecayRate(size, speed, endurance, BASE_DECAY);
+  const maxHealth = calculateMaxHealth(size, endurance, config.combat.HEALTH_MULTIPLIER);
+  const maxStamina = calculateMaxStamina(endurance, config.stamina.STAMINA_MULTIPLIER);
 
   return {
     speed,
@@ -45,5 +55,7 @@ export function calculateAllDerivedStats(
     attackPower,
     defense,
     hungerDecayRate,
+    maxHealth,
+    maxStamina,
   };
 }
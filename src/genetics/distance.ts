@@ -0,0 +1,111 @@
+import type { Animal } from '../entities/types';
+import type { AttributeBounds } from './attributes';
+import { BASE_ATTRIBUTE_BOUNDS, BEHAVIORAL_ATTRIBUTE_BOUNDS, LIFECYCLE_ATTRIBUTE_BOUNDS } from './attributes';
+
+export interface GenomeSplit {
+  // Indices into the genomes passed in, in ascending order
+  clusters: [number[], number[]];
+  // Genetic distance between the two cluster centres
+  distance: number;
+}
+
+const BASE_KEYS = Object.keys(BASE_ATTRIBUTE_BOUNDS) as Array<keyof Animal['baseAttributes']>;
+const BEHAVIORAL_KEYS = Object.keys(BEHAVIORAL_ATTRIBUTE_BOUNDS) as Array<keyof Animal['behavioralAttributes']>;
+const LIFECYCLE_KEYS = Object.keys(LIFECYCLE_ATTRIBUTE_BOUNDS) as Array<keyof Animal['lifecycleAttributes']>;
+
+const MAX_BISECT_ITERATIONS = 20;
+
+function normalize(value: number, bounds: AttributeBounds): number {
+  return (value - bounds.min) / (bounds.max - bounds.min);
+}
+
+/**
+ * Every heritable attribute scaled to 0-1 by its bounds, so each one weighs
+ * the same in distance calculations.
+ */
+export function getGenome(animal: Animal): number[] {
+  return [
+    ...BASE_KEYS.map(key => normalize(animal.baseAttributes[key], BASE_ATTRIBUTE_BOUNDS[key])),
+    ...BEHAVIORAL_KEYS.map(key => normalize(animal.behavioralAttributes[key], BEHAVIORAL_ATTRIBUTE_BOUNDS[key])),
+    ...LIFECYCLE_KEYS.map(key => normalize(animal.lifecycleAttributes[key], LIFECYCLE_ATTRIBUTE_BOUNDS[key])),
+  ];
+}
+
+/**
+ * Root-mean-square difference of two genomes, from 0 (identical) to 1.
+ */
+export function genomeDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum / a.length);
+}
+
+export function geneticDistance(a: Animal, b: Animal): number {
+  return genomeDistance(getGenome(a), getGenome(b));
+}
+
+function centroid(genomes: number[][], indices: number[]): number[] {
+  const center = new Array<number>(genomes[0].length).fill(0);
+  for (const index of indices) {
+    const genome = genomes[index];
+    for (let i = 0; i < center.length; i++) {
+      center[i] += genome[i];
+    }
+  }
+  return center.map(sum => sum / indices.length);
+}
+
+function farthestFrom(genomes: number[][], point: number[]): number {
+  let farthest = 0;
+  let farthestDistance = -1;
+  genomes.forEach((genome, index) => {
+    const d = genomeDistance(genome, point);
+    if (d > farthestDistance) {
+      farthest = index;
+      farthestDistance = d;
+    }
+  });
+  return farthest;
+}
+
+/**
+ * Split genomes into two clusters with k-means (k = 2). The starting centres
+ * are picked deterministically, so the same population always splits the
+ * same way.
+ */
+export function bisectGenomes(genomes: number[][]): GenomeSplit {
+  if (genomes.length < 2) {
+    return { clusters: [genomes.map((_, i) => i), []], distance: 0 };
+  }
+
+  const all = genomes.map((_, i) => i);
+  // The genome farthest from the mean, then the one farthest from that
+  const first = farthestFrom(genomes, centroid(genomes, all));
+  const second = farthestFrom(genomes, genomes[first]);
+  let centers = [genomes[first], genomes[second]];
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_BISECT_ITERATIONS; iteration++) {
+    const next = genomes.map(genome =>
+      genomeDistance(genome, centers[1]) < genomeDistance(genome, centers[0]) ? 1 : 0
+    );
+    const changed = next.some((cluster, i) => cluster !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+
+    const members: [number[], number[]] = [[], []];
+    assignments.forEach((cluster, i) => members[cluster].push(i));
+    if (members[1].length === 0) break;
+    centers = [centroid(genomes, members[0]), centroid(genomes, members[1])];
+  }
+
+  const clusters: [number[], number[]] = [[], []];
+  assignments.forEach((cluster, i) => clusters[cluster].push(i));
+  return {
+    clusters,
+    distance: clusters[1].length === 0 ? 0 : genomeDistance(centers[0], centers[1]),
+  };
+}
@@ -68,3 +68,83 @@ export function createOffspringAttributes(
     lifecycleAttributes,
   };
 }
+
+/**
+ * Sexual reproduction: each attribute is a random-weighted blend of both
+ * parents, so offspring fall anywhere between them before mutation.
+ */
+
+export function blendValue(a: number, b: number, rng: RandomGenerator): number {
+  const weight = rng.next();
+  return a * weight + b * (1 - weight);
+}
+
+export function blendBaseAttributes(
+  a: BaseAttributes,
+  b: BaseAttributes,
+  rng: RandomGenerator
+): BaseAttributes {
+  return {
+    strength: blendValue(a.strength, b.strength, rng),
+    agility: blendValue(a.agility, b.agility, rng),
+    endurance: blendValue(a.endurance, b.endurance, rng),
+    perception: blendValue(a.perception, b.perception, rng),
+    size: blendValue(a.size, b.size, rng),
+  };
+}
+
+export function blendBehavioralAttributes(
+  a: BehavioralAttributes,
+  b: BehavioralAttributes,
+  rng: RandomGenerator
+): BehavioralAttributes {
+  return {
+    aggression: blendValue(a.aggression, b.aggression, rng),
+    flightInstinct: blendValue(a.flightInstinct, b.flightInstinct, rng),
+    foodPriorityThreshold: blendValue(a.foodPriorityThreshold, b.foodPriorityThreshold, rng),
+    reproductiveUrge: blendValue(a.reproductiveUrge, b.reproductiveUrge, rng),
+    carrionPreference: blendValue(a.carrionPreference, b.carrionPreference, rng),
+  };
+}
+
+export function blendLifecycleAttributes(
+  a: LifecycleAttributes,
+  b: LifecycleAttributes,
+  rng: RandomGenerator
+): LifecycleAttributes {
+  return {
+    maxAge: Math.round(blendValue(a.maxAge, b.maxAge, rng)),
+    maturityAge: Math.round(blendValue(a.maturityAge, b.maturityAge, rng)),
+    litterSize: Math.round(blendValue(a.litterSize, b.litterSize, rng)),
+  };
+}
+
+export function createSexualOffspringAttributes(
+  parent: Animal,
+  mate: Animal,
+  rng: RandomGenerator,
+  config: SimulationConfig
+): {
+  baseAttributes: BaseAttributes;
+  behavioralAttributes: BehavioralAttributes;
+  lifecycleAttributes: LifecycleAttributes;
+} {
+  // Blend both parents
+  let baseAttributes = blendBaseAttributes(parent.baseAttributes, mate.baseAttributes, rng);
+  let behavioralAttributes = blendBehavioralAttributes(parent.behavioralAttributes, mate.behavioralAttributes, rng);
+  let lifecycleAttributes = blendLifecycleAttributes(parent.lifecycleAttributes, mate.lifecycleAttributes, rng);
+
+  // Apply mutations
+  baseAttributes = mutateBaseAttributes(baseAttributes, config.evolution.BASE_MUTATION_RATE, rng);
+  behavioralAttributes = mutateBehavioralAttributes(behavioralAttributes, config.evolution.BEHAVIORAL_MUTATION_RATE, rng);
+  lifecycleAttributes = mutateLifecycleAttributes(lifecycleAttributes, config.evolution.LIFECYCLE_MUTATION_RATE, rng);
+
+  // Ensure maturity < maxAge
+  lifecycleAttributes = ensureMaturityLessThanMaxAge(lifecycleAttributes);
+
+  return {
+    baseAttributes,
+    behavioralAttributes,
+    lifecycleAttributes,
+  };
+}
@@ -1,15 +1,23 @@
+import type { ISimulation } from './core/Simulation';
 import { Simulation } from './core/Simulation';
+import { createWorkerSimulation } from './worker/WorkerSimulation';
 import { UIManager } from './ui/UIManager';
 import { getDefaultConfig } from './config/defaults';
 
 const canvas = document.getElementById('simulation-canvas') as HTMLCanvasElement;
 const config = getDefaultConfig();
 
-const simulation = new Simulation(config);
+// Run ticks off the main thread so large populations don't stall rendering and input
+const simulation: ISimulation = typeof Worker !== 'undefined'
+  ? createWorkerSimulation(
+      config,
+      new Worker(new URL('./worker/simulation.worker.ts', import.meta.url), { type: 'module' })
+    )
+  : new Simulation(config);
 const ui = new UIManager(canvas, simulation);
 
 simulation.start();
 ui.init();
 
 // Make simulation accessible for debugging
-(window as unknown as { simulation: Simulation }).simulation = simulation;
+(window as unknown as { simulation: ISimulation }).simulation = simulation;
@@ -1,24 +1,52 @@
 import type { World } from '../core/World';
-import type { Animal } from '../entities/types';
-import type { SimulationConfig } from '../config/types';
+import type { Animal, Species } from '../entities/types';
+import type { Action } from '../behavior/types';
+import type { PerceptionSummary } from '../behavior/Perception';
+import type { EntityId } from '../utils/id';
+import type { SimulationConfig, SpeciesColors } from '../config/types';
 import type { Camera } from './Camera';
 import type { SelectionManager } from '../ui/SelectionManager';
-import { ENTITY_COLORS, RENDER_SCALE, getHungerBarColor, getEntityRadius } from './sprites';
+import type { Vector2 } from '../utils/vector';
+import type { HeatmapGrid, HeatmapStore, HeatmapView } from '../data/HeatmapStore';
+import type { TrailStore } from '../data/TrailStore';
+import { ENTITY_COLORS, RENDER_SCALE, getHungerBarColor, getEntityRadius, getHeatmapColor } from './sprites';
+import { getHeatmapLabel } from '../data/HeatmapStore';
+import { createPerception, inspectPerception } from '../behavior/Perception';
+import { lerp } from '../utils/vector';
+
+// Which animals get movement trails; 'species' uses trailSpecies
+export type TrailMode = 'none' | 'selected' | 'species';
 
 export interface RenderOptions {
   showHungerBars: boolean;
+  showStaminaBars: boolean;
   showMaturityBadges: boolean;
   showReproductionGlow: boolean;
+  showTerrain: boolean;
   showVegetation: boolean;
   showCorpses: boolean;
   showAnimals: boolean;
   debugMode: boolean;
+  // Alert range, threats, food target and intent of the selected animal
+  showPerception: boolean;
+  trails: TrailMode;
+  trailSpecies: Species | null;
+  // Heatmap drawn over the terrain, or null for none
+  heatmap: HeatmapView | null;
+  // Scenario editor brush outline in world units, or null for none
+  brush: { center: Vector2; radius: number } | null;
+  // Expected milliseconds between ticks; animals glide between their last two positions over it (0 disables)
+  tickInterval: number;
 }
 
 export interface Renderer {
   render(world: World): void;
   setOptions(options: Partial<RenderOptions>): void;
   getOptions(): RenderOptions;
+  setHeatmapStore(store: HeatmapStore | null): void;
+  setTrailStore(store: TrailStore | null): void;
+  // Decisions from the last tick, for the selected animal's intent
+  setDecisions(decisions: Map<EntityId, Action>): void;
   getFPS(): number;
   resize(): void;
   destroy(): void;
@@ -34,19 +62,59 @@ export function createRenderer(
 
   let options: RenderOptions = {
     showHungerBars: true,
+    showStaminaBars: true,
     showMaturityBadges: true,
     showReproductionGlow: true,
+    showTerrain: true,
     showVegetation: true,
     showCorpses: true,
     showAnimals: true,
     debugMode: false,
+    showPerception: true,
+    trails: 'none',
+    trailSpecies: null,
+    heatmap: null,
+    brush: null,
+    tickInterval: 0,
   };
+  let heatmapStore: HeatmapStore | null = null;
+  let trailStore: TrailStore | null = null;
+  let decisions = new Map<EntityId, Action>();
+
+  // Perception only changes with the tick or the selection
+  let perceptionKey = '';
+  let perceptionSummary: PerceptionSummary | null = null;
 
   let frameCount = 0;
   let fps = 0;
   let fpsUpdateTime = performance.now();
   let animationTime = 0;
 
+  // Animal positions at the last two ticks seen, for interpolation
+  let interpolationTick = -1;
+  let previousPositions = new Map<string, Vector2>();
+  let currentPositions = new Map<string, Vector2>();
+  let tickSeenAt = 0;
+
+  function updateInterpolation(world: World): void {
+    if (world.currentTick === interpolationTick) return;
+
+    // Only consecutive ticks glide; resets and seeks jump
+    previousPositions = world.currentTick === interpolationTick + 1 ? currentPositions : new Map();
+    currentPositions = new Map(world.getLivingAnimals().map(a => [a.id, { ...a.state.position }]));
+    interpolationTick = world.currentTick;
+    tickSeenAt = animationTime;
+  }
+
+  function getDrawPosition(animal: Animal): Vector2 {
+    const from = previousPositions.get(animal.id);
+    if (!from || options.tickInterval <= 0) {
+      return animal.state.position;
+    }
+    const t = Math.min(1, (animationTime - tickSeenAt) / options.tickInterval);
+    return lerp(from, animal.state.position, t);
+  }
+
   function updateFPS(): void {
     frameCount++;
     const now = performance.now();
@@ -62,6 +130,34 @@ export function createRenderer(
     ctx.fillRect(0, 0, canvas.width, canvas.height);
   }
 
+  function renderTerrain(world: World): void {
+    if (!options.showTerrain) return;
+
+    const bounds = camera.getVisibleBounds();
+    const { terrainGrid } = world;
+    const tileSize = terrainGrid.getTileSize();
+    const { zoom } = camera.getState();
+    const screenSize = tileSize * zoom;
+
+    // Only walk the tiles inside the visible bounds
+    const minCol = Math.max(0, Math.floor(bounds.minX / tileSize));
+    const maxCol = Math.min(terrainGrid.getCols() - 1, Math.floor(bounds.maxX / tileSize));
+    const minRow = Math.max(0, Math.floor(bounds.minY / tileSize));
+    const maxRow = Math.min(terrainGrid.getRows() - 1, Math.floor(bounds.maxY / tileSize));
+
+    for (let gridY = minRow; gridY <= maxRow; gridY++) {
+      for (let gridX = minCol; gridX <= maxCol; gridX++) {
+        const terrain = terrainGrid.get(gridX, gridY);
+        if (terrain === 'grassland') continue;
+
+        const screenPos = camera.worldToScreen({ x: gridX * tileSize, y: gridY * tileSize });
+        ctx.fillStyle = ENTITY_COLORS.terrain[terrain];
+        // Overlap by a pixel so neighbouring tiles do not show seams
+        ctx.fillRect(screenPos.x, screenPos.y, screenSize + 1, screenSize + 1);
+      }
+    }
+  }
+
   function renderVegetation(world: World): void {
     if (!options.showVegetation) return;
 
@@ -71,6 +167,7 @@ export function createRenderer(
 
     ctx.fillStyle = ENTITY_COLORS.vegetation.fill;
 
+    const minOpacity = RENDER_SCALE.VEGETATION_MIN_OPACITY;
     const positions = world.vegetationGrid.getAllPositions();
     for (const gridPos of positions) {
       const worldPos = world.vegetationGrid.gridToWorld(gridPos.x, gridPos.y);
@@ -89,6 +186,9 @@ export function createRenderer(
       const screenSize = tileSize * zoom;
       const padding = RENDER_SCALE.VEGETATION_TILE_PADDING * zoom;
 
+      // Shade by density so grazed-down patches stand out
+      const biomass = world.vegetationGrid.getBiomass(gridPos.x, gridPos.y);
+      ctx.globalAlpha = minOpacity + (1 - minOpacity) * Math.min(1, biomass);
       ctx.fillRect(
         screenPos.x - screenSize / 2 + padding,
         screenPos.y - screenSize / 2 + padding,
@@ -96,6 +196,7 @@ export function createRenderer(
         screenSize - padding * 2
       );
     }
+    ctx.globalAlpha = 1;
   }
 
   function renderCorpses(world: World): void {
@@ -137,11 +238,111 @@ export function createRenderer(
     }
   }
 
-  function renderAnimal(animal: Animal, isSelected: boolean): void {
+  function renderHeatmap(grid: HeatmapGrid | null): void {
+    if (!grid || grid.max <= 0) return;
+
+    const bounds = camera.getVisibleBounds();
+    const { zoom } = camera.getState();
+    const screenSize = grid.cellSize * zoom;
+    const minX = Math.max(0, Math.floor(bounds.minX / grid.cellSize));
+    const maxX = Math.min(grid.cols - 1, Math.floor(bounds.maxX / grid.cellSize));
+    const minY = Math.max(0, Math.floor(bounds.minY / grid.cellSize));
+    const maxY = Math.min(grid.rows - 1, Math.floor(bounds.maxY / grid.cellSize));
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const value = grid.values[y * grid.cols + x];
+        if (value <= 0) continue;
+
+        // Square root keeps sparse cells visible next to hot spots
+        const intensity = Math.sqrt(value / grid.max);
+        ctx.fillStyle = getHeatmapColor(intensity, RENDER_SCALE.HEATMAP_MAX_OPACITY * (0.3 + 0.7 * intensity));
+        const screenPos = camera.worldToScreen({ x: x * grid.cellSize, y: y * grid.cellSize });
+        ctx.fillRect(screenPos.x, screenPos.y, screenSize + 1, screenSize + 1);
+      }
+    }
+  }
+
+  function renderHeatmapLegend(grid: HeatmapGrid | null): void {
+    if (!grid || !options.heatmap || !heatmapStore) return;
+
+    const decayWindow = heatmapStore.getDecayWindow();
+    const width = RENDER_SCALE.HEATMAP_LEGEND_WIDTH;
+    const x = canvas.width - width - 10;
+    const y = canvas.height - 50;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(x - 6, y - 18, width + 12, 54);
+
+    ctx.fillStyle = '#fff';
+    ctx.font = '11px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(getHeatmapLabel(options.heatmap), x, y - 5);
+    ctx.textAlign = 'right';
+    ctx.fillText(decayWindow > 0 ? `~${decayWindow} ticks` : 'all time', x + width, y - 5);
+
+    const gradient = ctx.createLinearGradient(x, 0, x + width, 0);
+    for (let i = 0; i <= 4; i++) {
+      gradient.addColorStop(i / 4, getHeatmapColor(i / 4));
+    }
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x, y, width, 8);
+
+    ctx.fillStyle = '#fff';
+    ctx.textAlign = 'left';
+    ctx.fillText('0', x, y + 22);
+    ctx.textAlign = 'right';
+    ctx.fillText(grid.max < 10 ? grid.max.toFixed(1) : Math.round(grid.max).toString(), x + width, y + 22);
+    ctx.textAlign = 'left';
+  }
+
+  function getTrailedAnimals(world: World): Animal[] {
+    if (options.trails === 'selected') {
+      const selectedId = selectionManager.getSelection().entityId;
+      const animal = selectedId ? world.getAnimal(selectedId) : undefined;
+      return animal && !animal.state.isDead ? [animal] : [];
+    }
+    if (options.trails === 'species') {
+      return world.getLivingAnimals().filter(a => a.species === options.trailSpecies);
+    }
+    return [];
+  }
+
+  function renderTrails(world: World): void {
+    if (!trailStore || !options.showAnimals || options.trails === 'none') return;
+
     const { zoom } = camera.getState();
-    const screenPos = camera.worldToScreen(animal.state.position);
+    const subspeciesColors = new Map(world.subspecies.map(s => [s.id, s.colors]));
+    ctx.lineWidth = RENDER_SCALE.TRAIL_LINE_WIDTH * zoom;
+    ctx.lineCap = 'round';
+
+    for (const animal of getTrailedAnimals(world)) {
+      // The trail ends where the animal is drawn, not where it last stopped
+      const points = [...trailStore.getTrail(animal.id), getDrawPosition(animal)].map(p => camera.worldToScreen(p));
+      if (points.length < 2) continue;
+
+      ctx.strokeStyle = (subspeciesColors.get(animal.subspecies) ??
+        config.species[animal.species]?.colors ??
+        ENTITY_COLORS.unknownSpecies).body;
+      for (let i = 1; i < points.length; i++) {
+        ctx.globalAlpha = RENDER_SCALE.TRAIL_MAX_OPACITY * (i / (points.length - 1));
+        ctx.beginPath();
+        ctx.moveTo(points[i - 1].x, points[i - 1].y);
+        ctx.lineTo(points[i].x, points[i].y);
+        ctx.stroke();
+      }
+    }
+    ctx.globalAlpha = 1;
+    ctx.lineCap = 'butt';
+  }
+
+  function renderAnimal(animal: Animal, isSelected: boolean, subspeciesColors: Map<string, SpeciesColors>): void {
+    const { zoom } = camera.getState();
+    const screenPos = camera.worldToScreen(getDrawPosition(animal));
     const radius = getEntityRadius(animal.baseAttributes.size) * zoom;
-    const colors = animal.species === 'deer' ? ENTITY_COLORS.deer : ENTITY_COLORS.wolf;
+    const colors = subspeciesColors.get(animal.subspecies) ??
+      config.species[animal.species]?.colors ??
+      ENTITY_COLORS.unknownSpecies;
 
     // Check if reproduction ready
     const isMature = animal.state.age >= animal.lifecycleAttributes.maturityAge;
@@ -191,9 +392,9 @@ export function createRenderer(
     ctx.fill();
     ctx.stroke();
 
-    // Species indicator (small inner shape)
-    if (animal.species === 'wolf') {
-      // Wolf: pointed ears suggestion
+    // Predator indicator (small inner shape)
+    if (animal.diet.canEatAnimals) {
+      // Pointed ears suggestion
       ctx.fillStyle = colors.outline;
       ctx.beginPath();
       ctx.moveTo(screenPos.x - radius * 0.5, screenPos.y - radius * 0.3);
@@ -232,6 +433,22 @@ export function createRenderer(
       ctx.fillStyle = getHungerBarColor(hungerPercent);
       ctx.fillRect(barX, barY, barWidth * hungerPercent, barHeight);
     }
+
+    // Stamina bar (below the hunger bar)
+    if (options.showStaminaBars) {
+      const barWidth = RENDER_SCALE.HUNGER_BAR_WIDTH * zoom;
+      const barHeight = RENDER_SCALE.HUNGER_BAR_HEIGHT * zoom;
+      const barX = screenPos.x - barWidth / 2;
+      const barY = screenPos.y + RENDER_SCALE.HUNGER_BAR_OFFSET_Y * zoom - radius +
+        (RENDER_SCALE.HUNGER_BAR_HEIGHT + RENDER_SCALE.STAMINA_BAR_GAP) * zoom;
+
+      ctx.fillStyle = ENTITY_COLORS.ui.hungerBarBg;
+      ctx.fillRect(barX, barY, barWidth, barHeight);
+
+      const staminaPercent = animal.state.stamina / animal.derivedStats.maxStamina;
+      ctx.fillStyle = staminaPercent > 0 ? ENTITY_COLORS.ui.stamina : ENTITY_COLORS.ui.staminaExhausted;
+      ctx.fillRect(barX, barY, barWidth * staminaPercent, barHeight);
+    }
   }
 
   function renderAnimals(world: World): void {
@@ -240,6 +457,8 @@ export function createRenderer(
     const bounds = camera.getVisibleBounds();
     const livingAnimals = world.getLivingAnimals();
     const selectedId = selectionManager.getSelection().entityId;
+    // Split-off sub-species are drawn in their own colors
+    const subspeciesColors = new Map(world.subspecies.map(s => [s.id, s.colors]));
 
     // Sort by Y for depth (render top to bottom)
     livingAnimals.sort((a, b) => a.state.position.y - b.state.position.y);
@@ -257,8 +476,115 @@ export function createRenderer(
       }
 
       const isSelected = animal.id === selectedId;
-      renderAnimal(animal, isSelected);
+      renderAnimal(animal, isSelected, subspeciesColors);
+    }
+  }
+
+  function getPerception(world: World, animal: Animal): PerceptionSummary {
+    const key = `${world.currentTick}:${animal.id}`;
+    if (key !== perceptionKey || !perceptionSummary) {
+      const perception = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex);
+      perceptionSummary = inspectPerception(animal, perception, decisions.get(animal.id));
+      perceptionKey = key;
+    }
+    return perceptionSummary;
+  }
+
+  function drawLine(from: Vector2, to: Vector2, color: string, dashed: boolean): void {
+    const { zoom } = camera.getState();
+    const start = camera.worldToScreen(from);
+    const end = camera.worldToScreen(to);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = RENDER_SCALE.PERCEPTION_LINE_WIDTH * zoom;
+    ctx.setLineDash(dashed ? [4 * zoom, 4 * zoom] : []);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  function renderPerception(world: World): void {
+    if (!options.showPerception || !options.showAnimals) return;
+
+    const selectedId = selectionManager.getSelection().entityId;
+    const animal = selectedId ? world.getAnimal(selectedId) : undefined;
+    if (!animal || animal.state.isDead) return;
+
+    const { zoom } = camera.getState();
+    const position = getDrawPosition(animal);
+    const screenPos = camera.worldToScreen(position);
+    const markerSize = RENDER_SCALE.PERCEPTION_MARKER_SIZE * zoom;
+    // Other animals are drawn where they are gliding to, so lines follow them
+    const positionOf = (id: EntityId | undefined, fallback: Vector2): Vector2 => {
+      const other = id ? world.getAnimal(id) : undefined;
+      return other && !other.state.isDead ? getDrawPosition(other) : fallback;
+    };
+
+    ctx.strokeStyle = ENTITY_COLORS.perception.range;
+    ctx.lineWidth = RENDER_SCALE.PERCEPTION_LINE_WIDTH * zoom;
+    ctx.setLineDash([6 * zoom, 4 * zoom]);
+    ctx.beginPath();
+    ctx.arc(screenPos.x, screenPos.y, animal.derivedStats.alertRange * zoom, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const { threats, foodTarget } = getPerception(world, animal);
+    for (const threat of threats) {
+      const threatPos = positionOf(threat.id, threat.position);
+      drawLine(position, threatPos, ENTITY_COLORS.perception.threat, false);
+      const end = camera.worldToScreen(threatPos);
+      ctx.beginPath();
+      ctx.arc(end.x, end.y, markerSize * 2, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    if (foodTarget) {
+      const foodPos = foodTarget.type === 'prey' ? positionOf(foodTarget.targetId, foodTarget.position) : foodTarget.position;
+      drawLine(position, foodPos, ENTITY_COLORS.perception.food, true);
+      const end = camera.worldToScreen(foodPos);
+      ctx.fillStyle = ENTITY_COLORS.perception.food;
+      ctx.fillRect(end.x - markerSize, end.y - markerSize, markerSize * 2, markerSize * 2);
+    }
+
+    const action = decisions.get(animal.id);
+    if (!action) return;
+
+    if (action.targetPosition) {
+      const target = camera.worldToScreen(positionOf(action.targetId, action.targetPosition));
+      const angle = Math.atan2(target.y - screenPos.y, target.x - screenPos.x);
+      const arrowSize = RENDER_SCALE.PERCEPTION_ARROW_SIZE * zoom;
+      ctx.strokeStyle = ENTITY_COLORS.perception.intent;
+      ctx.lineWidth = RENDER_SCALE.PERCEPTION_LINE_WIDTH * 1.5 * zoom;
+      ctx.beginPath();
+      ctx.moveTo(screenPos.x, screenPos.y);
+      ctx.lineTo(target.x, target.y);
+      ctx.moveTo(target.x - arrowSize * Math.cos(angle - Math.PI / 6), target.y - arrowSize * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(target.x, target.y);
+      ctx.lineTo(target.x - arrowSize * Math.cos(angle + Math.PI / 6), target.y - arrowSize * Math.sin(angle + Math.PI / 6));
+      ctx.stroke();
     }
+
+    const radius = getEntityRadius(animal.baseAttributes.size) * zoom;
+    ctx.fillStyle = ENTITY_COLORS.perception.intent;
+    ctx.font = '11px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(action.type, screenPos.x, screenPos.y + radius + RENDER_SCALE.SELECTION_RING_PADDING * zoom + 12);
+    ctx.textAlign = 'left';
+  }
+
+  function renderBrush(): void {
+    if (!options.brush) return;
+
+    const { zoom } = camera.getState();
+    const center = camera.worldToScreen(options.brush.center);
+    ctx.strokeStyle = ENTITY_COLORS.ui.editorBrush;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, options.brush.radius * zoom, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
   }
 
   function renderDebugInfo(world: World): void {
@@ -277,10 +603,18 @@ export function createRenderer(
     render(world: World): void {
       updateFPS();
       animationTime = performance.now();
+      updateInterpolation(world);
       clear();
+      renderTerrain(world);
       renderVegetation(world);
+      const heatmap = options.heatmap && heatmapStore ? heatmapStore.getGrid(options.heatmap) : null;
+      renderHeatmap(heatmap);
       renderCorpses(world);
+      renderTrails(world);
       renderAnimals(world);
+      renderPerception(world);
+      renderBrush();
+      renderHeatmapLegend(heatmap);
       renderDebugInfo(world);
     },
 
@@ -292,6 +626,18 @@ export function createRenderer(
       return { ...options };
     },
 
+    setHeatmapStore(store: HeatmapStore | null): void {
+      heatmapStore = store;
+    },
+
+    setTrailStore(store: TrailStore | null): void {
+      trailStore = store;
+    },
+
+    setDecisions(newDecisions: Map<EntityId, Action>): void {
+      decisions = newDecisions;
+    },
+
     getFPS(): number {
       return fps;
     },
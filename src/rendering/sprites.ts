@@ -1,14 +1,9 @@
+import type { SpeciesColors } from '../config/types';
+import type { TerrainType } from '../spatial/TerrainGrid';
+
 export interface EntityColors {
-  deer: {
-    body: string;
-    outline: string;
-    dead: string;
-  };
-  wolf: {
-    body: string;
-    outline: string;
-    dead: string;
-  };
+  // Used for animals whose species is not registered in the config
+  unknownSpecies: SpeciesColors;
   corpse: {
     fill: string;
     outline: string;
@@ -17,30 +12,37 @@ export interface EntityColors {
     fill: string;
     outline: string;
   };
+  // Grassland is the background and is not drawn
+  terrain: Record<Exclude<TerrainType, 'grassland'>, string>;
   selection: {
     ring: string;
     glow: string;
   };
+  // What the selected animal perceives
+  perception: {
+    range: string;
+    threat: string;
+    food: string;
+    intent: string;
+  };
   ui: {
     hungerBarBg: string;
     hungerHigh: string;
     hungerMid: string;
     hungerLow: string;
+    stamina: string;
+    staminaExhausted: string;
     maturityBadge: string;
     reproductionGlow: string;
+    editorBrush: string;
   };
 }
 
 export const ENTITY_COLORS: EntityColors = {
-  deer: {
-    body: '#C4A484',
-    outline: '#8B7355',
-    dead: '#6B5344',
-  },
-  wolf: {
-    body: '#5A5A5A',
-    outline: '#3A3A3A',
-    dead: '#2A2A2A',
+  unknownSpecies: {
+    body: '#B0B0B0',
+    outline: '#808080',
+    dead: '#505050',
   },
   corpse: {
     fill: '#8B4513',
@@ -50,17 +52,31 @@ export const ENTITY_COLORS: EntityColors = {
     fill: '#228B22',
     outline: '#1A6B1A',
   },
+  terrain: {
+    forest: '#1F3A24',
+    water: '#1E3A5F',
+    rock: '#4A4A4A',
+  },
   selection: {
     ring: '#FFD700',
     glow: 'rgba(255, 215, 0, 0.3)',
   },
+  perception: {
+    range: 'rgba(255, 215, 0, 0.5)',
+    threat: '#f87171',
+    food: '#4ade80',
+    intent: '#60a5fa',
+  },
   ui: {
     hungerBarBg: '#333333',
     hungerHigh: '#4ade80',
     hungerMid: '#facc15',
     hungerLow: '#f87171',
+    stamina: '#60a5fa',
+    staminaExhausted: '#64748b',
     maturityBadge: '#9333ea',
     reproductionGlow: 'rgba(236, 72, 153, 0.4)',
+    editorBrush: 'rgba(255, 255, 255, 0.8)',
   },
 };
 
@@ -68,13 +84,24 @@ export const RENDER_SCALE = {
   ANIMAL_BASE_RADIUS: 8,
   CORPSE_RADIUS_MULTIPLIER: 0.8,
   VEGETATION_TILE_PADDING: 1,
+  // Opacity of a nearly bare tile; full tiles are opaque
+  VEGETATION_MIN_OPACITY: 0.2,
+  HEATMAP_MAX_OPACITY: 0.6,
+  HEATMAP_LEGEND_WIDTH: 160,
   HUNGER_BAR_WIDTH: 24,
   HUNGER_BAR_HEIGHT: 4,
   HUNGER_BAR_OFFSET_Y: -12,
+  STAMINA_BAR_GAP: 1,
   MATURITY_BADGE_SIZE: 4,
   SELECTION_RING_PADDING: 4,
   SELECTION_RING_WIDTH: 2,
   REPRODUCTION_GLOW_RADIUS: 20,
+  PERCEPTION_LINE_WIDTH: 1.5,
+  PERCEPTION_MARKER_SIZE: 4,
+  PERCEPTION_ARROW_SIZE: 8,
+  TRAIL_LINE_WIDTH: 1.5,
+  // Opacity of the newest trail segment; older ones fade toward 0
+  TRAIL_MAX_OPACITY: 0.7,
 };
 
 export function getHungerBarColor(hungerPercent: number): string {
@@ -86,13 +113,28 @@ export function getHungerBarColor(hungerPercent: number): string {
   return ENTITY_COLORS.ui.hungerLow;
 }
 
+// Cold to hot, evenly spaced from 0 to the heatmap's maximum
+export const HEATMAP_RAMP: Array<[number, number, number]> = [
+  [44, 123, 182],
+  [171, 217, 233],
+  [255, 255, 191],
+  [253, 174, 97],
+  [215, 25, 28],
+];
+
+export function getHeatmapColor(intensity: number, alpha: number = 1): string {
+  const t = Math.min(1, Math.max(0, intensity)) * (HEATMAP_RAMP.length - 1);
+  const i = Math.min(HEATMAP_RAMP.length - 2, Math.floor(t));
+  const f = t - i;
+  const [r, g, b] = HEATMAP_RAMP[i].map((c, k) => Math.round(c + (HEATMAP_RAMP[i + 1][k] - c) * f));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
 export function getEntityRadius(baseSize: number): number {
   return baseSize * RENDER_SCALE.ANIMAL_BASE_RADIUS;
 }
 
 export const GRAPH_COLORS = {
-  deer: '#C4A484',
-  wolf: '#5A5A5A',
   vegetation: '#228B22',
   grid: '#333333',
   axis: '#666666',
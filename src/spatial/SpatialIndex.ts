@@ -92,8 +92,11 @@ export function createSpatialIndex<T extends SpatialEntity>(
         for (let bx = minBucketX; bx <= maxBucketX; bx++) {
           const bucket = buckets[by][bx];
           for (const entity of bucket.values()) {
-            // Distance from center to entity edge (considering size as entity radius)
-            const dist = distance(center, entity.position) - entity.size;
+            // Distance from center to entity edge (considering size as entity radius).
+            // Inlined: this is the hottest loop of the decision phase.
+            const dx = center.x - entity.position.x;
+            const dy = center.y - entity.position.y;
+            const dist = Math.sqrt(dx * dx + dy * dy) - entity.size;
             if (dist <= radius) {
               result.push(entity);
             }
@@ -0,0 +1,189 @@
+import type { RandomGenerator } from '../core/SeededRandom';
+import type { TerrainConfig, VegetationConfig } from '../config/types';
+
+export type TerrainType = 'grassland' | 'forest' | 'water' | 'rock';
+
+// Index in this list is the terrain's stored code
+export const TERRAIN_TYPES: TerrainType[] = ['grassland', 'forest', 'water', 'rock'];
+
+// Terrain that vegetation can grow on
+const FERTILE_TERRAIN: ReadonlySet<TerrainType> = new Set<TerrainType>(['grassland', 'forest']);
+
+export interface TerrainGrid {
+  get(gridX: number, gridY: number): TerrainType;
+  set(gridX: number, gridY: number, type: TerrainType): void;
+  getAt(worldX: number, worldY: number): TerrainType;
+  isFertile(gridX: number, gridY: number): boolean;
+  fill(type: TerrainType): void;
+  getCols(): number;
+  getRows(): number;
+  getTileSize(): number;
+  getCounts(): Record<TerrainType, number>;
+  // One code digit per tile, row by row
+  encode(): string;
+  decode(data: string): void;
+}
+
+/**
+ * Biomass a tile of this terrain regrows to, where 1 is a full grassland tile.
+ */
+export function getVegetationCapacity(type: TerrainType, config: VegetationConfig): number {
+  if (!FERTILE_TERRAIN.has(type)) return 0;
+  return type === 'forest' ? config.FOREST_VEGETATION_CAPACITY : 1;
+}
+
+export function createTerrainGrid(
+  worldWidth: number,
+  worldHeight: number,
+  tileSize: number
+): TerrainGrid {
+  const cols = Math.floor(worldWidth / tileSize);
+  const rows = Math.floor(worldHeight / tileSize);
+
+  // Every tile starts as grassland (code 0)
+  const codes = new Uint8Array(cols * rows);
+
+  function isValid(gridX: number, gridY: number): boolean {
+    return gridX >= 0 && gridX < cols && gridY >= 0 && gridY < rows;
+  }
+
+  return {
+    get(gridX: number, gridY: number): TerrainType {
+      if (!isValid(gridX, gridY)) {
+        return 'rock';
+      }
+      return TERRAIN_TYPES[codes[gridY * cols + gridX]];
+    },
+
+    set(gridX: number, gridY: number, type: TerrainType): void {
+      if (!isValid(gridX, gridY)) {
+        return;
+      }
+      codes[gridY * cols + gridX] = TERRAIN_TYPES.indexOf(type);
+    },
+
+    getAt(worldX: number, worldY: number): TerrainType {
+      // Positions on the far world edge belong to the last tile
+      const gridX = Math.min(cols - 1, Math.max(0, Math.floor(worldX / tileSize)));
+      const gridY = Math.min(rows - 1, Math.max(0, Math.floor(worldY / tileSize)));
+      return this.get(gridX, gridY);
+    },
+
+    isFertile(gridX: number, gridY: number): boolean {
+      return isValid(gridX, gridY) && FERTILE_TERRAIN.has(this.get(gridX, gridY));
+    },
+
+    fill(type: TerrainType): void {
+      codes.fill(TERRAIN_TYPES.indexOf(type));
+    },
+
+    getCols(): number {
+      return cols;
+    },
+
+    getRows(): number {
+      return rows;
+    },
+
+    getTileSize(): number {
+      return tileSize;
+    },
+
+    getCounts(): Record<TerrainType, number> {
+      const counts: Record<TerrainType, number> = { grassland: 0, forest: 0, water: 0, rock: 0 };
+      for (const code of codes) {
+        counts[TERRAIN_TYPES[code]]++;
+      }
+      return counts;
+    },
+
+    encode(): string {
+      return codes.join('');
+    },
+
+    decode(data: string): void {
+      codes.fill(0);
+      const length = Math.min(data.length, codes.length);
+      for (let i = 0; i < length; i++) {
+        const code = Number(data[i]);
+        codes[i] = code < TERRAIN_TYPES.length ? code : 0;
+      }
+    },
+  };
+}
+
+/**
+ * Grow a blob of terrain outward from a start tile, replacing grassland only.
+ * Returns the number of tiles placed.
+ */
+function growCluster(
+  grid: TerrainGrid,
+  type: TerrainType,
+  startX: number,
+  startY: number,
+  size: number,
+  rng: RandomGenerator
+): number {
+  const frontier = [{ x: startX, y: startY }];
+  let placed = 0;
+
+  while (frontier.length > 0 && placed < size) {
+    // Pick a random frontier tile so blobs grow irregularly
+    const index = Math.floor(rng.next() * frontier.length);
+    const cell = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    if (grid.get(cell.x, cell.y) !== 'grassland') {
+      continue;
+    }
+
+    grid.set(cell.x, cell.y, type);
+    placed++;
+
+    for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const nx = cell.x + dx;
+      const ny = cell.y + dy;
+      if (nx >= 0 && nx < grid.getCols() && ny >= 0 && ny < grid.getRows() && grid.get(nx, ny) === 'grassland') {
+        frontier.push({ x: nx, y: ny });
+      }
+    }
+  }
+
+  return placed;
+}
+
+/**
+ * Scatter clusters of water, rock and forest over a grassland grid until each
+ * covers its configured fraction of the world.
+ */
+export function generateTerrain(
+  grid: TerrainGrid,
+  config: TerrainConfig,
+  rng: RandomGenerator
+): void {
+  grid.fill('grassland');
+
+  const total = grid.getCols() * grid.getRows();
+  const clusterSize = Math.max(1, Math.floor(config.TERRAIN_CLUSTER_SIZE));
+  const coverage: Array<[TerrainType, number]> = [
+    ['water', config.WATER_COVERAGE],
+    ['rock', config.ROCK_COVERAGE],
+    ['forest', config.FOREST_COVERAGE],
+  ];
+
+  for (const [type, fraction] of coverage) {
+    const target = Math.round(fraction * total);
+    // Bounded so a crowded grid cannot loop forever
+    const maxAttempts = target * 10;
+    let placed = 0;
+
+    for (let attempt = 0; attempt < maxAttempts && placed < target; attempt++) {
+      const x = Math.floor(rng.next() * grid.getCols());
+      const y = Math.floor(rng.next() * grid.getRows());
+      if (grid.get(x, y) === 'grassland') {
+        placed += growCluster(grid, type, x, y, Math.min(clusterSize, target - placed), rng);
+      }
+    }
+  }
+}
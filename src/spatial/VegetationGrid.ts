@@ -1,12 +1,29 @@
 import type { RandomGenerator } from '../core/SeededRandom';
 
+// Grazed tiles with less biomass than this are bare
+export const MIN_BIOMASS = 0.001;
+
 export interface VegetationGrid {
   has(gridX: number, gridY: number): boolean;
+  // true fills the tile to capacity, false clears it
   set(gridX: number, gridY: number, value: boolean): void;
   remove(gridX: number, gridY: number): void;
+  getBiomass(gridX: number, gridY: number): number;
+  // Clamped to the tile's capacity; amounts below MIN_BIOMASS clear the tile
+  setBiomass(gridX: number, gridY: number, biomass: number): void;
+  // Biomass a tile regrows towards; 0 where nothing can grow
+  getCapacity(gridX: number, gridY: number): number;
+  // Remove up to amount from a tile and return how much was taken
+  graze(gridX: number, gridY: number, amount: number): number;
+  // Logistic regrowth of every vegetated tile towards its capacity
+  grow(growthRate: number): void;
+  getTotalBiomass(): number;
   getCount(): number;
   getAllPositions(): Array<{ x: number; y: number }>;
-  spread(rng: RandomGenerator, spreadRate: number): void;
+  // Grid positions whose tile centers lie within radius, in insertion order
+  queryRadius(center: { x: number; y: number }, radius: number): Array<{ x: number; y: number }>;
+  // Seed empty neighbours of vegetated tiles with seedBiomass
+  spread(rng: RandomGenerator, spreadRate: number, seedBiomass?: number): void;
   worldToGrid(worldX: number, worldY: number): { x: number; y: number };
   gridToWorld(gridX: number, gridY: number): { x: number; y: number };
   isValidGridPosition(gridX: number, gridY: number): boolean;
@@ -14,81 +31,306 @@ export interface VegetationGrid {
   clear(): void;
 }
 
+// Orthogonal neighbour offsets: left, right, up, down
+const DIRECTIONS = [
+  { dx: -1, dy: 0 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: -1 },
+  { dx: 0, dy: 1 },
+];
+
 export function createVegetationGrid(
   worldWidth: number,
   worldHeight: number,
-  tileSize: number
+  tileSize: number,
+  capacityAt: (gridX: number, gridY: number) => number = () => 1
 ): VegetationGrid {
   const cols = Math.floor(worldWidth / tileSize);
   const rows = Math.floor(worldHeight / tileSize);
+  const size = cols * rows;
+
+  // Per-tile state, row by row. A tile is vegetated while its biomass is above 0.
+  const biomass = new Float64Array(size);
+  // When each tile was last vegetated; iteration follows this order, which
+  // spread and tie-breaks depend on
+  const order = new Float64Array(size);
+  // 1 while a tile is listed in the spread frontier
+  const inFrontier = new Uint8Array(size);
+  let insertions = 0;
+  let count = 0;
+
+  // Vegetated tiles in insertion order. Removed tiles stay listed until the
+  // list is compacted; an entry is live while its tile still has that order.
+  let tiles: number[] = [];
+  let tileOrders: number[] = [];
+
+  // Tiles that may still have an empty neighbour to spread to. Tiles leave it
+  // once surrounded and come back when a neighbour is cleared.
+  let frontier: number[] = [];
+  let frontierOrders: number[] = [];
+  let frontierSorted = true;
+  // The frontier is being walked and must not be compacted
+  let spreading = false;
+
+  function isValid(gridX: number, gridY: number): boolean {
+    return gridX >= 0 && gridX < cols && gridY >= 0 && gridY < rows;
+  }
+
+  function isLive(index: number, entryOrder: number): boolean {
+    return biomass[index] > 0 && order[index] === entryOrder;
+  }
+
+  function compactTiles(): void {
+    if (tiles.length <= count * 2 + 64) return;
+    const liveTiles: number[] = [];
+    const liveOrders: number[] = [];
+    for (let i = 0; i < tiles.length; i++) {
+      if (isLive(tiles[i], tileOrders[i])) {
+        liveTiles.push(tiles[i]);
+        liveOrders.push(tileOrders[i]);
+      }
+    }
+    tiles = liveTiles;
+    tileOrders = liveOrders;
+  }
+
+  // Drop stale frontier entries in place and restore insertion order
+  function compactFrontier(): void {
+    let kept = 0;
+    for (let i = 0; i < frontier.length; i++) {
+      if (isLive(frontier[i], frontierOrders[i])) {
+        frontier[kept] = frontier[i];
+        frontierOrders[kept] = frontierOrders[i];
+        kept++;
+      }
+    }
+    frontier.length = kept;
+    frontierOrders.length = kept;
+
+    if (!frontierSorted) {
+      frontier.sort((a, b) => order[a] - order[b]);
+      for (let i = 0; i < kept; i++) {
+        frontierOrders[i] = order[frontier[i]];
+      }
+      frontierSorted = true;
+    }
+  }
 
-  // Use a Set to store vegetation positions as "x,y" strings
-  const vegetation = new Set<string>();
+  function addToFrontier(index: number): void {
+    if (inFrontier[index]) return;
+    inFrontier[index] = 1;
+    if (frontierOrders.length > 0 && order[index] < frontierOrders[frontierOrders.length - 1]) {
+      frontierSorted = false;
+    }
+    frontier.push(index);
+    frontierOrders.push(order[index]);
+    if (!spreading && frontier.length > count * 2 + 64) {
+      compactFrontier();
+    }
+  }
 
-  function posKey(x: number, y: number): string {
-    return `${x},${y}`;
+  function addTile(index: number): void {
+    order[index] = insertions++;
+    tiles.push(index);
+    tileOrders.push(order[index]);
+    count++;
+    addToFrontier(index);
   }
 
-  function parseKey(key: string): { x: number; y: number } {
-    const [x, y] = key.split(',').map(Number);
-    return { x, y };
+  function removeTile(index: number): void {
+    biomass[index] = 0;
+    inFrontier[index] = 0;
+    count--;
+    // Vegetated neighbours can spread into the gap again
+    const x = index % cols;
+    const y = (index - x) / cols;
+    for (const { dx, dy } of DIRECTIONS) {
+      const neighbor = index + dy * cols + dx;
+      if (isValid(x + dx, y + dy) && biomass[neighbor] > 0) {
+        addToFrontier(neighbor);
+      }
+    }
   }
 
   const grid: VegetationGrid = {
     has(gridX: number, gridY: number): boolean {
-      if (!this.isValidGridPosition(gridX, gridY)) {
-        return false;
-      }
-      return vegetation.has(posKey(gridX, gridY));
+      return isValid(gridX, gridY) && biomass[gridY * cols + gridX] > 0;
     },
 
     set(gridX: number, gridY: number, value: boolean): void {
-      if (!this.isValidGridPosition(gridX, gridY)) {
+      this.setBiomass(gridX, gridY, value ? this.getCapacity(gridX, gridY) : 0);
+    },
+
+    remove(gridX: number, gridY: number): void {
+      if (this.has(gridX, gridY)) {
+        removeTile(gridY * cols + gridX);
+      }
+    },
+
+    getBiomass(gridX: number, gridY: number): number {
+      return isValid(gridX, gridY) ? biomass[gridY * cols + gridX] : 0;
+    },
+
+    setBiomass(gridX: number, gridY: number, amount: number): void {
+      if (!isValid(gridX, gridY)) {
         return;
       }
-      const key = posKey(gridX, gridY);
-      if (value) {
-        vegetation.add(key);
-      } else {
-        vegetation.delete(key);
+      const index = gridY * cols + gridX;
+      const clamped = Math.min(amount, capacityAt(gridX, gridY));
+      if (clamped < MIN_BIOMASS) {
+        if (biomass[index] > 0) {
+          removeTile(index);
+        }
+        return;
+      }
+      if (biomass[index] === 0) {
+        addTile(index);
       }
+      biomass[index] = clamped;
     },
 
-    remove(gridX: number, gridY: number): void {
-      if (!this.isValidGridPosition(gridX, gridY)) {
+    getCapacity(gridX: number, gridY: number): number {
+      if (!isValid(gridX, gridY)) {
+        return 0;
+      }
+      return capacityAt(gridX, gridY);
+    },
+
+    graze(gridX: number, gridY: number, amount: number): number {
+      const available = this.getBiomass(gridX, gridY);
+      if (available === 0 || amount <= 0) {
+        return 0;
+      }
+      const eaten = Math.min(amount, available);
+      this.setBiomass(gridX, gridY, available - eaten);
+      return eaten;
+    },
+
+    grow(growthRate: number): void {
+      if (growthRate === 0) {
         return;
       }
-      vegetation.delete(posKey(gridX, gridY));
+      compactTiles();
+      const end = tiles.length;
+      for (let i = 0; i < end; i++) {
+        const index = tiles[i];
+        if (!isLive(index, tileOrders[i])) continue;
+
+        const capacity = capacityAt(index % cols, Math.floor(index / cols));
+        if (capacity <= 0) {
+          // The ground under the tile changed, e.g. it was flooded
+          removeTile(index);
+          continue;
+        }
+        const current = biomass[index];
+        const growth = growthRate * current * (1 - current / capacity);
+        biomass[index] = Math.max(MIN_BIOMASS, Math.min(capacity, current + growth));
+      }
+    },
+
+    getTotalBiomass(): number {
+      let total = 0;
+      for (let i = 0; i < tiles.length; i++) {
+        if (isLive(tiles[i], tileOrders[i])) {
+          total += biomass[tiles[i]];
+        }
+      }
+      return total;
     },
 
     getCount(): number {
-      return vegetation.size;
+      return count;
     },
 
     getAllPositions(): Array<{ x: number; y: number }> {
-      return Array.from(vegetation).map(parseKey);
+      compactTiles();
+      const positions: Array<{ x: number; y: number }> = [];
+      for (let i = 0; i < tiles.length; i++) {
+        const index = tiles[i];
+        if (isLive(index, tileOrders[i])) {
+          const x = index % cols;
+          positions.push({ x, y: (index - x) / cols });
+        }
+      }
+      return positions;
     },
 
-    spread(rng: RandomGenerator, spreadRate: number): void {
+    queryRadius(center: { x: number; y: number }, radius: number): Array<{ x: number; y: number }> {
+      const minX = Math.max(0, Math.floor((center.x - radius) / tileSize));
+      const maxX = Math.min(cols - 1, Math.floor((center.x + radius) / tileSize));
+      const minY = Math.max(0, Math.floor((center.y - radius) / tileSize));
+      const maxY = Math.min(rows - 1, Math.floor((center.y + radius) / tileSize));
+
+      const found: number[] = [];
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          const dx = x * tileSize + tileSize / 2 - center.x;
+          const dy = y * tileSize + tileSize / 2 - center.y;
+          if (Math.sqrt(dx * dx + dy * dy) > radius) continue;
+
+          if (biomass[y * cols + x] > 0) {
+            found.push(y * cols + x);
+          }
+        }
+      }
+
+      return found
+        .sort((a, b) => order[a] - order[b])
+        .map(index => ({ x: index % cols, y: Math.floor(index / cols) }));
+    },
+
+    spread(rng: RandomGenerator, spreadRate: number, seedBiomass: number = 1): void {
       if (spreadRate === 0) {
         return;
       }
 
-      // Get current vegetation positions (copy to avoid modifying during iteration)
-      const currentPositions = this.getAllPositions();
+      // Only tiles vegetated before this spread get to spread, in insertion order
+      compactFrontier();
+      spreading = true;
+      const end = frontier.length;
+      let kept = 0;
+
+      for (let i = 0; i < end; i++) {
+        const index = frontier[i];
+        const x = index % cols;
+        const y = (index - x) / cols;
+        let open = false;
 
-      // For each vegetation tile, try to spread to neighbors
-      for (const pos of currentPositions) {
-        const neighbors = this.getNeighbors(pos.x, pos.y);
-        for (const neighbor of neighbors) {
-          // Only spread to empty cells
-          if (!this.has(neighbor.x, neighbor.y)) {
-            if (rng.next() < spreadRate) {
-              this.set(neighbor.x, neighbor.y, true);
-            }
+        for (const { dx, dy } of DIRECTIONS) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (!isValid(nx, ny)) continue;
+
+          const neighbor = index + dy * cols + dx;
+          if (biomass[neighbor] > 0) continue;
+          // Only spread to empty cells where vegetation can grow
+          if (capacityAt(nx, ny) > 0 && rng.next() < spreadRate) {
+            this.setBiomass(nx, ny, seedBiomass);
+          }
+          // Infertile neighbours keep the tile listed in case the ground changes
+          if (biomass[neighbor] === 0) {
+            open = true;
           }
         }
+
+        if (open) {
+          frontier[kept] = index;
+          frontierOrders[kept] = frontierOrders[i];
+          kept++;
+        } else {
+          inFrontier[index] = 0;
+        }
+      }
+
+      // Tiles seeded during this spread were appended after the old entries
+      for (let i = end; i < frontier.length; i++) {
+        frontier[kept] = frontier[i];
+        frontierOrders[kept] = frontierOrders[i];
+        kept++;
       }
+      frontier.length = kept;
+      frontierOrders.length = kept;
+      spreading = false;
     },
 
     worldToGrid(worldX: number, worldY: number): { x: number; y: number } {
@@ -107,22 +349,15 @@ export function createVegetationGrid(
     },
 
     isValidGridPosition(gridX: number, gridY: number): boolean {
-      return gridX >= 0 && gridX < cols && gridY >= 0 && gridY < rows;
+      return isValid(gridX, gridY);
     },
 
     getNeighbors(gridX: number, gridY: number): Array<{ x: number; y: number }> {
       const neighbors: Array<{ x: number; y: number }> = [];
-      const directions = [
-        { dx: -1, dy: 0 }, // left
-        { dx: 1, dy: 0 },  // right
-        { dx: 0, dy: -1 }, // up
-        { dx: 0, dy: 1 },  // down
-      ];
-
-      for (const { dx, dy } of directions) {
+      for (const { dx, dy } of DIRECTIONS) {
         const nx = gridX + dx;
         const ny = gridY + dy;
-        if (this.isValidGridPosition(nx, ny)) {
+        if (isValid(nx, ny)) {
           neighbors.push({ x: nx, y: ny });
         }
       }
@@ -131,13 +366,23 @@ export function createVegetationGrid(
     },
 
     clear(): void {
-      vegetation.clear();
+      biomass.fill(0);
+      inFrontier.fill(0);
+      count = 0;
+      tiles = [];
+      tileOrders = [];
+      frontier = [];
+      frontierOrders = [];
+      frontierSorted = true;
     },
   };
 
   return grid;
 }
 
+/**
+ * Fill a random share of the tiles to capacity.
+ */
 export function initializeVegetation(
   grid: VegetationGrid,
   density: number,
@@ -161,7 +406,8 @@ export function initializeVegetation(
   // Now iterate and set vegetation based on density
   for (let y = 0; y < rows; y++) {
     for (let x = 0; x < cols; x++) {
-      if (rng.next() < density) {
+      // Roll for every cell so terrain does not shift the random sequence
+      if (rng.next() < density && grid.getCapacity(x, y) > 0) {
         grid.set(x, y, true);
       }
     }
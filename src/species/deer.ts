@@ -1,9 +1,12 @@
 import type { BaseAttributes, BehavioralAttributes, LifecycleAttributes, DietFlags } from '../entities/types';
+import type { SpeciesColors, SpeciesDefinition } from '../config/types';
+import type { TerrainType } from '../spatial/TerrainGrid';
 
 export const DEER_DIET: DietFlags = {
   canEatVegetation: true,
   canEatAnimals: false,
   canEatCorpses: false,
+  prey: [],
 };
 
 export const DEER_BASE_ATTRIBUTES: BaseAttributes = {
@@ -27,3 +30,27 @@ export const DEER_LIFECYCLE_ATTRIBUTES: LifecycleAttributes = {
   maturityAge: 10,
   litterSize: 2,
 };
+
+export const DEER_COLORS: SpeciesColors = {
+  body: '#C4A484',
+  outline: '#8B7355',
+  dead: '#6B5344',
+};
+
+export const DEER_TERRAIN_SPEED: Record<TerrainType, number> = {
+  grassland: 1.0,
+  forest: 0.8,
+  water: 0,
+  rock: 0.6,
+};
+
+export const DEER_SPECIES: SpeciesDefinition = {
+  name: 'Deer',
+  diet: DEER_DIET,
+  baseAttributes: DEER_BASE_ATTRIBUTES,
+  behavioralAttributes: DEER_BEHAVIORAL_ATTRIBUTES,
+  lifecycleAttributes: DEER_LIFECYCLE_ATTRIBUTES,
+  colors: DEER_COLORS,
+  terrainSpeed: DEER_TERRAIN_SPEED,
+  initialCount: 10,
+};
@@ -0,0 +1,37 @@
+import type { Species } from '../entities/types';
+import type { SimulationConfig, SpeciesDefinition } from '../config/types';
+import { DEER_SPECIES } from './deer';
+import { WOLF_SPECIES } from './wolf';
+
+/**
+ * Built-in species. Registration order is spawn order, which the
+ * seeded initial population depends on.
+ */
+const DEFAULT_SPECIES: Record<Species, SpeciesDefinition> = {
+  deer: DEER_SPECIES,
+  wolf: WOLF_SPECIES,
+};
+
+export function getDefaultSpecies(): Record<Species, SpeciesDefinition> {
+  return JSON.parse(JSON.stringify(DEFAULT_SPECIES)) as Record<Species, SpeciesDefinition>;
+}
+
+export function getSpeciesIds(config: SimulationConfig): Species[] {
+  return Object.keys(config.species);
+}
+
+export function getSpeciesDefinition(config: SimulationConfig, species: Species): SpeciesDefinition {
+  const definition = config.species[species];
+  if (!definition) {
+    throw new Error(`Unknown species "${species}"`);
+  }
+  return definition;
+}
+
+/**
+ * Display name for a species, falling back to the capitalized id for
+ * animals whose species is no longer registered (e.g. from a loaded world).
+ */
+export function getSpeciesName(config: SimulationConfig, species: Species): string {
+  return config.species[species]?.name ?? species.charAt(0).toUpperCase() + species.slice(1);
+}
@@ -0,0 +1,47 @@
+import type { Species, Subspecies, SubspeciesId } from '../entities/types';
+import type { SimulationConfig, SpeciesColors } from '../config/types';
+import { getSpeciesName } from './registry';
+
+// Colors handed out to new sub-species in founding order, cycling when exhausted
+export const SUBSPECIES_COLORS: SpeciesColors[] = [
+  { body: '#E07A5F', outline: '#A4533C', dead: '#5E3226' },
+  { body: '#81B29A', outline: '#5A8570', dead: '#34483E' },
+  { body: '#F2CC8F', outline: '#B8985F', dead: '#5E5038' },
+  { body: '#9B8EC4', outline: '#6E6391', dead: '#3E3852' },
+  { body: '#4FB0C6', outline: '#35808F', dead: '#23444C' },
+  { body: '#D9829E', outline: '#A05D73', dead: '#553440' },
+  { body: '#B5C95A', outline: '#84933E', dead: '#464E25' },
+  { body: '#C97C3D', outline: '#8F5628', dead: '#4B2F19' },
+];
+
+/**
+ * Label for the n-th population of a species (1 is the founding population):
+ * "Deer A", "Deer B", ... and numbers past Z.
+ */
+export function getSubspeciesLabel(speciesName: string, index: number): string {
+  const suffix = index <= 26 ? String.fromCharCode(64 + index) : String(index);
+  return `${speciesName} ${suffix}`;
+}
+
+/**
+ * Register a new sub-species branching off `parent`.
+ */
+export function createSubspecies(
+  registry: Subspecies[],
+  config: SimulationConfig,
+  species: Species,
+  parent: SubspeciesId,
+  tick: number
+): Subspecies {
+  const index = registry.filter(s => s.species === species).length + 2;
+  const subspecies: Subspecies = {
+    id: `${species}-${index}`,
+    species,
+    parent,
+    label: getSubspeciesLabel(getSpeciesName(config, species), index),
+    colors: { ...SUBSPECIES_COLORS[registry.length % SUBSPECIES_COLORS.length] },
+    foundedTick: tick,
+  };
+  registry.push(subspecies);
+  return subspecies;
+}
@@ -1,9 +1,12 @@
 import type { BaseAttributes, BehavioralAttributes, LifecycleAttributes, DietFlags } from '../entities/types';
+import type { SpeciesColors, SpeciesDefinition } from '../config/types';
+import type { TerrainType } from '../spatial/TerrainGrid';
 
 export const WOLF_DIET: DietFlags = {
   canEatVegetation: false,
   canEatAnimals: true,
   canEatCorpses: true,
+  prey: ['deer'],
 };
 
 export const WOLF_BASE_ATTRIBUTES: BaseAttributes = {
@@ -27,3 +30,27 @@ export const WOLF_LIFECYCLE_ATTRIBUTES: LifecycleAttributes = {
   maturityAge: 5,
   litterSize: 2,
 };
+
+export const WOLF_COLORS: SpeciesColors = {
+  body: '#5A5A5A',
+  outline: '#3A3A3A',
+  dead: '#2A2A2A',
+};
+
+export const WOLF_TERRAIN_SPEED: Record<TerrainType, number> = {
+  grassland: 1.0,
+  forest: 0.9,
+  water: 0.4,
+  rock: 0.7,
+};
+
+export const WOLF_SPECIES: SpeciesDefinition = {
+  name: 'Wolf',
+  diet: WOLF_DIET,
+  baseAttributes: WOLF_BASE_ATTRIBUTES,
+  behavioralAttributes: WOLF_BEHAVIORAL_ATTRIBUTES,
+  lifecycleAttributes: WOLF_LIFECYCLE_ATTRIBUTES,
+  colors: WOLF_COLORS,
+  terrainSpeed: WOLF_TERRAIN_SPEED,
+  initialCount: 5,
+};
@@ -2,7 +2,7 @@ import type { SimulationConfig, ConfigPreset } from '../config/types';
 import { createEventEmitter } from '../utils/events';
 import { getDefaultConfig } from '../config/defaults';
 import { CONFIG_METADATA, type ConfigPropertyMetadata } from '../config/metadata';
-import { CONFIG_RANGES, clampConfigValue } from '../config/validation';
+import { CONFIG_RANGES, SPECIES_INITIAL_COUNT_RANGE, clampConfigValue } from '../config/validation';
 import { getPresetConfig } from '../config/presets';
 
 export interface PendingChange {
@@ -125,8 +125,60 @@ export function createConfigPanel(
       .join('');
   }
 
+  function renderSpeciesCategory(): string {
+    const isExpanded = expandedCategories.has('species');
+    const hasPendingChanges = pendingResetChanges.some((c) => c.category === 'species');
+    const { min, max } = SPECIES_INITIAL_COUNT_RANGE;
+
+    const rows = Object.entries(currentConfig.species)
+      .map(([species, definition]) => {
+        const defaultValue = defaults.species[species]?.initialCount;
+        const isModified = defaultValue !== undefined && definition.initialCount !== defaultValue;
+        const isPendingReset = pendingResetChanges.some(
+          (c) => c.category === 'species' && c.key === species
+        );
+
+        return `
+        <div class="config-property ${isModified ? 'modified' : ''} ${isPendingReset ? 'pending-reset' : ''}">
+          <div class="property-header">
+            <label title="Number of ${definition.name} spawned at simulation start">
+              Initial ${definition.name}
+              <span class="reset-required-icon" title="Requires simulation reset">⟲</span>
+            </label>
+            <div class="property-value-display">
+              <span class="current-value">${definition.initialCount}</span>
+              ${isModified ? `<span class="default-value">(default: ${defaultValue})</span>` : ''}
+            </div>
+          </div>
+          <div class="property-controls">
+            <input type="range" class="config-slider species-count-input"
+              data-species="${species}" min="${min}" max="${max}" step="1" value="${definition.initialCount}" />
+            <input type="number" class="config-input species-count-input"
+              data-species="${species}" min="${min}" max="${max}" step="1" value="${definition.initialCount}" />
+            <span class="reset-property-placeholder"></span>
+          </div>
+        </div>
+      `;
+      })
+      .join('');
+
+    return `
+      <div class="config-category ${isExpanded ? 'expanded' : ''} ${hasPendingChanges ? 'has-pending' : ''}">
+        <div class="config-category-header" data-category="species">
+          <span class="expand-icon">${isExpanded ? '▼' : '▶'}</span>
+          <h3>Species</h3>
+          ${hasPendingChanges ? '<span class="pending-badge">!</span>' : ''}
+        </div>
+        <div class="config-category-content" ${isExpanded ? '' : 'style="display: none;"'}>
+          <p class="category-description">Registered species and their starting populations</p>
+          ${rows}
+        </div>
+      </div>
+    `;
+  }
+
   function renderCategories(): string {
-    return Object.entries(CONFIG_METADATA)
+    return renderSpeciesCategory() + Object.entries(CONFIG_METADATA)
       .map(([categoryKey, categoryMeta]) => {
         const isExpanded = expandedCategories.has(categoryKey);
         const hasPendingChanges = pendingResetChanges.some((c) => c.category === categoryKey);
@@ -219,6 +271,47 @@ export function createConfigPanel(
     }
   }
 
+  function handleSpeciesCountChange(species: string, value: number): void {
+    const definition = currentConfig.species[species];
+    if (!definition) return;
+
+    const { min, max } = SPECIES_INITIAL_COUNT_RANGE;
+    const clampedValue = Math.round(clampConfigValue(value, min, max));
+    definition.initialCount = clampedValue;
+
+    // Initial counts only take effect on reset
+    const originalValue = getConfig().species[species]?.initialCount ?? clampedValue;
+    const existingIdx = pendingResetChanges.findIndex(
+      (c) => c.category === 'species' && c.key === species
+    );
+    if (existingIdx >= 0) {
+      pendingResetChanges.splice(existingIdx, 1);
+    }
+    if (clampedValue !== originalValue) {
+      pendingResetChanges.push({
+        category: 'species',
+        key: species,
+        oldValue: originalValue,
+        newValue: clampedValue,
+      });
+    }
+
+    emitter.emit('resetRequired', { pendingChanges: [...pendingResetChanges] });
+
+    if (overlay) {
+      overlay.querySelectorAll(`.species-count-input[data-species="${species}"]`).forEach((input) => {
+        (input as HTMLInputElement).value = String(clampedValue);
+      });
+      const property = overlay.querySelector(`.config-property:has([data-species="${species}"])`);
+      const valueDisplay = property?.querySelector('.current-value');
+      if (valueDisplay) {
+        valueDisplay.textContent = String(clampedValue);
+      }
+      property?.classList.toggle('pending-reset', clampedValue !== originalValue);
+      updateFooter();
+    }
+  }
+
   function updatePropertyDisplay(category: string, key: string, value: number): void {
     if (!overlay) return;
 
@@ -372,6 +465,12 @@ export function createConfigPanel(
         syncInputs(category, key, value);
       }
     }
+    for (const species of Object.keys(currentConfig.species)) {
+      const value = fullConfig.species[species]?.initialCount;
+      if (value !== undefined) {
+        handleSpeciesCountChange(species, value);
+      }
+    }
 
     emitter.emit('presetApplied', { preset });
   }
@@ -384,6 +483,12 @@ export function createConfigPanel(
         syncInputs(category, key, defaultValue);
       }
     }
+    for (const species of Object.keys(currentConfig.species)) {
+      const defaultValue = defaults.species[species]?.initialCount;
+      if (defaultValue !== undefined) {
+        handleSpeciesCountChange(species, defaultValue);
+      }
+    }
 
     emitter.emit('resetToDefaults', undefined as unknown as void);
   }
@@ -392,7 +497,7 @@ export function createConfigPanel(
     if (!overlay) return;
 
     // Slider handlers
-    overlay.querySelectorAll('.config-slider').forEach((slider) => {
+    overlay.querySelectorAll('.config-slider[data-category]').forEach((slider) => {
       slider.addEventListener('input', (e) => {
         const el = e.target as HTMLInputElement;
         const category = el.dataset.category!;
@@ -410,7 +515,7 @@ export function createConfigPanel(
     });
 
     // Number input handlers
-    overlay.querySelectorAll('.config-input').forEach((input) => {
+    overlay.querySelectorAll('.config-input[data-category]').forEach((input) => {
       input.addEventListener('change', (e) => {
         const el = e.target as HTMLInputElement;
         const category = el.dataset.category!;
@@ -427,6 +532,15 @@ export function createConfigPanel(
       });
     });
 
+    // Species initial count handlers
+    overlay.querySelectorAll('.species-count-input').forEach((input) => {
+      const eventName = input.classList.contains('config-slider') ? 'input' : 'change';
+      input.addEventListener(eventName, (e) => {
+        const el = e.target as HTMLInputElement;
+        handleSpeciesCountChange(el.dataset.species!, parseFloat(el.value));
+      });
+    });
+
     // Reset property buttons
     overlay.querySelectorAll('.reset-property-btn').forEach((btn) => {
       btn.addEventListener('click', (e) => {
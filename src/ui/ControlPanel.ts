@@ -1,7 +1,14 @@
-import type { Simulation } from '../core/Simulation';
+import type { ISimulation } from '../core/Simulation';
 import type { SimulationConfig } from '../config/types';
+import type { Species } from '../entities/types';
+import type { TrailMode } from '../rendering/Renderer';
 import { createEventEmitter } from '../utils/events';
 import { downloadConfigFile, promptConfigUpload } from '../config/persistence';
+import { downloadWorldSnapshot, promptWorldSnapshotUpload } from '../core/WorldSnapshot';
+import { HEATMAP_VIEWS, type HeatmapView } from '../data/HeatmapStore';
+
+// Fade windows offered for heatmaps, in ticks (0 keeps everything)
+const HEATMAP_WINDOWS = [100, 500, 2000, 0];
 
 export interface ControlPanelEvents {
   playPause: { isPlaying: boolean };
@@ -10,12 +17,18 @@ export interface ControlPanelEvents {
   step: void;
   configImported: { config: SimulationConfig; warnings: string[] };
   toggleVisualization: { visible: boolean };
+  heatmapChange: { view: HeatmapView | null; decayWindow: number };
+  trailChange: { mode: TrailMode; species: Species | null };
+  seek: { tick: number };
 }
 
 export interface ControlPanel {
-  syncState(simulation: Simulation): void;
+  syncState(simulation: ISimulation): void;
   setSpeed(speed: number): void;
   toggleVisualization(): void;
+  // Step to the next heatmap, then back to none
+  cycleHeatmap(): void;
+  updateTimeline(startTick: number, endTick: number, currentTick: number): void;
   on<K extends keyof ControlPanelEvents>(event: K, callback: (data: ControlPanelEvents[K]) => void): void;
   off<K extends keyof ControlPanelEvents>(event: K, callback: (data: ControlPanelEvents[K]) => void): void;
   destroy(): void;
@@ -23,7 +36,7 @@ export interface ControlPanel {
 
 export function createControlPanel(
   container: HTMLElement,
-  simulation: Simulation
+  simulation: ISimulation
 ): ControlPanel {
   const emitter = createEventEmitter<ControlPanelEvents>();
 
@@ -36,11 +49,32 @@ export function createControlPanel(
       <input type="range" id="speed-slider" min="0.1" max="10" step="0.1" value="1">
       <span id="speed-value">1.0x</span>
     </div>
+    <div class="timeline-control">
+      <label>Timeline:</label>
+      <input type="range" id="timeline-slider" min="0" max="0" step="1" value="0">
+      <span id="timeline-value">0 / 0</span>
+    </div>
     <button id="reset-btn" title="Reset simulation">Reset</button>
     <button id="toggle-viz-btn" title="Toggle world visualization (V)">Hide World</button>
+    <div class="heatmap-control">
+      <label>Heatmap:</label>
+      <select id="heatmap-select" title="Heatmap overlay (H)">
+        <option value="-1">Off</option>
+        ${HEATMAP_VIEWS.map((view, i) => `<option value="${i}">${view.label}</option>`).join('')}
+      </select>
+      <select id="heatmap-window-select" title="Fade out events older than">
+        ${HEATMAP_WINDOWS.map(ticks => `<option value="${ticks}">${ticks > 0 ? `${ticks} ticks` : 'All time'}</option>`).join('')}
+      </select>
+    </div>
+    <div class="heatmap-control">
+      <label>Trails:</label>
+      <select id="trail-select" title="Movement trails"></select>
+    </div>
     <div class="config-controls">
       <button id="export-config-btn" title="Export configuration">Export</button>
       <button id="import-config-btn" title="Import configuration">Import</button>
+      <button id="save-world-btn" title="Save world snapshot">Save</button>
+      <button id="load-world-btn" title="Load world snapshot">Load</button>
     </div>
   `;
 
@@ -48,12 +82,20 @@ export function createControlPanel(
   const stepBtn = container.querySelector('#step-btn') as HTMLButtonElement;
   const speedSlider = container.querySelector('#speed-slider') as HTMLInputElement;
   const speedValue = container.querySelector('#speed-value') as HTMLSpanElement;
+  const timelineSlider = container.querySelector('#timeline-slider') as HTMLInputElement;
+  const timelineValue = container.querySelector('#timeline-value') as HTMLSpanElement;
   const resetBtn = container.querySelector('#reset-btn') as HTMLButtonElement;
   const toggleVizBtn = container.querySelector('#toggle-viz-btn') as HTMLButtonElement;
+  const heatmapSelect = container.querySelector('#heatmap-select') as HTMLSelectElement;
+  const heatmapWindowSelect = container.querySelector('#heatmap-window-select') as HTMLSelectElement;
+  const trailSelect = container.querySelector('#trail-select') as HTMLSelectElement;
   const exportBtn = container.querySelector('#export-config-btn') as HTMLButtonElement;
   const importBtn = container.querySelector('#import-config-btn') as HTMLButtonElement;
+  const saveWorldBtn = container.querySelector('#save-world-btn') as HTMLButtonElement;
+  const loadWorldBtn = container.querySelector('#load-world-btn') as HTMLButtonElement;
 
   let visualizationVisible = true;
+  let isScrubbing = false;
 
   function updatePlayPauseButton(isPaused: boolean): void {
     playPauseBtn.textContent = isPaused ? 'Play' : 'Pause';
@@ -65,12 +107,49 @@ export function createControlPanel(
     speedSlider.value = String(speed);
   }
 
+  function updateTimelineDisplay(tick: number): void {
+    timelineValue.textContent = `${tick} / ${timelineSlider.max}`;
+  }
+
   function doToggleVisualization(): void {
     visualizationVisible = !visualizationVisible;
     toggleVizBtn.textContent = visualizationVisible ? 'Hide World' : 'Show World';
     emitter.emit('toggleVisualization', { visible: visualizationVisible });
   }
 
+  function emitHeatmapChange(): void {
+    const index = parseInt(heatmapSelect.value, 10);
+    emitter.emit('heatmapChange', {
+      view: index >= 0 ? HEATMAP_VIEWS[index] : null,
+      decayWindow: parseInt(heatmapWindowSelect.value, 10),
+    });
+  }
+
+  // Species come and go with resets and imported configs
+  function renderTrailOptions(species: Species[]): void {
+    const previous = trailSelect.value;
+    trailSelect.innerHTML = `
+      <option value="none">Off</option>
+      <option value="selected">Selected animal</option>
+      ${species.map(s => `<option value="species:${s}">All ${s}</option>`).join('')}
+    `;
+    trailSelect.value = previous || 'none';
+    // The trailed species is gone
+    if (trailSelect.value === '') {
+      trailSelect.value = 'none';
+      emitTrailChange();
+    }
+  }
+
+  function emitTrailChange(): void {
+    const value = trailSelect.value;
+    if (value.startsWith('species:')) {
+      emitter.emit('trailChange', { mode: 'species', species: value.slice('species:'.length) });
+    } else {
+      emitter.emit('trailChange', { mode: value as TrailMode, species: null });
+    }
+  }
+
   // Event handlers
   playPauseBtn.addEventListener('click', () => {
     if (simulation.isPaused) {
@@ -96,6 +175,20 @@ export function createControlPanel(
     emitter.emit('speedChange', { speed });
   });
 
+  timelineSlider.addEventListener('input', () => {
+    isScrubbing = true;
+    updateTimelineDisplay(parseInt(timelineSlider.value, 10));
+  });
+
+  timelineSlider.addEventListener('change', () => {
+    isScrubbing = false;
+    const tick = parseInt(timelineSlider.value, 10);
+    if (simulation.seek(tick)) {
+      updatePlayPauseButton(simulation.isPaused);
+      emitter.emit('seek', { tick });
+    }
+  });
+
   resetBtn.addEventListener('click', () => {
     const confirmed = window.confirm('Reset simulation? Choose OK for same seed, or Cancel to abort.');
     if (confirmed) {
@@ -106,6 +199,9 @@ export function createControlPanel(
   });
 
   toggleVizBtn.addEventListener('click', doToggleVisualization);
+  heatmapSelect.addEventListener('change', emitHeatmapChange);
+  heatmapWindowSelect.addEventListener('change', emitHeatmapChange);
+  trailSelect.addEventListener('change', emitTrailChange);
 
   exportBtn.addEventListener('click', () => {
     downloadConfigFile(simulation.config, 'evolution-sandbox-config.json');
@@ -125,14 +221,33 @@ export function createControlPanel(
     }
   });
 
+  saveWorldBtn.addEventListener('click', () => {
+    downloadWorldSnapshot(simulation.world, `evolution-sandbox-world-${simulation.currentTick}.json`);
+  });
+
+  loadWorldBtn.addEventListener('click', async () => {
+    const result = await promptWorldSnapshotUpload();
+    if (result && result.success && result.world) {
+      if (result.warnings.length > 0) {
+        window.alert('World loaded with warnings:\n\n' + result.warnings.join('\n'));
+      }
+      simulation.loadWorld(result.world);
+      updatePlayPauseButton(simulation.isPaused);
+    } else if (result && !result.success) {
+      window.alert('Failed to load world:\n\n' + result.errors.join('\n'));
+    }
+  });
+
   // Initial state
   updatePlayPauseButton(simulation.isPaused);
   updateSpeedDisplay(simulation.speed);
+  renderTrailOptions(Object.keys(simulation.config.species));
 
   return {
-    syncState(sim: Simulation): void {
+    syncState(sim: ISimulation): void {
       updatePlayPauseButton(sim.isPaused);
       updateSpeedDisplay(sim.speed);
+      renderTrailOptions(Object.keys(sim.config.species));
     },
 
     setSpeed(speed: number): void {
@@ -144,6 +259,21 @@ export function createControlPanel(
       doToggleVisualization();
     },
 
+    cycleHeatmap(): void {
+      const next = parseInt(heatmapSelect.value, 10) + 1;
+      heatmapSelect.value = String(next < HEATMAP_VIEWS.length ? next : -1);
+      emitHeatmapChange();
+    },
+
+    updateTimeline(startTick: number, endTick: number, currentTick: number): void {
+      // Don't move the thumb out from under the user while dragging
+      if (isScrubbing) return;
+      timelineSlider.min = String(startTick);
+      timelineSlider.max = String(endTick);
+      timelineSlider.value = String(currentTick);
+      updateTimelineDisplay(currentTick);
+    },
+
     on<K extends keyof ControlPanelEvents>(
       event: K,
       callback: (data: ControlPanelEvents[K]) => void
@@ -0,0 +1,142 @@
+import type { PopulationHistory } from '../data/PopulationHistory';
+import type { TraitStatistics } from '../data/TraitStatistics';
+import type { EventLog } from '../data/EventLog';
+import type { HistoryMode } from '../data/TickSeries';
+import { downloadText } from '../utils/download';
+
+export interface ExportDialog {
+  show(): void;
+  hide(): void;
+  isVisible(): boolean;
+  // Re-read the stores while the dialog is open
+  refresh(): void;
+  destroy(): void;
+}
+
+interface ExportSources {
+  populationHistory: PopulationHistory;
+  traitStatistics: TraitStatistics;
+  eventLog: EventLog;
+}
+
+export function createExportDialog(sources: ExportSources): ExportDialog {
+  let visible = false;
+  let overlay: HTMLDivElement | null = null;
+
+  function describeRange(ticks: number[]): string {
+    return ticks.length > 0 ? `ticks ${ticks[0]}–${ticks[ticks.length - 1]}` : 'empty';
+  }
+
+  function renderContent(): void {
+    if (!overlay) return;
+    const population = sources.populationHistory.getData();
+    const samples = sources.traitStatistics.getSamples();
+
+    (overlay.querySelector('.export-population-summary') as HTMLElement).textContent =
+      `${population.length} points, ${describeRange(population.map(p => p.tick))}`;
+    (overlay.querySelector('.export-traits-summary') as HTMLElement).textContent =
+      `${samples.length} samples, ${describeRange(samples.map(s => s.tick))}`;
+    (overlay.querySelector('.export-events-summary') as HTMLElement).textContent =
+      `${sources.eventLog.getLength()} events`;
+    (overlay.querySelector('.export-history-mode') as HTMLSelectElement).value = sources.populationHistory.getMode();
+  }
+
+  function renderSection(id: string, title: string): string {
+    return `
+      <div class="help-section">
+        <h3>${title}</h3>
+        <p class="text-muted export-${id}-summary"></p>
+        <div class="mortality-actions">
+          <button data-export="${id}" data-format="csv">Export CSV</button>
+          <button data-export="${id}" data-format="json">Export JSON</button>
+        </div>
+      </div>
+    `;
+  }
+
+  function exportData(id: string, format: string): void {
+    const store = id === 'population' ? sources.populationHistory
+      : id === 'traits' ? sources.traitStatistics
+        : sources.eventLog;
+    const text = format === 'csv' ? store.toCSV() : store.toJSON();
+    downloadText(text, `evolution-sandbox-${id}.${format}`, format === 'csv' ? 'text/csv' : 'application/json');
+  }
+
+  function render(): HTMLDivElement {
+    const div = document.createElement('div');
+    div.className = 'help-dialog-overlay';
+    div.innerHTML = `
+      <div class="help-dialog export-dialog">
+        <div class="help-dialog-header">
+          <h2>Export Data</h2>
+          <button class="help-close-btn">&times;</button>
+        </div>
+        <div class="help-dialog-content">
+          <div class="help-section">
+            <h3>History</h3>
+            <label class="stat-row">
+              <span>Export</span>
+              <select class="export-history-mode">
+                <option value="recent">Most recent ticks</option>
+                <option value="whole-run">Whole run (downsampled)</option>
+              </select>
+            </label>
+            <p class="text-muted">Both are recorded from the first tick. Whole-run history halves its resolution each time it fills, so early data survives long runs.</p>
+          </div>
+          ${renderSection('population', 'Population time series')}
+          ${renderSection('traits', 'Attribute statistics')}
+          ${renderSection('events', 'Event log')}
+        </div>
+      </div>
+    `;
+
+    div.querySelector('.help-close-btn')?.addEventListener('click', () => hide());
+    div.querySelector('.export-history-mode')?.addEventListener('change', (e) => {
+      const mode = (e.target as HTMLSelectElement).value as HistoryMode;
+      sources.populationHistory.setMode(mode);
+      sources.traitStatistics.setMode(mode);
+      renderContent();
+    });
+    div.querySelectorAll<HTMLButtonElement>('button[data-export]').forEach((button) => {
+      button.addEventListener('click', () => exportData(button.dataset.export!, button.dataset.format!));
+    });
+
+    // Click outside to close
+    div.addEventListener('click', (e) => {
+      if (e.target === div) {
+        hide();
+      }
+    });
+
+    return div;
+  }
+
+  function show(): void {
+    if (visible) return;
+    visible = true;
+    overlay = render();
+    document.body.appendChild(overlay);
+    renderContent();
+  }
+
+  function hide(): void {
+    if (!visible || !overlay) return;
+    visible = false;
+    document.body.removeChild(overlay);
+    overlay = null;
+  }
+
+  return {
+    show,
+    hide,
+    isVisible(): boolean {
+      return visible;
+    },
+    refresh(): void {
+      renderContent();
+    },
+    destroy(): void {
+      hide();
+    },
+  };
+}
@@ -10,7 +10,13 @@ const KEYBOARD_SHORTCUTS = [
   { key: 'C', description: 'Open configuration panel' },
   { key: 'I', description: 'Toggle info panel' },
   { key: 'G', description: 'Toggle population graph' },
+  { key: 'T', description: 'Toggle trait statistics' },
+  { key: 'M', description: 'Show mortality table' },
+  { key: 'X', description: 'Export population, trait and event data' },
   { key: 'V', description: 'Toggle world visualization' },
+  { key: 'H', description: 'Cycle heatmap overlays' },
+  { key: 'E', description: 'Toggle scenario editor' },
+  { key: 'R', description: 'Show recent runs' },
   { key: '?', description: 'Show this help dialog' },
   { key: 'Escape', description: 'Close dialog / Deselect entity' },
   { key: 'Tab', description: 'Select next entity' },
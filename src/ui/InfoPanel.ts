@@ -1,8 +1,16 @@
+export interface SpeciesPopulation {
+  species: string;
+  name: string;
+  color: string;
+  count: number;
+}
+
 export interface InfoPanelData {
   seed: number;
   tick: number;
-  deerCount: number;
-  wolfCount: number;
+  // Display label for the current season, e.g. "Summer (year 2)"
+  season: string;
+  populations: SpeciesPopulation[];
   vegetationCount: number;
   corpseCount: number;
   fps: number;
@@ -23,8 +31,8 @@ export function createInfoPanel(container: HTMLElement): InfoPanel {
   let currentData: InfoPanelData = {
     seed: 0,
     tick: 0,
-    deerCount: 0,
-    wolfCount: 0,
+    season: '',
+    populations: [],
     vegetationCount: 0,
     corpseCount: 0,
     fps: 0,
@@ -42,8 +50,8 @@ export function createInfoPanel(container: HTMLElement): InfoPanel {
     <div class="info-row"><span>Seed:</span><span id="info-seed">0</span></div>
     <div class="info-row"><span>Tick:</span><span id="info-tick">0</span></div>
     <div class="info-row"><span>Uptime:</span><span id="info-uptime">00:00</span></div>
-    <div class="info-row"><span>Deer:</span><span id="info-deer" class="text-green">0</span></div>
-    <div class="info-row"><span>Wolves:</span><span id="info-wolves" class="text-red">0</span></div>
+    <div class="info-row"><span>Season:</span><span id="info-season"></span></div>
+    <div id="info-species"></div>
     <div class="info-row"><span>Vegetation:</span><span id="info-veg">0</span></div>
     <div class="info-row"><span>Corpses:</span><span id="info-corpses">0</span></div>
     <div class="info-row"><span>FPS:</span><span id="info-fps">0</span></div>
@@ -52,8 +60,8 @@ export function createInfoPanel(container: HTMLElement): InfoPanel {
   const seedEl = container.querySelector('#info-seed') as HTMLSpanElement;
   const tickEl = container.querySelector('#info-tick') as HTMLSpanElement;
   const uptimeEl = container.querySelector('#info-uptime') as HTMLSpanElement;
-  const deerEl = container.querySelector('#info-deer') as HTMLSpanElement;
-  const wolvesEl = container.querySelector('#info-wolves') as HTMLSpanElement;
+  const seasonEl = container.querySelector('#info-season') as HTMLSpanElement;
+  const speciesEl = container.querySelector('#info-species') as HTMLDivElement;
   const vegEl = container.querySelector('#info-veg') as HTMLSpanElement;
   const corpsesEl = container.querySelector('#info-corpses') as HTMLSpanElement;
   const fpsEl = container.querySelector('#info-fps') as HTMLSpanElement;
@@ -69,12 +77,37 @@ export function createInfoPanel(container: HTMLElement): InfoPanel {
     }, 1000);
   });
 
+  // Species rows are rebuilt only when the registered species change
+  let renderedSpeciesKey = '';
+
+  function updateSpeciesRows(): void {
+    const key = currentData.populations.map(p => `${p.species}:${p.name}:${p.color}`).join('|');
+    if (key !== renderedSpeciesKey) {
+      renderedSpeciesKey = key;
+      speciesEl.innerHTML = currentData.populations
+        .map(p => `
+          <div class="info-row">
+            <span><span class="species-swatch" style="background: ${p.color}"></span>${p.name}:</span>
+            <span data-species="${p.species}">0</span>
+          </div>
+        `)
+        .join('');
+    }
+
+    for (const p of currentData.populations) {
+      const countEl = speciesEl.querySelector(`[data-species="${p.species}"]`);
+      if (countEl) {
+        countEl.textContent = String(p.count);
+      }
+    }
+  }
+
   function updateDisplay(): void {
     seedEl.textContent = String(currentData.seed);
     tickEl.textContent = String(currentData.tick);
     uptimeEl.textContent = formatUptime(Date.now() - startTime);
-    deerEl.textContent = String(currentData.deerCount);
-    wolvesEl.textContent = String(currentData.wolfCount);
+    seasonEl.textContent = currentData.season;
+    updateSpeciesRows();
     vegEl.textContent = String(currentData.vegetationCount);
     corpsesEl.textContent = String(currentData.corpseCount);
     fpsEl.textContent = String(currentData.fps);
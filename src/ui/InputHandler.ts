@@ -1,6 +1,6 @@
 import type { Camera } from '../rendering/Camera';
 import type { SelectionManager } from './SelectionManager';
-import type { Simulation } from '../core/Simulation';
+import type { ISimulation } from '../core/Simulation';
 
 export interface InputHandlerConfig {
   panSpeed: number;
@@ -12,14 +12,22 @@ export interface InputHandlerConfig {
 export interface InputHandlerCallbacks {
   onToggleInfoPanel?: () => void;
   onToggleGraph?: () => void;
+  onToggleTraits?: () => void;
+  onShowMortality?: () => void;
   onToggleVisualization?: () => void;
+  onCycleHeatmap?: () => void;
   onShowHelp?: () => void;
   onShowConfig?: () => void;
+  onToggleEditor?: () => void;
+  onShowExport?: () => void;
+  onShowRecentRuns?: () => void;
 }
 
 export interface InputHandler {
   enable(): void;
   disable(): void;
+  // Left-button panning and double-click selection; off while a tool owns the mouse
+  setPointerEnabled(enabled: boolean): void;
   setCallbacks(callbacks: InputHandlerCallbacks): void;
   destroy(): void;
 }
@@ -28,7 +36,7 @@ export function createInputHandler(
   canvas: HTMLCanvasElement,
   camera: Camera,
   selectionManager: SelectionManager,
-  simulation: Simulation,
+  simulation: ISimulation,
   config: InputHandlerConfig = {
     panSpeed: 50,
     zoomSpeed: 1.1,
@@ -37,6 +45,7 @@ export function createInputHandler(
   }
 ): InputHandler {
   let enabled = true;
+  let pointerEnabled = true;
   let isPanning = false;
   let lastMousePos = { x: 0, y: 0 };
   let lastClickTime = 0;
@@ -45,7 +54,7 @@ export function createInputHandler(
 
   // Mouse handlers
   function handleMouseDown(e: MouseEvent): void {
-    if (!enabled) return;
+    if (!enabled || !pointerEnabled) return;
     if (e.button !== 0) return; // Only left click
 
     isPanning = true;
@@ -64,7 +73,7 @@ export function createInputHandler(
   }
 
   function handleMouseUp(e: MouseEvent): void {
-    if (!enabled) return;
+    if (!enabled || !pointerEnabled) return;
 
     isPanning = false;
 
@@ -211,6 +220,22 @@ export function createInputHandler(
         }
         break;
 
+      case 't':
+      case 'T':
+        e.preventDefault();
+        if (callbacks.onToggleTraits) {
+          callbacks.onToggleTraits();
+        }
+        break;
+
+      case 'm':
+      case 'M':
+        e.preventDefault();
+        if (callbacks.onShowMortality) {
+          callbacks.onShowMortality();
+        }
+        break;
+
       case 'v':
       case 'V':
         e.preventDefault();
@@ -219,6 +244,14 @@ export function createInputHandler(
         }
         break;
 
+      case 'h':
+      case 'H':
+        e.preventDefault();
+        if (callbacks.onCycleHeatmap) {
+          callbacks.onCycleHeatmap();
+        }
+        break;
+
       case '?':
         e.preventDefault();
         if (callbacks.onShowHelp) {
@@ -233,6 +266,32 @@ export function createInputHandler(
           callbacks.onShowConfig();
         }
         break;
+
+      case 'e':
+      case 'E':
+        e.preventDefault();
+        if (callbacks.onToggleEditor) {
+          callbacks.onToggleEditor();
+        }
+        break;
+
+      case 'x':
+      case 'X':
+        e.preventDefault();
+        if (callbacks.onShowExport) {
+          callbacks.onShowExport();
+        }
+        break;
+
+      case 'r':
+      case 'R':
+        // Leave Ctrl+R / Cmd+R to reload the page
+        if (e.ctrlKey || e.metaKey) break;
+        e.preventDefault();
+        if (callbacks.onShowRecentRuns) {
+          callbacks.onShowRecentRuns();
+        }
+        break;
     }
   }
 
@@ -305,6 +364,11 @@ export function createInputHandler(
       isPanning = false;
     },
 
+    setPointerEnabled(value: boolean): void {
+      pointerEnabled = value;
+      isPanning = false;
+    },
+
     setCallbacks(newCallbacks: InputHandlerCallbacks): void {
       callbacks = { ...callbacks, ...newCallbacks };
     },
@@ -0,0 +1,291 @@
+import type { LineageStore, LineageNode } from '../data/LineageStore';
+import type { GraphSeries } from './PopulationGraph';
+import type { EntityId } from '../utils/id';
+import { GRAPH_COLORS } from '../rendering/sprites';
+import { downloadText } from '../utils/download';
+
+export interface LineageDialogCallbacks {
+  // A living animal was picked in the viewer
+  onSelectAnimal?: (animalId: EntityId) => void;
+}
+
+export interface LineageDialog {
+  show(animalId: EntityId): void;
+  hide(): void;
+  isVisible(): boolean;
+  // Re-read the store while the dialog is open
+  refresh(): void;
+  setSpecies(series: GraphSeries[]): void;
+  setCallbacks(callbacks: LineageDialogCallbacks): void;
+  destroy(): void;
+}
+
+// Larger family trees are cut off in depth-first order
+const MAX_TREE_NODES = 3000;
+const HIGHLIGHT_COLOR = '#ffd700';
+
+interface TreeLayout {
+  nodes: LineageNode[];
+  // Node id -> row (leaves are whole rows, parents sit between their children)
+  rows: Map<EntityId, number>;
+  rowCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Depth-first layout of the subtree under root, without recursion so deep
+ * lineages cannot overflow the stack.
+ */
+function layoutTree(store: LineageStore, root: LineageNode): TreeLayout {
+  const nodes: LineageNode[] = [];
+  const rows = new Map<EntityId, number>();
+  let rowCount = 0;
+  let truncated = false;
+
+  const stack: Array<[LineageNode, boolean]> = [[root, false]];
+  while (stack.length > 0) {
+    const [node, expanded] = stack.pop()!;
+    if (!expanded) {
+      if (nodes.length >= MAX_TREE_NODES) {
+        truncated = true;
+        continue;
+      }
+      nodes.push(node);
+      stack.push([node, true]);
+      const children = store.getChildren(node.id);
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push([children[i], false]);
+      }
+      continue;
+    }
+
+    // Children cut off by the node limit have no row
+    const placed = store.getChildren(node.id).filter(child => rows.has(child.id));
+    if (placed.length === 0) {
+      rows.set(node.id, rowCount++);
+    } else {
+      rows.set(node.id, (rows.get(placed[0].id)! + rows.get(placed[placed.length - 1].id)!) / 2);
+    }
+  }
+
+  return { nodes, rows, rowCount, truncated };
+}
+
+export function createLineageDialog(store: LineageStore, getCurrentTick: () => number): LineageDialog {
+  let visible = false;
+  let overlay: HTMLDivElement | null = null;
+  let focusId: EntityId | null = null;
+  let speciesSeries: GraphSeries[] = [];
+  let callbacks: LineageDialogCallbacks = {};
+
+  function getColor(node: LineageNode): string {
+    return speciesSeries.find(s => s.species === node.species)?.color ?? GRAPH_COLORS.text;
+  }
+
+  function renderAncestry(ancestry: LineageNode[]): string {
+    const rows = ancestry.map(node => {
+      const died = node.deathTick === null ? 'alive' : `${node.deathTick} (${node.deathCause})`;
+      const label = node.id === focusId ? `<strong>${node.id}</strong>` : node.id;
+      return `
+        <tr>
+          <td>${node.generation}</td>
+          <td><a href="#" class="lineage-link" data-animal-id="${node.id}">${label}</a></td>
+          <td>${node.birthTick}</td>
+          <td>${died}</td>
+          <td>${store.getChildren(node.id).length}</td>
+        </tr>
+      `;
+    }).join('');
+
+    return `
+      <table class="mortality-table">
+        <thead>
+          <tr><th>Gen</th><th>Animal</th><th>Born</th><th>Died</th><th>Offspring</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `;
+  }
+
+  /**
+   * Phylogram of the focused animal's founder: one line per animal from birth
+   * to death, joined to its parent at the birth tick.
+   */
+  function drawTree(canvas: HTMLCanvasElement, root: LineageNode, ancestry: LineageNode[]): boolean {
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    const ctx = canvas.getContext('2d')!;
+    const { width, height } = canvas;
+    const padding = { top: 10, right: 10, bottom: 20, left: 10 };
+    const graphWidth = width - padding.left - padding.right;
+    const graphHeight = height - padding.top - padding.bottom;
+
+    ctx.fillStyle = GRAPH_COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const layout = layoutTree(store, root);
+    const startTick = root.birthTick;
+    const endTick = Math.max(getCurrentTick(), startTick + 1);
+    const xScale = (tick: number): number =>
+      padding.left + ((tick - startTick) / (endTick - startTick)) * graphWidth;
+    const yScale = (row: number): number =>
+      padding.top + (layout.rowCount > 1 ? (row / (layout.rowCount - 1)) * graphHeight : graphHeight / 2);
+
+    const onPath = new Set(ancestry.map(n => n.id));
+    ctx.lineWidth = 1;
+    for (const node of layout.nodes) {
+      const y = yScale(layout.rows.get(node.id)!);
+      const x = xScale(node.birthTick);
+      ctx.strokeStyle = onPath.has(node.id) ? HIGHLIGHT_COLOR : getColor(node);
+      ctx.globalAlpha = node.deathTick === null || onPath.has(node.id) ? 1 : 0.4;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(xScale(node.deathTick ?? endTick), y);
+      const parentRow = node.id === root.id || !node.parentId ? undefined : layout.rows.get(node.parentId);
+      if (parentRow !== undefined) {
+        ctx.moveTo(x, y);
+        ctx.lineTo(x, yScale(parentRow));
+      }
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+
+    const focusRow = focusId ? layout.rows.get(focusId) : undefined;
+    const focus = focusId ? store.getNode(focusId) : undefined;
+    if (focus && focusRow !== undefined) {
+      ctx.fillStyle = HIGHLIGHT_COLOR;
+      ctx.beginPath();
+      ctx.arc(xScale(focus.birthTick), yScale(focusRow), 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.fillStyle = GRAPH_COLORS.text;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(String(startTick), padding.left, height - 5);
+    ctx.textAlign = 'right';
+    ctx.fillText(String(endTick), padding.left + graphWidth, height - 5);
+
+    return layout.truncated;
+  }
+
+  function renderContent(): void {
+    if (!overlay || !focusId) return;
+    const title = overlay.querySelector('.lineage-title') as HTMLElement;
+    const ancestryEl = overlay.querySelector('.lineage-ancestry') as HTMLDivElement;
+    const treeNote = overlay.querySelector('.lineage-tree-note') as HTMLElement;
+    const canvas = overlay.querySelector('.lineage-canvas') as HTMLCanvasElement;
+
+    const ancestry = store.getAncestry(focusId);
+    title.textContent = `Lineage of ${focusId}`;
+    if (ancestry.length === 0) {
+      ancestryEl.innerHTML = '<p class="mortality-empty">No lineage recorded for this animal (it may have been pruned)</p>';
+      treeNote.textContent = '';
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    ancestryEl.innerHTML = renderAncestry(ancestry);
+    ancestryEl.querySelectorAll('.lineage-link').forEach(link => {
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        const animalId = (e.currentTarget as HTMLElement).dataset.animalId as EntityId;
+        focusId = animalId;
+        if (store.getNode(animalId)?.deathTick === null) {
+          callbacks.onSelectAnimal?.(animalId);
+        }
+        renderContent();
+      });
+    });
+
+    const truncated = drawTree(canvas, ancestry[0], ancestry);
+    treeNote.textContent = `Descendants of founder ${ancestry[0].id}` +
+      (truncated ? ` (first ${MAX_TREE_NODES} shown)` : '');
+  }
+
+  function render(): HTMLDivElement {
+    const div = document.createElement('div');
+    div.className = 'help-dialog-overlay';
+    div.innerHTML = `
+      <div class="help-dialog mortality-dialog">
+        <div class="help-dialog-header">
+          <h2 class="lineage-title">Lineage</h2>
+          <button class="help-close-btn">&times;</button>
+        </div>
+        <div class="help-dialog-content">
+          <div class="help-section">
+            <h3>Ancestry</h3>
+            <div class="lineage-ancestry"></div>
+          </div>
+          <div class="help-section">
+            <h3 class="lineage-tree-note"></h3>
+            <canvas class="lineage-canvas"></canvas>
+          </div>
+          <div class="mortality-actions">
+            <button class="lineage-prune">Prune extinct branches</button>
+            <button class="lineage-export-newick">Export Newick</button>
+            <button class="lineage-export-json">Export JSON</button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    div.querySelector('.help-close-btn')?.addEventListener('click', () => hide());
+    div.querySelector('.lineage-prune')?.addEventListener('click', () => {
+      store.pruneExtinct();
+      renderContent();
+    });
+    div.querySelector('.lineage-export-newick')?.addEventListener('click', () => {
+      downloadText(store.toNewick(), 'evolution-sandbox-lineage.nwk', 'text/plain');
+    });
+    div.querySelector('.lineage-export-json')?.addEventListener('click', () => {
+      downloadText(store.toJSON(), 'evolution-sandbox-lineage.json', 'application/json');
+    });
+
+    // Click outside to close
+    div.addEventListener('click', (e) => {
+      if (e.target === div) {
+        hide();
+      }
+    });
+
+    return div;
+  }
+
+  function show(animalId: EntityId): void {
+    focusId = animalId;
+    if (!visible) {
+      visible = true;
+      overlay = render();
+      document.body.appendChild(overlay);
+    }
+    renderContent();
+  }
+
+  function hide(): void {
+    if (!visible || !overlay) return;
+    visible = false;
+    document.body.removeChild(overlay);
+    overlay = null;
+  }
+
+  return {
+    show,
+    hide,
+    isVisible(): boolean {
+      return visible;
+    },
+    refresh(): void {
+      renderContent();
+    },
+    setSpecies(series: GraphSeries[]): void {
+      speciesSeries = [...series];
+    },
+    setCallbacks(newCallbacks: LineageDialogCallbacks): void {
+      callbacks = newCallbacks;
+    },
+    destroy(): void {
+      hide();
+    },
+  };
+}
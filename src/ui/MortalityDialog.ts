@@ -0,0 +1,205 @@
+import type { MortalityTable, MortalityRow } from '../data/MortalityTable';
+import type { GraphSeries } from './PopulationGraph';
+import { DEATH_CAUSES } from '../data/MortalityTable';
+import { GRAPH_COLORS } from '../rendering/sprites';
+import { downloadText } from '../utils/download';
+
+export interface MortalityDialog {
+  show(): void;
+  hide(): void;
+  isVisible(): boolean;
+  // Re-read the table while the dialog is open
+  refresh(): void;
+  setSpecies(series: GraphSeries[]): void;
+  destroy(): void;
+}
+
+// Ticks per point in the predation-vs-starvation chart
+const RATIO_BUCKET_SIZE = 100;
+
+export function createMortalityDialog(table: MortalityTable): MortalityDialog {
+  let visible = false;
+  let overlay: HTMLDivElement | null = null;
+  let speciesSeries: GraphSeries[] = [];
+
+  function getName(species: string): string {
+    return speciesSeries.find(s => s.species === species)?.name ?? species;
+  }
+
+  function renderRow(row: MortalityRow): string {
+    const label = row.generation === null ? `<strong>${getName(row.species)}</strong>` : `Gen ${row.generation}`;
+    return `
+      <tr class="${row.generation === null ? 'mortality-total' : ''}">
+        <td>${label}</td>
+        <td>${row.deaths}</td>
+        ${DEATH_CAUSES.map(cause => `<td>${row.causes[cause]}</td>`).join('')}
+        <td>${row.meanAgeAtDeath.toFixed(0)}</td>
+      </tr>
+    `;
+  }
+
+  function renderTable(): string {
+    const totals = table.getSpeciesTotals();
+    if (totals.length === 0) {
+      return '<p class="mortality-empty">No deaths recorded yet</p>';
+    }
+
+    const rows = table.getRows();
+    const body = totals
+      .map(total => renderRow(total) + rows.filter(r => r.species === total.species).map(renderRow).join(''))
+      .join('');
+
+    return `
+      <table class="mortality-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th>Deaths</th>
+            ${DEATH_CAUSES.map(cause => `<th>${cause.charAt(0).toUpperCase() + cause.slice(1)}</th>`).join('')}
+            <th>Mean age</th>
+          </tr>
+        </thead>
+        <tbody>${body}</tbody>
+      </table>
+    `;
+  }
+
+  /**
+   * Share of predation among predation and starvation deaths per time bucket,
+   * one line per species.
+   */
+  function drawRatioChart(canvas: HTMLCanvasElement): void {
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    const ctx = canvas.getContext('2d')!;
+    const { width, height } = canvas;
+    const padding = { top: 10, right: 10, bottom: 20, left: 35 };
+    const graphWidth = width - padding.left - padding.right;
+    const graphHeight = height - padding.top - padding.bottom;
+
+    ctx.fillStyle = GRAPH_COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const seriesData = speciesSeries.map(s => ({ series: s, points: table.getRatioSeries(RATIO_BUCKET_SIZE, s.species) }));
+    const allPoints = seriesData.flatMap(d => d.points);
+    if (allPoints.length === 0) {
+      return;
+    }
+    const startTick = Math.min(...allPoints.map(p => p.tickStart));
+    const endTick = Math.max(...allPoints.map(p => p.tickEnd));
+    const xScale = (tick: number): number =>
+      padding.left + ((tick - startTick) / Math.max(1, endTick - startTick)) * graphWidth;
+    const yScale = (ratio: number): number => padding.top + graphHeight - ratio * graphHeight;
+
+    ctx.strokeStyle = GRAPH_COLORS.grid;
+    ctx.fillStyle = GRAPH_COLORS.text;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'right';
+    for (const ratio of [0, 0.5, 1]) {
+      ctx.beginPath();
+      ctx.moveTo(padding.left, yScale(ratio));
+      ctx.lineTo(padding.left + graphWidth, yScale(ratio));
+      ctx.stroke();
+      ctx.fillText(`${ratio * 100}%`, padding.left - 4, yScale(ratio) + 3);
+    }
+    ctx.textAlign = 'center';
+    ctx.fillText(String(startTick), padding.left, height - 5);
+    ctx.fillText(String(endTick), padding.left + graphWidth, height - 5);
+
+    ctx.lineWidth = 2;
+    for (const { series, points } of seriesData) {
+      ctx.strokeStyle = series.color;
+      ctx.beginPath();
+      points.forEach((p, i) => {
+        const x = xScale((p.tickStart + p.tickEnd) / 2);
+        const y = yScale(p.predationRatio);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+    }
+  }
+
+  function renderContent(): void {
+    if (!overlay) return;
+    const tableEl = overlay.querySelector('.mortality-table-container') as HTMLDivElement;
+    tableEl.innerHTML = renderTable();
+    drawRatioChart(overlay.querySelector('.mortality-ratio-canvas') as HTMLCanvasElement);
+  }
+
+  function render(): HTMLDivElement {
+    const div = document.createElement('div');
+    div.className = 'help-dialog-overlay';
+    div.innerHTML = `
+      <div class="help-dialog mortality-dialog">
+        <div class="help-dialog-header">
+          <h2>Mortality</h2>
+          <button class="help-close-btn">&times;</button>
+        </div>
+        <div class="help-dialog-content">
+          <div class="help-section">
+            <h3>Deaths by species and generation</h3>
+            <div class="mortality-table-container"></div>
+          </div>
+          <div class="help-section">
+            <h3>Predation share of predation + starvation deaths</h3>
+            <canvas class="mortality-ratio-canvas"></canvas>
+          </div>
+          <div class="mortality-actions">
+            <button class="mortality-export-csv">Export CSV</button>
+            <button class="mortality-export-json">Export JSON</button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    div.querySelector('.help-close-btn')?.addEventListener('click', () => hide());
+    div.querySelector('.mortality-export-csv')?.addEventListener('click', () => {
+      downloadText(table.toCSV(), 'evolution-sandbox-mortality.csv', 'text/csv');
+    });
+    div.querySelector('.mortality-export-json')?.addEventListener('click', () => {
+      downloadText(table.toJSON(), 'evolution-sandbox-mortality.json', 'application/json');
+    });
+
+    // Click outside to close
+    div.addEventListener('click', (e) => {
+      if (e.target === div) {
+        hide();
+      }
+    });
+
+    return div;
+  }
+
+  function show(): void {
+    if (visible) return;
+    visible = true;
+    overlay = render();
+    document.body.appendChild(overlay);
+    renderContent();
+  }
+
+  function hide(): void {
+    if (!visible || !overlay) return;
+    visible = false;
+    document.body.removeChild(overlay);
+    overlay = null;
+  }
+
+  return {
+    show,
+    hide,
+    isVisible(): boolean {
+      return visible;
+    },
+    refresh(): void {
+      renderContent();
+    },
+    setSpecies(series: GraphSeries[]): void {
+      speciesSeries = [...series];
+    },
+    destroy(): void {
+      hide();
+    },
+  };
+}
@@ -1,9 +1,15 @@
 import type { PopulationHistory, PopulationDataPoint } from '../data/PopulationHistory';
+import type { Species } from '../entities/types';
 import { GRAPH_COLORS } from '../rendering/sprites';
 
+export interface GraphSeries {
+  species: Species;
+  name: string;
+  color: string;
+}
+
 export interface GraphOptions {
-  showDeer: boolean;
-  showWolves: boolean;
+  hiddenSpecies: Species[];
   showVegetation: boolean;
   timeWindow: number;
   smoothing: boolean;
@@ -13,6 +19,7 @@ export interface PopulationGraph {
   render(): void;
   setOptions(options: Partial<GraphOptions>): void;
   setHistory(history: PopulationHistory): void;
+  setSpecies(series: GraphSeries[]): void;
   show(): void;
   hide(): void;
   isVisible(): boolean;
@@ -26,10 +33,10 @@ export function createPopulationGraph(
 ): PopulationGraph {
   let visible = false;
   let populationHistory = history;
+  let speciesSeries: GraphSeries[] = [];
 
   let options: GraphOptions = {
-    showDeer: true,
-    showWolves: true,
+    hiddenSpecies: [],
     showVegetation: false,
     timeWindow: 500,
     smoothing: false,
@@ -124,27 +131,23 @@ export function createPopulationGraph(
     ctx.stroke();
   }
 
+  function getVisibleSeries(): GraphSeries[] {
+    return speciesSeries.filter(s => !options.hiddenSpecies.includes(s.species));
+  }
+
   function drawLegend(graphWidth: number): void {
     const legendX = padding.left + graphWidth + 10;
     let legendY = padding.top + 10;
     const spacing = 18;
 
     ctx.font = '11px monospace';
+    ctx.textAlign = 'left';
 
-    if (options.showDeer) {
-      ctx.fillStyle = GRAPH_COLORS.deer;
+    for (const series of getVisibleSeries()) {
+      ctx.fillStyle = series.color;
       ctx.fillRect(legendX, legendY - 8, 12, 12);
       ctx.fillStyle = GRAPH_COLORS.text;
-      ctx.textAlign = 'left';
-      ctx.fillText('Deer', legendX + 18, legendY);
-      legendY += spacing;
-    }
-
-    if (options.showWolves) {
-      ctx.fillStyle = GRAPH_COLORS.wolf;
-      ctx.fillRect(legendX, legendY - 8, 12, 12);
-      ctx.fillStyle = GRAPH_COLORS.text;
-      ctx.fillText('Wolves', legendX + 18, legendY);
+      ctx.fillText(series.name, legendX + 18, legendY);
       legendY += spacing;
     }
 
@@ -185,10 +188,13 @@ export function createPopulationGraph(
     const visibleData = data.filter(d => d.tick >= startTick);
 
     // Calculate max population for Y scale
+    const visibleSeries = getVisibleSeries();
     let maxPop = 10; // minimum
     for (const d of visibleData) {
-      if (options.showDeer && d.deerCount > maxPop) maxPop = d.deerCount;
-      if (options.showWolves && d.wolfCount > maxPop) maxPop = d.wolfCount;
+      for (const series of visibleSeries) {
+        const count = d.speciesCounts[series.species] ?? 0;
+        if (count > maxPop) maxPop = count;
+      }
     }
     maxPop = Math.ceil(maxPop * 1.1); // 10% headroom
 
@@ -202,11 +208,8 @@ export function createPopulationGraph(
     drawGrid(graphWidth, graphHeight, maxPop, startTick, latestTick);
 
     // Draw lines
-    if (options.showDeer) {
-      drawLine(visibleData, d => d.deerCount, xScale, yScale, GRAPH_COLORS.deer);
-    }
-    if (options.showWolves) {
-      drawLine(visibleData, d => d.wolfCount, xScale, yScale, GRAPH_COLORS.wolf);
+    for (const series of visibleSeries) {
+      drawLine(visibleData, d => d.speciesCounts[series.species] ?? 0, xScale, yScale, series.color);
     }
 
     // Draw legend
@@ -233,6 +236,10 @@ export function createPopulationGraph(
       populationHistory = history;
     },
 
+    setSpecies(series: GraphSeries[]): void {
+      speciesSeries = [...series];
+    },
+
     show(): void {
       visible = true;
       container.classList.add('visible');
@@ -0,0 +1,189 @@
+import type { RunStore, SavedRunSummary } from '../data/RunStore';
+
+export interface RecentRunsDialogCallbacks {
+  onResume?: (runId: string) => void;
+  onRenamed?: (summary: SavedRunSummary) => void;
+  onSaveNow?: () => void;
+}
+
+export interface RecentRunsDialog {
+  show(): void;
+  hide(): void;
+  isVisible(): boolean;
+  // Re-read the saved runs while the dialog is open
+  refresh(): void;
+  setCallbacks(callbacks: RecentRunsDialogCallbacks): void;
+  destroy(): void;
+}
+
+interface RecentRunsStatus {
+  currentRunId: string;
+  // Last autosave outcome, shown under the list
+  message: string;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function createRecentRunsDialog(store: RunStore, getStatus: () => RecentRunsStatus): RecentRunsDialog {
+  let visible = false;
+  let overlay: HTMLDivElement | null = null;
+  let callbacks: RecentRunsDialogCallbacks = {};
+  let runs: SavedRunSummary[] = [];
+  // Last failed store call, shown in place of the autosave status until the next one succeeds
+  let error = '';
+
+  function renderRun(run: SavedRunSummary, currentRunId: string): string {
+    const population = Object.entries(run.speciesCounts).map(([species, count]) => `${count} ${species}`).join(', ');
+    return `
+      <tr data-run-id="${escapeHtml(run.id)}">
+        <td>
+          <div>${escapeHtml(run.name)}${run.id === currentRunId ? ' <span class="text-muted">(current)</span>' : ''}</div>
+          <div class="text-muted">Tick ${run.tick} · seed ${run.seed} · ${population || 'no animals'}</div>
+          <div class="text-muted">Saved ${new Date(run.updatedAt).toLocaleString()}</div>
+        </td>
+        <td class="recent-runs-actions">
+          <button data-action="resume">Resume</button>
+          <button data-action="rename">Rename</button>
+          <button data-action="duplicate">Duplicate</button>
+          <button data-action="delete">Delete</button>
+        </td>
+      </tr>
+    `;
+  }
+
+  function renderContent(): void {
+    if (!overlay) return;
+    const status = getStatus();
+    const list = overlay.querySelector('.recent-runs-list') as HTMLElement;
+    list.innerHTML = runs.length > 0
+      ? `<table class="mortality-table">${runs.map(run => renderRun(run, status.currentRunId)).join('')}</table>`
+      : '<p class="text-muted">No saved runs yet.</p>';
+    (overlay.querySelector('.recent-runs-status') as HTMLElement).textContent = error || status.message;
+  }
+
+  function showError(what: string, e: unknown): void {
+    error = `${what}: ${e instanceof Error ? e.message : 'Unknown error'}`;
+    renderContent();
+  }
+
+  async function reload(): Promise<void> {
+    try {
+      runs = await store.list();
+      error = '';
+    } catch (e) {
+      showError('Could not read saved runs', e);
+      return;
+    }
+    renderContent();
+  }
+
+  async function handleAction(runId: string, action: string): Promise<void> {
+    const run = runs.find(r => r.id === runId);
+    if (!run) return;
+
+    try {
+      switch (action) {
+        case 'resume':
+          hide();
+          callbacks.onResume?.(runId);
+          return;
+        case 'rename': {
+          const name = window.prompt('Rename run', run.name)?.trim();
+          if (!name) return;
+          const renamed = await store.rename(runId, name);
+          if (renamed) {
+            callbacks.onRenamed?.(renamed);
+          }
+          break;
+        }
+        case 'duplicate':
+          await store.duplicate(runId);
+          break;
+        case 'delete':
+          if (!window.confirm(`Delete "${run.name}"?`)) return;
+          await store.delete(runId);
+          break;
+      }
+    } catch (e) {
+      showError(`Could not ${action} "${run.name}"`, e);
+      return;
+    }
+    await reload();
+  }
+
+  function render(): HTMLDivElement {
+    const div = document.createElement('div');
+    div.className = 'help-dialog-overlay';
+    div.innerHTML = `
+      <div class="help-dialog recent-runs-dialog">
+        <div class="help-dialog-header">
+          <h2>Recent Runs</h2>
+          <button class="help-close-btn">&times;</button>
+        </div>
+        <div class="help-dialog-content">
+          <div class="help-section">
+            <div class="recent-runs-list"></div>
+            <p class="text-muted recent-runs-status"></p>
+          </div>
+          <div class="mortality-actions">
+            <button class="recent-runs-save">Save now</button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    div.querySelector('.help-close-btn')?.addEventListener('click', () => hide());
+    div.querySelector('.recent-runs-save')?.addEventListener('click', () => callbacks.onSaveNow?.());
+    div.querySelector('.recent-runs-list')?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+      const row = button?.closest<HTMLElement>('tr[data-run-id]');
+      if (button && row) {
+        handleAction(row.dataset.runId!, button.dataset.action!);
+      }
+    });
+
+    // Click outside to close
+    div.addEventListener('click', (e) => {
+      if (e.target === div) {
+        hide();
+      }
+    });
+
+    return div;
+  }
+
+  function show(): void {
+    if (visible) return;
+    visible = true;
+    overlay = render();
+    document.body.appendChild(overlay);
+    renderContent();
+    reload();
+  }
+
+  function hide(): void {
+    if (!visible || !overlay) return;
+    visible = false;
+    document.body.removeChild(overlay);
+    overlay = null;
+  }
+
+  return {
+    show,
+    hide,
+    isVisible(): boolean {
+      return visible;
+    },
+    refresh(): void {
+      reload();
+    },
+    setCallbacks(newCallbacks: RecentRunsDialogCallbacks): void {
+      callbacks = newCallbacks;
+    },
+    destroy(): void {
+      hide();
+    },
+  };
+}
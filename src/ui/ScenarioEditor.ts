@@ -0,0 +1,388 @@
+import type { Camera } from '../rendering/Camera';
+import type { ISimulation } from '../core/Simulation';
+import type { Animal, Species } from '../entities/types';
+import type { AttributeBounds } from '../genetics/attributes';
+import type { ScenarioAnimal } from '../core/Scenario';
+import type { Vector2 } from '../utils/vector';
+import { createWorld, initializePopulation, spawnAnimal } from '../core/World';
+import { deserializeWorld, serializeWorld } from '../core/WorldSnapshot';
+import {
+  captureScenario,
+  clearWorld,
+  downloadScenario,
+  eraseVegetation,
+  moveAnimal,
+  paintVegetation,
+  promptScenarioUpload,
+  removeAnimal,
+  removeCorpse,
+} from '../core/Scenario';
+import { BASE_ATTRIBUTE_BOUNDS, BEHAVIORAL_ATTRIBUTE_BOUNDS, LIFECYCLE_ATTRIBUTE_BOUNDS } from '../genetics/attributes';
+import { getSpeciesDefinition, getSpeciesIds, getSpeciesName } from '../species/registry';
+import { getEntityRadius } from '../rendering/sprites';
+
+export type EditorTool = 'paint' | 'erase' | 'place' | 'delete';
+
+export interface EditorBrush {
+  center: Vector2;
+  radius: number;
+}
+
+export interface ScenarioEditorCallbacks {
+  onToggle?: (active: boolean) => void;
+  // Outline to draw under the cursor, or null
+  onBrushChange?: (brush: EditorBrush | null) => void;
+}
+
+export interface ScenarioEditor {
+  open(): void;
+  // Hand the edited world to the simulation and leave the editor
+  close(): void;
+  toggle(): void;
+  isActive(): boolean;
+  setCallbacks(callbacks: ScenarioEditorCallbacks): void;
+  destroy(): void;
+}
+
+type AttributeGroup = 'baseAttributes' | 'behavioralAttributes' | 'lifecycleAttributes';
+
+const ATTRIBUTE_GROUPS: Array<{ group: AttributeGroup; title: string; bounds: Record<string, AttributeBounds> }> = [
+  { group: 'baseAttributes', title: 'Base', bounds: BASE_ATTRIBUTE_BOUNDS },
+  { group: 'behavioralAttributes', title: 'Behavioral', bounds: BEHAVIORAL_ATTRIBUTE_BOUNDS },
+  { group: 'lifecycleAttributes', title: 'Lifecycle', bounds: LIFECYCLE_ATTRIBUTE_BOUNDS },
+];
+
+const TOOLS: Array<{ tool: EditorTool; label: string }> = [
+  { tool: 'paint', label: 'Paint vegetation' },
+  { tool: 'erase', label: 'Erase vegetation' },
+  { tool: 'place', label: 'Place / move animals' },
+  { tool: 'delete', label: 'Delete entities' },
+];
+
+// Extra screen pixels around an animal that still count as a hit
+const HIT_TOLERANCE = 6;
+
+export function createScenarioEditor(
+  canvas: HTMLCanvasElement,
+  camera: Camera,
+  simulation: ISimulation
+): ScenarioEditor {
+  let active = false;
+  let panel: HTMLDivElement | null = null;
+  let callbacks: ScenarioEditorCallbacks = {};
+  let tool: EditorTool = 'paint';
+  let brushRadius = 40;
+  // Edits have been made to the world since it was last handed over
+  let dirty = false;
+  let painting = false;
+  let draggingId: string | null = null;
+
+  function toWorld(e: MouseEvent): Vector2 {
+    const rect = canvas.getBoundingClientRect();
+    return camera.screenToWorld({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+  }
+
+  function findAnimalAt(position: Vector2): Animal | undefined {
+    const { zoom } = camera.getState();
+    let nearest: Animal | undefined;
+    let nearestDistance = Infinity;
+    for (const animal of simulation.world.getLivingAnimals()) {
+      const d = Math.hypot(animal.state.position.x - position.x, animal.state.position.y - position.y);
+      if (d <= getEntityRadius(animal.baseAttributes.size) + HIT_TOLERANCE / zoom && d < nearestDistance) {
+        nearest = animal;
+        nearestDistance = d;
+      }
+    }
+    return nearest;
+  }
+
+  function readPlacement(position: Vector2): ScenarioAnimal {
+    const species = (panel!.querySelector('.editor-species') as HTMLSelectElement).value as Species;
+    const placed: ScenarioAnimal = { species, position };
+    for (const { group } of ATTRIBUTE_GROUPS) {
+      const values: Record<string, number> = {};
+      panel!.querySelectorAll<HTMLInputElement>(`input[data-group="${group}"]`).forEach((input) => {
+        const value = parseFloat(input.value);
+        if (Number.isFinite(value)) {
+          values[input.dataset.key!] = value;
+        }
+      });
+      placed[group] = values;
+    }
+    return placed;
+  }
+
+  function fillSpeciesDefaults(): void {
+    if (!panel) return;
+    const species = (panel.querySelector('.editor-species') as HTMLSelectElement).value;
+    const definition = getSpeciesDefinition(simulation.config, species);
+    panel.querySelectorAll<HTMLInputElement>('input[data-group]').forEach((input) => {
+      const group = input.dataset.group as AttributeGroup;
+      input.value = String((definition[group] as unknown as Record<string, number>)[input.dataset.key!]);
+    });
+  }
+
+  function applyBrush(position: Vector2): void {
+    if (tool === 'paint') {
+      paintVegetation(simulation.world, position, brushRadius);
+    } else {
+      eraseVegetation(simulation.world, position, brushRadius);
+    }
+    dirty = true;
+  }
+
+  function deleteAt(position: Vector2): void {
+    const animal = findAnimalAt(position);
+    if (animal) {
+      removeAnimal(simulation.world, animal.id);
+      dirty = true;
+      return;
+    }
+    const corpse = simulation.world.getAllCorpses().find(c =>
+      Math.hypot(c.position.x - position.x, c.position.y - position.y) <= getEntityRadius(c.sourceSize)
+    );
+    if (corpse) {
+      removeCorpse(simulation.world, corpse.id);
+      dirty = true;
+    }
+  }
+
+  function updateBrush(position: Vector2 | null): void {
+    const showsBrush = tool === 'paint' || tool === 'erase';
+    callbacks.onBrushChange?.(position && showsBrush ? { center: position, radius: brushRadius } : null);
+  }
+
+  function handleMouseDown(e: MouseEvent): void {
+    if (!active || e.button !== 0) return;
+    const position = toWorld(e);
+
+    switch (tool) {
+      case 'paint':
+      case 'erase':
+        painting = true;
+        applyBrush(position);
+        break;
+
+      case 'place': {
+        // Grab an animal under the cursor, or drop a new one to drag into place
+        const animal = findAnimalAt(position) ?? spawnAnimal(simulation.world, readPlacement(position));
+        draggingId = animal.id;
+        dirty = true;
+        break;
+      }
+
+      case 'delete':
+        deleteAt(position);
+        break;
+    }
+  }
+
+  function handleMouseMove(e: MouseEvent): void {
+    if (!active) return;
+    const position = toWorld(e);
+    updateBrush(position);
+
+    if (painting) {
+      applyBrush(position);
+    } else if (draggingId) {
+      moveAnimal(simulation.world, draggingId, position);
+    }
+  }
+
+  function handleMouseUp(): void {
+    painting = false;
+    draggingId = null;
+  }
+
+  function handleMouseLeave(): void {
+    handleMouseUp();
+    updateBrush(null);
+  }
+
+  /**
+   * Replace the simulation's world with a copy of the edited one, so the
+   * simulation (or its worker) and every recorder start over from it.
+   */
+  function commit(): void {
+    if (!dirty) return;
+    dirty = false;
+    simulation.loadWorld(deserializeWorld(serializeWorld(simulation.world)));
+  }
+
+  async function loadScenario(): Promise<void> {
+    const result = await promptScenarioUpload(simulation.config);
+    if (!result) return;
+    if (!result.success || !result.scenario) {
+      window.alert('Failed to load scenario:\n\n' + result.errors.join('\n'));
+      return;
+    }
+    if (result.warnings.length > 0) {
+      window.alert('Scenario loaded with warnings:\n\n' + result.warnings.join('\n'));
+    }
+
+    // A config copy: loadWorld copies the world's config into the live one
+    const config = JSON.parse(JSON.stringify(simulation.config));
+    const world = createWorld(config, result.scenario.seed ?? simulation.seed);
+    initializePopulation(world, result.scenario);
+    dirty = false;
+    simulation.loadWorld(world);
+    const nameInput = panel?.querySelector('.editor-name') as HTMLInputElement | null;
+    if (nameInput) {
+      nameInput.value = result.scenario.name;
+    }
+  }
+
+  function renderAttributeInputs(): string {
+    return ATTRIBUTE_GROUPS.map(({ group, title, bounds }) => `
+      <div class="editor-attributes">
+        <h4>${title}</h4>
+        ${Object.entries(bounds).map(([key, range]) => `
+          <label class="stat-row">
+            <span>${key}</span>
+            <input type="number" data-group="${group}" data-key="${key}"
+              min="${range.min}" max="${range.max}" step="${range.max - range.min > 10 ? 1 : 0.05}">
+          </label>
+        `).join('')}
+      </div>
+    `).join('');
+  }
+
+  function render(): HTMLDivElement {
+    const div = document.createElement('div');
+    div.className = 'scenario-editor';
+    div.innerHTML = `
+      <div class="sidebar-header">
+        <h3>Scenario Editor</h3>
+        <button class="close-btn" title="Done (E)">&times;</button>
+      </div>
+      <div class="sidebar-section">
+        <h4>Tool</h4>
+        ${TOOLS.map(({ tool: value, label }) => `
+          <label class="editor-tool">
+            <input type="radio" name="editor-tool" value="${value}" ${value === tool ? 'checked' : ''}> ${label}
+          </label>
+        `).join('')}
+        <label class="stat-row">
+          <span>Brush radius</span>
+          <input type="range" class="editor-brush" min="10" max="200" step="5" value="${brushRadius}">
+        </label>
+        <p class="text-muted">Drag to paint. Placing drops a new animal you can drag into position; drag an existing one to move it.</p>
+      </div>
+      <div class="sidebar-section">
+        <h4>New animal</h4>
+        <label class="stat-row">
+          <span>Species</span>
+          <select class="editor-species">
+            ${getSpeciesIds(simulation.config).map(id => `<option value="${id}">${getSpeciesName(simulation.config, id)}</option>`).join('')}
+          </select>
+        </label>
+        ${renderAttributeInputs()}
+        <button class="editor-defaults">Species defaults</button>
+      </div>
+      <div class="sidebar-section editor-actions">
+        <label class="stat-row">
+          <span>Name</span>
+          <input type="text" class="editor-name" value="Scenario">
+        </label>
+        <button class="editor-clear">Clear world</button>
+        <button class="editor-save">Save scenario</button>
+        <button class="editor-load">Load scenario</button>
+      </div>
+    `;
+
+    div.querySelector('.close-btn')?.addEventListener('click', () => close());
+    div.querySelectorAll<HTMLInputElement>('input[name="editor-tool"]').forEach((input) => {
+      input.addEventListener('change', () => {
+        tool = input.value as EditorTool;
+        updateBrush(null);
+      });
+    });
+    div.querySelector('.editor-brush')?.addEventListener('input', (e) => {
+      brushRadius = parseFloat((e.target as HTMLInputElement).value);
+    });
+    div.querySelector('.editor-species')?.addEventListener('change', fillSpeciesDefaults);
+    div.querySelector('.editor-defaults')?.addEventListener('click', fillSpeciesDefaults);
+    div.querySelector('.editor-clear')?.addEventListener('click', () => {
+      if (window.confirm('Remove every animal, corpse and vegetation tile?')) {
+        clearWorld(simulation.world);
+        dirty = true;
+      }
+    });
+    div.querySelector('.editor-save')?.addEventListener('click', () => {
+      const name = (div.querySelector('.editor-name') as HTMLInputElement).value.trim() || 'Scenario';
+      downloadScenario(captureScenario(simulation.world, name));
+    });
+    div.querySelector('.editor-load')?.addEventListener('click', () => {
+      void loadScenario();
+    });
+
+    return div;
+  }
+
+  function open(): void {
+    if (active) return;
+    active = true;
+    simulation.pause();
+    panel = render();
+    document.body.appendChild(panel);
+    fillSpeciesDefaults();
+    canvas.classList.add('editing');
+    callbacks.onToggle?.(true);
+  }
+
+  function close(): void {
+    if (!active) return;
+    active = false;
+    handleMouseUp();
+    if (panel) {
+      document.body.removeChild(panel);
+      panel = null;
+    }
+    canvas.classList.remove('editing');
+    callbacks.onBrushChange?.(null);
+    commit();
+    callbacks.onToggle?.(false);
+  }
+
+  // Running the edited world means leaving the editor first. Committing the
+  // edits loads a new world, which pauses, so carry on with the Play after.
+  const handleResumed = (): void => {
+    if (!active) return;
+    close();
+    if (simulation.isPaused) {
+      simulation.start();
+    }
+  };
+
+  canvas.addEventListener('mousedown', handleMouseDown);
+  canvas.addEventListener('mousemove', handleMouseMove);
+  canvas.addEventListener('mouseup', handleMouseUp);
+  canvas.addEventListener('mouseleave', handleMouseLeave);
+  simulation.on('resumed', handleResumed);
+
+  return {
+    open,
+    close,
+    toggle(): void {
+      if (active) {
+        close();
+      } else {
+        open();
+      }
+    },
+    isActive(): boolean {
+      return active;
+    },
+    setCallbacks(newCallbacks: ScenarioEditorCallbacks): void {
+      callbacks = newCallbacks;
+    },
+    destroy(): void {
+      close();
+      canvas.removeEventListener('mousedown', handleMouseDown);
+      canvas.removeEventListener('mousemove', handleMouseMove);
+      canvas.removeEventListener('mouseup', handleMouseUp);
+      canvas.removeEventListener('mouseleave', handleMouseLeave);
+      simulation.off('resumed', handleResumed);
+    },
+  };
+}
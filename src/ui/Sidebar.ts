@@ -1,11 +1,19 @@
-import type { Animal, Corpse, ActionLogEntry } from '../entities/types';
+import type { Animal, AnimalEdit, Corpse, ActionLogEntry } from '../entities/types';
 import type { SelectionManager } from './SelectionManager';
 import type { SimulationConfig } from '../config/types';
+import type { AttributeBounds } from '../genetics/attributes';
+import { getSpeciesDefinition, getSpeciesName } from '../species/registry';
 import type { ActionHistory } from '../data/ActionHistory';
 import type { EntityId } from '../utils/id';
+import type { AnimalEditResult } from '../entities/Animal';
+import { getEffectiveSpeed, isExhausted } from '../entities/Animal';
+import { BASE_ATTRIBUTE_BOUNDS, BEHAVIORAL_ATTRIBUTE_BOUNDS, LIFECYCLE_ATTRIBUTE_BOUNDS, widenBounds } from '../genetics/attributes';
 
 export interface SidebarCallbacks {
   onParentClick?: (parentId: EntityId) => void;
+  onShowLineage?: (animalId: EntityId) => void;
+  // Apply inspector edits; errors are shown next to the form
+  onEditAnimal?: (animalId: EntityId, edit: AnimalEdit) => AnimalEditResult;
 }
 
 export interface Sidebar {
@@ -20,6 +28,14 @@ export interface Sidebar {
   destroy(): void;
 }
 
+type AttributeGroup = 'baseAttributes' | 'behavioralAttributes' | 'lifecycleAttributes';
+
+const ATTRIBUTE_BOUNDS: Record<AttributeGroup, Record<string, AttributeBounds>> = {
+  baseAttributes: BASE_ATTRIBUTE_BOUNDS,
+  behavioralAttributes: BEHAVIORAL_ATTRIBUTE_BOUNDS,
+  lifecycleAttributes: LIFECYCLE_ATTRIBUTE_BOUNDS,
+};
+
 export function createSidebar(
   container: HTMLElement,
   selectionManager: SelectionManager,
@@ -31,6 +47,9 @@ export function createSidebar(
   let livingAnimalIds = new Set<EntityId>();
   let currentAnimalId: EntityId | null = null;
   let showAllActions = false;
+  // Editing freezes the panel so ticks don't overwrite the form
+  let editing = false;
+  let editErrors: string[] = [];
 
   function formatNumber(n: number, decimals: number = 2): string {
     return n.toFixed(decimals);
@@ -44,7 +63,69 @@ export function createSidebar(
     if (isAlive) {
       return `<a href="#" class="parent-link" data-parent-id="${parentId}">${parentId}</a>`;
     }
-    return `<span class="text-muted">${parentId} (deceased)</span>`;
+    // Dead parents can still be looked up in the lineage tree
+    return `<a href="#" class="lineage-link" data-lineage-id="${parentId}">${parentId}</a> <span class="text-muted">(deceased)</span>`;
+  }
+
+  function renderAttributeRow(animal: Animal, group: AttributeGroup, key: string, label: string, decimals: number = 2): string {
+    const value = (animal[group] as unknown as Record<string, number>)[key];
+    if (!editing) {
+      return `<div class="stat-row"><span>${label}:</span><span>${formatNumber(value, decimals)}</span></div>`;
+    }
+
+    const defaults = getSpeciesDefinition(config, animal.species)[group] as unknown as Record<string, number>;
+    const { min, max } = widenBounds(ATTRIBUTE_BOUNDS[group][key], defaults[key]);
+    return `
+      <div class="stat-row">
+        <span>${label}:</span>
+        <input type="number" class="attribute-input" data-group="${group}" data-key="${key}"
+          value="${Number(value.toFixed(decimals))}" min="${min}" max="${max}" step="${decimals === 0 ? 1 : 0.01}">
+      </div>
+    `;
+  }
+
+  function renderEditSection(): string {
+    if (!callbacks.onEditAnimal) {
+      return '';
+    }
+    if (!editing) {
+      return `
+        <div class="sidebar-section">
+          <button class="edit-animal-btn" id="edit-animal">Edit Attributes</button>
+        </div>
+      `;
+    }
+
+    return `
+      <div class="sidebar-section">
+        <h4>Editing</h4>
+        ${editErrors.map(error => `<div class="text-red edit-error">${error}</div>`).join('')}
+        <div class="edit-animal-actions">
+          <button id="apply-animal-edit">Apply</button>
+          <button id="cancel-animal-edit">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Edits from the form, holding only the values that were changed.
+   */
+  function readEdit(): AnimalEdit {
+    const edit: AnimalEdit = {};
+    container.querySelectorAll<HTMLInputElement>('.attribute-input').forEach(input => {
+      if (input.value === input.defaultValue) return;
+      const value = parseFloat(input.value);
+      const { group, key, field } = input.dataset;
+      if (group) {
+        const values = (edit[group as AttributeGroup] ?? {}) as Record<string, number>;
+        values[key!] = value;
+        edit[group as AttributeGroup] = values;
+      } else if (field === 'hunger' || field === 'age') {
+        edit[field] = value;
+      }
+    });
+    return edit;
   }
 
   function renderActionLogSection(animalId: EntityId): string {
@@ -87,6 +168,8 @@ export function createSidebar(
   function renderAnimalContent(animal: Animal): string {
     const isMature = animal.state.age >= animal.lifecycleAttributes.maturityAge;
     const hungerPercent = (animal.state.hunger / config.entities.MAX_HUNGER) * 100;
+    const healthPercent = (animal.state.health / animal.derivedStats.maxHealth) * 100;
+    const staminaPercent = (animal.state.stamina / animal.derivedStats.maxStamina) * 100;
 
     const reproductionCost = config.reproduction.REPRODUCTION_COST * animal.lifecycleAttributes.litterSize;
     const reproductionThreshold = (reproductionCost + config.reproduction.REPRODUCTION_SAFETY_BUFFER) * config.entities.MAX_HUNGER;
@@ -96,7 +179,7 @@ export function createSidebar(
 
     return `
       <div class="sidebar-header">
-        <h3>${animal.species.charAt(0).toUpperCase() + animal.species.slice(1)} #${animal.id.split('_')[1]}</h3>
+        <h3>${getSpeciesName(config, animal.species)} #${animal.id.split('_')[1]}</h3>
         <button class="close-btn" id="sidebar-close">&times;</button>
       </div>
 
@@ -106,6 +189,12 @@ export function createSidebar(
           <span>Position:</span>
           <span>(${formatNumber(animal.state.position.x, 0)}, ${formatNumber(animal.state.position.y, 0)})</span>
         </div>
+        ${editing ? `
+        <div class="stat-row">
+          <span>Hunger:</span>
+          <input type="number" class="attribute-input" data-field="hunger"
+            value="${formatNumber(animal.state.hunger, 0)}" min="0" max="${config.entities.MAX_HUNGER}" step="1">
+        </div>` : `
         <div class="stat-row">
           <span>Hunger:</span>
           <div class="hunger-display">
@@ -114,10 +203,30 @@ export function createSidebar(
             </div>
             <span>${formatNumber(animal.state.hunger, 0)}/${config.entities.MAX_HUNGER}</span>
           </div>
+        </div>`}
+        <div class="stat-row">
+          <span>Health:</span>
+          <div class="hunger-display">
+            <div class="hunger-bar-container">
+              <div class="health-bar" style="width: ${healthPercent}%"></div>
+            </div>
+            <span>${formatNumber(animal.state.health, 1)}/${formatNumber(animal.derivedStats.maxHealth, 1)}</span>
+          </div>
+        </div>
+        <div class="stat-row">
+          <span>Stamina:</span>
+          <div class="hunger-display">
+            <div class="hunger-bar-container">
+              <div class="stamina-bar" style="width: ${staminaPercent}%"></div>
+            </div>
+            <span>${formatNumber(animal.state.stamina, 0)}/${formatNumber(animal.derivedStats.maxStamina, 0)}${isExhausted(animal) ? ' (exhausted)' : ''}</span>
+          </div>
         </div>
         <div class="stat-row">
           <span>Age:</span>
-          <span>${animal.state.age} / ${animal.lifecycleAttributes.maxAge} ticks</span>
+          ${editing
+            ? `<input type="number" class="attribute-input" data-field="age" value="${animal.state.age}" min="0" step="1">`
+            : `<span>${animal.state.age} / ${animal.lifecycleAttributes.maxAge} ticks</span>`}
         </div>
         <div class="stat-row">
           <span>Mature:</span>
@@ -133,30 +242,41 @@ export function createSidebar(
         </div>
       </div>
 
+      ${renderEditSection()}
+
       <div class="sidebar-section">
         <h4>Base Attributes</h4>
-        <div class="stat-row"><span>Strength:</span><span>${formatNumber(animal.baseAttributes.strength)}</span></div>
-        <div class="stat-row"><span>Agility:</span><span>${formatNumber(animal.baseAttributes.agility)}</span></div>
-        <div class="stat-row"><span>Endurance:</span><span>${formatNumber(animal.baseAttributes.endurance)}</span></div>
-        <div class="stat-row"><span>Perception:</span><span>${formatNumber(animal.baseAttributes.perception)}</span></div>
-        <div class="stat-row"><span>Size:</span><span>${formatNumber(animal.baseAttributes.size)}</span></div>
+        ${renderAttributeRow(animal, 'baseAttributes', 'strength', 'Strength')}
+        ${renderAttributeRow(animal, 'baseAttributes', 'agility', 'Agility')}
+        ${renderAttributeRow(animal, 'baseAttributes', 'endurance', 'Endurance')}
+        ${renderAttributeRow(animal, 'baseAttributes', 'perception', 'Perception')}
+        ${renderAttributeRow(animal, 'baseAttributes', 'size', 'Size')}
       </div>
 
       <div class="sidebar-section">
         <h4>Behavioral Attributes</h4>
-        <div class="stat-row"><span>Aggression:</span><span>${formatNumber(animal.behavioralAttributes.aggression)}</span></div>
-        <div class="stat-row"><span>Flight Instinct:</span><span>${formatNumber(animal.behavioralAttributes.flightInstinct)}</span></div>
-        <div class="stat-row"><span>Food Priority:</span><span>${formatNumber(animal.behavioralAttributes.foodPriorityThreshold)}</span></div>
-        <div class="stat-row"><span>Reproductive Urge:</span><span>${formatNumber(animal.behavioralAttributes.reproductiveUrge)}</span></div>
-        ${animal.diet.canEatCorpses ? `<div class="stat-row"><span>Carrion Pref:</span><span>${formatNumber(animal.behavioralAttributes.carrionPreference)}</span></div>` : ''}
+        ${renderAttributeRow(animal, 'behavioralAttributes', 'aggression', 'Aggression')}
+        ${renderAttributeRow(animal, 'behavioralAttributes', 'flightInstinct', 'Flight Instinct')}
+        ${renderAttributeRow(animal, 'behavioralAttributes', 'foodPriorityThreshold', 'Food Priority')}
+        ${renderAttributeRow(animal, 'behavioralAttributes', 'reproductiveUrge', 'Reproductive Urge')}
+        ${animal.diet.canEatCorpses ? renderAttributeRow(animal, 'behavioralAttributes', 'carrionPreference', 'Carrion Pref') : ''}
+      </div>
+
+      <div class="sidebar-section">
+        <h4>Lifecycle Attributes</h4>
+        ${renderAttributeRow(animal, 'lifecycleAttributes', 'maxAge', 'Max Age', 0)}
+        ${renderAttributeRow(animal, 'lifecycleAttributes', 'maturityAge', 'Maturity Age', 0)}
+        ${renderAttributeRow(animal, 'lifecycleAttributes', 'litterSize', 'Litter Size', 0)}
       </div>
 
       <div class="sidebar-section">
         <h4>Derived Stats</h4>
-        <div class="stat-row"><span>Speed:</span><span>${formatNumber(animal.derivedStats.speed)}</span></div>
+        <div class="stat-row"><span>Speed:</span><span>${formatNumber(animal.derivedStats.speed)}${healthPercent < 100 || isExhausted(animal) ? ` (now ${formatNumber(getEffectiveSpeed(animal, config))})` : ''}</span></div>
         <div class="stat-row"><span>Alert Range:</span><span>${formatNumber(animal.derivedStats.alertRange)}</span></div>
         <div class="stat-row"><span>Attack Power:</span><span>${formatNumber(animal.derivedStats.attackPower)}</span></div>
         <div class="stat-row"><span>Defense:</span><span>${formatNumber(animal.derivedStats.defense)}</span></div>
+        <div class="stat-row"><span>Max Health:</span><span>${formatNumber(animal.derivedStats.maxHealth)}</span></div>
+        <div class="stat-row"><span>Max Stamina:</span><span>${formatNumber(animal.derivedStats.maxStamina)}</span></div>
         <div class="stat-row"><span>Hunger Decay:</span><span>${formatNumber(animal.derivedStats.hungerDecayRate, 3)}/tick</span></div>
       </div>
 
@@ -164,6 +284,8 @@ export function createSidebar(
         <h4>Lineage</h4>
         <div class="stat-row"><span>Generation:</span><span>${animal.generation}</span></div>
         <div class="stat-row"><span>Parent:</span><span>${renderParentLink(animal.parentId)}</span></div>
+        ${animal.secondParentId ? `<div class="stat-row"><span>Mate Parent:</span><span>${renderParentLink(animal.secondParentId)}</span></div>` : ''}
+        <div class="stat-row"><span>Family Tree:</span><span><a href="#" class="lineage-link" data-lineage-id="${animal.id}">View</a></span></div>
       </div>
 
       <div class="sidebar-section">
@@ -171,6 +293,7 @@ export function createSidebar(
         <div class="stat-row"><span>Vegetation:</span><span class="${animal.diet.canEatVegetation ? 'text-green' : 'text-red'}">${animal.diet.canEatVegetation ? 'Yes' : 'No'}</span></div>
         <div class="stat-row"><span>Animals:</span><span class="${animal.diet.canEatAnimals ? 'text-green' : 'text-red'}">${animal.diet.canEatAnimals ? 'Yes' : 'No'}</span></div>
         <div class="stat-row"><span>Corpses:</span><span class="${animal.diet.canEatCorpses ? 'text-green' : 'text-red'}">${animal.diet.canEatCorpses ? 'Yes' : 'No'}</span></div>
+        ${animal.diet.canEatAnimals ? `<div class="stat-row"><span>Hunts:</span><span>${animal.diet.prey.map(p => getSpeciesName(config, p)).join(', ') || 'None'}</span></div>` : ''}
       </div>
 
       ${renderActionLogSection(animal.id)}
@@ -231,31 +354,79 @@ export function createSidebar(
       });
     });
 
+    // Lineage viewer links
+    const lineageLinks = container.querySelectorAll('.lineage-link');
+    lineageLinks.forEach(link => {
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        const animalId = (e.target as HTMLElement).dataset.lineageId;
+        if (animalId && callbacks.onShowLineage) {
+          callbacks.onShowLineage(animalId as EntityId);
+        }
+      });
+    });
+
+    // Attribute editing
+    container.querySelector('#edit-animal')?.addEventListener('click', () => {
+      editing = true;
+      editErrors = [];
+      rerender();
+    });
+
+    container.querySelector('#cancel-animal-edit')?.addEventListener('click', () => {
+      editing = false;
+      editErrors = [];
+      rerender();
+    });
+
+    container.querySelector('#apply-animal-edit')?.addEventListener('click', () => {
+      if (!currentAnimalId || !callbacks.onEditAnimal) return;
+      const result = callbacks.onEditAnimal(currentAnimalId, readEdit());
+      editErrors = result.errors;
+      if (result.success) {
+        editing = false;
+        rerender(result.animal);
+      } else {
+        // Keep what was typed; only the error list changes
+        const section = container.querySelector('#apply-animal-edit')?.closest('.sidebar-section');
+        section?.querySelectorAll('.edit-error').forEach(el => el.remove());
+        section?.querySelector('h4')?.insertAdjacentHTML(
+          'afterend',
+          editErrors.map(error => `<div class="text-red edit-error">${error}</div>`).join('')
+        );
+      }
+    });
+
     // Show more actions button
     const showMoreBtn = container.querySelector('#show-more-actions');
     if (showMoreBtn) {
       showMoreBtn.addEventListener('click', () => {
         showAllActions = true;
-        if (currentAnimalId) {
-          const animal = selectionManager.getSelectedAnimal();
-          if (animal) {
-            container.innerHTML = renderAnimalContent(animal);
-            attachEventHandlers();
-          }
-        }
+        rerender();
       });
     }
   }
 
+  function rerender(animal: Animal | null = selectionManager.getSelectedAnimal()): void {
+    if (currentAnimalId && animal) {
+      container.innerHTML = renderAnimalContent(animal);
+      attachEventHandlers();
+    }
+  }
+
   return {
     updateAnimal(animal: Animal | null): void {
       if (!animal) {
         this.hide();
         return;
       }
-      // Reset showAllActions when switching animals
+      // Reset showAllActions and any edit when switching animals
       if (currentAnimalId !== animal.id) {
         showAllActions = false;
+        editing = false;
+        editErrors = [];
+      } else if (editing) {
+        return;
       }
       currentAnimalId = animal.id;
       container.innerHTML = renderAnimalContent(animal);
@@ -269,6 +440,7 @@ export function createSidebar(
         return;
       }
       currentAnimalId = null;
+      editing = false;
       container.innerHTML = renderCorpseContent(corpse);
       attachEventHandlers();
       this.show();
@@ -293,6 +465,7 @@ export function createSidebar(
 
     hide(): void {
       visible = false;
+      editing = false;
       container.classList.remove('visible');
     },
 
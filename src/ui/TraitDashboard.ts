@@ -0,0 +1,279 @@
+import type { TraitStatistics, TraitSample, TraitSummary } from '../data/TraitStatistics';
+import type { GraphSeries } from './PopulationGraph';
+import type { Species } from '../entities/types';
+import { TRAIT_DEFINITIONS } from '../data/TraitStatistics';
+import { GRAPH_COLORS } from '../rendering/sprites';
+
+export interface TraitDashboardOptions {
+  timeWindow: number;
+}
+
+export interface TraitDashboard {
+  render(): void;
+  setOptions(options: Partial<TraitDashboardOptions>): void;
+  setSpecies(series: GraphSeries[]): void;
+  show(): void;
+  hide(): void;
+  isVisible(): boolean;
+  resize(): void;
+  destroy(): void;
+}
+
+/**
+ * Plots how one trait of one species is distributed over time: the mean,
+ * one standard deviation either side, and the 10-90 and 25-75 percentile bands.
+ */
+export function createTraitDashboard(
+  container: HTMLElement,
+  statistics: TraitStatistics
+): TraitDashboard {
+  let visible = false;
+  let speciesSeries: GraphSeries[] = [];
+  let selectedSpecies: Species = '';
+  let selectedTrait = TRAIT_DEFINITIONS[0].id;
+
+  let options: TraitDashboardOptions = {
+    timeWindow: 500,
+  };
+
+  container.innerHTML = `
+    <div class="trait-controls">
+      <select class="trait-select" id="trait-species"></select>
+      <select class="trait-select" id="trait-name">
+        ${TRAIT_DEFINITIONS.map(t => `<option value="${t.id}">${t.label}</option>`).join('')}
+      </select>
+      <span class="trait-summary" id="trait-summary"></span>
+    </div>
+  `;
+
+  const speciesSelect = container.querySelector('#trait-species') as HTMLSelectElement;
+  const traitSelect = container.querySelector('#trait-name') as HTMLSelectElement;
+  const summaryEl = container.querySelector('#trait-summary') as HTMLSpanElement;
+
+  speciesSelect.addEventListener('change', () => {
+    selectedSpecies = speciesSelect.value;
+    render();
+  });
+  traitSelect.addEventListener('change', () => {
+    selectedTrait = traitSelect.value;
+    render();
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.className = 'trait-canvas';
+  container.appendChild(canvas);
+
+  const ctx = canvas.getContext('2d')!;
+
+  const padding = { top: 10, right: 20, bottom: 25, left: 50 };
+
+  function resize(): void {
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+  }
+
+  function getSummary(sample: TraitSample): TraitSummary | undefined {
+    return sample.species[selectedSpecies]?.traits[selectedTrait];
+  }
+
+  function drawBand(
+    samples: TraitSample[],
+    lower: (s: TraitSummary) => number,
+    upper: (s: TraitSummary) => number,
+    xScale: (tick: number) => number,
+    yScale: (value: number) => number,
+    alpha: number
+  ): void {
+    // Gaps where the species was extinct split the band into runs
+    let run: Array<{ tick: number; summary: TraitSummary }> = [];
+    const flush = (): void => {
+      if (run.length >= 2) {
+        ctx.globalAlpha = alpha;
+        ctx.beginPath();
+        run.forEach((p, i) => {
+          const x = xScale(p.tick);
+          const y = yScale(upper(p.summary));
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        for (let i = run.length - 1; i >= 0; i--) {
+          ctx.lineTo(xScale(run[i].tick), yScale(lower(run[i].summary)));
+        }
+        ctx.closePath();
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      }
+      run = [];
+    };
+
+    for (const sample of samples) {
+      const summary = getSummary(sample);
+      if (summary) {
+        run.push({ tick: sample.tick, summary });
+      } else {
+        flush();
+      }
+    }
+    flush();
+  }
+
+  function drawLine(
+    samples: TraitSample[],
+    getValue: (s: TraitSummary) => number,
+    xScale: (tick: number) => number,
+    yScale: (value: number) => number,
+    dashed: boolean
+  ): void {
+    ctx.lineWidth = dashed ? 1 : 2;
+    ctx.setLineDash(dashed ? [4, 3] : []);
+    ctx.beginPath();
+
+    let started = false;
+    for (const sample of samples) {
+      const summary = getSummary(sample);
+      if (!summary) {
+        started = false;
+        continue;
+      }
+      const x = xScale(sample.tick);
+      const y = yScale(getValue(summary));
+      if (!started) {
+        ctx.moveTo(x, y);
+        started = true;
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  function drawAxes(graphWidth: number, graphHeight: number, minValue: number, maxValue: number, startTick: number, endTick: number): void {
+    ctx.strokeStyle = GRAPH_COLORS.grid;
+    ctx.lineWidth = 1;
+    ctx.fillStyle = GRAPH_COLORS.text;
+    ctx.font = '10px monospace';
+
+    const numHLines = 4;
+    for (let i = 0; i <= numHLines; i++) {
+      const y = padding.top + (graphHeight / numHLines) * i;
+      ctx.beginPath();
+      ctx.moveTo(padding.left, y);
+      ctx.lineTo(padding.left + graphWidth, y);
+      ctx.stroke();
+
+      const value = maxValue - ((maxValue - minValue) / numHLines) * i;
+      ctx.textAlign = 'right';
+      ctx.fillText(value.toFixed(2), padding.left - 5, y + 3);
+    }
+
+    ctx.textAlign = 'center';
+    ctx.fillText(String(startTick), padding.left, padding.top + graphHeight + 15);
+    ctx.fillText(String(endTick), padding.left + graphWidth, padding.top + graphHeight + 15);
+  }
+
+  function updateSummary(latest: TraitSample | null): void {
+    const summary = latest ? getSummary(latest) : undefined;
+    summaryEl.textContent = summary
+      ? `mean ${summary.mean.toFixed(2)} ± ${summary.stdDev.toFixed(2)} | median ${summary.median.toFixed(2)} | range ${summary.min.toFixed(2)}-${summary.max.toFixed(2)}`
+      : 'no living members';
+  }
+
+  function render(): void {
+    if (!visible) return;
+
+    const { width, height } = canvas;
+    ctx.fillStyle = GRAPH_COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const allSamples = statistics.getSamples();
+    updateSummary(statistics.getLatest());
+    if (allSamples.length === 0) {
+      ctx.fillStyle = GRAPH_COLORS.text;
+      ctx.font = '14px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('No data yet', width / 2, height / 2);
+      return;
+    }
+
+    const latestTick = allSamples[allSamples.length - 1].tick;
+    const startTick = Math.max(0, latestTick - options.timeWindow);
+    const samples = allSamples.filter(s => s.tick >= startTick);
+
+    // Fit the Y axis to everything drawn
+    let minValue = Infinity;
+    let maxValue = -Infinity;
+    for (const sample of samples) {
+      const summary = getSummary(sample);
+      if (!summary) continue;
+      minValue = Math.min(minValue, summary.p10, summary.mean - summary.stdDev);
+      maxValue = Math.max(maxValue, summary.p90, summary.mean + summary.stdDev);
+    }
+    if (minValue === Infinity) {
+      return;
+    }
+    if (maxValue - minValue < 1e-6) {
+      minValue -= 0.5;
+      maxValue += 0.5;
+    }
+
+    const graphWidth = width - padding.left - padding.right;
+    const graphHeight = height - padding.top - padding.bottom;
+    const xScale = (tick: number): number =>
+      padding.left + ((tick - startTick) / Math.max(1, options.timeWindow)) * graphWidth;
+    const yScale = (value: number): number =>
+      padding.top + graphHeight - ((value - minValue) / (maxValue - minValue)) * graphHeight;
+
+    drawAxes(graphWidth, graphHeight, minValue, maxValue, startTick, latestTick);
+
+    const color = speciesSeries.find(s => s.species === selectedSpecies)?.color ?? GRAPH_COLORS.axis;
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    drawBand(samples, s => s.p10, s => s.p90, xScale, yScale, 0.15);
+    drawBand(samples, s => s.p25, s => s.p75, xScale, yScale, 0.3);
+    drawLine(samples, s => s.mean - s.stdDev, xScale, yScale, true);
+    drawLine(samples, s => s.mean + s.stdDev, xScale, yScale, true);
+    drawLine(samples, s => s.mean, xScale, yScale, false);
+  }
+
+  return {
+    render,
+
+    setOptions(newOptions: Partial<TraitDashboardOptions>): void {
+      options = { ...options, ...newOptions };
+    },
+
+    setSpecies(series: GraphSeries[]): void {
+      speciesSeries = [...series];
+      if (!speciesSeries.some(s => s.species === selectedSpecies)) {
+        selectedSpecies = speciesSeries[0]?.species ?? '';
+      }
+      speciesSelect.innerHTML = speciesSeries
+        .map(s => `<option value="${s.species}">${s.name}</option>`)
+        .join('');
+      speciesSelect.value = selectedSpecies;
+    },
+
+    show(): void {
+      visible = true;
+      container.classList.add('visible');
+      resize();
+    },
+
+    hide(): void {
+      visible = false;
+      container.classList.remove('visible');
+    },
+
+    isVisible(): boolean {
+      return visible;
+    },
+
+    resize,
+
+    destroy(): void {
+      container.innerHTML = '';
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import type { Simulation } from '../core/Simulation';
+import type { ISimulation, SimulationEvents } from '../core/Simulation';
 import { createCamera, type Camera } from '../rendering/Camera';
 import { createRenderer, type Renderer } from '../rendering/Renderer';
 import { createSelectionManager, type SelectionManager } from './SelectionManager';
@@ -7,14 +7,43 @@ import { createInfoPanel, type InfoPanel } from './InfoPanel';
 import { createControlPanel, type ControlPanel } from './ControlPanel';
 import { createSidebar, type Sidebar } from './Sidebar';
 import { createPopulationGraph, type PopulationGraph } from './PopulationGraph';
+import { createTraitDashboard, type TraitDashboard } from './TraitDashboard';
 import { createHelpDialog, type HelpDialog } from './HelpDialog';
+import { createMortalityDialog, type MortalityDialog } from './MortalityDialog';
+import { createLineageDialog, type LineageDialog } from './LineageDialog';
 import { createConfigPanel, type ConfigPanel } from './ConfigPanel';
+import { createExportDialog, type ExportDialog } from './ExportDialog';
+import { createScenarioEditor, type ScenarioEditor } from './ScenarioEditor';
+import { createRecentRunsDialog, type RecentRunsDialog } from './RecentRunsDialog';
 import { createPopulationHistory, type PopulationHistory } from '../data/PopulationHistory';
-import { createActionHistory, type ActionHistory } from '../data/ActionHistory';
+import { createTraitStatistics, type TraitStatistics } from '../data/TraitStatistics';
+import { createMortalityTable, type MortalityTable } from '../data/MortalityTable';
+import { createLineageStore, type LineageStore } from '../data/LineageStore';
+import { createActionHistory, formatInterventionDetails, type ActionHistory } from '../data/ActionHistory';
+import { createHeatmapStore, type HeatmapStore } from '../data/HeatmapStore';
+import { createTrailStore, type TrailStore } from '../data/TrailStore';
+import { createEventLog, type EventLog } from '../data/EventLog';
+import {
+  createMemoryRunDatabase,
+  createRunId,
+  createRunStore,
+  openIndexedDBRunDatabase,
+  type RunStore,
+  type SavedRun,
+} from '../data/RunStore';
+import { createReplayRecorder, type ReplayRecorder } from '../core/ReplayRecorder';
+import { exportWorldSnapshot, importWorldSnapshot } from '../core/WorldSnapshot';
 import type { SimulationConfig } from '../config/types';
+import type { AnimalEdit, Species } from '../entities/types';
+import type { AnimalEditResult } from '../entities/Animal';
+import type { EntityId } from '../utils/id';
+import { getSpeciesName } from '../species/registry';
+import { getSubspeciesLabel } from '../species/subspecies';
+import { getSeasonName } from '../core/Seasons';
+import { ENTITY_COLORS } from '../rendering/sprites';
 
 export class UIManager {
-  private simulation: Simulation;
+  private simulation: ISimulation;
   private canvas: HTMLCanvasElement;
 
   private camera: Camera;
@@ -26,14 +55,42 @@ export class UIManager {
   private sidebar: Sidebar;
   private populationGraph: PopulationGraph;
   private populationHistory: PopulationHistory;
+  private traitDashboard: TraitDashboard;
+  private traitStatistics: TraitStatistics;
+  private mortalityTable: MortalityTable;
+  private mortalityDialog: MortalityDialog;
+  private lineageStore: LineageStore;
+  private lineageDialog: LineageDialog;
+  private heatmapStore: HeatmapStore;
+  private trailStore: TrailStore;
+  private eventLog: EventLog;
   private actionHistory: ActionHistory;
+  private replayRecorder: ReplayRecorder;
   private helpDialog: HelpDialog;
   private configPanel: ConfigPanel;
+  private exportDialog: ExportDialog;
+  private scenarioEditor: ScenarioEditor;
+  private runStore: RunStore;
+  private recentRunsDialog: RecentRunsDialog;
+
+  // The run autosaves go to; a reset or loaded world starts a new one
+  private currentRun = { id: createRunId(), name: '', createdAt: Date.now() };
+  private lastSavedTick = -1;
+  private isSaving = false;
+  private saveStatus = '';
+  // Set while a saved run is being loaded so handleWorldLoaded restores it
+  private resumingRun: SavedRun | null = null;
+  private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.saveRun();
+    }
+  };
 
   private animationFrameId: number | null = null;
   private isInitialized = false;
 
-  constructor(canvas: HTMLCanvasElement, simulation: Simulation) {
+  constructor(canvas: HTMLCanvasElement, simulation: ISimulation) {
     this.canvas = canvas;
     this.simulation = simulation;
 
@@ -63,17 +120,50 @@ export class UIManager {
     // Create population history
     this.populationHistory = createPopulationHistory(1000);
 
+    // Create trait statistics
+    this.traitStatistics = createTraitStatistics(config.ui.TRAIT_SAMPLE_INTERVAL);
+
+    // Create mortality table
+    this.mortalityTable = createMortalityTable();
+
+    // Create lineage store, seeded with the initial population
+    this.lineageStore = createLineageStore();
+    this.lineageStore.recordFounders(simulation.world.getLivingAnimals(), simulation.currentTick);
+
+    // Create heatmaps, drawn by the renderer when one is selected
+    this.heatmapStore = this.createHeatmapStore(0);
+    this.renderer.setHeatmapStore(this.heatmapStore);
+
+    // Create movement trails, filled as animals move
+    this.trailStore = createTrailStore(config.ui.TRAIL_LENGTH);
+    this.simulation.setTrailStore(this.trailStore);
+    this.renderer.setTrailStore(this.trailStore);
+
+    // Create event log for export
+    this.eventLog = createEventLog();
+
     // Create action history
     this.actionHistory = createActionHistory(config.ui.MAX_ACTION_LOG_HISTORY);
     this.simulation.setActionHistory(this.actionHistory);
 
+    // Create replay recorder
+    this.replayRecorder = createReplayRecorder(config.replay);
+    this.simulation.setReplayRecorder(this.replayRecorder);
+
+    // Create run store; without IndexedDB runs only last until the page closes
+    this.runStore = createRunStore(typeof indexedDB !== 'undefined'
+      ? openIndexedDBRunDatabase().catch(() => createMemoryRunDatabase())
+      : createMemoryRunDatabase());
+    this.currentRun.name = this.defaultRunName();
+
     // Get UI containers
     const controlPanelContainer = document.getElementById('control-panel');
     const sidebarContainer = document.getElementById('sidebar');
     const graphPanelContainer = document.getElementById('graph-panel');
+    const traitPanelContainer = document.getElementById('trait-panel');
     const infoPanelContainer = document.getElementById('info-panel');
 
-    if (!controlPanelContainer || !sidebarContainer || !graphPanelContainer || !infoPanelContainer) {
+    if (!controlPanelContainer || !sidebarContainer || !graphPanelContainer || !traitPanelContainer || !infoPanelContainer) {
       throw new Error('UI containers not found in DOM');
     }
 
@@ -82,17 +172,14 @@ export class UIManager {
     this.controlPanel = createControlPanel(controlPanelContainer, simulation);
     this.sidebar = createSidebar(sidebarContainer, this.selectionManager, config);
     this.populationGraph = createPopulationGraph(graphPanelContainer, this.populationHistory);
+    this.traitDashboard = createTraitDashboard(traitPanelContainer, this.traitStatistics);
 
     // Configure sidebar with action history and parent click handler
     this.sidebar.setActionHistory(this.actionHistory);
     this.sidebar.setCallbacks({
-      onParentClick: (parentId) => {
-        const animal = this.simulation.world.entityManager.getAnimal(parentId);
-        if (animal && !animal.state.isDead) {
-          this.selectionManager.select(animal);
-          this.camera.panToPosition(animal.state.position);
-        }
-      },
+      onParentClick: (parentId) => this.selectAndPanTo(parentId),
+      onShowLineage: (animalId) => this.lineageDialog.show(animalId),
+      onEditAnimal: (animalId, edit) => this.editAnimal(animalId, edit),
     });
 
     // Create input handler
@@ -101,18 +188,68 @@ export class UIManager {
     // Create help dialog
     this.helpDialog = createHelpDialog();
 
+    // Create mortality dialog
+    this.mortalityDialog = createMortalityDialog(this.mortalityTable);
+
+    // Create data export dialog
+    this.exportDialog = createExportDialog({
+      populationHistory: this.populationHistory,
+      traitStatistics: this.traitStatistics,
+      eventLog: this.eventLog,
+    });
+
+    // Create recent runs list
+    this.recentRunsDialog = createRecentRunsDialog(this.runStore, () => ({
+      currentRunId: this.currentRun.id,
+      message: this.saveStatus,
+    }));
+    this.recentRunsDialog.setCallbacks({
+      onResume: (runId) => this.resumeRun(runId),
+      onRenamed: (summary) => {
+        if (summary.id === this.currentRun.id) {
+          this.currentRun.name = summary.name;
+        }
+      },
+      onSaveNow: () => this.saveRun(true),
+    });
+
+    // Create lineage viewer
+    this.lineageDialog = createLineageDialog(this.lineageStore, () => this.simulation.currentTick);
+    this.lineageDialog.setCallbacks({
+      onSelectAnimal: (animalId) => this.selectAndPanTo(animalId),
+    });
+
     // Create config panel
     this.configPanel = createConfigPanel(
       () => this.simulation.config,
       (category, key, value) => {
         // Apply config change directly to simulation config
-        (this.simulation.config[category as keyof SimulationConfig] as unknown as Record<string, number>)[key] = value;
+        if (category === 'species') {
+          this.simulation.config.species[key].initialCount = value;
+        } else {
+          (this.simulation.config[category as keyof SimulationConfig] as unknown as Record<string, number>)[key] = value;
+        }
+        this.simulation.syncConfig();
+        // Keyframe the new config so replays from here use it
+        this.replayRecorder.recordKeyframe(this.simulation.world);
       },
       () => {
         this.simulation.reset();
       }
     );
 
+    // Create scenario editor; it takes over the mouse while open
+    this.scenarioEditor = createScenarioEditor(this.canvas, this.camera, simulation);
+    this.scenarioEditor.setCallbacks({
+      onToggle: (active) => {
+        this.inputHandler.setPointerEnabled(!active);
+        if (active) {
+          this.selectionManager.deselect();
+        }
+      },
+      onBrushChange: (brush) => this.renderer.setOptions({ brush }),
+    });
+
     // Set up keyboard shortcut callbacks
     this.inputHandler.setCallbacks({
       onToggleInfoPanel: () => {
@@ -129,6 +266,13 @@ export class UIManager {
           this.populationGraph.show();
         }
       },
+      onToggleTraits: () => {
+        if (this.traitDashboard.isVisible()) {
+          this.traitDashboard.hide();
+        } else {
+          this.traitDashboard.show();
+        }
+      },
       onShowHelp: () => {
         if (this.helpDialog.isVisible()) {
           this.helpDialog.hide();
@@ -136,12 +280,39 @@ export class UIManager {
           this.helpDialog.show();
         }
       },
+      onShowMortality: () => {
+        if (this.mortalityDialog.isVisible()) {
+          this.mortalityDialog.hide();
+        } else {
+          this.mortalityDialog.show();
+        }
+      },
       onToggleVisualization: () => {
         this.controlPanel.toggleVisualization();
       },
+      onCycleHeatmap: () => {
+        this.controlPanel.cycleHeatmap();
+      },
       onShowConfig: () => {
         this.configPanel.toggle();
       },
+      onToggleEditor: () => {
+        this.scenarioEditor.toggle();
+      },
+      onShowExport: () => {
+        if (this.exportDialog.isVisible()) {
+          this.exportDialog.hide();
+        } else {
+          this.exportDialog.show();
+        }
+      },
+      onShowRecentRuns: () => {
+        if (this.recentRunsDialog.isVisible()) {
+          this.recentRunsDialog.hide();
+        } else {
+          this.recentRunsDialog.show();
+        }
+      },
     });
 
     // Wire up selection events
@@ -160,17 +331,44 @@ export class UIManager {
     this.simulation.on('paused', this.handlePaused.bind(this));
     this.simulation.on('resumed', this.handleResumed.bind(this));
     this.simulation.on('reset', this.handleReset.bind(this));
+    this.simulation.on('worldLoaded', this.handleWorldLoaded.bind(this));
+    this.simulation.on('seeked', this.handleSeeked.bind(this));
     this.simulation.on('animalDied', this.handleAnimalDied.bind(this));
+    this.simulation.on('animalBorn', this.handleAnimalBorn.bind(this));
+    this.simulation.on('speciation', ({ tick, subspecies }) => {
+      this.eventLog.recordSpeciation(subspecies, tick);
+      this.updateGraphSpecies();
+    });
+    this.simulation.on('seasonChanged', ({ tick, season, year }) => this.eventLog.recordSeason(season, year, tick));
+    this.simulation.on('decisions', ({ decisions }) => this.renderer.setDecisions(decisions));
+    this.simulation.on('grazing', ({ records }) => {
+      for (const record of records) {
+        this.heatmapStore.recordGrazing(record.position, record.biomass);
+      }
+    });
 
     // Wire up control panel events
     this.controlPanel.on('reset', () => {
       this.populationHistory.clear();
+      this.traitStatistics.clear();
+      this.mortalityTable.clear();
+      this.eventLog.clear();
       this.selectionManager.deselect();
     });
 
+    this.controlPanel.on('trailChange', ({ mode, species }) => {
+      this.renderer.setOptions({ trails: mode, trailSpecies: species });
+    });
+
+    this.controlPanel.on('heatmapChange', ({ view, decayWindow }) => {
+      this.heatmapStore.setDecayWindow(decayWindow);
+      this.renderer.setOptions({ heatmap: view });
+    });
+
     this.controlPanel.on('toggleVisualization', ({ visible }) => {
       this.renderer.setOptions({
         showAnimals: visible,
+        showTerrain: visible,
         showVegetation: visible,
         showCorpses: visible,
       });
@@ -178,6 +376,9 @@ export class UIManager {
 
     // Handle window resize
     window.addEventListener('resize', this.handleResize.bind(this));
+
+    // Save before the page is hidden, which covers reloads and closed tabs
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
   }
 
   init(): void {
@@ -186,20 +387,67 @@ export class UIManager {
 
     // Initial info update
     this.updateInfoPanel();
+    this.updateTimeline();
 
     // Show graph by default
+    this.updateGraphSpecies();
     this.populationGraph.show();
 
     // Start render loop
     this.startRenderLoop();
+
+    // Offer to pick up where a previous visit left off
+    this.scheduleAutosave();
+    this.runStore.list().then((runs) => {
+      if (runs.length > 0) {
+        this.recentRunsDialog.show();
+      }
+    }).catch((e) => {
+      this.saveStatus = `Could not read saved runs: ${e instanceof Error ? e.message : 'Unknown error'}`;
+    });
   }
 
-  private handleTick(data: { tick: number; deerCount: number; wolfCount: number; vegetationCount: number }): void {
-    // Record population data
-    this.populationHistory.record(data.tick, data.deerCount, data.wolfCount, data.vegetationCount);
+  private handleTick(data: { tick: number; speciesCounts: Record<Species, number>; vegetationCount: number }): void {
+    // Resuming after a seek replaces the recorded future
+    const latest = this.populationHistory.getLatest();
+    if (latest && latest.tick >= data.tick) {
+      this.populationHistory.truncateAfter(data.tick - 1);
+      this.traitStatistics.truncateAfter(data.tick - 1);
+      // Deaths are stamped with the tick they happened during, one before the event's tick
+      this.mortalityTable.truncateAfter(data.tick - 2);
+      this.lineageStore.truncateAfter(data.tick - 2);
+      this.actionHistory.truncateAfter(data.tick - 1);
+      this.eventLog.truncateAfter(data.tick - 1);
+      // Heatmaps and trails keep no per-tick history, so they start over
+      this.heatmapStore.clear();
+      this.trailStore.clear();
+    }
+
+    // Record population data, one line per sub-species
+    this.populationHistory.record(data.tick, this.simulation.world.getSubspeciesCounts(), data.vegetationCount);
+
+    // Animals glide to their new positions over one tick
+    this.renderer.setOptions({
+      tickInterval: 1000 / (this.simulation.config.world.TICK_RATE * this.simulation.speed),
+    });
 
     // Update living animal IDs for parent link styling
     const livingAnimals = this.simulation.world.getLivingAnimals();
+    this.heatmapStore.recordTick(livingAnimals.map(a => a.state.position));
+
+    // Sample trait distributions (the interval is live-changeable)
+    this.traitStatistics.setSampleInterval(this.simulation.config.ui.TRAIT_SAMPLE_INTERVAL);
+    this.traitStatistics.record(data.tick, livingAnimals);
+
+    if (this.mortalityDialog.isVisible() && data.tick % 10 === 0) {
+      this.mortalityDialog.refresh();
+    }
+    if (this.lineageDialog.isVisible() && data.tick % 10 === 0) {
+      this.lineageDialog.refresh();
+    }
+    if (this.exportDialog.isVisible() && data.tick % 10 === 0) {
+      this.exportDialog.refresh();
+    }
     const livingIds = new Set(livingAnimals.map(a => a.id));
     this.sidebar.setLivingAnimalIds(livingIds);
 
@@ -216,6 +464,29 @@ export class UIManager {
     if (selectedCorpse) {
       this.sidebar.updateCorpse(selectedCorpse);
     }
+
+    this.updateTimeline();
+  }
+
+  private handleSeeked(): void {
+    const world = this.simulation.world;
+    this.sidebar.setLivingAnimalIds(new Set(world.getLivingAnimals().map(a => a.id)));
+
+    // Decisions and trails from the abandoned timeline no longer apply
+    this.renderer.setDecisions(new Map());
+    this.trailStore.clear();
+
+    // The world was rebuilt, so re-resolve the selection against it
+    this.selectionManager.refreshSelection(world);
+    const selectedAnimal = this.selectionManager.getSelectedAnimal();
+    if (selectedAnimal) {
+      this.sidebar.updateAnimal(selectedAnimal);
+    }
+
+    // Sub-species founded after the target tick are gone
+    this.updateGraphSpecies();
+    this.updateTimeline();
+    this.updateInfoPanel();
   }
 
   private handlePaused(): void {
@@ -227,7 +498,15 @@ export class UIManager {
   }
 
   private handleReset(): void {
+    this.startNewRun();
     this.populationHistory.clear();
+    this.traitStatistics.clear();
+    this.mortalityTable.clear();
+    this.eventLog.clear();
+    this.resetLineage();
+    this.resetHeatmaps();
+    this.resetTrails();
+    this.renderer.setDecisions(new Map());
     this.actionHistory.clear();
     this.selectionManager.deselect();
     this.sidebar.hide();
@@ -235,27 +514,253 @@ export class UIManager {
     this.configPanel.syncConfig(this.simulation.config);
     this.configPanel.clearPendingChanges();
     this.infoPanel.resetUptime();
+    this.updateGraphSpecies();
+    this.updateTimeline();
+    this.updateInfoPanel();
+  }
+
+  private handleWorldLoaded(): void {
+    // The loaded world has its own history, so start recording afresh
+    this.populationHistory.clear();
+    this.traitStatistics.clear();
+    this.mortalityTable.clear();
+    this.eventLog.clear();
+    this.resetLineage();
+    this.resetHeatmaps();
+    this.resetTrails();
+    this.renderer.setDecisions(new Map());
+    this.actionHistory.clear();
+    this.selectionManager.deselect();
+    this.sidebar.hide();
+    this.controlPanel.syncState(this.simulation);
+    this.configPanel.syncConfig(this.simulation.config);
+    this.configPanel.clearPendingChanges();
+    this.camera.fitToWorld(this.simulation.config.world.WORLD_WIDTH, this.simulation.config.world.WORLD_HEIGHT);
+
+    const resumed = this.resumingRun;
+    this.resumingRun = null;
+    if (resumed) {
+      // Carry on saving into the resumed run
+      this.currentRun = { id: resumed.id, name: resumed.name, createdAt: resumed.createdAt };
+      this.lastSavedTick = resumed.tick;
+      this.populationHistory.load(resumed.population);
+      this.actionHistory.load(resumed.actions);
+    } else {
+      this.startNewRun();
+    }
+
+    this.updateGraphSpecies();
+    this.updateTimeline();
     this.updateInfoPanel();
   }
 
-  private handleAnimalDied(data: { animal: import('../entities/types').Animal; cause: string }): void {
+  private handleAnimalDied(data: SimulationEvents['animalDied']): void {
+    this.mortalityTable.record([data.record]);
+    this.lineageStore.recordDeath(data.record);
+    this.eventLog.recordDeath(data.record);
+    this.heatmapStore.recordDeath(data.animal.state.position, data.record.cause);
+    this.trailStore.clearAnimal(data.record.animalId);
+
     const selected = this.selectionManager.getSelectedAnimal();
     if (selected && selected.id === data.animal.id) {
       this.selectionManager.deselect();
     }
   }
 
+  private handleAnimalBorn(data: SimulationEvents['animalBorn']): void {
+    // Births are stamped with the tick they happened during, like deaths
+    this.lineageStore.recordBirth(data.animal, this.simulation.currentTick - 1);
+    this.eventLog.recordBirth(data.animal, this.simulation.currentTick);
+    this.heatmapStore.recordBirth(data.animal.state.position);
+  }
+
+  private resetLineage(): void {
+    this.lineageStore.clear();
+    this.lineageStore.recordFounders(this.simulation.world.getLivingAnimals(), this.simulation.currentTick);
+    this.lineageDialog.hide();
+  }
+
+  private createHeatmapStore(decayWindow: number): HeatmapStore {
+    const { world, ui } = this.simulation.config;
+    return createHeatmapStore(world.WORLD_WIDTH, world.WORLD_HEIGHT, ui.HEATMAP_CELL_SIZE, decayWindow);
+  }
+
+  // The world may have changed size, so the grids are rebuilt
+  private resetHeatmaps(): void {
+    this.heatmapStore = this.createHeatmapStore(this.heatmapStore.getDecayWindow());
+    this.renderer.setHeatmapStore(this.heatmapStore);
+  }
+
+  // The trail length may have changed with the config
+  private resetTrails(): void {
+    this.trailStore = createTrailStore(this.simulation.config.ui.TRAIL_LENGTH);
+    this.simulation.setTrailStore(this.trailStore);
+    this.renderer.setTrailStore(this.trailStore);
+  }
+
+  /**
+   * Apply an inspector edit and log it as an intervention. A keyframe is
+   * recorded so replays and seeks past this tick include the edit.
+   */
+  private editAnimal(animalId: EntityId, edit: AnimalEdit): AnimalEditResult {
+    const before = this.simulation.world.getAnimal(animalId);
+    const result = this.simulation.editAnimal(animalId, edit);
+    if (result.success && before) {
+      const details = formatInterventionDetails(before, edit);
+      this.actionHistory.record(animalId, this.simulation.currentTick, 'INTERVENTION', details);
+      this.eventLog.recordIntervention(before, details, this.simulation.currentTick);
+      this.replayRecorder.recordKeyframe(this.simulation.world);
+      this.selectionManager.refreshSelection(this.simulation.world);
+    }
+    return result;
+  }
+
+  private defaultRunName(): string {
+    return `Seed ${this.simulation.seed}, ${new Date().toLocaleString()}`;
+  }
+
+  private startNewRun(): void {
+    this.currentRun = { id: createRunId(), name: this.defaultRunName(), createdAt: Date.now() };
+    this.lastSavedTick = -1;
+  }
+
+  // Re-read the interval each time so config changes apply from the next save
+  private scheduleAutosave(): void {
+    const seconds = this.simulation.config.ui.AUTOSAVE_INTERVAL;
+    this.autosaveTimer = setTimeout(async () => {
+      if (seconds > 0) {
+        await this.saveRun();
+      }
+      this.scheduleAutosave();
+    }, Math.max(1, seconds) * 1000);
+  }
+
+  /**
+   * Save the current run unless nothing has happened since the last save.
+   * Runs still at tick 0 are only saved on request, so reloading the page
+   * doesn't fill the list with empty runs.
+   */
+  private async saveRun(force = false): Promise<void> {
+    const tick = this.simulation.currentTick;
+    if (this.isSaving || (!force && (tick === 0 || tick === this.lastSavedTick))) return;
+
+    this.isSaving = true;
+    const { world } = this.simulation;
+    const run: SavedRun = {
+      ...this.currentRun,
+      updatedAt: Date.now(),
+      tick,
+      seed: this.simulation.seed,
+      speciesCounts: world.getSpeciesCounts(),
+      snapshot: exportWorldSnapshot(world, this.currentRun.name),
+      population: this.populationHistory.getData(),
+      actions: this.actionHistory.getAll(),
+    };
+
+    try {
+      await this.runStore.save(run);
+      this.lastSavedTick = tick;
+      this.saveStatus = `Saved "${run.name}" at tick ${tick}, ${new Date(run.updatedAt).toLocaleTimeString()}`;
+    } catch (e) {
+      this.saveStatus = `Autosave failed: ${e instanceof Error ? e.message : 'Unknown error'}`;
+    } finally {
+      this.isSaving = false;
+    }
+
+    if (this.recentRunsDialog.isVisible()) {
+      this.recentRunsDialog.refresh();
+    }
+  }
+
+  private async resumeRun(runId: string): Promise<void> {
+    // Keep the run being left, then switch
+    await this.saveRun();
+    let run: SavedRun | null;
+    try {
+      run = await this.runStore.load(runId);
+    } catch (e) {
+      window.alert('Failed to resume run:\n\n' + (e instanceof Error ? e.message : 'Unknown error'));
+      return;
+    }
+    if (!run) return;
+
+    const result = importWorldSnapshot(run.snapshot);
+    if (!result.success || !result.world) {
+      window.alert('Failed to resume run:\n\n' + result.errors.join('\n'));
+      return;
+    }
+    if (result.warnings.length > 0) {
+      window.alert('Run resumed with warnings:\n\n' + result.warnings.join('\n'));
+    }
+
+    this.resumingRun = run;
+    this.simulation.loadWorld(result.world);
+  }
+
+  private selectAndPanTo(animalId: EntityId): void {
+    const animal = this.simulation.world.entityManager.getAnimal(animalId);
+    if (animal && !animal.state.isDead) {
+      this.selectionManager.select(animal);
+      this.camera.panToPosition(animal.state.position);
+    }
+  }
+
   private handleResize(): void {
     this.renderer.resize();
     this.populationGraph.resize();
+    this.traitDashboard.resize();
+  }
+
+  private updateTimeline(): void {
+    this.controlPanel.updateTimeline(
+      this.replayRecorder.getStartTick(),
+      this.replayRecorder.getEndTick(),
+      this.simulation.currentTick
+    );
+  }
+
+  private getSpeciesColor(species: Species): string {
+    return this.simulation.config.species[species]?.colors.body ?? ENTITY_COLORS.unknownSpecies.body;
+  }
+
+  private updateGraphSpecies(): void {
+    const config = this.simulation.config;
+    const subspecies = this.simulation.world.subspecies;
+    const series = Object.keys(this.simulation.world.getSpeciesCounts()).map(species => ({
+      species,
+      name: getSpeciesName(config, species),
+      color: this.getSpeciesColor(species),
+    }));
+
+    // Founding populations that have split are labelled like their offshoots
+    const populationSeries = [
+      ...series.map(s => subspecies.some(sub => sub.species === s.species)
+        ? { ...s, name: getSubspeciesLabel(s.name, 1) }
+        : s),
+      ...subspecies.map(sub => ({ species: sub.id, name: sub.label, color: sub.colors.body })),
+    ];
+    this.populationGraph.setSpecies(populationSeries);
+    this.traitDashboard.setSpecies(series);
+    this.mortalityDialog.setSpecies(series);
+    this.lineageDialog.setSpecies(series);
   }
 
   private updateInfoPanel(): void {
+    const config = this.simulation.config;
+    const populations = Object.entries(this.simulation.world.getSpeciesCounts()).map(([species, count]) => ({
+      species,
+      name: getSpeciesName(config, species),
+      color: this.getSpeciesColor(species),
+      count,
+    }));
+
+    const { season, year } = this.simulation.world.getSeason();
+
     this.infoPanel.update({
       seed: this.simulation.seed,
       tick: this.simulation.currentTick,
-      deerCount: this.simulation.world.getDeerCount(),
-      wolfCount: this.simulation.world.getWolfCount(),
+      season: `${getSeasonName(season)} (year ${year + 1})`,
+      populations,
       vegetationCount: this.simulation.world.getVegetationCount(),
       corpseCount: this.simulation.world.getAllCorpses().length,
       fps: this.renderer.getFPS(),
@@ -272,6 +777,7 @@ export class UIManager {
 
       // Render graph
       this.populationGraph.render();
+      this.traitDashboard.render();
 
       // Continue loop
       this.animationFrameId = requestAnimationFrame(loop);
@@ -297,16 +803,26 @@ export class UIManager {
     if (this.animationFrameId !== null) {
       cancelAnimationFrame(this.animationFrameId);
     }
+    if (this.autosaveTimer !== null) {
+      clearTimeout(this.autosaveTimer);
+    }
 
     this.inputHandler.destroy();
     this.infoPanel.destroy();
     this.controlPanel.destroy();
     this.sidebar.destroy();
     this.populationGraph.destroy();
+    this.traitDashboard.destroy();
     this.helpDialog.destroy();
+    this.mortalityDialog.destroy();
+    this.lineageDialog.destroy();
+    this.exportDialog.destroy();
     this.configPanel.destroy();
+    this.scenarioEditor.destroy();
+    this.recentRunsDialog.destroy();
     this.renderer.destroy();
 
     window.removeEventListener('resize', this.handleResize.bind(this));
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
   }
 }
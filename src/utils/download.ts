@@ -0,0 +1,16 @@
+/**
+ * Save text as a file through a temporary link, the way the browser
+ * downloads anything else.
+ */
+export function downloadText(text: string, filename: string, type: string = 'application/json'): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -1,11 +1,19 @@
 export type EntityId = string;
 
-export function createIdGenerator(prefix: string): () => EntityId {
-  let counter = 0;
-  return () => {
+export interface IdGenerator {
+  (): EntityId;
+  getCount(): number;
+}
+
+export function createIdGenerator(prefix: string, startCount: number = 0): IdGenerator {
+  let counter = startCount;
+  const generate = () => {
     counter++;
     return `${prefix}_${counter}`;
   };
+  return Object.assign(generate, {
+    getCount: () => counter,
+  });
 }
 
 export function parseId(id: EntityId): { prefix: string; number: number } | null {
@@ -0,0 +1,156 @@
+import type { ActionType } from '../entities/types';
+import type { SimulationConfig } from '../config/types';
+import type { World } from '../core/World';
+import type { FrameEncoder, SimulationCommand, WorkerMessage } from './protocol';
+import { runTick, createTickContext } from '../core/TickLoop';
+import { deserializeWorld } from '../core/WorldSnapshot';
+import { editAnimal } from '../core/World';
+import { createFrameEncoder, getFrameTransfer } from './protocol';
+
+export interface SimulationHost {
+  handle(command: SimulationCommand): void;
+}
+
+/**
+ * Worker side of the simulation: owns the authoritative world, runs ticks at
+ * the configured rate and posts one frame per tick. The next tick waits until
+ * the main thread acknowledges the previous frame, so a busy UI slows the
+ * simulation down instead of queueing frames.
+ */
+export function createSimulationHost(
+  post: (message: WorkerMessage, transfer: Transferable[]) => void
+): SimulationHost {
+  let world: World | null = null;
+  let encoder: FrameEncoder | null = null;
+  let epoch = 0;
+  let isRunning = false;
+  let speed = 1;
+  let awaitingAck = false;
+  let actionLogging = false;
+  let trailRecording = false;
+  let lastTickTime = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function tick(): void {
+    if (!world || !encoder) return;
+
+    const actions: Array<[string, ActionType, string]> = [];
+    const actionSink = actionLogging
+      ? {
+          record(animalId: string, _tick: number, action: ActionType, details: string): void {
+            actions.push([animalId, action, details]);
+          },
+        }
+      : undefined;
+
+    const trails: Array<[string, number, number]> = [];
+    const trailSink = trailRecording
+      ? {
+          record(animalId: string, position: { x: number; y: number }): void {
+            trails.push([animalId, position.x, position.y]);
+          },
+        }
+      : undefined;
+
+    encoder.beginTick();
+    const result = runTick(createTickContext(world, actionSink, trailSink));
+    world.currentTick++;
+
+    const frame = encoder.encode(result, actions, trails);
+    lastTickTime = performance.now();
+    // Set before posting: an in-process port may acknowledge synchronously
+    awaitingAck = true;
+    post({ type: 'frame', epoch, frame }, getFrameTransfer(frame));
+  }
+
+  function cancelTimer(): void {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  }
+
+  function schedule(): void {
+    if (!world || !isRunning || awaitingAck || timer !== null) return;
+
+    const tickInterval = 1000 / (world.config.world.TICK_RATE * speed);
+    const delay = Math.max(0, lastTickTime + tickInterval - performance.now());
+    timer = setTimeout(() => {
+      timer = null;
+      if (isRunning && !awaitingAck) {
+        tick();
+      }
+    }, delay);
+  }
+
+  function applyConfig(config: SimulationConfig): void {
+    if (!world) return;
+    // Mutate in place: the world and tick context share this object
+    for (const species of Object.keys(world.config.species)) {
+      delete world.config.species[species];
+    }
+    for (const category of Object.keys(config) as Array<keyof SimulationConfig>) {
+      Object.assign(world.config[category], config[category]);
+    }
+  }
+
+  return {
+    handle(command: SimulationCommand): void {
+      switch (command.type) {
+        case 'start':
+          isRunning = true;
+          lastTickTime = performance.now();
+          schedule();
+          break;
+
+        case 'pause':
+          isRunning = false;
+          cancelTimer();
+          break;
+
+        case 'step':
+          tick();
+          break;
+
+        case 'setSpeed':
+          speed = command.speed;
+          break;
+
+        case 'reset':
+          cancelTimer();
+          world = deserializeWorld(command.snapshot);
+          encoder = createFrameEncoder(world);
+          epoch = command.epoch;
+          awaitingAck = false;
+          schedule();
+          break;
+
+        case 'setConfig':
+          applyConfig(command.config);
+          break;
+
+        case 'setActionLogging':
+          actionLogging = command.enabled;
+          break;
+
+        case 'setTrailRecording':
+          trailRecording = command.enabled;
+          break;
+
+        case 'editAnimal':
+          if (world) {
+            editAnimal(world, command.id, command.edit);
+          }
+          break;
+
+        case 'ack':
+          // Acks for a replaced world must not release the new one early
+          if (command.epoch === epoch) {
+            awaitingAck = false;
+            schedule();
+          }
+          break;
+      }
+    },
+  };
+}
@@ -0,0 +1,228 @@
+import type { SimulationConfig } from '../config/types';
+import type { World } from '../core/World';
+import type { ISimulation, SimulationEvents } from '../core/Simulation';
+import type { ActionHistory } from '../data/ActionHistory';
+import type { TrailStore } from '../data/TrailStore';
+import type { ReplayRecorder } from '../core/ReplayRecorder';
+import type { FrameReader, SimulationCommand, TickFrame, WorkerMessage } from './protocol';
+import type { AnimalEdit } from '../entities/types';
+import type { AnimalEditResult } from '../entities/Animal';
+import type { EntityId } from '../utils/id';
+import { createWorld, editAnimal, initializePopulation } from '../core/World';
+import { emitTickEvents } from '../core/Simulation';
+import { serializeWorld } from '../core/WorldSnapshot';
+import { createEventEmitter } from '../utils/events';
+import { createFrameReader } from './protocol';
+
+/**
+ * The parts of a Worker the simulation uses, so tests can connect a host
+ * in-process.
+ */
+export interface SimulationPort {
+  postMessage(command: SimulationCommand): void;
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+}
+
+/**
+ * Simulation whose ticks run behind a port, normally a Web Worker. The main
+ * thread keeps a mirror of the world that is updated from the frames the
+ * worker posts, so everything reading `world` works unchanged.
+ */
+export function createWorkerSimulation(config: SimulationConfig, port: SimulationPort, seed?: number): ISimulation {
+  let actualSeed = seed ?? Date.now();
+  let world = createWorld(config, actualSeed);
+  initializePopulation(world);
+
+  let isPaused = true;
+  let speed = 1;
+  // Bumped whenever the world is replaced; frames from earlier epochs are dropped
+  let epoch = 0;
+  // Replaced along with the world, as it remembers the last frame
+  let frameReader: FrameReader = createFrameReader(world);
+  let actionHistory: ActionHistory | null = null;
+  let trailStore: TrailStore | null = null;
+  let replayRecorder: ReplayRecorder | null = null;
+
+  const emitter = createEventEmitter<SimulationEvents>();
+
+  function sendWorld(): void {
+    epoch++;
+    frameReader = createFrameReader(world);
+    port.postMessage({ type: 'reset', epoch, snapshot: serializeWorld(world) });
+  }
+
+  function restartRecording(): void {
+    if (!replayRecorder) return;
+    replayRecorder.clear();
+    replayRecorder.recordKeyframe(world);
+  }
+
+  function handleFrame(frame: TickFrame): void {
+    // Continuing from a rewound tick discards the recorded future
+    if (replayRecorder && replayRecorder.getEndTick() > world.currentTick) {
+      replayRecorder.truncateAfter(world.currentTick);
+      replayRecorder.recordKeyframe(world);
+    }
+
+    const previousSeason = world.getSeason().season;
+    const result = frameReader.apply(frame);
+    // Let the worker start on the next tick while the UI handles this one
+    port.postMessage({ type: 'ack', epoch });
+
+    if (actionHistory) {
+      for (const [animalId, action, details] of frame.actions) {
+        actionHistory.record(animalId, frame.tick - 1, action, details);
+      }
+    }
+    if (trailStore) {
+      for (const [animalId, x, y] of frame.trails) {
+        trailStore.record(animalId, { x, y });
+      }
+    }
+
+    replayRecorder?.recordTick(world, result);
+
+    emitTickEvents(emitter, world, result, previousSeason);
+  }
+
+  port.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'frame' && message.epoch === epoch) {
+      handleFrame(message.frame);
+    }
+  };
+  sendWorld();
+
+  const simulation: ISimulation = {
+    get world() {
+      return world;
+    },
+    get config() {
+      return config;
+    },
+    get seed() {
+      return actualSeed;
+    },
+    get currentTick() {
+      return world.currentTick;
+    },
+    get isPaused() {
+      return isPaused;
+    },
+    get speed() {
+      return speed;
+    },
+
+    start(): void {
+      if (!isPaused) return;
+      isPaused = false;
+      port.postMessage({ type: 'start' });
+      emitter.emit('resumed', undefined as unknown as void);
+    },
+
+    pause(): void {
+      if (isPaused) return;
+      isPaused = true;
+      port.postMessage({ type: 'pause' });
+      emitter.emit('paused', undefined as unknown as void);
+    },
+
+    resume(): void {
+      this.start();
+    },
+
+    reset(newSeed?: number): void {
+      this.pause();
+      const resetSeed = newSeed ?? actualSeed;
+      world = createWorld(config, resetSeed);
+      initializePopulation(world);
+      sendWorld();
+      restartRecording();
+      emitter.emit('reset', undefined as unknown as void);
+    },
+
+    setSpeed(multiplier: number): void {
+      speed = Math.max(0.1, Math.min(10, multiplier));
+      port.postMessage({ type: 'setSpeed', speed });
+    },
+
+    step(): void {
+      // The tick event follows once the worker's frame arrives
+      port.postMessage({ type: 'step' });
+    },
+
+    loadWorld(loadedWorld: World): void {
+      this.pause();
+      // Same in-place config copy as the local simulation
+      for (const species of Object.keys(config.species)) {
+        delete config.species[species];
+      }
+      for (const category of Object.keys(loadedWorld.config) as Array<keyof SimulationConfig>) {
+        Object.assign(config[category], loadedWorld.config[category]);
+      }
+      loadedWorld.config = config;
+      world = loadedWorld;
+      actualSeed = loadedWorld.rng.getSeed();
+      sendWorld();
+      restartRecording();
+      emitter.emit('worldLoaded', { tick: world.currentTick });
+    },
+
+    seek(targetTick: number): boolean {
+      if (!replayRecorder) return false;
+      const restored = replayRecorder.reconstruct(targetTick);
+      if (!restored) return false;
+
+      this.pause();
+      restored.config = config;
+      world = restored;
+      sendWorld();
+      emitter.emit('seeked', { tick: world.currentTick });
+      return true;
+    },
+
+    setActionHistory(history: ActionHistory | null): void {
+      actionHistory = history;
+      port.postMessage({ type: 'setActionLogging', enabled: history !== null });
+    },
+
+    setTrailStore(store: TrailStore | null): void {
+      trailStore = store;
+      port.postMessage({ type: 'setTrailRecording', enabled: store !== null });
+    },
+
+    setReplayRecorder(recorder: ReplayRecorder | null): void {
+      replayRecorder = recorder;
+      restartRecording();
+    },
+
+    syncConfig(): void {
+      port.postMessage({ type: 'setConfig', config });
+    },
+
+    editAnimal(id: EntityId, edit: AnimalEdit): AnimalEditResult {
+      // Validate against the mirror; the worker repeats the edit on its world
+      const result = editAnimal(world, id, edit);
+      if (result.success) {
+        port.postMessage({ type: 'editAnimal', id, edit });
+      }
+      return result;
+    },
+
+    on<K extends keyof SimulationEvents>(
+      event: K,
+      callback: (data: SimulationEvents[K]) => void
+    ): void {
+      emitter.on(event, callback as (data: SimulationEvents[keyof SimulationEvents]) => void);
+    },
+
+    off<K extends keyof SimulationEvents>(
+      event: K,
+      callback: (data: SimulationEvents[K]) => void
+    ): void {
+      emitter.off(event, callback as (data: SimulationEvents[keyof SimulationEvents]) => void);
+    },
+  };
+
+  return simulation;
+}
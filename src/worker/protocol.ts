@@ -0,0 +1,356 @@
+import type { ActionType, Animal, AnimalEdit, AnimalState, Corpse, DeathRecord, Subspecies } from '../entities/types';
+import type { Action } from '../behavior/types';
+import type { SimulationConfig } from '../config/types';
+import type { RandomState } from '../core/SeededRandom';
+import type { World } from '../core/World';
+import type { GrazingRecord, TickResult } from '../core/TickLoop';
+import type { WorldSnapshot } from '../core/WorldSnapshot';
+import { animalToSpatialEntity, corpseToSpatialEntity } from '../core/World';
+import { createIdGenerator } from '../utils/id';
+
+/**
+ * Commands sent from the main thread to the simulation worker. Every command
+ * that replaces the world starts a new epoch; frames from older epochs are
+ * stale and get dropped.
+ */
+export type SimulationCommand =
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'step' }
+  | { type: 'setSpeed'; speed: number }
+  // Replace the world, e.g. after a reset, a loaded file or a seek
+  | { type: 'reset'; epoch: number; snapshot: WorldSnapshot }
+  // Live config edits made on the main thread
+  | { type: 'setConfig'; config: SimulationConfig }
+  | { type: 'setActionLogging'; enabled: boolean }
+  | { type: 'setTrailRecording'; enabled: boolean }
+  // Inspector edits, already applied to the main thread's mirror
+  | { type: 'editAnimal'; id: string; edit: AnimalEdit }
+  // The main thread has applied a frame and is ready for the next one
+  | { type: 'ack'; epoch: number };
+
+export type WorkerMessage = { type: 'frame'; epoch: number; frame: TickFrame };
+
+/**
+ * What changed in one tick, relative to the previous frame (or the snapshot
+ * the worker was reset with). Per-animal values are packed into typed arrays
+ * in entity order, which the worker and the mirror share, so most of a frame
+ * moves without copying objects.
+ */
+export interface TickFrame {
+  // Tick number after the tick ran
+  tick: number;
+  rng: RandomState;
+  idCounters: WorldSnapshot['idCounters'];
+  // Animals born this tick, sent whole
+  born: Animal[];
+  // STATE_STRIDE values per animal: those living before the tick, then the
+  // born, in entity order
+  states: Float64Array<ArrayBuffer>;
+  // [animalId, subspecies] for animals moved to a new sub-species
+  subspeciesChanges: Array<[string, string]>;
+  deaths: string[];
+  deathRecords: DeathRecord[];
+  // Sent whole: a corpse can be eaten up in the tick that created it
+  corpsesCreated: Corpse[];
+  corpsesRemoved: string[];
+  // [foodValue, decayTimer] per corpse after the tick, in entity order
+  corpseValues: Float64Array<ArrayBuffer>;
+  // Flat [x0, y0, x1, y1, ...] tiles that emptied, or that were cleared and
+  // regrown and so moved to the end of the insertion order
+  vegetationRemoved: Int32Array<ArrayBuffer>;
+  // Flat tile positions whose biomass changed, followed by new tiles in
+  // insertion order, and each one's biomass
+  vegetationSet: Int32Array<ArrayBuffer>;
+  vegetationBiomass: Float64Array<ArrayBuffer>;
+  grazing: GrazingRecord[];
+  speciations: Subspecies[];
+  // Decision order, as positions among the animals living before the tick
+  decisionOrder: Int32Array<ArrayBuffer>;
+  // [position, action] for decisions that differ from the animal's last one
+  decisionChanges: Array<[number, Action]>;
+  // [animalId, action, details] for every executed action, when logging is on
+  actions: Array<[string, ActionType, string]>;
+  // [animalId, x, y] for every move, when trail recording is on
+  trails: Array<[string, number, number]>;
+}
+
+// x, y, hunger, health, stamina, age, ticksSinceLastReproduction, isDead
+const STATE_STRIDE = 8;
+
+function packState(states: Float64Array, index: number, state: AnimalState): void {
+  const offset = index * STATE_STRIDE;
+  states[offset] = state.position.x;
+  states[offset + 1] = state.position.y;
+  states[offset + 2] = state.hunger;
+  states[offset + 3] = state.health;
+  states[offset + 4] = state.stamina;
+  states[offset + 5] = state.age;
+  states[offset + 6] = state.ticksSinceLastReproduction;
+  states[offset + 7] = state.isDead ? 1 : 0;
+}
+
+function unpackState(states: Float64Array, index: number): AnimalState {
+  const offset = index * STATE_STRIDE;
+  return {
+    position: { x: states[offset], y: states[offset + 1] },
+    hunger: states[offset + 2],
+    health: states[offset + 3],
+    stamina: states[offset + 4],
+    age: states[offset + 5],
+    ticksSinceLastReproduction: states[offset + 6],
+    isDead: states[offset + 7] === 1,
+  };
+}
+
+function sameAction(a: Action | undefined, b: Action): boolean {
+  return a !== undefined &&
+    a.type === b.type &&
+    a.targetId === b.targetId &&
+    a.details === b.details &&
+    a.targetPosition?.x === b.targetPosition?.x &&
+    a.targetPosition?.y === b.targetPosition?.y;
+}
+
+function captureIdCounters(world: World): WorldSnapshot['idCounters'] {
+  return {
+    species: Object.fromEntries(
+      Object.entries(world.speciesIdGens).map(([species, idGen]) => [species, idGen.getCount()])
+    ),
+    corpse: world.corpseIdGen.getCount(),
+  };
+}
+
+export interface FrameEncoder {
+  // Call before running the tick the next frame describes
+  beginTick(): void;
+  encode(
+    result: TickResult,
+    actions: Array<[string, ActionType, string]>,
+    trails: Array<[string, number, number]>
+  ): TickFrame;
+}
+
+/**
+ * Worker side of the frame protocol. Remembers what the mirror last saw
+ * (vegetation and decisions) so each frame only carries the difference.
+ */
+export function createFrameEncoder(world: World): FrameEncoder {
+  const cols = world.terrainGrid.getCols();
+  let tracked: Animal[] = [];
+  // Tile keys (y * cols + x) in insertion order, with their biomass
+  let tiles = new Map<number, number>();
+  let decisions = new Map<string, Action>();
+
+  function readTiles(): Map<number, number> {
+    const current = new Map<number, number>();
+    for (const p of world.vegetationGrid.getAllPositions()) {
+      current.set(p.y * cols + p.x, world.vegetationGrid.getBiomass(p.x, p.y));
+    }
+    return current;
+  }
+
+  tiles = readTiles();
+
+  function encodeVegetation(): Pick<TickFrame, 'vegetationRemoved' | 'vegetationSet' | 'vegetationBiomass'> {
+    const current = readTiles();
+    const previousOrder = [...tiles.keys()];
+    const previousIndex = new Map(previousOrder.map((key, i) => [key, i]));
+
+    // Tiles still in the same relative order form a prefix of the current
+    // order; everything after it was appended during the tick
+    const kept = new Set<number>();
+    const set: number[] = [];
+    let cursor = 0;
+    let appending = false;
+    for (const [key, biomass] of current) {
+      const index = previousIndex.get(key);
+      if (!appending && index !== undefined && index >= cursor) {
+        cursor = index + 1;
+        kept.add(key);
+        if (tiles.get(key) !== biomass) set.push(key);
+      } else {
+        appending = true;
+        set.push(key);
+      }
+    }
+    const removed = previousOrder.filter(key => !kept.has(key));
+    tiles = current;
+
+    const toPositions = (keys: number[]): Int32Array<ArrayBuffer> => {
+      const positions = new Int32Array(keys.length * 2);
+      keys.forEach((key, i) => {
+        positions[i * 2] = key % cols;
+        positions[i * 2 + 1] = Math.floor(key / cols);
+      });
+      return positions;
+    };
+    return {
+      vegetationRemoved: toPositions(removed),
+      vegetationSet: toPositions(set),
+      vegetationBiomass: Float64Array.from(set, key => current.get(key)!),
+    };
+  }
+
+  return {
+    beginTick(): void {
+      tracked = world.getLivingAnimals();
+    },
+
+    encode(result, actions, trails): TickFrame {
+      const animals = [...tracked, ...result.births].map(a => world.getAnimal(a.id) ?? a);
+      const states = new Float64Array(animals.length * STATE_STRIDE);
+      animals.forEach((animal, i) => packState(states, i, animal.state));
+
+      const subspeciesChanges: Array<[string, string]> = [];
+      if (result.speciations.length > 0) {
+        tracked.forEach((before, i) => {
+          if (animals[i].subspecies !== before.subspecies) {
+            subspeciesChanges.push([before.id, animals[i].subspecies]);
+          }
+        });
+      }
+
+      const corpses = world.getAllCorpses();
+      const corpseValues = new Float64Array(corpses.length * 2);
+      corpses.forEach((corpse, i) => {
+        corpseValues[i * 2] = corpse.foodValue;
+        corpseValues[i * 2 + 1] = corpse.decayTimer;
+      });
+
+      const positions = new Map(tracked.map((animal, i) => [animal.id, i]));
+      const decisionOrder = new Int32Array(result.decisions.size);
+      const decisionChanges: Array<[number, Action]> = [];
+      let k = 0;
+      for (const [id, action] of result.decisions) {
+        const position = positions.get(id)!;
+        decisionOrder[k++] = position;
+        if (!sameAction(decisions.get(id), action)) {
+          decisionChanges.push([position, action]);
+        }
+      }
+      decisions = result.decisions;
+
+      return {
+        tick: world.currentTick,
+        rng: world.rng.getState(),
+        idCounters: captureIdCounters(world),
+        born: result.births,
+        states,
+        subspeciesChanges,
+        deaths: [...result.deaths],
+        deathRecords: result.deathRecords,
+        corpsesCreated: result.corpsesCreated,
+        corpsesRemoved: [...result.corpsesRemoved],
+        corpseValues,
+        ...encodeVegetation(),
+        grazing: result.grazing,
+        speciations: result.speciations,
+        decisionOrder,
+        decisionChanges,
+        actions,
+        trails,
+      };
+    },
+  };
+}
+
+// Typed arrays in a frame, moved to the main thread instead of copied
+export function getFrameTransfer(frame: TickFrame): Transferable[] {
+  return [
+    frame.states.buffer,
+    frame.corpseValues.buffer,
+    frame.vegetationRemoved.buffer,
+    frame.vegetationSet.buffer,
+    frame.vegetationBiomass.buffer,
+    frame.decisionOrder.buffer,
+  ];
+}
+
+export interface FrameReader {
+  // Bring the mirror up to date and return the tick as seen from it
+  apply(frame: TickFrame): TickResult;
+}
+
+/**
+ * Main-thread side of the frame protocol. Updates the mirrored world in
+ * place, touching only what changed. Entity and vegetation order stay
+ * identical to the worker's, so snapshots of the mirror replay the same.
+ */
+export function createFrameReader(world: World): FrameReader {
+  let decisions = new Map<string, Action>();
+
+  return {
+    apply(frame: TickFrame): TickResult {
+      const tracked = world.getLivingAnimals();
+
+      world.currentTick = frame.tick;
+      world.rng.setState(frame.rng);
+      for (const [species, count] of Object.entries(frame.idCounters.species)) {
+        world.speciesIdGens[species] = createIdGenerator(species, count);
+      }
+      world.corpseIdGen = createIdGenerator('corpse', frame.idCounters.corpse);
+      world.subspecies.push(...frame.speciations);
+
+      // Existing animals keep their place in the maps, the born append
+      const subspecies = new Map(frame.subspeciesChanges);
+      [...tracked, ...frame.born].forEach((animal, i) => {
+        const updated: Animal = {
+          ...animal,
+          state: unpackState(frame.states, i),
+          subspecies: subspecies.get(animal.id) ?? animal.subspecies,
+        };
+        world.entityManager.addAnimal(updated);
+        if (updated.state.isDead) {
+          world.animalSpatialIndex.remove(updated.id);
+        } else {
+          world.animalSpatialIndex.update(animalToSpatialEntity(updated));
+        }
+      });
+
+      for (const id of frame.corpsesRemoved) {
+        world.entityManager.removeCorpse(id);
+        world.corpseSpatialIndex.remove(id);
+      }
+      const removed = new Set(frame.corpsesRemoved);
+      for (const corpse of frame.corpsesCreated) {
+        if (!removed.has(corpse.id)) {
+          world.entityManager.addCorpse(corpse);
+        }
+      }
+      world.getAllCorpses().forEach((corpse, i) => {
+        const updated = { ...corpse, foodValue: frame.corpseValues[i * 2], decayTimer: frame.corpseValues[i * 2 + 1] };
+        world.entityManager.addCorpse(updated);
+        world.corpseSpatialIndex.update(corpseToSpatialEntity(updated));
+      });
+
+      const grid = world.vegetationGrid;
+      for (let i = 0; i < frame.vegetationRemoved.length; i += 2) {
+        grid.remove(frame.vegetationRemoved[i], frame.vegetationRemoved[i + 1]);
+      }
+      for (let i = 0; i < frame.vegetationBiomass.length; i++) {
+        grid.setBiomass(frame.vegetationSet[i * 2], frame.vegetationSet[i * 2 + 1], frame.vegetationBiomass[i]);
+      }
+
+      const changes = new Map(frame.decisionChanges);
+      const next = new Map<string, Action>();
+      frame.decisionOrder.forEach((position) => {
+        const id = tracked[position].id;
+        next.set(id, changes.get(position) ?? decisions.get(id)!);
+      });
+      decisions = next;
+
+      return {
+        tick: frame.tick - 1,
+        decisions: new Map(decisions),
+        deaths: frame.deaths,
+        deathRecords: frame.deathRecords,
+        births: frame.born.map(a => world.getAnimal(a.id)).filter((a): a is Animal => a !== undefined),
+        corpsesCreated: frame.corpsesCreated,
+        corpsesRemoved: frame.corpsesRemoved,
+        grazing: frame.grazing,
+        speciations: frame.speciations,
+      };
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import type { SimulationCommand } from './protocol';
+import { createSimulationHost } from './SimulationHost';
+
+const host = createSimulationHost((message, transfer) => {
+  self.postMessage(message, { transfer });
+});
+
+self.onmessage = (event: MessageEvent<SimulationCommand>) => {
+  host.handle(event.data);
+};
@@ -0,0 +1,74 @@
+import { describe, bench } from 'vitest';
+import { createWorld, initializePopulation } from '../../src/core/World';
+import type { World } from '../../src/core/World';
+import { createTickContext, executeDecisionPhase, sortByAlertRange } from '../../src/core/TickLoop';
+import { makeDecision } from '../../src/behavior/DecisionEngine';
+import type { Action } from '../../src/behavior/types';
+import type { VegetationGrid } from '../../src/spatial/VegetationGrid';
+import { getDefaultConfig } from '../../src/config/defaults';
+import { distance } from '../../src/utils/vector';
+
+/**
+ * World with the given number of animals at a fixed density, so only the
+ * population size changes between runs.
+ */
+function createBenchWorld(animalCount: number): World {
+  const config = getDefaultConfig();
+  const side = Math.round(Math.sqrt(animalCount) * 30);
+  config.world.WORLD_WIDTH = side;
+  config.world.WORLD_HEIGHT = side;
+  config.world.INITIAL_SPAWN_MIN_DISTANCE = 0;
+  config.species.deer.initialCount = Math.round(animalCount * 0.8);
+  config.species.wolf.initialCount = animalCount - config.species.deer.initialCount;
+
+  const world = createWorld(config, 1);
+  initializePopulation(world);
+  return world;
+}
+
+/**
+ * The decision phase as it was before spatial indexes: every animal scans
+ * every other animal, every corpse and every vegetation tile.
+ */
+function fullScanDecisionPhase(world: World): Map<string, Action> {
+  const { entityManager, vegetationGrid, config, rng } = world;
+  const scanningGrid: VegetationGrid = {
+    ...vegetationGrid,
+    queryRadius: (center, radius) =>
+      vegetationGrid.getAllPositions().filter(p => distance(center, vegetationGrid.gridToWorld(p.x, p.y)) <= radius),
+  };
+  const decisions = new Map<string, Action>();
+
+  for (const animal of sortByAlertRange(entityManager.getLivingAnimals())) {
+    const nearbyAnimals = entityManager.getLivingAnimals().filter(
+      a => a.id !== animal.id && distance(animal.state.position, a.state.position) <= animal.derivedStats.alertRange
+    );
+    decisions.set(animal.id, makeDecision({
+      animal,
+      nearbyAnimals,
+      corpses: entityManager.getAllCorpses(),
+      vegetationGrid: scanningGrid,
+      config,
+      rng,
+    }));
+  }
+
+  return decisions;
+}
+
+for (const animalCount of [1000, 2500, 5000]) {
+  describe(`decision phase, ${animalCount} animals`, () => {
+    const world = createBenchWorld(animalCount);
+    const rngState = world.rng.getState();
+
+    bench('spatial index', () => {
+      world.rng.setState(rngState);
+      executeDecisionPhase(createTickContext(world));
+    }, { iterations: 5, time: 0 });
+
+    bench('full scan', () => {
+      world.rng.setState(rngState);
+      fullScanDecisionPhase(world);
+    }, { iterations: 5, time: 0 });
+  });
+}
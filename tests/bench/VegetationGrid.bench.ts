@@ -0,0 +1,140 @@
+import { describe, bench } from 'vitest';
+import { createVegetationGrid, initializeVegetation, MIN_BIOMASS } from '../../src/spatial/VegetationGrid';
+import type { VegetationGrid } from '../../src/spatial/VegetationGrid';
+import { createSeededRandom } from '../../src/core/SeededRandom';
+import type { RandomGenerator } from '../../src/core/SeededRandom';
+
+type BenchGrid = Pick<VegetationGrid, 'setBiomass' | 'graze' | 'grow' | 'spread' | 'queryRadius'>;
+
+const TILE_SIZE = 5;
+
+/**
+ * The grid as it was before typed arrays: tiles in a Map keyed by "x,y",
+ * with spread walking every tile each tick.
+ */
+function createMapVegetationGrid(worldWidth: number, worldHeight: number, tileSize: number): BenchGrid {
+  const cols = Math.floor(worldWidth / tileSize);
+  const rows = Math.floor(worldHeight / tileSize);
+  const vegetation = new Map<string, { x: number; y: number; order: number; biomass: number }>();
+  let insertions = 0;
+
+  const isValid = (x: number, y: number): boolean => x >= 0 && x < cols && y >= 0 && y < rows;
+
+  return {
+    setBiomass(gridX: number, gridY: number, biomass: number): void {
+      if (!isValid(gridX, gridY)) return;
+      const key = `${gridX},${gridY}`;
+      const amount = Math.min(biomass, 1);
+      if (amount < MIN_BIOMASS) {
+        vegetation.delete(key);
+        return;
+      }
+      const tile = vegetation.get(key);
+      if (tile) {
+        tile.biomass = amount;
+      } else {
+        vegetation.set(key, { x: gridX, y: gridY, order: insertions++, biomass: amount });
+      }
+    },
+
+    graze(gridX: number, gridY: number, amount: number): number {
+      const tile = vegetation.get(`${gridX},${gridY}`);
+      if (!tile || amount <= 0) return 0;
+      const eaten = Math.min(amount, tile.biomass);
+      this.setBiomass(gridX, gridY, tile.biomass - eaten);
+      return eaten;
+    },
+
+    grow(growthRate: number): void {
+      for (const tile of vegetation.values()) {
+        const growth = growthRate * tile.biomass * (1 - tile.biomass);
+        tile.biomass = Math.max(MIN_BIOMASS, Math.min(1, tile.biomass + growth));
+      }
+    },
+
+    queryRadius(center: { x: number; y: number }, radius: number): Array<{ x: number; y: number }> {
+      const found: Array<{ x: number; y: number; order: number }> = [];
+      for (let y = Math.max(0, Math.floor((center.y - radius) / tileSize)); y <= Math.min(rows - 1, Math.floor((center.y + radius) / tileSize)); y++) {
+        for (let x = Math.max(0, Math.floor((center.x - radius) / tileSize)); x <= Math.min(cols - 1, Math.floor((center.x + radius) / tileSize)); x++) {
+          const dx = x * tileSize + tileSize / 2 - center.x;
+          const dy = y * tileSize + tileSize / 2 - center.y;
+          const tile = vegetation.get(`${x},${y}`);
+          if (tile && Math.sqrt(dx * dx + dy * dy) <= radius) {
+            found.push({ x, y, order: tile.order });
+          }
+        }
+      }
+      return found.sort((a, b) => a.order - b.order).map(({ x, y }) => ({ x, y }));
+    },
+
+    spread(rng: RandomGenerator, spreadRate: number, seedBiomass: number = 1): void {
+      const positions = Array.from(vegetation.keys()).map(key => {
+        const [x, y] = key.split(',').map(Number);
+        return { x, y };
+      });
+      for (const pos of positions) {
+        for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+          const nx = pos.x + dx;
+          const ny = pos.y + dy;
+          if (isValid(nx, ny) && !vegetation.has(`${nx},${ny}`) && rng.next() < spreadRate) {
+            this.setBiomass(nx, ny, seedBiomass);
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * One tick of vegetation upkeep at default rates: a few hundred bites,
+ * regrowth and spread.
+ */
+function vegetationTick(grid: BenchGrid, cols: number, rows: number, rng: RandomGenerator): void {
+  for (let i = 0; i < 500; i++) {
+    grid.graze(Math.floor(rng.next() * cols), Math.floor(rng.next() * rows), 0.5);
+  }
+  grid.grow(0.05);
+  grid.spread(rng, 0.05, 0.1);
+}
+
+// Both implementations with the same starting vegetation
+function createGrids(side: number): { typed: BenchGrid; map: BenchGrid } {
+  const typed = createVegetationGrid(side, side, TILE_SIZE);
+  initializeVegetation(typed, 0.4, createSeededRandom(1));
+  const map = createMapVegetationGrid(side, side, TILE_SIZE);
+  for (const { x, y } of typed.getAllPositions()) {
+    map.setBiomass(x, y, 1);
+  }
+  return { typed, map };
+}
+
+for (const side of [1000, 3000]) {
+  const cols = side / TILE_SIZE;
+  const rows = side / TILE_SIZE;
+
+  describe(`vegetation tick, ${cols * rows} tiles`, () => {
+    const { typed, map } = createGrids(side);
+    const typedRng = createSeededRandom(2);
+    const mapRng = createSeededRandom(2);
+
+    bench('typed arrays', () => {
+      vegetationTick(typed, cols, rows, typedRng);
+    }, { iterations: 20, time: 0 });
+
+    bench('string-keyed map', () => {
+      vegetationTick(map, cols, rows, mapRng);
+    }, { iterations: 20, time: 0 });
+  });
+
+  describe(`1000 radius queries, ${cols * rows} tiles`, () => {
+    const { typed, map } = createGrids(side);
+
+    bench('typed arrays', () => {
+      for (let i = 0; i < 1000; i++) typed.queryRadius({ x: (i * 37) % side, y: (i * 53) % side }, 50);
+    }, { iterations: 20, time: 0 });
+
+    bench('string-keyed map', () => {
+      for (let i = 0; i < 1000; i++) map.queryRadius({ x: (i * 37) % side, y: (i * 53) % side }, 50);
+    }, { iterations: 20, time: 0 });
+  });
+}
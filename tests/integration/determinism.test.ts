@@ -14,8 +14,8 @@ describe('Determinism Verification', () => {
   it('500 ticks produce identical state hash with same seed', { timeout: 60000 }, () => {
     const config = getDefaultConfig();
     // Use fewer animals for faster test execution
-    config.world.INITIAL_DEER_COUNT = 10;
-    config.world.INITIAL_WOLF_COUNT = 3;
+    config.species.deer.initialCount = 10;
+    config.species.wolf.initialCount = 3;
 
     const seed = 98765;
 
@@ -60,8 +60,8 @@ describe('Determinism Verification', () => {
 
   it('vegetation spread is deterministic', { timeout: 30000 }, () => {
     const config = getDefaultConfig();
-    config.world.INITIAL_DEER_COUNT = 0;
-    config.world.INITIAL_WOLF_COUNT = 0;
+    config.species.deer.initialCount = 0;
+    config.species.wolf.initialCount = 0;
 
     const seed = 11111;
 
@@ -79,8 +79,8 @@ describe('Determinism Verification', () => {
 
   it('mutation results are deterministic', { timeout: 60000 }, () => {
     const config = getDefaultConfig();
-    config.world.INITIAL_DEER_COUNT = 4;
-    config.world.INITIAL_WOLF_COUNT = 0;
+    config.species.deer.initialCount = 4;
+    config.species.wolf.initialCount = 0;
     config.reproduction.REPRODUCTION_COOLDOWN = 10;
 
     const seed = 22222;
@@ -123,8 +123,8 @@ describe('Determinism Verification', () => {
 
   it('combat outcomes are deterministic', { timeout: 60000 }, () => {
     const config = getDefaultConfig();
-    config.world.INITIAL_DEER_COUNT = 10;
-    config.world.INITIAL_WOLF_COUNT = 5;
+    config.species.deer.initialCount = 10;
+    config.species.wolf.initialCount = 5;
 
     const seed = 33333;
 
@@ -148,7 +148,7 @@ describe('Determinism Verification', () => {
     }
 
     expect(deaths1).toBe(deaths2);
-    expect(sim1.world.getDeerCount()).toBe(sim2.world.getDeerCount());
-    expect(sim1.world.getWolfCount()).toBe(sim2.world.getWolfCount());
+    expect(sim1.world.getSpeciesCount('deer')).toBe(sim2.world.getSpeciesCount('deer'));
+    expect(sim1.world.getSpeciesCount('wolf')).toBe(sim2.world.getSpeciesCount('wolf'));
   });
 });
@@ -25,8 +25,8 @@ describe('Simulation Integration Tests', () => {
     // Use smaller world and population for faster tests
     config.world.WORLD_WIDTH = 100;
     config.world.WORLD_HEIGHT = 100;
-    config.world.INITIAL_DEER_COUNT = 5;
-    config.world.INITIAL_WOLF_COUNT = 2;
+    config.species.deer.initialCount = 5;
+    config.species.wolf.initialCount = 2;
     config.world.INITIAL_SPAWN_MIN_DISTANCE = 5;
   });
 
@@ -48,8 +48,8 @@ describe('Simulation Integration Tests', () => {
 
       // Compare final states
       expect(sim1.currentTick).toBe(sim2.currentTick);
-      expect(sim1.world.getDeerCount()).toBe(sim2.world.getDeerCount());
-      expect(sim1.world.getWolfCount()).toBe(sim2.world.getWolfCount());
+      expect(sim1.world.getSpeciesCount('deer')).toBe(sim2.world.getSpeciesCount('deer'));
+      expect(sim1.world.getSpeciesCount('wolf')).toBe(sim2.world.getSpeciesCount('wolf'));
       expect(sim1.world.getVegetationCount()).toBe(sim2.world.getVegetationCount());
 
       // Compare animal positions
@@ -96,8 +96,8 @@ describe('Simulation Integration Tests', () => {
     it('deer find and eat vegetation', () => {
       // Use config where vegetation doesn't spread (to clearly see consumption)
       config.vegetation.VEGETATION_SPREAD_RATE = 0;
-      config.world.INITIAL_DEER_COUNT = 5;
-      config.world.INITIAL_WOLF_COUNT = 0;
+      config.species.deer.initialCount = 5;
+      config.species.wolf.initialCount = 0;
 
       const sim = createSimulation(config, 42);
       const initialVegetation = sim.world.getVegetationCount();
@@ -113,8 +113,8 @@ describe('Simulation Integration Tests', () => {
 
     it('wolves hunt deer and create corpses', () => {
       // Setup: hungrier wolves, small world to ensure encounters
-      config.world.INITIAL_DEER_COUNT = 10;
-      config.world.INITIAL_WOLF_COUNT = 5;
+      config.species.deer.initialCount = 10;
+      config.species.wolf.initialCount = 5;
       config.world.INITIAL_SPAWN_MIN_DISTANCE = 2; // Very close spawning
       config.world.WORLD_WIDTH = 50; // Small world forces encounters
       config.world.WORLD_HEIGHT = 50;
@@ -125,8 +125,9 @@ describe('Simulation Integration Tests', () => {
       let deerDied = false;
       let corpseCreated = false;
 
-      sim.on('animalDied', ({ animal, cause }) => {
-        if (animal.species === 'deer' && (cause === 'predation' || cause === 'killed')) {
+      sim.on('animalDied', ({ animal, record }) => {
+        if (animal.species === 'deer' && record.cause === 'predation') {
+          expect(record.killerId).toMatch(/^wolf_/);
           deerDied = true;
         }
       });
@@ -148,8 +149,8 @@ describe('Simulation Integration Tests', () => {
     it('reproduction creates offspring with mutation (asexual)', () => {
       // Use config that encourages reproduction
       config.reproduction.REPRODUCTION_COOLDOWN = 10;
-      config.world.INITIAL_DEER_COUNT = 5;
-      config.world.INITIAL_WOLF_COUNT = 0; // No predators
+      config.species.deer.initialCount = 5;
+      config.species.wolf.initialCount = 0; // No predators
 
       const sim = createSimulation(config, 42);
 
@@ -186,16 +187,16 @@ describe('Simulation Integration Tests', () => {
 
     it('starvation causes death', () => {
       // Create scenario where deer will starve
-      config.world.INITIAL_DEER_COUNT = 5;
+      config.species.deer.initialCount = 5;
       config.vegetation.INITIAL_VEGETATION_DENSITY = 0; // No food
       config.vegetation.VEGETATION_SPREAD_RATE = 0; // No new vegetation
-      config.world.INITIAL_WOLF_COUNT = 0;
+      config.species.wolf.initialCount = 0;
       config.entities.INITIAL_HUNGER_SPAWN = 20; // Start with low hunger
 
       const sim = createSimulation(config, 42);
 
       let starvationDeath = false;
-      sim.on('animalDied', ({ cause }) => {
+      sim.on('animalDied', ({ record: { cause } }) => {
         if (cause === 'starvation') {
           starvationDeath = true;
         }
@@ -211,8 +212,8 @@ describe('Simulation Integration Tests', () => {
 
     it('old age causes death', () => {
       // Create scenario where animals will age out
-      config.world.INITIAL_DEER_COUNT = 5;
-      config.world.INITIAL_WOLF_COUNT = 0;
+      config.species.deer.initialCount = 5;
+      config.species.wolf.initialCount = 0;
       config.vegetation.INITIAL_VEGETATION_DENSITY = 0.9; // Plenty of food
 
       const sim = createSimulation(config, 42);
@@ -222,7 +223,7 @@ describe('Simulation Integration Tests', () => {
       deer.state.age = deer.lifecycleAttributes.maxAge - 1;
 
       let oldAgeDeath = false;
-      sim.on('animalDied', ({ cause }) => {
+      sim.on('animalDied', ({ record: { cause } }) => {
         if (cause === 'old age') {
           oldAgeDeath = true;
         }
@@ -241,9 +242,10 @@ describe('Simulation Integration Tests', () => {
     it('death checks happen before other actions', () => {
       const sim = createSimulation(config, 42);
 
-      // Set a deer to 0 hunger
+      // Set a deer to 0 hunger and 0 health
       const deer = sim.world.getAnimalsBySpecies('deer')[0];
       deer.state.hunger = 0;
+      deer.state.health = 0;
 
       sim.step();
 
@@ -294,7 +296,7 @@ describe('Simulation Integration Tests', () => {
     it('emits tick event with correct data', () => {
       const sim = createSimulation(config, 42);
 
-      let lastTickEvent: { tick: number; deerCount: number; wolfCount: number } | null = null;
+      let lastTickEvent: { tick: number; speciesCounts: Record<string, number> } | null = null;
       sim.on('tick', (data) => {
         lastTickEvent = data;
       });
@@ -305,8 +307,8 @@ describe('Simulation Integration Tests', () => {
 
       expect(lastTickEvent).not.toBeNull();
       expect(lastTickEvent!.tick).toBe(3);
-      expect(typeof lastTickEvent!.deerCount).toBe('number');
-      expect(typeof lastTickEvent!.wolfCount).toBe('number');
+      expect(Object.keys(lastTickEvent!.speciesCounts)).toEqual(['deer', 'wolf']);
+      expect(typeof lastTickEvent!.speciesCounts.deer).toBe('number');
     });
   });
 
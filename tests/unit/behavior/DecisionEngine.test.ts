@@ -4,7 +4,7 @@ import {
   shouldDie,
   shouldFlee,
   shouldAttack,
-  canKill,
+  calculateDamage,
 } from '../../../src/behavior/DecisionEngine';
 import { createAnimal } from '../../../src/entities/Animal';
 import { createCorpseFromAnimal } from '../../../src/entities/Corpse';
@@ -31,12 +31,13 @@ describe('DecisionEngine', () => {
   });
 
   describe('shouldDie', () => {
-    it('returns true when hunger <= 0', () => {
+    it('returns starvation when health <= 0 while hunger <= 0', () => {
       const animal = createAnimal(
         { species: 'deer', position: { x: 0, y: 0 }, initialHunger: 0 },
         config,
         deerIdGen
       );
+      animal.state.health = 0;
 
       const result = shouldDie(animal);
 
@@ -44,6 +45,30 @@ describe('DecisionEngine', () => {
       expect(result.cause).toBe('starvation');
     });
 
+    it('returns wounds when health <= 0 while fed', () => {
+      const animal = createAnimal(
+        { species: 'deer', position: { x: 0, y: 0 }, initialHunger: 50 },
+        config,
+        deerIdGen
+      );
+      animal.state.health = 0;
+
+      const result = shouldDie(animal);
+
+      expect(result.should).toBe(true);
+      expect(result.cause).toBe('wounds');
+    });
+
+    it('returns false when hunger <= 0 but health remains', () => {
+      const animal = createAnimal(
+        { species: 'deer', position: { x: 0, y: 0 }, initialHunger: 0 },
+        config,
+        deerIdGen
+      );
+
+      expect(shouldDie(animal).should).toBe(false);
+    });
+
     it('returns true when age >= maxAge', () => {
       const animal = createAnimal(
         { species: 'deer', position: { x: 0, y: 0 } },
@@ -145,7 +170,7 @@ describe('DecisionEngine', () => {
       // With RNG, sometimes true sometimes false
       let attackedAtLeastOnce = false;
       for (let i = 0; i < 100; i++) {
-        if (shouldAttack(wolf, deer, createSeededRandom(i))) {
+        if (shouldAttack(wolf, deer, config, createSeededRandom(i))) {
           attackedAtLeastOnce = true;
           break;
         }
@@ -166,11 +191,29 @@ describe('DecisionEngine', () => {
       );
 
       // attackChance = 0.6 * (1 - 100/100) = 0
-      const result = shouldAttack(wolf, deer, rng);
+      const result = shouldAttack(wolf, deer, config, rng);
 
       expect(result).toBe(false);
     });
 
+    it('measures hunger against the configured MAX_HUNGER', () => {
+      config.entities.MAX_HUNGER = 200;
+      const wolf = createAnimal(
+        { species: 'wolf', position: { x: 100, y: 100 }, initialHunger: 100 },
+        config,
+        wolfIdGen
+      );
+      const deer = createAnimal(
+        { species: 'deer', position: { x: 105, y: 100 } },
+        config,
+        deerIdGen
+      );
+
+      // Half full: attackChance = aggression * 0.5, so some seeds attack
+      const attacks = Array.from({ length: 100 }, (_, i) => shouldAttack(wolf, deer, config, createSeededRandom(i)));
+      expect(attacks).toContain(true);
+    });
+
     it('returns false for non-aggressive animals', () => {
       const deer1 = createAnimal(
         { species: 'deer', position: { x: 100, y: 100 }, initialHunger: 30 },
@@ -184,77 +227,28 @@ describe('DecisionEngine', () => {
       );
 
       // Deer aggression = 0.0
-      const result = shouldAttack(deer1, deer2, rng);
+      const result = shouldAttack(deer1, deer2, config, rng);
 
       expect(result).toBe(false);
     });
   });
 
-  describe('canKill', () => {
-    it('returns true when attackPower > defense', () => {
-      const wolf = createAnimal(
-        { species: 'wolf', position: { x: 100, y: 100 } },
-        config,
-        wolfIdGen
-      );
-      const deer = createAnimal(
-        { species: 'deer', position: { x: 105, y: 100 } },
-        config,
-        deerIdGen
-      );
+  describe('calculateDamage', () => {
+    it('deals attackPower - defense', () => {
+      const wolf = createAnimal({ species: 'wolf', position: { x: 0, y: 0 } }, config, wolfIdGen);
+      const deer = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
 
-      // Wolf attackPower ≈ 13.15, Deer defense ≈ 4.6
-      expect(canKill(wolf, deer)).toBe(true);
-    });
-
-    it('returns false when attackPower <= defense', () => {
-      // Create a weak deer and a strong wolf with high defense
-      const weakDeer = createAnimal(
-        {
-          species: 'deer',
-          position: { x: 100, y: 100 },
-          baseAttributes: { strength: 3, size: 0.5 },
-        },
-        config,
-        deerIdGen
+      expect(calculateDamage(wolf, deer, config)).toBeCloseTo(
+        wolf.derivedStats.attackPower - deer.derivedStats.defense
       );
-      const strongWolf = createAnimal(
-        {
-          species: 'wolf',
-          position: { x: 105, y: 100 },
-          baseAttributes: { size: 2.0, agility: 15 },
-        },
-        config,
-        wolfIdGen
-      );
-
-      // Weak deer attackPower = 3 * sqrt(0.5) ≈ 2.12
-      // Strong wolf defense = 2.0 * (1 + 15 * 0.3) = 2.0 * 5.5 = 11
-      // 2.12 < 11, so deer cannot kill wolf
-      expect(canKill(weakDeer, strongWolf)).toBe(false);
     });
 
-    it('returns true for large strong attacker vs small weak defender', () => {
-      const strongWolf = createAnimal(
-        {
-          species: 'wolf',
-          position: { x: 100, y: 100 },
-          baseAttributes: { strength: 20, size: 3.0 },
-        },
-        config,
-        wolfIdGen
-      );
-      const weakDeer = createAnimal(
-        {
-          species: 'deer',
-          position: { x: 105, y: 100 },
-          baseAttributes: { size: 0.3, agility: 1 },
-        },
-        config,
-        deerIdGen
-      );
+    it('deals at least MIN_DAMAGE to stronger defenders', () => {
+      const deer = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const wolf = createAnimal({ species: 'wolf', position: { x: 0, y: 0 } }, config, wolfIdGen);
+      config.combat.MIN_DAMAGE = 0.5;
 
-      expect(canKill(strongWolf, weakDeer)).toBe(true);
+      expect(calculateDamage(deer, wolf, config)).toBe(0.5);
     });
   });
 
@@ -265,6 +259,7 @@ describe('DecisionEngine', () => {
         config,
         deerIdGen
       );
+      animal.state.health = 0;
       const grid = createVegetationGrid(1000, 800, 5);
 
       const action = makeDecision({
@@ -411,6 +406,117 @@ describe('DecisionEngine', () => {
       expect(reproduced).toBe(true);
     });
 
+    it('returns MOVE_TO_MATE toward the fittest mate in sexual mode', () => {
+      config.reproduction.REPRODUCTION_MODE = 1;
+      const makeReadyDeer = (x: number, strength: number): Animal => {
+        const deer = createAnimal(
+          { species: 'deer', position: { x, y: 100 }, initialHunger: 80, baseAttributes: { strength } },
+          config,
+          deerIdGen
+        );
+        deer.state.age = 100;
+        deer.state.ticksSinceLastReproduction = 200;
+        return deer;
+      };
+      const deer = makeReadyDeer(100, 10);
+      const weakMate = makeReadyDeer(120, 5);
+      const strongMate = makeReadyDeer(130, 15);
+
+      const grid = createVegetationGrid(1000, 800, 5);
+
+      let action = null;
+      for (let i = 0; i < 100; i++) {
+        action = makeDecision({
+          animal: deer,
+          nearbyAnimals: [weakMate, strongMate],
+          corpses: [],
+          vegetationGrid: grid,
+          config,
+          rng: createSeededRandom(i),
+        });
+        if (action.type === 'MOVE_TO_MATE') break;
+      }
+      expect(action?.type).toBe('MOVE_TO_MATE');
+      expect(action?.targetId).toBe(strongMate.id);
+    });
+
+    it('returns REPRODUCE with a mate in contact range in sexual mode', () => {
+      config.reproduction.REPRODUCTION_MODE = 1;
+      const deer = createAnimal({ species: 'deer', position: { x: 100, y: 100 }, initialHunger: 80 }, config, deerIdGen);
+      const mate = createAnimal({ species: 'deer', position: { x: 101, y: 100 }, initialHunger: 80 }, config, deerIdGen);
+      for (const a of [deer, mate]) {
+        a.state.age = 100;
+        a.state.ticksSinceLastReproduction = 200;
+      }
+
+      const grid = createVegetationGrid(1000, 800, 5);
+
+      let action = null;
+      for (let i = 0; i < 100; i++) {
+        action = makeDecision({
+          animal: deer,
+          nearbyAnimals: [mate],
+          corpses: [],
+          vegetationGrid: grid,
+          config,
+          rng: createSeededRandom(i),
+        });
+        if (action.type === 'REPRODUCE') break;
+      }
+      expect(action?.type).toBe('REPRODUCE');
+      expect(action?.targetId).toBe(mate.id);
+    });
+
+    it('never mates across sub-species in sexual mode', () => {
+      config.reproduction.REPRODUCTION_MODE = 1;
+      const deer = createAnimal({ species: 'deer', position: { x: 100, y: 100 }, initialHunger: 80 }, config, deerIdGen);
+      const mate = createAnimal(
+        { species: 'deer', position: { x: 101, y: 100 }, initialHunger: 80, subspecies: 'deer-2' },
+        config,
+        deerIdGen
+      );
+      for (const a of [deer, mate]) {
+        a.state.age = 100;
+        a.state.ticksSinceLastReproduction = 200;
+      }
+
+      const grid = createVegetationGrid(1000, 800, 5);
+
+      for (let i = 0; i < 100; i++) {
+        const action = makeDecision({
+          animal: deer,
+          nearbyAnimals: [mate],
+          corpses: [],
+          vegetationGrid: grid,
+          config,
+          rng: createSeededRandom(i),
+        });
+        expect(action.type).not.toBe('REPRODUCE');
+        expect(action.type).not.toBe('MOVE_TO_MATE');
+      }
+    });
+
+    it('never reproduces alone in sexual mode', () => {
+      config.reproduction.REPRODUCTION_MODE = 1;
+      const deer = createAnimal({ species: 'deer', position: { x: 100, y: 100 }, initialHunger: 80 }, config, deerIdGen);
+      deer.state.age = 100;
+      deer.state.ticksSinceLastReproduction = 200;
+
+      const grid = createVegetationGrid(1000, 800, 5);
+
+      for (let i = 0; i < 100; i++) {
+        const action = makeDecision({
+          animal: deer,
+          nearbyAnimals: [],
+          corpses: [],
+          vegetationGrid: grid,
+          config,
+          rng: createSeededRandom(i),
+        });
+        expect(action.type).not.toBe('REPRODUCE');
+      }
+    });
+
     it('returns STAY when nothing else to do', () => {
       const deer = createAnimal(
         { species: 'deer', position: { x: 500, y: 400 }, initialHunger: 100 },
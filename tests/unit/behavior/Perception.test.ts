@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPerception, inspectPerception } from '../../../src/behavior/Perception';
+import { createWorld, animalToSpatialEntity, corpseToSpatialEntity } from '../../../src/core/World';
+import type { World } from '../../../src/core/World';
+import { createAnimal, updateAnimalState } from '../../../src/entities/Animal';
+import { createCorpseFromAnimal } from '../../../src/entities/Corpse';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
+import type { Animal, Species } from '../../../src/entities/types';
+
+describe('Perception', () => {
+  let world: World;
+
+  beforeEach(() => {
+    const config = getDefaultConfig();
+    config.world.WORLD_WIDTH = 1000;
+    config.world.WORLD_HEIGHT = 1000;
+    config.performance.SPATIAL_INDEX_BUCKET_SIZE = 50;
+    world = createWorld(config, 1);
+  });
+
+  function addAnimal(species: Species, x: number, y: number): Animal {
+    const animal = createAnimal({ species, position: { x, y } }, world.config, world.speciesIdGens[species]);
+    world.entityManager.addAnimal(animal);
+    world.animalSpatialIndex.insert(animalToSpatialEntity(animal));
+    return animal;
+  }
+
+  it('finds living animals within alert range, excluding the observer', () => {
+    const deer = addAnimal('deer', 500, 500);
+    const range = deer.derivedStats.alertRange;
+    const near = addAnimal('wolf', 500 + range - 1, 500);
+    addAnimal('wolf', 500 + range + 1, 500);
+
+    const nearby = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex)
+      .getNearbyAnimals(deer);
+
+    expect(nearby.map(a => a.id)).toEqual([near.id]);
+  });
+
+  it('returns neighbors in entity order regardless of index buckets', () => {
+    const center = addAnimal('deer', 500, 500);
+    // The index scans its buckets as north, west, east
+    const east = addAnimal('deer', 540, 500);
+    const west = addAnimal('deer', 460, 500);
+    const north = addAnimal('deer', 500, 460);
+
+    const nearby = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex)
+      .getNearbyAnimals(center);
+
+    expect(nearby.map(a => a.id)).toEqual([east.id, west.id, north.id]);
+  });
+
+  it('reads current state rather than the index copy', () => {
+    const deer = addAnimal('deer', 500, 500);
+    const wolf = addAnimal('wolf', 510, 500);
+    world.entityManager.updateAnimal(wolf.id, updateAnimalState(wolf, { hunger: 1 }));
+
+    const [seen] = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex)
+      .getNearbyAnimals(deer);
+
+    expect(seen.state.hunger).toBe(1);
+  });
+
+  it('ignores animals that have died', () => {
+    const deer = addAnimal('deer', 500, 500);
+    const wolf = addAnimal('wolf', 510, 500);
+    world.entityManager.updateAnimal(wolf.id, updateAnimalState(wolf, { isDead: true }));
+
+    const nearby = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex)
+      .getNearbyAnimals(deer);
+
+    expect(nearby).toEqual([]);
+  });
+
+  it('finds corpses within alert range through the corpse index', () => {
+    const wolf = addAnimal('wolf', 500, 500);
+    const corpseIdGen = createIdGenerator('corpse');
+    const range = wolf.derivedStats.alertRange;
+    const source = createAnimal({ species: 'deer', position: { x: 500, y: 500 + range - 1 } }, world.config, createIdGenerator('x'));
+    const far = createAnimal({ species: 'deer', position: { x: 500, y: 500 + range + 5 } }, world.config, createIdGenerator('y'));
+    for (const animal of [source, far]) {
+      const corpse = createCorpseFromAnimal(animal, world.config, corpseIdGen);
+      world.entityManager.addCorpse(corpse);
+      world.corpseSpatialIndex.insert(corpseToSpatialEntity(corpse));
+    }
+
+    const corpses = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex)
+      .getNearbyCorpses(wolf);
+
+    expect(corpses.map(c => c.id)).toEqual(['corpse_1']);
+  });
+
+  it('summarizes the threats and food target behind a decision', () => {
+    world.vegetationGrid.clear();
+    const deer = addAnimal('deer', 500, 500);
+    world.entityManager.updateAnimal(deer.id, { ...deer, behavioralAttributes: { ...deer.behavioralAttributes, flightInstinct: 1 } });
+    const near = addAnimal('wolf', 520, 500);
+    const far = addAnimal('wolf', 470, 500);
+    const tile = world.vegetationGrid.worldToGrid(510, 510);
+    world.vegetationGrid.setBiomass(tile.x, tile.y, 1);
+
+    const perception = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex);
+    const food = world.vegetationGrid.gridToWorld(tile.x, tile.y);
+    const summary = inspectPerception(
+      world.entityManager.getAnimal(deer.id)!,
+      perception,
+      { type: 'MOVE_TO_FOOD', targetPosition: food, details: 'vegetation' }
+    );
+
+    expect(summary.threats.map(t => [t.id, t.position])).toEqual([
+      [near.id, { x: 520, y: 500 }],
+      [far.id, { x: 470, y: 500 }],
+    ]);
+    expect(summary.foodTarget).toMatchObject({ type: 'vegetation', position: food });
+  });
+
+  it('takes the food target from the recorded decision', () => {
+    const wolf = addAnimal('wolf', 500, 500);
+    const deer = addAnimal('deer', 530, 500);
+    const perception = createPerception(world.entityManager, world.animalSpatialIndex, world.corpseSpatialIndex);
+
+    const hunting = inspectPerception(wolf, perception, {
+      type: 'MOVE_TO_FOOD', targetId: deer.id, targetPosition: { x: 530, y: 500 }, details: 'prey',
+    });
+    expect(hunting.foodTarget).toEqual({ type: 'prey', targetId: deer.id, position: { x: 530, y: 500 }, distance: 30 });
+    expect(inspectPerception(wolf, perception, { type: 'DRIFT', targetPosition: { x: 600, y: 500 } }).foodTarget).toBeNull();
+    expect(inspectPerception(wolf, perception, undefined).foodTarget).toBeNull();
+  });
+});
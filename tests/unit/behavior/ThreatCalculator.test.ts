@@ -212,6 +212,23 @@ describe('ThreatCalculator', () => {
       expect(threats[0].distance).toBeCloseTo(10);
       expect(threats[0].perceivedThreat).toBeGreaterThan(0);
     });
+
+    it('ignores aggressive animals that do not hunt our species', () => {
+      const deer = createAnimal(
+        { species: 'deer', position: { x: 100, y: 100 } },
+        config,
+        deerIdGen
+      );
+      const wolf = createAnimal(
+        { species: 'wolf', position: { x: 110, y: 100 } },
+        config,
+        wolfIdGen
+      );
+      wolf.diet.prey = [];
+
+      expect(isThreatening(deer, wolf)).toBe(true);
+      expect(findThreats(deer, [wolf])).toHaveLength(0);
+    });
   });
 
   describe('calculateFleeVector', () => {
@@ -8,14 +8,19 @@ describe('Config defaults', () => {
       expect(config).toBeDefined();
       expect(config.world).toBeDefined();
       expect(config.vegetation).toBeDefined();
+      expect(config.terrain).toBeDefined();
+      expect(config.seasons).toBeDefined();
       expect(config.entities).toBeDefined();
       expect(config.derivedStats).toBeDefined();
       expect(config.movement).toBeDefined();
       expect(config.reproduction).toBeDefined();
       expect(config.evolution).toBeDefined();
       expect(config.corpse).toBeDefined();
+      expect(config.combat).toBeDefined();
+      expect(config.stamina).toBeDefined();
       expect(config.performance).toBeDefined();
       expect(config.ui).toBeDefined();
+      expect(config.replay).toBeDefined();
     });
 
     it('returns a new object each call (not shared reference)', () => {
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { exportConfig, importConfig } from '../../../src/config/persistence';
+import { getDefaultConfig } from '../../../src/config/defaults';
+
+describe('Config persistence', () => {
+  it('round-trips an exported config', () => {
+    const config = getDefaultConfig();
+    config.species.wolf.initialCount = 7;
+
+    const result = importConfig(exportConfig(config, 'Wolves'));
+
+    expect(result.success).toBe(true);
+    expect(result.config!.species).toEqual(config.species);
+    expect(result.name).toBe('Wolves');
+  });
+
+  it('keeps removed built-in species removed', () => {
+    const config = getDefaultConfig();
+    config.species.rabbit = { ...config.species.deer, name: 'Rabbit' };
+    delete config.species.deer;
+
+    const result = importConfig(exportConfig(config));
+
+    expect(Object.keys(result.config!.species)).toEqual(['wolf', 'rabbit']);
+  });
+
+  it('moves the initial counts of configs from before the species registry', () => {
+    const { species: _species, ...config } = getDefaultConfig();
+    const file = {
+      version: '1.0',
+      name: 'Old',
+      description: '',
+      config: { ...config, world: { ...config.world, INITIAL_DEER_COUNT: 30, INITIAL_WOLF_COUNT: 2 } },
+      exportedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    const result = importConfig(JSON.stringify(file));
+
+    expect(result.success).toBe(true);
+    expect(result.config!.species.deer.initialCount).toBe(30);
+    expect(result.config!.species.wolf.initialCount).toBe(2);
+    expect(result.config!.world).not.toHaveProperty('INITIAL_DEER_COUNT');
+    expect(result.config!.world).not.toHaveProperty('INITIAL_WOLF_COUNT');
+    expect(result.warnings).toContain('Moved INITIAL_DEER_COUNT and INITIAL_WOLF_COUNT to the deer and wolf initial counts');
+  });
+});
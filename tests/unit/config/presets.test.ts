@@ -24,7 +24,7 @@ describe('Config presets', () => {
       const preset = getPresetConfig('peaceful');
       expect(preset.derivedStats?.BASE_DECAY).toBe(0.2);
       expect(preset.vegetation?.VEGETATION_SPREAD_RATE).toBe(0.1);
-      expect(preset.world?.INITIAL_WOLF_COUNT).toBe(0);
+      expect(preset.species?.wolf?.initialCount).toBe(0);
       expect(preset.reproduction?.REPRODUCTION_COOLDOWN).toBe(50);
     });
 
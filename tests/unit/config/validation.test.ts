@@ -73,10 +73,23 @@ describe('Config validation', () => {
       expect(total).toBeLessThanOrEqual(0.95);
     });
 
+    it('scales terrain coverage down to leave grassland', () => {
+      const config = getDefaultConfig();
+      config.terrain.FOREST_COVERAGE = 0.6;
+      config.terrain.WATER_COVERAGE = 0.4;
+      config.terrain.ROCK_COVERAGE = 0.2;
+
+      const result = validateConfig(config);
+      expect(result.warnings).toContain('Terrain coverage exceeds 0.8, clamping proportionally');
+      const { FOREST_COVERAGE, WATER_COVERAGE, ROCK_COVERAGE } = result.clampedConfig.terrain;
+      expect(FOREST_COVERAGE + WATER_COVERAGE + ROCK_COVERAGE).toBeCloseTo(0.8);
+      expect(FOREST_COVERAGE).toBeCloseTo(0.4);
+    });
+
     it('warns when initial populations exceed MAX_ENTITIES', () => {
       const config = getDefaultConfig();
-      config.world.INITIAL_DEER_COUNT = 1500;
-      config.world.INITIAL_WOLF_COUNT = 1500;
+      config.species.deer.initialCount = 1500;
+      config.species.wolf.initialCount = 1500;
       config.performance.MAX_ENTITIES = 2000;
 
       const result = validateConfig(config);
@@ -93,6 +106,54 @@ describe('Config validation', () => {
     });
   });
 
+  describe('species', () => {
+    it('clamps species initial counts', () => {
+      const config = getDefaultConfig();
+      config.species.deer.initialCount = -5;
+
+      const result = validateConfig(config);
+      expect(result.clampedConfig.species.deer.initialCount).toBe(0);
+      expect(result.warnings).toContain('species.deer.initialCount value -5 clamped to 0 (range: 0-500)');
+    });
+
+    it('warns when a species hunts an unregistered species', () => {
+      const config = getDefaultConfig();
+      config.species.wolf.diet.prey = ['deer', 'rabbit'];
+
+      const result = validateConfig(config);
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('species.wolf hunts unknown species "rabbit"');
+    });
+
+    it('rejects species ids that cannot form entity ids', () => {
+      const config = getDefaultConfig();
+      config.species['red_fox'] = { ...config.species.wolf };
+
+      const result = validateConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('red_fox');
+    });
+
+    it('reports malformed species instead of throwing', () => {
+      const config = getDefaultConfig();
+      const { diet: _diet, ...withoutDiet } = config.species.wolf;
+      (config.species as Record<string, unknown>).wolf = withoutDiet;
+      (config.species.deer.baseAttributes as unknown as Record<string, unknown>).size = 'large';
+
+      const result = validateConfig(config);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('species.wolf.diet must be an object');
+      expect(result.errors).toContain('species.deer.baseAttributes.size must be a number');
+    });
+
+    it('requires at least one species', () => {
+      const config = getDefaultConfig();
+      config.species = {};
+
+      expect(validateConfig(config).valid).toBe(false);
+    });
+  });
+
   describe('mergeWithDefaults', () => {
     it('returns full config when given empty partial', () => {
       const result = mergeWithDefaults({});
@@ -123,5 +184,30 @@ describe('Config validation', () => {
       expect(result.evolution.BEHAVIORAL_MUTATION_RATE).toBe(defaults.evolution.BEHAVIORAL_MUTATION_RATE);
       expect(result.vegetation.VEGETATION_FOOD_VALUE).toBe(30);
     });
+
+    it('merges supplied species over the defaults one by one', () => {
+      const rabbit = { ...getDefaultConfig().species.deer, name: 'Rabbit' };
+      const result = mergeWithDefaults({ species: { rabbit } });
+
+      expect(Object.keys(result.species)).toEqual(['deer', 'wolf', 'rabbit']);
+      expect(result.species.rabbit.name).toBe('Rabbit');
+    });
+
+    it('removes species set to null', () => {
+      const rabbit = { ...getDefaultConfig().species.deer, name: 'Rabbit' };
+      const result = mergeWithDefaults({ species: { deer: null, wolf: null, rabbit } });
+
+      expect(Object.keys(result.species)).toEqual(['rabbit']);
+    });
+
+    it('replaces arrays instead of merging them', () => {
+      const result = mergeWithDefaults({
+        species: { wolf: { diet: { prey: [] } } } as any,
+      });
+
+      expect(result.species.wolf.diet.prey).toEqual([]);
+      expect(result.species.wolf.diet.canEatAnimals).toBe(true);
+      expect(result.species.deer).toEqual(getDefaultConfig().species.deer);
+    });
   });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, animalToSpatialEntity } from '../../../src/core/World';
+import type { World } from '../../../src/core/World';
+import { executeExecutionPhase, createTickContext } from '../../../src/core/TickLoop';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { Action } from '../../../src/behavior/types';
+import type { Animal } from '../../../src/entities/types';
+
+function createDuelWorld(): { world: World; wolf: Animal; deer: Animal } {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 100;
+  config.world.WORLD_HEIGHT = 100;
+  config.vegetation.INITIAL_VEGETATION_DENSITY = 0;
+  config.vegetation.VEGETATION_SPREAD_RATE = 0;
+
+  const world = createWorld(config, 1);
+  const wolf = createAnimal({ species: 'wolf', position: { x: 50, y: 50 }, initialHunger: 40 }, config, world.speciesIdGens.wolf);
+  const deer = createAnimal({ species: 'deer', position: { x: 52, y: 50 }, initialHunger: 40 }, config, world.speciesIdGens.deer);
+  for (const animal of [wolf, deer]) {
+    world.entityManager.addAnimal(animal);
+    world.animalSpatialIndex.insert(animalToSpatialEntity(animal));
+  }
+  return { world, wolf, deer };
+}
+
+function attack(world: World, wolf: Animal, deer: Animal) {
+  const decisions = new Map<string, Action>([
+    [wolf.id, { type: 'ATTACK', targetId: deer.id }],
+    [deer.id, { type: 'STAY' }],
+  ]);
+  return executeExecutionPhase(createTickContext(world), decisions);
+}
+
+describe('Combat', () => {
+  it('wounds prey that survives a hit', () => {
+    const { world, wolf, deer } = createDuelWorld();
+
+    const result = attack(world, wolf, deer);
+
+    const wounded = world.getAnimal(deer.id)!;
+    expect(result.deaths).toEqual([]);
+    expect(wounded.state.isDead).toBe(false);
+    expect(wounded.state.health).toBeCloseTo(
+      deer.derivedStats.maxHealth - (wolf.derivedStats.attackPower - deer.derivedStats.defense)
+    );
+  });
+
+  it('kills prey over several hits and feeds the predator', () => {
+    const { world, wolf, deer } = createDuelWorld();
+
+    let hits = 0;
+    let deaths: string[] = [];
+    while (deaths.length === 0 && hits < 10) {
+      deaths = attack(world, wolf, deer).deaths;
+      hits++;
+    }
+
+    expect(hits).toBeGreaterThan(1);
+    expect(deaths).toEqual([deer.id]);
+    expect(world.getAllCorpses()).toHaveLength(1);
+    expect(world.getAnimal(wolf.id)!.state.hunger).toBeGreaterThan(40);
+  });
+
+  it('records the predator as the killer', () => {
+    const { world, wolf, deer } = createDuelWorld();
+
+    let result = attack(world, wolf, deer);
+    while (result.deaths.length === 0) {
+      result = attack(world, wolf, deer);
+    }
+
+    expect(result.deathRecords).toEqual([
+      expect.objectContaining({ animalId: deer.id, species: 'deer', cause: 'predation', killerId: wolf.id }),
+    ]);
+  });
+
+  it('records the cause chosen by animals that die', () => {
+    const { world, wolf, deer } = createDuelWorld();
+    const decisions = new Map<string, Action>([
+      [deer.id, { type: 'DIE', details: 'old age' }],
+      [wolf.id, { type: 'STAY' }],
+    ]);
+
+    const result = executeExecutionPhase(createTickContext(world), decisions);
+
+    expect(result.deathRecords).toEqual([
+      { animalId: deer.id, species: 'deer', generation: 0, tick: 0, age: deer.state.age, cause: 'old age', killerId: null },
+    ]);
+  });
+
+  it('weak attackers still deal minimum damage', () => {
+    const { world, wolf, deer } = createDuelWorld();
+
+    attack(world, deer, wolf);
+
+    const target = world.getAnimal(wolf.id)!;
+    expect(target.state.health).toBeCloseTo(wolf.derivedStats.maxHealth - world.config.combat.MIN_DAMAGE);
+  });
+});
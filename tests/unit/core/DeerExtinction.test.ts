@@ -21,22 +21,22 @@ describe('Deer Population Sustainability', () => {
     config.world.WORLD_HEIGHT = 50;
 
     // No predators - deer should thrive
-    config.world.INITIAL_WOLF_COUNT = 0;
+    config.species.wolf.initialCount = 0;
 
     // Start with small population
-    config.world.INITIAL_DEER_COUNT = 3;
+    config.species.deer.initialCount = 3;
 
     // Default vegetation settings provide adequate food
 
     const simulation = createSimulation(config, 12345);
-    const initialDeerCount = simulation.world.getDeerCount();
+    const initialDeerCount = simulation.world.getSpeciesCount('deer');
 
     // Run simulation for 200 ticks to test reproduction behavior
     for (let i = 0; i < 200; i++) {
       simulation.step();
     }
 
-    const finalDeerCount = simulation.world.getDeerCount();
+    const finalDeerCount = simulation.world.getSpeciesCount('deer');
 
     // With no predators and adequate food, population should be sustainable
     // At minimum, some deer should survive across generations
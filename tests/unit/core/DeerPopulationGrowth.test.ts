@@ -24,9 +24,14 @@ describe('Deer Population Growth', () => {
     // Fully vegetated
     config.vegetation.INITIAL_VEGETATION_DENSITY = 1.0;
 
+    // Plain grassland so every tile can grow food
+    config.terrain.FOREST_COVERAGE = 0;
+    config.terrain.WATER_COVERAGE = 0;
+    config.terrain.ROCK_COVERAGE = 0;
+
     // No initial animals - we'll add one deer manually
-    config.world.INITIAL_DEER_COUNT = 0;
-    config.world.INITIAL_WOLF_COUNT = 0;
+    config.species.deer.initialCount = 0;
+    config.species.wolf.initialCount = 0;
 
     const seed = 42;
     const simulation = createSimulation(config, seed);
@@ -39,7 +44,7 @@ describe('Deer Population Growth', () => {
         position: { x: 25, y: 25 }, // Center of 50x50 world
       },
       config,
-      simulation.world.deerIdGen
+      simulation.world.speciesIdGens.deer
     );
 
     // Add deer to the world
@@ -50,14 +55,14 @@ describe('Deer Population Growth', () => {
       size: deer.baseAttributes.size,
     });
 
-    expect(simulation.world.getDeerCount()).toBe(1);
+    expect(simulation.world.getSpeciesCount('deer')).toBe(1);
 
     // Run simulation for 200 ticks (enough for ~2 reproduction cycles)
     for (let i = 0; i < 200; i++) {
       simulation.step();
     }
 
-    const finalDeerCount = simulation.world.getDeerCount();
+    const finalDeerCount = simulation.world.getSpeciesCount('deer');
 
     // With abundant food and no predators, population should grow
     // At 200 ticks: original deer reproduces at ~tick 10, offspring at ~110
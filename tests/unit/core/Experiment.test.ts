@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExperiment,
+  expandExperiment,
+  buildCellConfig,
+  runExperiment,
+  experimentResultsToCSV,
+  type ExperimentDefinition,
+} from '../../../src/core/Experiment';
+import { runHeadless } from '../../../src/core/HeadlessRunner';
+
+const SMALL_WORLD = {
+  world: { WORLD_WIDTH: 500, WORLD_HEIGHT: 400 },
+  species: { deer: { initialCount: 4 }, wolf: { initialCount: 1 } },
+};
+
+function parse(definition: object): ExperimentDefinition {
+  const result = parseExperiment(JSON.stringify(definition));
+  expect(result.errors).toEqual([]);
+  return result.definition!;
+}
+
+describe('Experiment', () => {
+  it('fills in defaults and validates parameter keys', () => {
+    const definition = parse({ parameters: [{ key: 'evolution.BASE_MUTATION_RATE' }] });
+    expect(definition.sampling).toBe('grid');
+    expect(definition.seedsPerCell).toBe(1);
+    expect(definition.stop).toEqual({ maxTicks: 10000, extinction: 'all' });
+    expect(definition.parameters[0]).toMatchObject({ min: 0, max: 0.3, steps: 3 });
+
+    const invalid = parseExperiment(JSON.stringify({
+      parameters: [{ key: 'evolution.NOT_A_KEY' }, { key: 'world.WORLD_WIDTH', min: 900, max: 600 }],
+      stop: { maxTicks: 0, extinction: 'sometimes' },
+    }));
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors).toHaveLength(4);
+  });
+
+  it('expands grid sampling into the cartesian product of the parameter values', () => {
+    const cells = expandExperiment(parse({
+      parameters: [
+        { key: 'evolution.BASE_MUTATION_RATE', min: 0.1, max: 0.3, steps: 3 },
+        { key: 'species.wolf.initialCount', values: [2, 5] },
+      ],
+    }));
+
+    expect(cells.map(c => c.values)).toEqual([
+      { 'evolution.BASE_MUTATION_RATE': 0.1, 'species.wolf.initialCount': 2 },
+      { 'evolution.BASE_MUTATION_RATE': 0.1, 'species.wolf.initialCount': 5 },
+      { 'evolution.BASE_MUTATION_RATE': 0.2, 'species.wolf.initialCount': 2 },
+      { 'evolution.BASE_MUTATION_RATE': 0.2, 'species.wolf.initialCount': 5 },
+      { 'evolution.BASE_MUTATION_RATE': 0.3, 'species.wolf.initialCount': 2 },
+      { 'evolution.BASE_MUTATION_RATE': 0.3, 'species.wolf.initialCount': 5 },
+    ]);
+  });
+
+  it('draws reproducible random samples within range at the metadata precision', () => {
+    const definition = parse({
+      sampling: 'random',
+      samples: 20,
+      samplingSeed: 99,
+      parameters: [{ key: 'world.WORLD_WIDTH' }, { key: 'vegetation.VEGETATION_SPREAD_RATE' }],
+    });
+
+    const cells = expandExperiment(definition);
+    expect(cells).toHaveLength(20);
+    expect(expandExperiment(definition)).toEqual(cells);
+    for (const { values } of cells) {
+      expect(values['world.WORLD_WIDTH']).toBeGreaterThanOrEqual(500);
+      expect(values['world.WORLD_WIDTH']).toBeLessThanOrEqual(5000);
+      expect(Number.isInteger(values['world.WORLD_WIDTH'])).toBe(true);
+    }
+  });
+
+  it('applies cell values on top of the base config', () => {
+    const definition = parse({
+      baseConfig: SMALL_WORLD,
+      parameters: [{ key: 'species.deer.initialCount', values: [7] }, { key: 'corpse.CORPSE_DECAY_TICKS', values: [50] }],
+    });
+
+    const config = buildCellConfig(definition, expandExperiment(definition)[0]);
+    expect(config.world.WORLD_WIDTH).toBe(500);
+    expect(config.species.deer.initialCount).toBe(7);
+    expect(config.species.wolf.initialCount).toBe(1);
+    expect(config.corpse.CORPSE_DECAY_TICKS).toBe(50);
+  });
+
+  it('runs every cell for each seed and matches a plain headless run', () => {
+    const definition = parse({
+      baseConfig: SMALL_WORLD,
+      parameters: [{ key: 'species.deer.initialCount', values: [3, 6] }],
+      seedsPerCell: 2,
+      firstSeed: 10,
+      stop: { maxTicks: 20, extinction: 'none' },
+    });
+    const progress: number[] = [];
+
+    const results = runExperiment(definition, { onRun: (_result, completed) => progress.push(completed) });
+
+    expect(results.map(r => [r.cell, r.seed])).toEqual([[0, 10], [0, 11], [1, 10], [1, 11]]);
+    expect(progress).toEqual([1, 2, 3, 4]);
+    expect(results.every(r => r.ticksRun === 20 && r.stopReason === 'tickLimit')).toBe(true);
+
+    const expected = runHeadless({ config: buildCellConfig(definition, expandExperiment(definition)[1]), seed: 11, ticks: 20 });
+    expect(results[3].finalSpeciesCounts).toEqual(expected.finalSpeciesCounts);
+    expect(results[3].traitMeans.deer['baseAttributes.size']).toBeGreaterThan(0);
+  });
+
+  it('stops a run once a starting species dies out', () => {
+    const definition = parse({
+      baseConfig: { ...SMALL_WORLD, species: { deer: { initialCount: 0 }, wolf: { initialCount: 1 } } },
+      parameters: [{ key: 'corpse.CORPSE_DECAY_TICKS', values: [50] }],
+      stop: { maxTicks: 5000, extinction: 'any' },
+    });
+
+    const [result] = runExperiment(definition);
+
+    expect(result.stopReason).toBe('extinction');
+    expect(result.ticksRun).toBe(result.extinctionTicks.wolf);
+    expect(result.traitMeans).toEqual({});
+  });
+
+  it('writes one CSV row per run with parameter, count and trait columns', () => {
+    const definition = parse({
+      baseConfig: SMALL_WORLD,
+      parameters: [{ key: 'species.wolf.initialCount', values: [1, 2] }],
+      stop: { maxTicks: 5 },
+    });
+
+    const lines = experimentResultsToCSV(runExperiment(definition)).split('\n');
+    const header = lines[0].split(',');
+
+    expect(lines).toHaveLength(3);
+    expect(header.slice(0, 4)).toEqual(['cell', 'seed', 'species.wolf.initialCount', 'ticks_run']);
+    expect(header).toContain('wolf_extinction_tick');
+    expect(header).toContain('deer_mean_agility');
+    expect(lines[2].split(',')).toHaveLength(header.length);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { runHeadless, isTotalExtinction } from '../../../src/core/HeadlessRunner';
+import { createSimulation } from '../../../src/core/Simulation';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { SimulationConfig } from '../../../src/config/types';
+
+function createSmallConfig(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 60;
+  config.world.WORLD_HEIGHT = 60;
+  config.species.deer.initialCount = 4;
+  config.species.wolf.initialCount = 1;
+  return config;
+}
+
+describe('HeadlessRunner', () => {
+  it('runs the requested number of ticks and reports each one', () => {
+    const ticks: number[] = [];
+
+    const summary = runHeadless({
+      config: createSmallConfig(),
+      seed: 42,
+      ticks: 30,
+      onTick: (sample) => ticks.push(sample.tick),
+    });
+
+    expect(summary.ticksRun).toBe(30);
+    expect(summary.stoppedEarly).toBe(false);
+    expect(ticks).toEqual(Array.from({ length: 30 }, (_, i) => i + 1));
+  });
+
+  it('matches a stepped Simulation with the same seed', () => {
+    const config = createSmallConfig();
+    const samples: Array<{ species: Record<string, number>; vegetation: number }> = [];
+
+    runHeadless({
+      config,
+      seed: 1234,
+      ticks: 40,
+      onTick: (sample) => samples.push({
+        species: sample.speciesCounts,
+        vegetation: sample.vegetationCount,
+      }),
+    });
+
+    const simulation = createSimulation(createSmallConfig(), 1234);
+    const expected: typeof samples = [];
+    simulation.on('tick', (data) => {
+      expected.push({ species: data.speciesCounts, vegetation: data.vegetationCount });
+    });
+    for (let i = 0; i < 40; i++) {
+      simulation.step();
+    }
+
+    expect(samples).toEqual(expected);
+  });
+
+  it('stops early when the stop condition is met', () => {
+    const config = createSmallConfig();
+    config.species.deer.initialCount = 0;
+    config.species.wolf.initialCount = 0;
+
+    const summary = runHeadless({
+      config,
+      seed: 7,
+      ticks: 100,
+      stopWhen: isTotalExtinction,
+    });
+
+    expect(summary.ticksRun).toBe(1);
+    expect(summary.stoppedEarly).toBe(true);
+  });
+
+  it('records the tick a species goes extinct', () => {
+    const config = createSmallConfig();
+    config.species.wolf.initialCount = 0;
+    config.vegetation.INITIAL_VEGETATION_DENSITY = 0;
+    config.vegetation.VEGETATION_SPREAD_RATE = 0;
+
+    const summary = runHeadless({ config, seed: 99, ticks: 1000, stopWhen: isTotalExtinction });
+
+    expect(summary.finalSpeciesCounts).toEqual({ deer: 0, wolf: 0 });
+    expect(summary.extinctionTicks.deer).toBe(summary.ticksRun);
+    expect(summary.extinctionTicks.wolf).toBeNull();
+    expect(summary.totalDeaths).toBeGreaterThanOrEqual(4);
+  });
+
+  it('reports mortality by cause', () => {
+    const config = createSmallConfig();
+    config.species.wolf.initialCount = 0;
+    config.vegetation.INITIAL_VEGETATION_DENSITY = 0;
+    config.vegetation.VEGETATION_SPREAD_RATE = 0;
+
+    const summary = runHeadless({ config, seed: 99, ticks: 1000, stopWhen: isTotalExtinction });
+
+    const [deer] = summary.mortalityBySpecies;
+    expect(deer.species).toBe('deer');
+    expect(deer.deaths).toBe(summary.totalDeaths);
+    expect(deer.causes.starvation).toBeGreaterThan(0);
+    expect(deer.causes.predation).toBe(0);
+    expect(summary.mortalityByGeneration[0].generation).toBe(0);
+  });
+});
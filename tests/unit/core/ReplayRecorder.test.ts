@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { createReplayRecorder } from '../../../src/core/ReplayRecorder';
+import { createWorld, initializePopulation } from '../../../src/core/World';
+import type { World } from '../../../src/core/World';
+import { runTick, createTickContext } from '../../../src/core/TickLoop';
+import { serializeWorld } from '../../../src/core/WorldSnapshot';
+import { createSimulation } from '../../../src/core/Simulation';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { SimulationConfig } from '../../../src/config/types';
+
+function createSmallConfig(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 80;
+  config.world.WORLD_HEIGHT = 80;
+  config.species.deer.initialCount = 6;
+  config.species.wolf.initialCount = 2;
+  config.replay.KEYFRAME_INTERVAL = 10;
+  config.replay.MAX_KEYFRAMES = 5;
+  return config;
+}
+
+function stateOf(world: World): string {
+  const { config: _config, ...rest } = serializeWorld(world);
+  return JSON.stringify(rest);
+}
+
+describe('ReplayRecorder', () => {
+  function recordRun(ticks: number): { world: World; states: Map<number, string>; recorder: ReturnType<typeof createReplayRecorder> } {
+    const config = createSmallConfig();
+    const world = createWorld(config, 2024);
+    initializePopulation(world);
+    const recorder = createReplayRecorder(config.replay);
+    const states = new Map<number, string>();
+
+    recorder.recordKeyframe(world);
+    states.set(0, stateOf(world));
+    for (let i = 0; i < ticks; i++) {
+      const result = runTick(createTickContext(world));
+      world.currentTick++;
+      recorder.recordTick(world, result);
+      states.set(world.currentTick, stateOf(world));
+    }
+
+    return { world, states, recorder };
+  }
+
+  it('records a keyframe every interval', () => {
+    const { recorder } = recordRun(25);
+
+    expect(recorder.getKeyframeCount()).toBe(3);
+    expect(recorder.getStartTick()).toBe(0);
+    expect(recorder.getEndTick()).toBe(25);
+  });
+
+  it('records a delta for every tick', () => {
+    const { recorder, world } = recordRun(12);
+
+    const delta = recorder.getDelta(12);
+    expect(delta).toBeDefined();
+    expect(delta!.speciesCounts).toEqual(world.getSpeciesCounts());
+    expect(recorder.getDeltas(1, 12)).toHaveLength(12);
+  });
+
+  it('reconstructs any recorded tick exactly', () => {
+    const { recorder, states } = recordRun(25);
+
+    for (const tick of [0, 7, 10, 19, 25]) {
+      const world = recorder.reconstruct(tick);
+      expect(world).not.toBeNull();
+      expect(stateOf(world!)).toBe(states.get(tick));
+    }
+  });
+
+  it('returns null outside the recorded range', () => {
+    const { recorder } = recordRun(5);
+
+    expect(recorder.reconstruct(6)).toBeNull();
+    expect(recorder.reconstruct(-1)).toBeNull();
+  });
+
+  it('bounds memory by discarding the oldest keyframes', () => {
+    const { recorder, states } = recordRun(75);
+
+    expect(recorder.getKeyframeCount()).toBe(5);
+    expect(recorder.getStartTick()).toBe(30);
+    expect(recorder.getDelta(30)).toBeUndefined();
+    expect(recorder.getDelta(31)).toBeDefined();
+    expect(recorder.reconstruct(20)).toBeNull();
+    expect(stateOf(recorder.reconstruct(42)!)).toBe(states.get(42));
+  });
+
+  it('truncates keyframes and deltas after a tick', () => {
+    const { recorder } = recordRun(25);
+
+    recorder.truncateAfter(15);
+
+    expect(recorder.getEndTick()).toBe(15);
+    expect(recorder.getKeyframeCount()).toBe(2);
+  });
+});
+
+describe('Simulation replay', () => {
+  it('seeks back to an earlier tick and replays the same future', () => {
+    const config = createSmallConfig();
+    const simulation = createSimulation(config, 99);
+    simulation.setReplayRecorder(createReplayRecorder(config.replay));
+
+    for (let i = 0; i < 30; i++) simulation.step();
+    const expected = stateOf(simulation.world);
+
+    const seekedTo: number[] = [];
+    simulation.on('seeked', ({ tick }) => seekedTo.push(tick));
+
+    expect(simulation.seek(12)).toBe(true);
+    expect(simulation.currentTick).toBe(12);
+    expect(seekedTo).toEqual([12]);
+
+    for (let i = 0; i < 18; i++) simulation.step();
+    expect(stateOf(simulation.world)).toBe(expected);
+  });
+
+  it('discards the recorded future when resuming from the past', () => {
+    const config = createSmallConfig();
+    const recorder = createReplayRecorder(config.replay);
+    const simulation = createSimulation(config, 5);
+    simulation.setReplayRecorder(recorder);
+
+    for (let i = 0; i < 30; i++) simulation.step();
+    simulation.seek(12);
+    expect(recorder.getEndTick()).toBe(30);
+
+    simulation.step();
+    expect(recorder.getEndTick()).toBe(13);
+  });
+
+  it('cannot seek without a recorder', () => {
+    const simulation = createSimulation(createSmallConfig(), 1);
+    simulation.step();
+
+    expect(simulation.seek(0)).toBe(false);
+  });
+});
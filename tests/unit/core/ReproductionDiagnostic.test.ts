@@ -9,8 +9,8 @@ describe('Reproduction Diagnostic', () => {
 
     config.world.WORLD_WIDTH = 50;
     config.world.WORLD_HEIGHT = 50;
-    config.world.INITIAL_WOLF_COUNT = 0;
-    config.world.INITIAL_DEER_COUNT = 3;
+    config.species.wolf.initialCount = 0;
+    config.species.deer.initialCount = 3;
 
     const simulation = createSimulation(config, 12345);
 
@@ -22,7 +22,7 @@ describe('Reproduction Diagnostic', () => {
       totalBirths++;
     });
 
-    simulation.on('animalDied', ({ cause }) => {
+    simulation.on('animalDied', ({ record: { cause } }) => {
       if (cause === 'starvation') deathsByStarvation++;
       else if (cause === 'old age') deathsByOldAge++;
     });
@@ -37,7 +37,7 @@ describe('Reproduction Diagnostic', () => {
       if (i % 50 === 0) {
         snapshots.push({
           tick: i,
-          count: simulation.world.getDeerCount(),
+          count: simulation.world.getSpeciesCount('deer'),
           births: totalBirths,
           starvation: deathsByStarvation,
           oldAge: deathsByOldAge,
@@ -55,14 +55,14 @@ describe('Reproduction Diagnostic', () => {
     }
 
     console.log('\nFinal stats at tick 200:');
-    console.log('Population:', simulation.world.getDeerCount());
+    console.log('Population:', simulation.world.getSpeciesCount('deer'));
     console.log('Total births:', totalBirths);
     console.log('Deaths by starvation:', deathsByStarvation);
     console.log('Deaths by old age:', deathsByOldAge);
-    console.log('Net population change:', simulation.world.getDeerCount() - 3);
+    console.log('Net population change:', simulation.world.getSpeciesCount('deer') - 3);
 
     // The test: population should survive
-    expect(simulation.world.getDeerCount()).toBeGreaterThan(0);
+    expect(simulation.world.getSpeciesCount('deer')).toBeGreaterThan(0);
   }, 15000);
 
   it('analyzes the extinction mechanism', () => {
@@ -70,8 +70,8 @@ describe('Reproduction Diagnostic', () => {
 
     config.world.WORLD_WIDTH = 50;
     config.world.WORLD_HEIGHT = 50;
-    config.world.INITIAL_WOLF_COUNT = 0;
-    config.world.INITIAL_DEER_COUNT = 3;
+    config.species.wolf.initialCount = 0;
+    config.species.deer.initialCount = 3;
 
     const simulation = createSimulation(config, 12345);
 
@@ -104,13 +104,13 @@ describe('Reproduction Diagnostic', () => {
       }
 
       // Stop early if extinct
-      if (simulation.world.getDeerCount() === 0) {
+      if (simulation.world.getSpeciesCount('deer') === 0) {
         console.log(`\nExtinction at tick ${i}!`);
         break;
       }
     }
 
     // Should survive, but likely won't
-    expect(simulation.world.getDeerCount()).toBeGreaterThan(0);
+    expect(simulation.world.getSpeciesCount('deer')).toBeGreaterThan(0);
   }, 15000);
 });
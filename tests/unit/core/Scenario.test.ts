@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  captureScenario,
+  exportScenario,
+  parseScenario,
+  paintVegetation,
+  eraseVegetation,
+  moveAnimal,
+  removeAnimal,
+  clearWorld,
+  SCENARIO_VERSION,
+} from '../../../src/core/Scenario';
+import { createWorld, initializePopulation, spawnAnimal } from '../../../src/core/World';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { SimulationConfig } from '../../../src/config/types';
+
+function createSmallConfig(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 200;
+  config.world.WORLD_HEIGHT = 200;
+  config.species.deer.initialCount = 6;
+  config.species.wolf.initialCount = 2;
+  return config;
+}
+
+describe('Scenario', () => {
+  it('round-trips a world through JSON into initializePopulation', () => {
+    const world = createWorld(createSmallConfig(), 99);
+    initializePopulation(world);
+    const scenario = captureScenario(world, 'Test');
+
+    const result = parseScenario(exportScenario(scenario), createSmallConfig());
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+
+    const loaded = createWorld(createSmallConfig(), result.scenario!.seed!);
+    initializePopulation(loaded, result.scenario);
+
+    const summarize = (w: typeof world) => w.getLivingAnimals().map(a => ({
+      species: a.species,
+      position: a.state.position,
+      base: a.baseAttributes,
+      behavioral: a.behavioralAttributes,
+      lifecycle: a.lifecycleAttributes,
+    }));
+    expect(summarize(loaded)).toEqual(summarize(world));
+    expect(loaded.vegetationGrid.getAllPositions()).toEqual(world.vegetationGrid.getAllPositions());
+    expect(loaded.animalSpatialIndex.size()).toBe(world.getLivingAnimals().length);
+  });
+
+  it('spawns only the scenario animals with species defaults for missing attributes', () => {
+    const config = createSmallConfig();
+    const world = createWorld(config, 1);
+    initializePopulation(world, {
+      version: SCENARIO_VERSION,
+      name: 'Pair',
+      vegetation: [],
+      animals: [
+        { species: 'deer', position: { x: 10, y: 20 }, baseAttributes: { agility: 2.5 } },
+        { species: 'wolf', position: { x: 150, y: 150 } },
+      ],
+    });
+
+    const animals = world.getLivingAnimals();
+    expect(animals.map(a => a.species)).toEqual(['deer', 'wolf']);
+    expect(animals[0].baseAttributes.agility).toBe(2.5);
+    expect(animals[0].baseAttributes.size).toBe(config.species.deer.baseAttributes.size);
+    expect(world.vegetationGrid.getCount()).toBe(0);
+  });
+
+  it('skips unknown species and off-grid tiles and clamps out-of-range values', () => {
+    const json = JSON.stringify({
+      version: SCENARIO_VERSION,
+      name: 'Messy',
+      vegetation: [[0, 0, 2], [-1, 0, 1], [1000, 0, 1]],
+      animals: [
+        { species: 'dragon', position: { x: 1, y: 1 } },
+        { species: 'deer' },
+        { species: 'deer', position: { x: -50, y: 500 }, baseAttributes: { agility: 1000, wings: 2 } },
+      ],
+    });
+
+    const result = parseScenario(json, createSmallConfig());
+
+    expect(result.success).toBe(true);
+    expect(result.scenario!.vegetation).toEqual([[0, 0, 1]]);
+    expect(result.scenario!.animals).toHaveLength(1);
+    expect(result.scenario!.animals[0].position).toEqual({ x: 0, y: 200 });
+    expect(result.scenario!.animals[0].baseAttributes!.agility).toBe(20);
+    expect(result.scenario!.animals[0].baseAttributes).not.toHaveProperty('wings');
+    expect(result.warnings.length).toBeGreaterThanOrEqual(5);
+  });
+
+  it('skips tiles in the partial column and row the grid leaves out', () => {
+    const config = createSmallConfig();
+    config.world.WORLD_WIDTH = 212;
+    config.world.WORLD_HEIGHT = 212;
+    const { VEGETATION_TILE_SIZE } = config.world;
+    const last = Math.floor(212 / VEGETATION_TILE_SIZE);
+    const json = JSON.stringify({ version: SCENARIO_VERSION, animals: [], vegetation: [[last - 1, 0, 1], [last, 0, 1], [0, last, 1]] });
+
+    const result = parseScenario(json, config);
+
+    expect(result.scenario!.vegetation).toEqual([[last - 1, 0, 1]]);
+    expect(result.warnings).toContain('Skipped 2 vegetation tiles that are invalid or off the grid');
+  });
+
+  it('keeps maturity below the maximum age', () => {
+    const json = JSON.stringify({
+      version: SCENARIO_VERSION,
+      animals: [{ species: 'deer', position: { x: 10, y: 10 }, lifecycleAttributes: { maxAge: 100, maturityAge: 150 } }],
+    });
+
+    const result = parseScenario(json, createSmallConfig());
+
+    expect(result.scenario!.animals[0].lifecycleAttributes).toEqual({ maxAge: 100, maturityAge: 99 });
+    expect(result.warnings.some(w => w.includes('maturityAge lowered from 150 to 99'))).toBe(true);
+  });
+
+  it('rejects files that are not scenarios', () => {
+    expect(parseScenario('not json', createSmallConfig()).success).toBe(false);
+    expect(parseScenario('{"vegetation": []}', createSmallConfig()).errors).toEqual(['Scenario missing "animals"']);
+  });
+
+  it('paints and erases vegetation within the brush radius', () => {
+    const world = createWorld(createSmallConfig(), 5);
+    clearWorld(world);
+    const grid = world.vegetationGrid;
+    const center = { x: 100, y: 100 };
+
+    paintVegetation(world, center, 30);
+    const painted = grid.getAllPositions();
+    expect(painted.length).toBeGreaterThan(0);
+    for (const p of painted) {
+      const tile = grid.gridToWorld(p.x, p.y);
+      expect(Math.hypot(tile.x - center.x, tile.y - center.y)).toBeLessThanOrEqual(30);
+      expect(grid.getBiomass(p.x, p.y)).toBe(grid.getCapacity(p.x, p.y));
+    }
+
+    eraseVegetation(world, center, 30);
+    expect(grid.getCount()).toBe(0);
+  });
+
+  it('moves and removes animals in the spatial index', () => {
+    const world = createWorld(createSmallConfig(), 5);
+    const animal = spawnAnimal(world, { species: 'deer', position: { x: 20, y: 20 } });
+
+    moveAnimal(world, animal.id, { x: 500, y: 80 });
+    expect(world.getAnimal(animal.id)!.state.position).toEqual({ x: 200, y: 80 });
+    expect(world.animalSpatialIndex.size()).toBe(1);
+
+    removeAnimal(world, animal.id);
+    expect(world.getAnimal(animal.id)).toBeUndefined();
+    expect(world.animalSpatialIndex.size()).toBe(0);
+  });
+});
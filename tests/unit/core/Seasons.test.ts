@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { getSeasonState, getSeasonalModifiers, getSeasonName } from '../../../src/core/Seasons';
+import { createSimulation } from '../../../src/core/Simulation';
+import { createWorld } from '../../../src/core/World';
+import { applyHungerDecay, createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
+import type { SeasonConfig } from '../../../src/config/types';
+import type { Season } from '../../../src/core/Seasons';
+
+const seasons: SeasonConfig = {
+  SEASON_LENGTH: 100,
+  VEGETATION_AMPLITUDE: 0.5,
+  METABOLISM_AMPLITUDE: 0.25,
+};
+
+describe('Seasons', () => {
+  it('advances through the seasons in order', () => {
+    expect(getSeasonState(0, seasons).season).toBe('spring');
+    expect(getSeasonState(99, seasons).season).toBe('spring');
+    expect(getSeasonState(100, seasons).season).toBe('summer');
+    expect(getSeasonState(250, seasons).season).toBe('autumn');
+    expect(getSeasonState(399, seasons).season).toBe('winter');
+  });
+
+  it('wraps into the next year', () => {
+    const state = getSeasonState(425, seasons);
+
+    expect(state.season).toBe('spring');
+    expect(state.year).toBe(1);
+    expect(state.progress).toBeCloseTo(0.25);
+  });
+
+  it('is warmest at midsummer and coldest at midwinter', () => {
+    expect(getSeasonState(150, seasons).warmth).toBeCloseTo(1);
+    expect(getSeasonState(350, seasons).warmth).toBeCloseTo(-1);
+    expect(getSeasonState(50, seasons).warmth).toBeCloseTo(0);
+  });
+
+  it('boosts vegetation and lowers metabolism in summer', () => {
+    const summer = getSeasonalModifiers(150, seasons);
+    const winter = getSeasonalModifiers(350, seasons);
+
+    expect(summer.vegetation).toBeCloseTo(1.5);
+    expect(summer.metabolism).toBeCloseTo(0.75);
+    expect(winter.vegetation).toBeCloseTo(0.5);
+    expect(winter.metabolism).toBeCloseTo(1.25);
+  });
+
+  it('has no effect with zero amplitude', () => {
+    const flat = { ...seasons, VEGETATION_AMPLITUDE: 0, METABOLISM_AMPLITUDE: 0 };
+
+    expect(getSeasonalModifiers(350, flat)).toEqual({ vegetation: 1, metabolism: 1 });
+  });
+
+  it('scales hunger decay by the metabolism multiplier', () => {
+    const config = getDefaultConfig();
+    const deer = createAnimal({ species: 'deer', position: { x: 0, y: 0 }, initialHunger: 50 }, config, createIdGenerator('deer'));
+    const rate = deer.derivedStats.hungerDecayRate;
+
+    expect(applyHungerDecay(deer).state.hunger).toBeCloseTo(50 - rate);
+    expect(applyHungerDecay(deer, 1.25).state.hunger).toBeCloseTo(50 - rate * 1.25);
+  });
+
+  it('formats season names', () => {
+    expect(getSeasonName('autumn')).toBe('Autumn');
+  });
+});
+
+describe('Simulation seasons', () => {
+  it('emits an event on each season change', () => {
+    const config = getDefaultConfig();
+    config.world.WORLD_WIDTH = 80;
+    config.world.WORLD_HEIGHT = 80;
+    config.seasons.SEASON_LENGTH = 10;
+    const simulation = createSimulation(config, 1);
+
+    const changes: Array<{ tick: number; season: Season; year: number }> = [];
+    simulation.on('seasonChanged', (data) => changes.push(data));
+    for (let i = 0; i < 45; i++) simulation.step();
+
+    expect(changes).toEqual([
+      { tick: 10, season: 'summer', year: 0 },
+      { tick: 20, season: 'autumn', year: 0 },
+      { tick: 30, season: 'winter', year: 0 },
+      { tick: 40, season: 'spring', year: 1 },
+    ]);
+    expect(simulation.world.getSeason().season).toBe('spring');
+  });
+
+  it('reads the season from the live config after a world is loaded', () => {
+    const config = getDefaultConfig();
+    config.world.WORLD_WIDTH = 80;
+    config.world.WORLD_HEIGHT = 80;
+    const simulation = createSimulation(config, 1);
+
+    const loaded = createWorld(getDefaultConfig(), 2);
+    loaded.currentTick = 15;
+    simulation.loadWorld(loaded);
+    simulation.config.seasons.SEASON_LENGTH = 10;
+
+    expect(simulation.world.getSeason()).toEqual(getSeasonState(15, simulation.config.seasons));
+    expect(simulation.world.getSeason().season).toBe('summer');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from '../../../src/core/World';
+import type { World } from '../../../src/core/World';
+import { animalToSpatialEntity } from '../../../src/core/World';
+import { runTick, createTickContext } from '../../../src/core/TickLoop';
+import type { TickResult } from '../../../src/core/TickLoop';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { Animal } from '../../../src/entities/types';
+
+function createPairWorld(seed: number): { world: World; a: Animal; b: Animal } {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 100;
+  config.world.WORLD_HEIGHT = 100;
+  config.vegetation.INITIAL_VEGETATION_DENSITY = 0;
+  config.vegetation.VEGETATION_SPREAD_RATE = 0;
+  config.reproduction.REPRODUCTION_MODE = 1;
+
+  const world = createWorld(config, seed);
+  const add = (x: number, strength: number): Animal => {
+    const deer = createAnimal(
+      {
+        species: 'deer',
+        position: { x, y: 50 },
+        initialHunger: 100,
+        baseAttributes: { strength },
+        behavioralAttributes: { reproductiveUrge: 1 },
+        lifecycleAttributes: { litterSize: 1 },
+      },
+      config,
+      world.speciesIdGens.deer
+    );
+    deer.state.age = 100;
+    world.entityManager.addAnimal(deer);
+    world.animalSpatialIndex.insert(animalToSpatialEntity(deer));
+    return deer;
+  };
+
+  return { world, a: add(50, 6), b: add(52, 14) };
+}
+
+function step(world: World): TickResult {
+  const result = runTick(createTickContext(world));
+  world.currentTick++;
+  return result;
+}
+
+describe('Sexual reproduction', () => {
+  it('produces one litter per pair with both parents recorded', () => {
+    const { world, a, b } = createPairWorld(42);
+
+    const result = step(world);
+
+    expect(result.births).toHaveLength(1);
+    const child = result.births[0];
+    expect([child.parentId, child.secondParentId].sort()).toEqual([a.id, b.id].sort());
+    expect(child.generation).toBe(1);
+    expect(child.baseAttributes.strength).toBeGreaterThan(6 * 0.7);
+    expect(child.baseAttributes.strength).toBeLessThan(14 * 1.3);
+  });
+
+  it('resets both cooldowns and splits the hunger cost', () => {
+    const { world, a, b } = createPairWorld(7);
+
+    step(world);
+
+    const parentA = world.getAnimal(a.id)!;
+    const parentB = world.getAnimal(b.id)!;
+    expect(parentA.state.ticksSinceLastReproduction).toBe(1);
+    expect(parentB.state.ticksSinceLastReproduction).toBe(1);
+
+    const halfCost = world.config.reproduction.REPRODUCTION_COST * world.config.entities.MAX_HUNGER / 2;
+    expect(parentA.state.hunger).toBeLessThan(100 - halfCost + 1);
+    expect(parentB.state.hunger).toBeLessThan(100 - halfCost + 1);
+    expect(parentA.state.hunger).toBeGreaterThan(100 - halfCost * 2);
+    expect(parentB.state.hunger).toBeGreaterThan(100 - halfCost * 2);
+  });
+
+  it('does not reproduce without a mate', () => {
+    const { world, b } = createPairWorld(3);
+    world.entityManager.removeAnimal(b.id);
+    world.animalSpatialIndex.remove(b.id);
+
+    for (let i = 0; i < 10; i++) {
+      expect(step(world).births).toHaveLength(0);
+    }
+  });
+
+  it('asexual mode clones a single parent', () => {
+    const { world } = createPairWorld(42);
+    world.config.reproduction.REPRODUCTION_MODE = 0;
+
+    const result = step(world);
+
+    expect(result.births).toHaveLength(2);
+    for (const child of result.births) {
+      expect(child.secondParentId).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { runSpeciation, isSpeciationTick } from '../../../src/core/Speciation';
+import { createWorld } from '../../../src/core/World';
+import { runTick, createTickContext } from '../../../src/core/TickLoop';
+import { serializeWorld, deserializeWorld } from '../../../src/core/WorldSnapshot';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { SimulationConfig } from '../../../src/config/types';
+import type { World } from '../../../src/core/World';
+
+function createConfig(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 500;
+  config.world.WORLD_HEIGHT = 400;
+  config.evolution.SPECIATION_MIN_POPULATION = 4;
+  config.evolution.SPECIATION_THRESHOLD = 0.15;
+  config.evolution.SPECIATION_CHECK_INTERVAL = 10;
+  return config;
+}
+
+/**
+ * A world with a small-and-short-lived deer group and a large-and-long-lived one.
+ */
+function createDivergedWorld(small: number, large: number, config = createConfig()): World {
+  const world = createWorld(config, 1);
+  const idGen = world.speciesIdGens.deer;
+  for (let i = 0; i < small + large; i++) {
+    const isLarge = i >= small;
+    world.entityManager.addAnimal(createAnimal({
+      species: 'deer',
+      position: { x: 10 + i, y: 10 },
+      baseAttributes: isLarge ? { size: 2.5, strength: 18 } : { size: 0.5, strength: 3 },
+      lifecycleAttributes: isLarge ? { maxAge: 1800, maturityAge: 300 } : { maxAge: 200, maturityAge: 20 },
+    }, config, idGen));
+  }
+  return world;
+}
+
+describe('Speciation', () => {
+  it('splits the smaller diverged cluster into a new sub-species', () => {
+    const world = createDivergedWorld(5, 8);
+
+    const founded = runSpeciation(world.entityManager, world.subspecies, world.config, 99);
+
+    expect(founded).toEqual([expect.objectContaining({ id: 'deer-2', species: 'deer', parent: 'deer', label: 'Deer B', foundedTick: 99 })]);
+    expect(world.subspecies).toEqual(founded);
+    expect(world.getSubspeciesCounts()).toEqual({ deer: 8, wolf: 0, 'deer-2': 5 });
+    expect(world.getLivingAnimals().filter(a => a.baseAttributes.size < 1).every(a => a.subspecies === 'deer-2')).toBe(true);
+  });
+
+  it('keeps populations together below the threshold or minimum size', () => {
+    const tooSmall = createDivergedWorld(3, 8);
+    expect(runSpeciation(tooSmall.entityManager, tooSmall.subspecies, tooSmall.config, 9)).toEqual([]);
+
+    const config = createConfig();
+    config.evolution.SPECIATION_THRESHOLD = 0.9;
+    const similar = createDivergedWorld(5, 8, config);
+    expect(runSpeciation(similar.entityManager, similar.subspecies, similar.config, 9)).toEqual([]);
+  });
+
+  it('splits sub-species again and names them in founding order', () => {
+    const world = createDivergedWorld(5, 8);
+    runSpeciation(world.entityManager, world.subspecies, world.config, 9);
+    for (const animal of world.getLivingAnimals().filter(a => a.subspecies === 'deer').slice(0, 4)) {
+      world.entityManager.updateAnimal(animal.id, {
+        behavioralAttributes: { ...animal.behavioralAttributes, aggression: 1, flightInstinct: 0, carrionPreference: 1 },
+        baseAttributes: { ...animal.baseAttributes, agility: 20, perception: 20, endurance: 20 },
+      });
+    }
+
+    const founded = runSpeciation(world.entityManager, world.subspecies, world.config, 19);
+
+    expect(founded.map(s => [s.id, s.parent, s.label])).toEqual([['deer-3', 'deer', 'Deer C']]);
+    expect(founded[0].colors).not.toEqual(world.subspecies[0].colors);
+  });
+
+  it('runs on check-interval ticks only when enabled', () => {
+    const config = createConfig();
+    expect(isSpeciationTick(9, config)).toBe(true);
+    expect(isSpeciationTick(10, config)).toBe(false);
+
+    config.evolution.SPECIATION_ENABLED = 0;
+    expect(isSpeciationTick(9, config)).toBe(false);
+  });
+
+  it('splits inside the tick loop and survives a snapshot round trip', () => {
+    const world = createDivergedWorld(5, 8);
+    world.currentTick = 9;
+
+    const result = runTick(createTickContext(world));
+    world.currentTick++;
+
+    expect(result.speciations.map(s => s.id)).toEqual(['deer-2']);
+    const restored = deserializeWorld(serializeWorld(world));
+    expect(restored.subspecies).toEqual(world.subspecies);
+    expect(restored.getSubspeciesCounts()).toEqual(world.getSubspeciesCounts());
+  });
+
+  it('gives offspring their parent\'s sub-species', () => {
+    const config = createConfig();
+    const world = createWorld(config, 3);
+    const parent = createAnimal({ species: 'deer', position: { x: 50, y: 50 }, initialHunger: 100, subspecies: 'deer-2' }, config, world.speciesIdGens.deer);
+    parent.state.age = 200;
+    world.entityManager.addAnimal(parent);
+
+    const births = [];
+    for (let i = 0; i < 20 && births.length === 0; i++) {
+      births.push(...runTick(createTickContext(world)).births);
+      world.currentTick++;
+    }
+
+    expect(births.length).toBeGreaterThan(0);
+    expect(births.every(b => b.subspecies === 'deer-2')).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, initializePopulation } from '../../../src/core/World';
+import { runTick, createTickContext } from '../../../src/core/TickLoop';
+import { createAnimal } from '../../../src/entities/Animal';
+import { findNearestPrey } from '../../../src/behavior/FoodFinder';
+import { findThreats } from '../../../src/behavior/ThreatCalculator';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { getSpeciesIds, getSpeciesDefinition, getSpeciesName } from '../../../src/species/registry';
+import { createIdGenerator } from '../../../src/utils/id';
+import type { SimulationConfig } from '../../../src/config/types';
+
+function createConfigWithRabbitsAndFoxes(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 100;
+  config.world.WORLD_HEIGHT = 100;
+
+  config.species.rabbit = {
+    ...config.species.deer,
+    name: 'Rabbit',
+    baseAttributes: { ...config.species.deer.baseAttributes, size: 0.5 },
+    colors: { body: '#EEEEEE', outline: '#AAAAAA', dead: '#777777' },
+    initialCount: 4,
+  };
+  config.species.fox = {
+    ...config.species.wolf,
+    name: 'Fox',
+    diet: { ...config.species.wolf.diet, prey: ['rabbit'] },
+    colors: { body: '#D2691E', outline: '#8B4513', dead: '#5C2E0D' },
+    initialCount: 2,
+  };
+  return config;
+}
+
+describe('Species registry', () => {
+  it('registers deer and wolves by default', () => {
+    const config = getDefaultConfig();
+
+    expect(getSpeciesIds(config)).toEqual(['deer', 'wolf']);
+    expect(getSpeciesName(config, 'wolf')).toBe('Wolf');
+    expect(config.species.wolf.diet.prey).toEqual(['deer']);
+  });
+
+  it('returns independent copies of the defaults', () => {
+    const a = getDefaultConfig();
+    a.species.wolf.diet.prey.push('wolf');
+
+    expect(getDefaultConfig().species.wolf.diet.prey).toEqual(['deer']);
+  });
+
+  it('throws for unregistered species', () => {
+    expect(() => getSpeciesDefinition(getDefaultConfig(), 'bear')).toThrow('Unknown species "bear"');
+  });
+
+  it('spawns every registered species from config', () => {
+    const world = createWorld(createConfigWithRabbitsAndFoxes(), 8);
+    initializePopulation(world);
+
+    expect(world.getSpeciesCounts()).toEqual({ deer: 10, wolf: 5, rabbit: 4, fox: 2 });
+    expect(world.getAnimalsBySpecies('rabbit')[0].id).toBe('rabbit_1');
+    expect(world.getAnimalsBySpecies('rabbit')[0].baseAttributes.size).toBe(0.5);
+  });
+
+  it('counts extinct species as zero', () => {
+    const config = getDefaultConfig();
+    config.species.wolf.initialCount = 0;
+    const world = createWorld(config, 1);
+    initializePopulation(world);
+
+    expect(world.getSpeciesCounts().wolf).toBe(0);
+  });
+
+  it('gives offspring IDs from their own species sequence', () => {
+    const config = createConfigWithRabbitsAndFoxes();
+    config.species.rabbit.behavioralAttributes = { ...config.species.rabbit.behavioralAttributes, reproductiveUrge: 1 };
+    const world = createWorld(config, 3);
+    initializePopulation(world);
+    for (const rabbit of world.getAnimalsBySpecies('rabbit')) {
+      rabbit.state.age = 100;
+      rabbit.state.hunger = 100;
+    }
+
+    const result = runTick(createTickContext(world));
+
+    const rabbitBirths = result.births.filter(a => a.species === 'rabbit');
+    expect(rabbitBirths.length).toBeGreaterThan(0);
+    expect(rabbitBirths[0].id).toBe('rabbit_5');
+  });
+
+  it('predators hunt only the species listed as prey', () => {
+    const config = createConfigWithRabbitsAndFoxes();
+    const idGen = createIdGenerator('animal');
+    const fox = createAnimal({ species: 'fox', position: { x: 50, y: 50 } }, config, idGen);
+    const deer = createAnimal({ species: 'deer', position: { x: 52, y: 50 } }, config, idGen);
+    const rabbit = createAnimal({ species: 'rabbit', position: { x: 60, y: 50 } }, config, idGen);
+
+    expect(findNearestPrey(fox, [deer, rabbit])?.targetId).toBe(rabbit.id);
+    expect(findThreats(deer, [fox])).toHaveLength(0);
+    expect(findThreats(rabbit, [fox]).map(t => t.id)).toEqual([fox.id]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, initializePopulation, animalToSpatialEntity } from '../../../src/core/World';
+import type { World } from '../../../src/core/World';
+import { executeExecutionPhase, createTickContext } from '../../../src/core/TickLoop';
+import { createAnimal, updateAnimalState } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { Action } from '../../../src/behavior/types';
+import type { Animal, Species } from '../../../src/entities/types';
+import type { TerrainType } from '../../../src/spatial/TerrainGrid';
+import { getSeasonalModifiers } from '../../../src/core/Seasons';
+
+function createPlainWorld(): World {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 100;
+  config.world.WORLD_HEIGHT = 100;
+  config.vegetation.INITIAL_VEGETATION_DENSITY = 0;
+  config.vegetation.VEGETATION_SPREAD_RATE = 0;
+  config.terrain.FOREST_COVERAGE = 0;
+  config.terrain.WATER_COVERAGE = 0;
+  config.terrain.ROCK_COVERAGE = 0;
+  return createWorld(config, 1);
+}
+
+// Paint a band of terrain between two world x coordinates
+function paintColumns(world: World, fromX: number, toX: number, type: TerrainType): void {
+  const tileSize = world.terrainGrid.getTileSize();
+  for (let gridX = fromX / tileSize; gridX < toX / tileSize; gridX++) {
+    for (let gridY = 0; gridY < world.terrainGrid.getRows(); gridY++) {
+      world.terrainGrid.set(gridX, gridY, type);
+    }
+  }
+}
+
+function addAnimal(world: World, species: Species, x: number, y: number): Animal {
+  const animal = createAnimal(
+    { species, position: { x, y }, initialHunger: 40 },
+    world.config,
+    world.speciesIdGens[species]
+  );
+  world.entityManager.addAnimal(animal);
+  world.animalSpatialIndex.insert(animalToSpatialEntity(animal));
+  return animal;
+}
+
+function drift(world: World, moves: Array<[Animal, { x: number; y: number }]>): void {
+  const decisions = new Map<string, Action>(
+    moves.map(([animal, targetPosition]) => [animal.id, { type: 'DRIFT', targetPosition }])
+  );
+  executeExecutionPhase(createTickContext(world), decisions);
+}
+
+describe('Terrain', () => {
+  it('stops deer at the water edge', () => {
+    const world = createPlainWorld();
+    paintColumns(world, 60, 70, 'water');
+    const deer = addAnimal(world, 'deer', 50, 50);
+
+    drift(world, [[deer, { x: 65, y: 50 }]]);
+
+    expect(world.getAnimal(deer.id)!.state.position).toEqual({ x: 50, y: 50 });
+  });
+
+  it('slides deer along an impassable edge', () => {
+    const world = createPlainWorld();
+    paintColumns(world, 60, 70, 'rock');
+    world.config.species.deer.terrainSpeed.rock = 0;
+    const deer = addAnimal(world, 'deer', 55, 50);
+
+    drift(world, [[deer, { x: 62, y: 58 }]]);
+
+    expect(world.getAnimal(deer.id)!.state.position).toEqual({ x: 55, y: 58 });
+  });
+
+  it('lets wolves wade through water at a higher hunger cost', () => {
+    const world = createPlainWorld();
+    paintColumns(world, 60, 70, 'water');
+    const wader = addAnimal(world, 'wolf', 50, 20);
+    const walker = addAnimal(world, 'wolf', 50, 80);
+
+    drift(world, [[wader, { x: 65, y: 20 }], [walker, { x: 35, y: 80 }]]);
+
+    const waded = world.getAnimal(wader.id)!;
+    const walked = world.getAnimal(walker.id)!;
+    expect(waded.state.position).toEqual({ x: 65, y: 20 });
+    const extraCost = walked.state.hunger - waded.state.hunger;
+    const { MOVE_COST } = world.config.movement;
+    expect(extraCost).toBeCloseTo(MOVE_COST * 15 * (world.config.terrain.WATER_MOVE_COST - 1));
+  });
+
+  it('slows animals by their species multiplier on the current tile', () => {
+    const world = createPlainWorld();
+    paintColumns(world, 0, 100, 'forest');
+    const wolf = addAnimal(world, 'wolf', 50, 50);
+
+    drift(world, [[wolf, { x: 60, y: 50 }]]);
+
+    const expected = 50 + 10 * world.config.species.wolf.terrainSpeed.forest;
+    expect(world.getAnimal(wolf.id)!.state.position.x).toBeCloseTo(expected);
+  });
+
+  it('spawns the initial population on passable terrain', () => {
+    const config = getDefaultConfig();
+    config.terrain.WATER_COVERAGE = 0.4;
+    const world = createWorld(config, 5);
+    initializePopulation(world);
+
+    for (const deer of world.getAnimalsBySpecies('deer')) {
+      expect(world.terrainGrid.getAt(deer.state.position.x, deer.state.position.y)).not.toBe('water');
+    }
+  });
+
+  it('keeps vegetation off water and rock', () => {
+    const config = getDefaultConfig();
+    config.terrain.WATER_COVERAGE = 0.2;
+    config.terrain.ROCK_COVERAGE = 0.2;
+    const world = createWorld(config, 5);
+    initializePopulation(world);
+
+    for (const { x, y } of world.vegetationGrid.getAllPositions()) {
+      expect(world.terrainGrid.isFertile(x, y)).toBe(true);
+    }
+  });
+
+  it('grows less vegetation in forest than on grassland', () => {
+    const world = createPlainWorld();
+    paintColumns(world, 50, 100, 'forest');
+    world.vegetationGrid.set(0, 0, true);
+    world.vegetationGrid.set(15, 0, true);
+
+    expect(world.vegetationGrid.getBiomass(0, 0)).toBe(1);
+    expect(world.vegetationGrid.getBiomass(15, 0)).toBe(world.config.vegetation.FOREST_VEGETATION_CAPACITY);
+  });
+
+  it('grazes only as much as a deer has room for', () => {
+    const world = createPlainWorld();
+    world.config.vegetation.VEGETATION_GROWTH_RATE = 0;
+    world.vegetationGrid.set(10, 10, true);
+    const deer = addAnimal(world, 'deer', 52, 52);
+    world.entityManager.updateAnimal(deer.id, updateAnimalState(deer, { hunger: 98 }));
+
+    executeExecutionPhase(createTickContext(world), new Map([[deer.id, { type: 'EAT', details: 'vegetation' } as Action]]));
+
+    const foodPerBiomass = world.config.vegetation.VEGETATION_FOOD_VALUE * getSeasonalModifiers(0, world.config.seasons).vegetation;
+    expect(world.vegetationGrid.getBiomass(10, 10)).toBeCloseTo(1 - 2 / foodPerBiomass);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import {
+  serializeWorld,
+  deserializeWorld,
+  exportWorldSnapshot,
+  importWorldSnapshot,
+  SNAPSHOT_VERSION,
+} from '../../../src/core/WorldSnapshot';
+import { createWorld, initializePopulation } from '../../../src/core/World';
+import type { World } from '../../../src/core/World';
+import { runTick, createTickContext } from '../../../src/core/TickLoop';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { SimulationConfig } from '../../../src/config/types';
+
+function createSmallConfig(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 80;
+  config.world.WORLD_HEIGHT = 80;
+  config.species.deer.initialCount = 6;
+  config.species.wolf.initialCount = 2;
+  return config;
+}
+
+function advance(world: World, ticks: number): void {
+  for (let i = 0; i < ticks; i++) {
+    runTick(createTickContext(world));
+    world.currentTick++;
+  }
+}
+
+function hashWorld(world: World): string {
+  return JSON.stringify({
+    tick: world.currentTick,
+    animals: world.getAllAnimals(),
+    corpses: world.getAllCorpses(),
+    vegetation: world.vegetationGrid.getAllPositions().map(p => world.vegetationGrid.getBiomass(p.x, p.y)),
+    positions: world.vegetationGrid.getAllPositions(),
+    terrain: world.terrainGrid.encode(),
+    rng: world.rng.getState(),
+  });
+}
+
+describe('WorldSnapshot', () => {
+  it('round-trips a world without changes', () => {
+    const world = createWorld(createSmallConfig(), 123);
+    initializePopulation(world);
+    advance(world, 20);
+
+    const restored = deserializeWorld(serializeWorld(world));
+
+    expect(hashWorld(restored)).toBe(hashWorld(world));
+    expect(restored.animalSpatialIndex.size()).toBe(world.animalSpatialIndex.size());
+    expect(restored.corpseSpatialIndex.size()).toBe(world.getAllCorpses().length);
+  });
+
+  it('restored world continues bit-identically', () => {
+    const world = createWorld(createSmallConfig(), 4242);
+    initializePopulation(world);
+    advance(world, 30);
+
+    const restored = deserializeWorld(JSON.parse(JSON.stringify(serializeWorld(world))));
+
+    advance(world, 60);
+    advance(restored, 60);
+
+    expect(hashWorld(restored)).toBe(hashWorld(world));
+  });
+
+  it('continues ID sequences instead of reusing IDs', () => {
+    const world = createWorld(createSmallConfig(), 1);
+    initializePopulation(world);
+
+    const restored = deserializeWorld(serializeWorld(world));
+
+    expect(restored.speciesIdGens.deer()).toBe('deer_7');
+    expect(restored.speciesIdGens.wolf()).toBe('wolf_3');
+    expect(restored.corpseIdGen()).toBe('corpse_1');
+  });
+
+  it('snapshot is independent of the source world', () => {
+    const world = createWorld(createSmallConfig(), 5);
+    initializePopulation(world);
+    const snapshot = serializeWorld(world);
+    const before = JSON.stringify(snapshot);
+
+    advance(world, 10);
+
+    expect(JSON.stringify(snapshot)).toBe(before);
+  });
+
+  describe('import/export', () => {
+    it('imports an exported snapshot', () => {
+      const world = createWorld(createSmallConfig(), 77);
+      initializePopulation(world);
+      advance(world, 5);
+
+      const result = importWorldSnapshot(exportWorldSnapshot(world, 'test'));
+
+      expect(result.success).toBe(true);
+      expect(result.name).toBe('test');
+      expect(result.warnings).toEqual([]);
+      expect(hashWorld(result.world!)).toBe(hashWorld(world));
+    });
+
+    it('rejects invalid JSON', () => {
+      const result = importWorldSnapshot('not json');
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('Invalid JSON');
+    });
+
+    it('rejects snapshots with missing fields', () => {
+      const result = importWorldSnapshot(JSON.stringify({ version: SNAPSHOT_VERSION, seed: 1 }));
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('Snapshot missing "animals"');
+    });
+
+    it('migrates version 1.0 snapshots from before the species registry', () => {
+      const world = createWorld(createSmallConfig(), 11);
+      initializePopulation(world);
+      advance(world, 5);
+
+      const snapshot = serializeWorld(world);
+      const { species: _species, ...config } = snapshot.config;
+      const legacy = {
+        ...snapshot,
+        version: '1.0',
+        config: { ...config, world: { ...config.world, INITIAL_DEER_COUNT: 6, INITIAL_WOLF_COUNT: 2 } },
+        idCounters: { ...snapshot.idCounters.species, corpse: snapshot.idCounters.corpse },
+        animals: snapshot.animals.map((animal) => {
+          const { prey: _prey, ...diet } = animal.diet;
+          return { ...animal, diet };
+        }),
+      };
+
+      const result = importWorldSnapshot(JSON.stringify(legacy));
+
+      expect(result.success).toBe(true);
+      expect(result.world!.config.species.wolf.initialCount).toBe(2);
+      expect(result.world!.speciesIdGens.deer.getCount()).toBe(snapshot.idCounters.species.deer);
+      expect(hashWorld(result.world!)).toBe(hashWorld(world));
+    });
+
+    it('imports snapshots from before health and stamina that keep running', () => {
+      const world = createWorld(createSmallConfig(), 5);
+      initializePopulation(world);
+      const snapshot = serializeWorld(world);
+      const legacy = {
+        ...snapshot,
+        animals: snapshot.animals.map(({ state, derivedStats, ...animal }) => {
+          const { health: _health, stamina: _stamina, ...oldState } = state;
+          const { maxHealth: _maxHealth, maxStamina: _maxStamina, ...oldStats } = derivedStats;
+          return { ...animal, state: oldState, derivedStats: oldStats };
+        }),
+      };
+
+      const result = importWorldSnapshot(JSON.stringify(legacy));
+      expect(result.success).toBe(true);
+      const restored = result.world!;
+      for (const animal of restored.getAllAnimals()) {
+        expect(animal.state.health).toBe(animal.derivedStats.maxHealth);
+        expect(animal.state.stamina).toBe(animal.derivedStats.maxStamina);
+      }
+      expect(restored.getAllAnimals().map(a => a.derivedStats)).toEqual(world.getAllAnimals().map(a => a.derivedStats));
+
+      advance(restored, 5);
+      for (const animal of restored.getAllAnimals()) {
+        expect(Number.isFinite(animal.state.position.x)).toBe(true);
+        expect(Number.isFinite(animal.state.position.y)).toBe(true);
+        expect(Number.isFinite(animal.state.health)).toBe(true);
+        expect(Number.isFinite(animal.state.stamina)).toBe(true);
+      }
+    });
+
+    it('imports version 1.1 snapshots from before terrain as grassland', () => {
+      const world = createWorld(createSmallConfig(), 11);
+      const { terrain: _terrain, ...legacy } = { ...serializeWorld(world), version: '1.1' };
+
+      const result = importWorldSnapshot(JSON.stringify(legacy));
+
+      expect(result.success).toBe(true);
+      expect(result.world!.terrainGrid.getCounts().grassland).toBe(16 * 16);
+    });
+
+    it('imports version 1.2 snapshots from before speciation as founding populations', () => {
+      const world = createWorld(createSmallConfig(), 12);
+      initializePopulation(world);
+      const { subspecies: _subspecies, ...snapshot } = serializeWorld(world);
+      const legacy = {
+        ...snapshot,
+        version: '1.2',
+        animals: snapshot.animals.map(({ subspecies: _id, ...animal }) => animal),
+      };
+
+      const result = importWorldSnapshot(JSON.stringify(legacy));
+
+      expect(result.success).toBe(true);
+      expect(result.world!.subspecies).toEqual([]);
+      expect(result.world!.getSubspeciesCounts()).toEqual({ deer: 6, wolf: 2 });
+    });
+
+    it('imports version 1.3 vegetation from before biomass as full tiles', () => {
+      const world = createWorld(createSmallConfig(), 13);
+      initializePopulation(world);
+      world.terrainGrid.fill('forest');
+      const snapshot = serializeWorld(world);
+      const legacy = {
+        ...snapshot,
+        version: '1.3',
+        vegetation: snapshot.vegetation.map(([x, y]) => [x, y]),
+      };
+
+      const result = importWorldSnapshot(JSON.stringify(legacy));
+
+      const grid = result.world!.vegetationGrid;
+      expect(grid.getAllPositions()).toEqual(world.vegetationGrid.getAllPositions());
+      expect(grid.getTotalBiomass()).toBeCloseTo(grid.getCount() * 0.6);
+    });
+
+    it('warns on version mismatch', () => {
+      const world = createWorld(createSmallConfig(), 3);
+      const snapshot = { ...serializeWorld(world), version: '0.9' };
+
+      const result = importWorldSnapshot(JSON.stringify(snapshot));
+
+      expect(result.success).toBe(true);
+      expect(result.warnings[0]).toContain('version mismatch');
+    });
+  });
+});
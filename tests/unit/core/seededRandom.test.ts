@@ -231,6 +231,47 @@ describe('SeededRandom', () => {
     });
   });
 
+  describe('getState / setState', () => {
+    it('restoring a saved state replays the same sequence', () => {
+      const rng = createSeededRandom(42);
+      rng.next();
+      const saved = rng.getState();
+
+      const expected = [rng.next(), rng.next(), rng.next()];
+      rng.setState(saved);
+
+      expect([rng.next(), rng.next(), rng.next()]).toEqual(expected);
+    });
+
+    it('preserves the pending normal value', () => {
+      const rng = createSeededRandom(7);
+      rng.nextNormal();
+      const saved = rng.getState();
+      expect(saved.spareNormal).not.toBeNull();
+
+      const expected = rng.nextNormal();
+      const restored = createSeededRandom(7);
+      restored.setState(saved);
+
+      expect(restored.nextNormal()).toBe(expected);
+    });
+
+    it('round-trips the pending normal value through a clone', () => {
+      const rng = createSeededRandom(7);
+      rng.nextNormal();
+      const clone = rng.clone();
+      const saved = clone.getState();
+
+      const expected = [clone.nextNormal(), clone.nextNormal()];
+      expect(clone.getState().spareNormal).not.toEqual(saved.spareNormal);
+      expect(expected[0]).toBe(rng.nextNormal());
+      expect(expected[1]).toBe(rng.nextNormal());
+
+      clone.setState(saved);
+      expect([clone.nextNormal(), clone.nextNormal()]).toEqual(expected);
+    });
+  });
+
   describe('generateRandomSeed', () => {
     it('returns a positive integer', () => {
       const seed = generateRandomSeed();
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createEventLog } from '../../../src/data/EventLog';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
+
+const config = getDefaultConfig();
+const idGen = createIdGenerator('deer');
+
+describe('EventLog', () => {
+  it('records events in order and exports them as CSV and JSON', () => {
+    const log = createEventLog();
+    const deer = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, idGen);
+
+    log.recordBirth(deer, 5);
+    log.recordSeason('summer', 0, 6);
+    log.recordDeath({
+      animalId: deer.id, species: 'deer', generation: 0, tick: 9, age: 4, cause: 'predation', killerId: 'wolf_1',
+    });
+    log.recordIntervention(deer, 'Edited agility 12 -> 14, hunger 80 -> 10', 10);
+
+    const lines = log.toCSV().split('\n');
+    expect(lines).toEqual([
+      'tick,type,subject,species,details',
+      `5,birth,${deer.id},deer,Generation 0`,
+      '6,season,summer,,Year 0',
+      `10,death,${deer.id},deer,predation at age 4 (killed by wolf_1)`,
+      `10,intervention,${deer.id},deer,"Edited agility 12 -> 14, hunger 80 -> 10"`,
+    ]);
+    expect(JSON.parse(log.toJSON()).entries).toHaveLength(4);
+  });
+
+  it('truncates events after a tick', () => {
+    const log = createEventLog();
+    const deer = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, idGen);
+    log.recordBirth(deer, 5);
+    log.recordSeason('autumn', 1, 8);
+
+    log.truncateAfter(7);
+
+    expect(log.getEntries().map(e => e.type)).toEqual(['birth']);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { createHeatmapStore, getHeatmapLabel, HEATMAP_VIEWS } from '../../../src/data/HeatmapStore';
+
+describe('HeatmapStore', () => {
+  it('accumulates density per cell across ticks', () => {
+    const store = createHeatmapStore(100, 50, 25);
+    store.recordTick([{ x: 10, y: 10 }, { x: 20, y: 5 }, { x: 60, y: 40 }]);
+    store.recordTick([{ x: 10, y: 10 }]);
+
+    const grid = store.getGrid({ layer: 'density', cause: null });
+
+    expect(grid).toMatchObject({ cols: 4, rows: 2, cellSize: 25, max: 3 });
+    expect(grid.values[0]).toBe(3);
+    expect(grid.values[1 * 4 + 2]).toBe(1);
+  });
+
+  it('clamps positions on or past the world edge into the border cells', () => {
+    const store = createHeatmapStore(100, 50, 25);
+    store.recordBirth({ x: 100, y: 50 });
+    store.recordBirth({ x: -5, y: -5 });
+
+    const grid = store.getGrid({ layer: 'births', cause: null });
+
+    expect(grid.values[grid.values.length - 1]).toBe(1);
+    expect(grid.values[0]).toBe(1);
+  });
+
+  it('shows deaths of every cause or of one cause', () => {
+    const store = createHeatmapStore(100, 100, 50);
+    store.recordDeath({ x: 10, y: 10 }, 'starvation');
+    store.recordDeath({ x: 10, y: 10 }, 'predation');
+    store.recordDeath({ x: 60, y: 10 }, 'predation');
+
+    expect(store.getGrid({ layer: 'deaths', cause: null }).values[0]).toBe(2);
+    expect(store.getGrid({ layer: 'deaths', cause: 'predation' }).values.slice(0, 2)).toEqual(new Float64Array([1, 1]));
+    expect(store.getGrid({ layer: 'deaths', cause: 'old age' }).max).toBe(0);
+  });
+
+  it('weights grazing by the biomass eaten', () => {
+    const store = createHeatmapStore(100, 100, 50);
+    store.recordGrazing({ x: 10, y: 10 }, 0.25);
+    store.recordGrazing({ x: 20, y: 20 }, 0.5);
+
+    expect(store.getGrid({ layer: 'grazing', cause: null }).values[0]).toBeCloseTo(0.75);
+  });
+
+  it('fades older events over the decay window', () => {
+    const store = createHeatmapStore(100, 100, 50, 10);
+    store.recordBirth({ x: 10, y: 10 });
+    for (let i = 0; i < 10; i++) {
+      store.recordTick([]);
+    }
+
+    expect(store.getGrid({ layer: 'births', cause: null }).values[0]).toBeCloseTo(0.9 ** 10);
+  });
+
+  it('keeps faded values when the decay window changes', () => {
+    const store = createHeatmapStore(100, 100, 50, 2);
+    store.recordBirth({ x: 10, y: 10 });
+    store.recordTick([]);
+
+    store.setDecayWindow(0);
+    store.recordTick([]);
+
+    expect(store.getDecayWindow()).toBe(0);
+    expect(store.getGrid({ layer: 'births', cause: null }).values[0]).toBeCloseTo(0.5);
+  });
+
+  it('stays accurate after many ticks of decay', () => {
+    const store = createHeatmapStore(100, 100, 50, 5);
+    for (let i = 0; i < 500; i++) {
+      store.recordTick([{ x: 10, y: 10 }]);
+    }
+
+    // Converges to the sum of the geometric series, 1 / (1 - 0.8)
+    expect(store.getGrid({ layer: 'density', cause: null }).values[0]).toBeCloseTo(5);
+  });
+
+  it('clears every layer', () => {
+    const store = createHeatmapStore(100, 100, 50, 10);
+    store.recordTick([{ x: 10, y: 10 }]);
+    store.recordBirth({ x: 10, y: 10 });
+
+    store.clear();
+
+    for (const view of HEATMAP_VIEWS) {
+      expect(store.getGrid(view).max).toBe(0);
+    }
+  });
+
+  it('labels views', () => {
+    expect(getHeatmapLabel({ layer: 'deaths', cause: 'predation' })).toBe('Deaths (predation)');
+    expect(getHeatmapLabel({ layer: 'density', cause: null })).toBe('Animal density');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { createLineageStore, type LineageStore } from '../../../src/data/LineageStore';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
+import type { Animal, DeathRecord } from '../../../src/entities/types';
+
+const config = getDefaultConfig();
+const idGen = createIdGenerator('deer');
+
+function animal(parent: Animal | null = null, size?: number): Animal {
+  return createAnimal({
+    species: 'deer',
+    position: { x: 0, y: 0 },
+    baseAttributes: size === undefined ? undefined : { size },
+    parentId: parent?.id ?? null,
+    generation: parent ? parent.generation + 1 : 0,
+  }, config, idGen);
+}
+
+function death(target: Animal, tick: number): DeathRecord {
+  return {
+    animalId: target.id,
+    species: target.species,
+    generation: target.generation,
+    tick,
+    age: tick,
+    cause: 'starvation',
+    killerId: null,
+  };
+}
+
+/**
+ * a ─┬─ c ── e
+ *    └─ d
+ * b
+ */
+function createFamily(): { store: LineageStore; a: Animal; b: Animal; c: Animal; d: Animal; e: Animal } {
+  const store = createLineageStore();
+  const a = animal();
+  const b = animal();
+  store.recordFounders([a, b], 0);
+  const c = animal(a, 1.5);
+  store.recordBirth(c, 10);
+  const d = animal(a);
+  store.recordBirth(d, 25);
+  const e = animal(c);
+  store.recordBirth(e, 40);
+  return { store, a, b, c, d, e };
+}
+
+describe('LineageStore', () => {
+  it('records births with their parent, tick and traits', () => {
+    const { store, a, c, d, e } = createFamily();
+
+    expect(store.getNode(c.id)).toMatchObject({ parentId: a.id, generation: 1, birthTick: 10, deathTick: null });
+    expect(store.getNode(c.id)!.traits['baseAttributes.size']).toBe(1.5);
+    expect(store.getChildren(a.id).map(n => n.id)).toEqual([c.id, d.id]);
+    expect(store.getAncestry(e.id).map(n => n.id)).toEqual([a.id, c.id, e.id]);
+    expect(store.size()).toBe(5);
+  });
+
+  it('keeps dead ancestors so lineages stay connected', () => {
+    const { store, a, e } = createFamily();
+    store.recordDeath(death(a, 30));
+
+    expect(store.getNode(a.id)).toMatchObject({ deathTick: 30, deathCause: 'starvation' });
+    expect(store.getAncestry(e.id)[0].id).toBe(a.id);
+  });
+
+  it('prunes branches without living descendants', () => {
+    const { store, a, b, c, d, e } = createFamily();
+    store.recordDeath(death(a, 30));
+    store.recordDeath(death(b, 31));
+    store.recordDeath(death(c, 50));
+    store.recordDeath(death(d, 60));
+
+    expect(store.pruneExtinct()).toBe(2);
+    expect(store.getNodes().map(n => n.id)).toEqual([a.id, c.id, e.id]);
+    expect(store.getChildren(a.id).map(n => n.id)).toEqual([c.id]);
+  });
+
+  it('keeps mates whose descendants are still alive', () => {
+    const { store, a, b, c, d } = createFamily();
+    const f = { ...animal(d), secondParentId: b.id };
+    store.recordBirth(f, 70);
+    store.recordDeath(death(a, 30));
+    store.recordDeath(death(b, 31));
+    store.recordDeath(death(c, 50));
+    store.recordDeath(death(d, 60));
+
+    store.pruneExtinct();
+    expect(store.getNode(b.id)).toBeDefined();
+    expect(store.getAncestry(f.id).map(n => n.id)).toEqual([a.id, d.id, f.id]);
+  });
+
+  it('forgets births and deaths after a rewound tick', () => {
+    const { store, a, d, e } = createFamily();
+    store.recordDeath(death(a, 30));
+
+    store.truncateAfter(25);
+
+    expect(store.getNode(e.id)).toBeUndefined();
+    expect(store.getNode(d.id)).toBeDefined();
+    expect(store.getNode(a.id)!.deathTick).toBeNull();
+  });
+
+  it('exports the forest as Newick with birth-interval branch lengths', () => {
+    const { store, a, b, c, d, e } = createFamily();
+
+    expect(store.toNewick()).toBe(`((('${e.id}':30)'${c.id}':10,'${d.id}':25)'${a.id}','${b.id}');`);
+    expect(store.toNewick(c.id)).toBe(`('${e.id}':30)'${c.id}';`);
+  });
+
+  it('exports flat JSON nodes that link back to their parents', () => {
+    const { store, c } = createFamily();
+
+    const { nodes } = JSON.parse(store.toJSON());
+
+    expect(nodes).toHaveLength(5);
+    expect(nodes.find((n: { id: string }) => n.id === c.id).parentId).toBe(store.getNode(c.id)!.parentId);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createMortalityTable } from '../../../src/data/MortalityTable';
+import type { DeathCause, DeathRecord } from '../../../src/entities/types';
+
+let nextId = 1;
+function death(species: string, generation: number, tick: number, age: number, cause: DeathCause): DeathRecord {
+  return {
+    animalId: `${species}_${nextId++}`,
+    species,
+    generation,
+    tick,
+    age,
+    cause,
+    killerId: cause === 'predation' ? 'wolf_1' : null,
+  };
+}
+
+function createSampleTable() {
+  const table = createMortalityTable();
+  table.record([
+    death('deer', 0, 10, 100, 'predation'),
+    death('deer', 0, 20, 200, 'starvation'),
+    death('deer', 1, 150, 50, 'predation'),
+    death('wolf', 0, 160, 400, 'old age'),
+    death('deer', 1, 170, 70, 'wounds'),
+  ]);
+  return table;
+}
+
+describe('MortalityTable', () => {
+  it('breaks deaths down by species and generation', () => {
+    const rows = createSampleTable().getRows();
+
+    expect(rows.map(r => [r.species, r.generation, r.deaths])).toEqual([
+      ['deer', 0, 2],
+      ['deer', 1, 2],
+      ['wolf', 0, 1],
+    ]);
+    expect(rows[0].causes).toEqual({ predation: 1, starvation: 1, wounds: 0, 'old age': 0 });
+    expect(rows[0].meanAgeAtDeath).toBe(150);
+  });
+
+  it('totals each species across generations', () => {
+    const [deer, wolf] = createSampleTable().getSpeciesTotals();
+
+    expect(deer.generation).toBeNull();
+    expect(deer.deaths).toBe(4);
+    expect(deer.causes.predation).toBe(2);
+    expect(deer.meanAgeAtDeath).toBe(105);
+    expect(wolf.causes['old age']).toBe(1);
+  });
+
+  it('tracks the predation share over time', () => {
+    const series = createSampleTable().getRatioSeries(100, 'deer');
+
+    expect(series).toEqual([
+      { tickStart: 0, tickEnd: 99, predation: 1, starvation: 1, predationRatio: 0.5 },
+      { tickStart: 100, tickEnd: 199, predation: 1, starvation: 0, predationRatio: 1 },
+    ]);
+  });
+
+  it('truncates deaths after a tick', () => {
+    const table = createSampleTable();
+
+    table.truncateAfter(150);
+
+    expect(table.getTotalDeaths()).toBe(3);
+  });
+
+  it('exports CSV with one line per row plus species totals', () => {
+    const lines = createSampleTable().toCSV().split('\n');
+
+    expect(lines[0]).toBe('species,generation,deaths,predation,starvation,wounds,old_age,mean_age_at_death');
+    expect(lines[1]).toBe('deer,0,2,1,1,0,0,150.00');
+    expect(lines).toContain('deer,all,4,2,1,1,0,105.00');
+    expect(lines).toHaveLength(6);
+  });
+
+  it('exports JSON including the raw records', () => {
+    const parsed = JSON.parse(createSampleTable().toJSON());
+
+    expect(parsed.records).toHaveLength(5);
+    expect(parsed.speciesTotals).toHaveLength(2);
+  });
+});
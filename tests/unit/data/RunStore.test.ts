@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryRunDatabase, createRunStore, type SavedRun } from '../../../src/data/RunStore';
+import { createPopulationHistory } from '../../../src/data/PopulationHistory';
+import { createActionHistory } from '../../../src/data/ActionHistory';
+import { createWorld, initializePopulation } from '../../../src/core/World';
+import { exportWorldSnapshot, importWorldSnapshot } from '../../../src/core/WorldSnapshot';
+import { getDefaultConfig } from '../../../src/config/defaults';
+
+function createRun(id: string, updatedAt: number): SavedRun {
+  return {
+    id,
+    name: `Run ${id}`,
+    createdAt: updatedAt,
+    updatedAt,
+    tick: 0,
+    seed: 1,
+    speciesCounts: {},
+    snapshot: '{}',
+    population: [],
+    actions: [],
+  };
+}
+
+describe('RunStore', () => {
+  it('lists runs newest first', async () => {
+    const store = createRunStore(createMemoryRunDatabase());
+    await store.save(createRun('a', 100));
+    await store.save(createRun('b', 300));
+    await store.save(createRun('c', 200));
+
+    const summaries = await store.list();
+    expect(summaries.map(s => s.id)).toEqual(['b', 'c', 'a']);
+    expect(summaries[0]).not.toHaveProperty('snapshot');
+  });
+
+  it('restores a world, population history and action log saved mid-run', async () => {
+    const config = getDefaultConfig();
+    config.world.WORLD_WIDTH = 200;
+    config.world.WORLD_HEIGHT = 200;
+    const world = createWorld(config, 42);
+    initializePopulation(world);
+
+    const population = createPopulationHistory();
+    population.record(1, { deer: 10, wolf: 2 }, 50);
+    population.record(2, { deer: 11, wolf: 2 }, 48);
+    const actions = createActionHistory();
+    const animal = world.getLivingAnimals()[0];
+    actions.record(animal.id, 2, 'INTERVENTION', 'Edited hunger 80 -> 10');
+
+    const store = createRunStore(createMemoryRunDatabase());
+    await store.save({
+      ...createRun('run', 1),
+      snapshot: exportWorldSnapshot(world, 'Mid-run'),
+      population: population.getData(),
+      actions: actions.getAll(),
+    });
+
+    const saved = await store.load('run');
+    const imported = importWorldSnapshot(saved!.snapshot);
+    expect(imported.success).toBe(true);
+    expect(imported.world!.getLivingAnimals().map(a => a.id)).toEqual(world.getLivingAnimals().map(a => a.id));
+
+    const restoredPopulation = createPopulationHistory();
+    restoredPopulation.load(saved!.population);
+    expect(restoredPopulation.getData()).toEqual(population.getData());
+
+    const restoredActions = createActionHistory();
+    restoredActions.load(saved!.actions);
+    expect(restoredActions.getHistory(animal.id)).toEqual(actions.getHistory(animal.id));
+  });
+
+  it('renames, duplicates and deletes runs', async () => {
+    const store = createRunStore(createMemoryRunDatabase());
+    await store.save(createRun('a', 100));
+
+    expect((await store.rename('a', 'Wolves win'))!.name).toBe('Wolves win');
+    expect((await store.load('a'))!.name).toBe('Wolves win');
+
+    const copy = await store.duplicate('a');
+    expect(copy!.id).not.toBe('a');
+    expect(copy!.name).toBe('Wolves win (copy)');
+    expect((await store.load(copy!.id))!.snapshot).toBe('{}');
+
+    await store.delete('a');
+    expect(await store.load('a')).toBeNull();
+    expect((await store.list()).map(s => s.id)).toEqual([copy!.id]);
+  });
+
+  it('returns null for runs that do not exist', async () => {
+    const store = createRunStore(createMemoryRunDatabase());
+    expect(await store.load('missing')).toBeNull();
+    expect(await store.rename('missing', 'x')).toBeNull();
+    expect(await store.duplicate('missing')).toBeNull();
+  });
+});
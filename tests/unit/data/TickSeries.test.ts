@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createTickSeries, type TickSeries } from '../../../src/data/TickSeries';
+import { createPopulationHistory } from '../../../src/data/PopulationHistory';
+
+function fill(series: TickSeries<{ tick: number }>, from: number, to: number): void {
+  for (let tick = from; tick <= to; tick++) {
+    series.push({ tick });
+  }
+}
+
+describe('TickSeries', () => {
+  it('keeps only the newest points in recent mode', () => {
+    const series = createTickSeries<{ tick: number }>(5);
+    fill(series, 0, 19);
+
+    expect(series.getPoints().map(p => p.tick)).toEqual([15, 16, 17, 18, 19]);
+    expect(series.getStride()).toBe(1);
+  });
+
+  it('downsamples the whole run and always keeps the newest point', () => {
+    const series = createTickSeries<{ tick: number }>(8, 'whole-run');
+    fill(series, 0, 20);
+
+    const ticks = series.getPoints().map(p => p.tick);
+    expect(ticks.length).toBeLessThanOrEqual(8);
+    expect(ticks[0]).toBe(0);
+    expect(series.getLatest()!.tick).toBe(20);
+    // Every kept point but the newest falls on the stride
+    const stride = series.getStride();
+    expect(stride).toBeGreaterThan(1);
+    expect(ticks.slice(0, -1).every(t => t % stride === 0)).toBe(true);
+  });
+
+  it('stays bounded over a 100k-tick run without losing the start', () => {
+    const history = createPopulationHistory(1000, 'whole-run');
+    for (let tick = 0; tick < 100_000; tick++) {
+      history.record(tick, { deer: tick % 50 }, 10);
+    }
+
+    const data = history.getData();
+    expect(data.length).toBeLessThanOrEqual(1000);
+    expect(data.length).toBeGreaterThan(500);
+    expect(data[0].tick).toBe(0);
+    expect(history.getLatest()!.tick).toBe(99_999);
+  });
+
+  it('still has the start of the run when switching to whole-run late', () => {
+    const history = createPopulationHistory(1000);
+    for (let tick = 0; tick < 5000; tick++) {
+      history.record(tick, { deer: tick % 50 }, 10);
+    }
+    expect(history.getData()[0].tick).toBe(4000);
+
+    history.setMode('whole-run');
+    const data = history.getData();
+    expect(data[0].tick).toBe(0);
+    expect(data.length).toBeLessThanOrEqual(1000);
+    expect(history.getLatest()!.tick).toBe(4999);
+
+    history.setMode('recent');
+    expect(history.getData()[0].tick).toBe(4000);
+  });
+
+  it('continues at the same stride after a truncation', () => {
+    const series = createTickSeries<{ tick: number }>(8, 'whole-run');
+    fill(series, 0, 40);
+    const stride = series.getStride();
+
+    series.truncateAfter(25);
+    expect(series.getLatest()!.tick).toBeLessThanOrEqual(25);
+    fill(series, series.getLatest()!.tick + 1, 60);
+
+    const ticks = series.getPoints().map(p => p.tick);
+    expect(ticks).toEqual([...ticks].sort((a, b) => a - b));
+    expect(ticks.slice(0, -1).every(t => t % series.getStride() === 0)).toBe(true);
+    expect(series.getStride()).toBeGreaterThanOrEqual(stride);
+  });
+});
+
+describe('PopulationHistory export', () => {
+  it('writes one CSV column per species seen, filling gaps with 0', () => {
+    const history = createPopulationHistory();
+    history.record(1, { deer: 5 }, 100);
+    history.record(2, { deer: 4, wolf: 2 }, 98);
+
+    expect(history.toCSV()).toBe('tick,vegetation,deer,wolf\n1,100,5,0\n2,98,4,2');
+    expect(JSON.parse(history.toJSON()).points).toHaveLength(2);
+  });
+});
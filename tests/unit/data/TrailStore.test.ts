@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { createTrailStore } from '../../../src/data/TrailStore';
+import { createWorld, animalToSpatialEntity } from '../../../src/core/World';
+import { executeExecutionPhase, createTickContext } from '../../../src/core/TickLoop';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { Action } from '../../../src/behavior/types';
+
+describe('TrailStore', () => {
+  it('returns recorded positions oldest first', () => {
+    const store = createTrailStore(5);
+    store.record('deer_1', { x: 1, y: 2 });
+    store.record('deer_1', { x: 3, y: 4 });
+
+    expect(store.getTrail('deer_1')).toEqual([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+    expect(store.getTrail('deer_2')).toEqual([]);
+  });
+
+  it('keeps only the most recent positions once full', () => {
+    const store = createTrailStore(3);
+    for (let i = 0; i < 7; i++) {
+      store.record('deer_1', { x: i, y: 0 });
+    }
+
+    expect(store.getTrail('deer_1').map(p => p.x)).toEqual([4, 5, 6]);
+  });
+
+  it('forgets one animal or every animal', () => {
+    const store = createTrailStore(3);
+    store.record('deer_1', { x: 1, y: 1 });
+    store.record('wolf_1', { x: 2, y: 2 });
+
+    store.clearAnimal('deer_1');
+    expect(store.getTrail('deer_1')).toEqual([]);
+    expect(store.getTrail('wolf_1')).toHaveLength(1);
+
+    store.clear();
+    expect(store.getTrail('wolf_1')).toEqual([]);
+  });
+
+  it('is filled from moves during the execution phase', () => {
+    const config = getDefaultConfig();
+    config.terrain.FOREST_COVERAGE = 0;
+    config.terrain.WATER_COVERAGE = 0;
+    config.terrain.ROCK_COVERAGE = 0;
+    const world = createWorld(config, 1);
+    const mover = createAnimal({ species: 'deer', position: { x: 100, y: 100 } }, config, world.speciesIdGens.deer);
+    const sitter = createAnimal({ species: 'deer', position: { x: 200, y: 200 } }, config, world.speciesIdGens.deer);
+    for (const animal of [mover, sitter]) {
+      world.entityManager.addAnimal(animal);
+      world.animalSpatialIndex.insert(animalToSpatialEntity(animal));
+    }
+    const store = createTrailStore();
+
+    executeExecutionPhase(createTickContext(world, undefined, store), new Map<string, Action>([
+      [mover.id, { type: 'DRIFT', targetPosition: { x: 103, y: 104 } }],
+      [sitter.id, { type: 'STAY' }],
+    ]));
+
+    expect(store.getTrail(mover.id)).toEqual([{ x: 103, y: 104 }]);
+    expect(store.getTrail(sitter.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTraitStatistics,
+  collectTraitSample,
+  summarizeValues,
+  TRAIT_DEFINITIONS,
+} from '../../../src/data/TraitStatistics';
+import { createAnimal, updateAnimalState } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
+import type { Animal } from '../../../src/entities/types';
+
+function createHerd(agilities: number[]): Animal[] {
+  const config = getDefaultConfig();
+  const idGen = createIdGenerator('deer');
+  return agilities.map(agility =>
+    createAnimal({ species: 'deer', position: { x: 0, y: 0 }, baseAttributes: { agility } }, config, idGen)
+  );
+}
+
+describe('TraitStatistics', () => {
+  describe('summarizeValues', () => {
+    it('computes mean, standard deviation and extremes', () => {
+      const summary = summarizeValues([2, 4, 4, 4, 5, 5, 7, 9]);
+
+      expect(summary.mean).toBe(5);
+      expect(summary.stdDev).toBe(2);
+      expect(summary.min).toBe(2);
+      expect(summary.max).toBe(9);
+    });
+
+    it('interpolates percentiles', () => {
+      const summary = summarizeValues([40, 10, 30, 20, 50]);
+
+      expect(summary.median).toBe(30);
+      expect(summary.p25).toBe(20);
+      expect(summary.p10).toBeCloseTo(14);
+      expect(summary.p90).toBeCloseTo(46);
+    });
+
+    it('returns zeros for no values', () => {
+      expect(summarizeValues([]).mean).toBe(0);
+    });
+  });
+
+  describe('collectTraitSample', () => {
+    it('summarizes every trait for each species', () => {
+      const herd = createHerd([8, 10, 12]);
+      const wolf = createAnimal({ species: 'wolf', position: { x: 0, y: 0 } }, getDefaultConfig(), createIdGenerator('wolf'));
+
+      const sample = collectTraitSample(50, [...herd, wolf]);
+
+      expect(sample.tick).toBe(50);
+      expect(sample.species.deer.count).toBe(3);
+      expect(sample.species.wolf.count).toBe(1);
+      expect(Object.keys(sample.species.deer.traits)).toEqual(TRAIT_DEFINITIONS.map(t => t.id));
+      expect(sample.species.deer.traits['baseAttributes.agility'].mean).toBe(10);
+    });
+
+    it('ignores dead animals', () => {
+      const [alive, dead] = createHerd([8, 12]);
+
+      const sample = collectTraitSample(0, [alive, updateAnimalState(dead, { isDead: true })]);
+
+      expect(sample.species.deer.count).toBe(1);
+      expect(sample.species.deer.traits['baseAttributes.agility'].mean).toBe(8);
+    });
+  });
+
+  describe('createTraitStatistics', () => {
+    it('samples only on the interval', () => {
+      const statistics = createTraitStatistics(5);
+      const herd = createHerd([10]);
+
+      const recorded = [1, 2, 3, 4, 5, 6, 10].map(tick => statistics.record(tick, herd));
+
+      expect(recorded).toEqual([false, false, false, false, true, false, true]);
+      expect(statistics.getSamples().map(s => s.tick)).toEqual([5, 10]);
+    });
+
+    it('keeps at most the configured number of samples', () => {
+      const statistics = createTraitStatistics(1, 3);
+      const herd = createHerd([10]);
+
+      for (let tick = 1; tick <= 5; tick++) statistics.record(tick, herd);
+
+      expect(statistics.getSamples().map(s => s.tick)).toEqual([3, 4, 5]);
+      expect(statistics.getLatest()?.tick).toBe(5);
+    });
+
+    it('truncates samples after a tick', () => {
+      const statistics = createTraitStatistics(1);
+      const herd = createHerd([10]);
+      for (let tick = 1; tick <= 5; tick++) statistics.record(tick, herd);
+
+      statistics.truncateAfter(2);
+
+      expect(statistics.getLength()).toBe(2);
+    });
+
+    it('keeps the whole run at lower resolution in whole-run mode', () => {
+      const statistics = createTraitStatistics(10, 4, 'whole-run');
+      const herd = createHerd([10]);
+      for (let tick = 0; tick <= 200; tick += 10) {
+        statistics.record(tick, herd);
+      }
+
+      const ticks = statistics.getSamples().map(s => s.tick);
+      expect(ticks.length).toBeLessThanOrEqual(4);
+      expect(ticks[0]).toBe(0);
+      expect(ticks[ticks.length - 1]).toBe(200);
+    });
+
+    it('exports one CSV row per sample, species and trait', () => {
+      const statistics = createTraitStatistics(1);
+      statistics.record(0, createHerd([10, 12]));
+      statistics.record(1, createHerd([14]));
+
+      const lines = statistics.toCSV().split('\n');
+      expect(lines[0]).toBe('tick,species,count,trait,mean,stdDev,min,p10,p25,median,p75,p90,max');
+      expect(lines).toHaveLength(1 + 2 * TRAIT_DEFINITIONS.length);
+      expect(lines[1]).toMatch(/^0,deer,2,baseAttributes\.strength,/);
+      expect(lines.some(l => l.startsWith('1,deer,1,baseAttributes.agility,14,0,14,'))).toBe(true);
+      expect(JSON.parse(statistics.toJSON()).samples).toHaveLength(2);
+    });
+  });
+});
@@ -8,7 +8,14 @@ import {
   updateAnimalState,
   applyHungerDecay,
   applyMovementCost,
+  getEffectiveSpeed,
+  applyDamage,
+  applyHealthChange,
+  applyStaminaChange,
+  isExhausted,
+  applyAnimalEdit,
 } from '../../../src/entities/Animal';
+import { formatInterventionDetails } from '../../../src/data/ActionHistory';
 import { getDefaultConfig } from '../../../src/config/defaults';
 import { createIdGenerator } from '../../../src/utils/id';
 import type { SimulationConfig } from '../../../src/config/types';
@@ -429,4 +436,170 @@ describe('Animal', () => {
       expect(updated.state.hunger).toBe(99.2);
     });
   });
+
+  describe('health', () => {
+    it('spawns at full health', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+
+      expect(animal.derivedStats.maxHealth).toBeCloseTo(1.0 * 10 * config.combat.HEALTH_MULTIPLIER);
+      expect(animal.state.health).toBe(animal.derivedStats.maxHealth);
+    });
+
+    it('applyDamage never drops health below zero', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+
+      expect(applyDamage(animal, 5).state.health).toBeCloseTo(animal.state.health - 5);
+      expect(applyDamage(animal, 1000).state.health).toBe(0);
+    });
+
+    it('starving animals lose STARVATION_DAMAGE per tick', () => {
+      const animal = createAnimal(
+        { species: 'deer', position: { x: 0, y: 0 }, initialHunger: 0 },
+        config,
+        deerIdGen
+      );
+
+      const updated = applyHealthChange(animal, config);
+      expect(updated.state.health).toBeCloseTo(animal.state.health - config.combat.STARVATION_DAMAGE);
+    });
+
+    it('well-fed animals heal up to max health', () => {
+      const animal = createAnimal(
+        { species: 'deer', position: { x: 0, y: 0 }, initialHunger: 90 },
+        config,
+        deerIdGen
+      );
+      const wounded = applyDamage(animal, 3);
+
+      expect(applyHealthChange(wounded, config).state.health).toBeCloseTo(wounded.state.health + config.combat.HEAL_RATE);
+      expect(applyHealthChange(animal, config).state.health).toBe(animal.derivedStats.maxHealth);
+    });
+
+    it('hungry animals do not heal', () => {
+      const animal = createAnimal(
+        { species: 'deer', position: { x: 0, y: 0 }, initialHunger: 20 },
+        config,
+        deerIdGen
+      );
+      const wounded = applyDamage(animal, 3);
+
+      expect(applyHealthChange(wounded, config).state.health).toBe(wounded.state.health);
+    });
+
+    it('wounds reduce effective speed', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const halfHealth = applyDamage(animal, animal.derivedStats.maxHealth / 2);
+
+      expect(getEffectiveSpeed(animal, config)).toBeCloseTo(animal.derivedStats.speed);
+      expect(getEffectiveSpeed(halfHealth, config)).toBeCloseTo(
+        animal.derivedStats.speed * (1 - config.combat.WOUND_SPEED_PENALTY * 0.5)
+      );
+    });
+  });
+
+  describe('stamina', () => {
+    it('spawns with full stamina derived from endurance', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+
+      expect(animal.derivedStats.maxStamina).toBe(animal.baseAttributes.endurance * config.stamina.STAMINA_MULTIPLIER);
+      expect(animal.state.stamina).toBe(animal.derivedStats.maxStamina);
+    });
+
+    it('fleeing and moving to food drain stamina', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+
+      expect(applyStaminaChange(animal, 'FLEE', config).state.stamina)
+        .toBe(animal.state.stamina - config.stamina.FLEE_STAMINA_COST);
+      expect(applyStaminaChange(animal, 'MOVE_TO_FOOD', config).state.stamina)
+        .toBe(animal.state.stamina - config.stamina.SPRINT_STAMINA_COST);
+    });
+
+    it('staying restores stamina faster than other actions, up to max', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const tired = updateAnimalState(animal, { stamina: 10 });
+
+      const rested = applyStaminaChange(tired, 'STAY', config).state.stamina;
+      const drifted = applyStaminaChange(tired, 'DRIFT', config).state.stamina;
+
+      expect(rested).toBe(10 + config.stamina.STAMINA_RECOVERY);
+      expect(drifted).toBeGreaterThan(10);
+      expect(drifted).toBeLessThan(rested);
+      expect(applyStaminaChange(animal, 'STAY', config).state.stamina).toBe(animal.derivedStats.maxStamina);
+    });
+
+    it('exhausted animals move at reduced speed', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const exhausted = updateAnimalState(animal, { stamina: 0 });
+
+      expect(isExhausted(exhausted)).toBe(true);
+      expect(applyStaminaChange(exhausted, 'FLEE', config).state.stamina).toBe(0);
+      expect(getEffectiveSpeed(exhausted, config)).toBeCloseTo(
+        animal.derivedStats.speed * config.stamina.EXHAUSTED_SPEED_MULTIPLIER
+      );
+    });
+  });
+
+  describe('applyAnimalEdit', () => {
+    it('applies edits and recomputes derived stats', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const result = applyAnimalEdit(animal, {
+        baseAttributes: { agility: 15 },
+        behavioralAttributes: { aggression: 0.9 },
+        hunger: 20,
+        age: 3,
+      }, config);
+
+      expect(result.success).toBe(true);
+      const edited = result.animal!;
+      expect(edited.baseAttributes.agility).toBe(15);
+      expect(edited.baseAttributes.strength).toBe(animal.baseAttributes.strength);
+      expect(edited.behavioralAttributes.aggression).toBe(0.9);
+      expect(edited.derivedStats).toEqual(calculateDerivedStats(edited.baseAttributes, config));
+      expect(edited.derivedStats.speed).toBeGreaterThan(animal.derivedStats.speed);
+      expect(edited.state.hunger).toBe(20);
+      expect(edited.state.age).toBe(3);
+    });
+
+    it('caps health and stamina at the new maximums', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const edited = applyAnimalEdit(animal, { baseAttributes: { endurance: 1, size: 0.3 } }, config).animal!;
+
+      expect(edited.state.health).toBe(edited.derivedStats.maxHealth);
+      expect(edited.state.stamina).toBe(edited.derivedStats.maxStamina);
+      expect(edited.derivedStats.maxHealth).toBeLessThan(animal.derivedStats.maxHealth);
+    });
+
+    it('rejects out-of-bounds values without changing anything', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const result = applyAnimalEdit(animal, {
+        baseAttributes: { strength: 50 },
+        lifecycleAttributes: { litterSize: 0 },
+        hunger: -1,
+        age: 1.5,
+      }, config);
+
+      expect(result.success).toBe(false);
+      expect(result.animal).toBeUndefined();
+      expect(result.errors).toHaveLength(4);
+    });
+
+    it('accepts species defaults that lie outside the mutation bounds', () => {
+      const wolf = createAnimal({ species: 'wolf', position: { x: 0, y: 0 } }, config, wolfIdGen);
+      const maturityAge = config.species.wolf.lifecycleAttributes.maturityAge;
+
+      expect(applyAnimalEdit(wolf, { lifecycleAttributes: { maturityAge } }, config).success).toBe(true);
+      expect(maturityAge).toBeLessThan(10);
+      expect(applyAnimalEdit(wolf, { lifecycleAttributes: { maturityAge: maturityAge - 1 } }, config).success).toBe(false);
+    });
+
+    it('describes each changed value for the action log', () => {
+      const animal = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, deerIdGen);
+      const details = formatInterventionDetails(animal, {
+        baseAttributes: { agility: 14.5, strength: animal.baseAttributes.strength },
+        hunger: 10,
+      });
+
+      expect(details).toBe(`Edited agility ${animal.baseAttributes.agility} -> 14.5, hunger ${animal.state.hunger} -> 10`);
+    });
+  });
 });
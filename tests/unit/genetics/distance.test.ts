@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getGenome, genomeDistance, geneticDistance, bisectGenomes } from '../../../src/genetics/distance';
+import { createAnimal } from '../../../src/entities/Animal';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
+
+const config = getDefaultConfig();
+const idGen = createIdGenerator('deer');
+
+describe('genetic distance', () => {
+  it('scales every heritable attribute to 0-1', () => {
+    const deer = createAnimal({ species: 'deer', position: { x: 0, y: 0 }, baseAttributes: { strength: 20, size: 0.3 } }, config, idGen);
+    const genome = getGenome(deer);
+
+    expect(genome).toHaveLength(13);
+    expect(genome[0]).toBe(1);
+    expect(genome[4]).toBe(0);
+    expect(genome.every(v => v >= 0 && v <= 1)).toBe(true);
+  });
+
+  it('is zero for identical animals and symmetric otherwise', () => {
+    const a = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, idGen);
+    const b = createAnimal({ species: 'deer', position: { x: 0, y: 0 } }, config, idGen);
+    const c = createAnimal({ species: 'deer', position: { x: 0, y: 0 }, baseAttributes: { agility: 20 } }, config, idGen);
+
+    expect(geneticDistance(a, b)).toBe(0);
+    expect(geneticDistance(a, c)).toBeGreaterThan(0);
+    expect(geneticDistance(a, c)).toBe(geneticDistance(c, a));
+  });
+
+  it('measures the root-mean-square difference', () => {
+    expect(genomeDistance([0, 0, 0, 0], [1, 1, 1, 1])).toBe(1);
+    expect(genomeDistance([0, 0, 0, 0], [1, 1, 0, 0])).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('bisects two well separated groups', () => {
+    const genomes = [[0.1, 0.1], [0.9, 0.9], [0.12, 0.1], [0.88, 0.92], [0.1, 0.14]];
+
+    const split = bisectGenomes(genomes);
+
+    const clusters = [...split.clusters].sort((x, y) => x.length - y.length);
+    expect(clusters).toEqual([[1, 3], [0, 2, 4]]);
+    expect(split.distance).toBeGreaterThan(0.7);
+  });
+
+  it('does not split identical genomes', () => {
+    const split = bisectGenomes([[0.5, 0.5], [0.5, 0.5], [0.5, 0.5]]);
+
+    expect(split.clusters[1]).toEqual([]);
+    expect(split.distance).toBe(0);
+  });
+});
@@ -3,7 +3,15 @@ import {
   inheritBaseAttributes,
   inheritBehavioralAttributes,
   inheritLifecycleAttributes,
+  blendValue,
+  blendBaseAttributes,
+  blendLifecycleAttributes,
+  createSexualOffspringAttributes,
 } from '../../../src/genetics/inheritance';
+import { createAnimal } from '../../../src/entities/Animal';
+import { createSeededRandom } from '../../../src/core/SeededRandom';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import { createIdGenerator } from '../../../src/utils/id';
 import type { BaseAttributes, BehavioralAttributes, LifecycleAttributes } from '../../../src/entities/types';
 
 describe('Inheritance (Asexual - Single Parent)', () => {
@@ -106,3 +114,66 @@ describe('Inheritance (Asexual - Single Parent)', () => {
     });
   });
 });
+
+describe('Inheritance (Sexual - Two Parents)', () => {
+  describe('blendValue', () => {
+    it('returns a value between both parents', () => {
+      const rng = createSeededRandom(1);
+      for (let i = 0; i < 50; i++) {
+        const value = blendValue(10, 20, rng);
+        expect(value).toBeGreaterThanOrEqual(10);
+        expect(value).toBeLessThanOrEqual(20);
+      }
+    });
+
+    it('returns the shared value when parents match', () => {
+      expect(blendValue(7, 7, createSeededRandom(3))).toBeCloseTo(7);
+    });
+  });
+
+  describe('blendBaseAttributes', () => {
+    it('blends every attribute between both parents', () => {
+      const a: BaseAttributes = { strength: 5, agility: 5, endurance: 5, perception: 5, size: 1 };
+      const b: BaseAttributes = { strength: 15, agility: 15, endurance: 15, perception: 15, size: 2 };
+
+      const offspring = blendBaseAttributes(a, b, createSeededRandom(9));
+
+      for (const key of Object.keys(a) as Array<keyof BaseAttributes>) {
+        expect(offspring[key]).toBeGreaterThanOrEqual(a[key]);
+        expect(offspring[key]).toBeLessThanOrEqual(b[key]);
+      }
+    });
+  });
+
+  describe('blendLifecycleAttributes', () => {
+    it('rounds lifecycle attributes to whole numbers', () => {
+      const a: LifecycleAttributes = { maxAge: 500, maturityAge: 40, litterSize: 1 };
+      const b: LifecycleAttributes = { maxAge: 900, maturityAge: 80, litterSize: 4 };
+
+      const offspring = blendLifecycleAttributes(a, b, createSeededRandom(11));
+
+      expect(Number.isInteger(offspring.maxAge)).toBe(true);
+      expect(Number.isInteger(offspring.maturityAge)).toBe(true);
+      expect(Number.isInteger(offspring.litterSize)).toBe(true);
+    });
+  });
+
+  describe('createSexualOffspringAttributes', () => {
+    it('matches a pure blend when mutation is disabled', () => {
+      const config = getDefaultConfig();
+      config.evolution.BASE_MUTATION_RATE = 0;
+      config.evolution.BEHAVIORAL_MUTATION_RATE = 0;
+      config.evolution.LIFECYCLE_MUTATION_RATE = 0;
+      const idGen = createIdGenerator('deer');
+      const parent = createAnimal({ species: 'deer', position: { x: 0, y: 0 }, baseAttributes: { strength: 4 } }, config, idGen);
+      const mate = createAnimal({ species: 'deer', position: { x: 0, y: 0 }, baseAttributes: { strength: 12 } }, config, idGen);
+
+      const offspring = createSexualOffspringAttributes(parent, mate, createSeededRandom(5), config);
+      const expected = blendBaseAttributes(parent.baseAttributes, mate.baseAttributes, createSeededRandom(5));
+
+      expect(offspring.baseAttributes).toEqual(expected);
+      expect(offspring.baseAttributes.strength).toBeGreaterThanOrEqual(4);
+      expect(offspring.baseAttributes.strength).toBeLessThanOrEqual(12);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTerrainGrid, generateTerrain, type TerrainGrid } from '../../../src/spatial/TerrainGrid';
+import { createSeededRandom } from '../../../src/core/SeededRandom';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { TerrainConfig } from '../../../src/config/types';
+
+describe('TerrainGrid', () => {
+  let grid: TerrainGrid;
+
+  beforeEach(() => {
+    grid = createTerrainGrid(100, 50, 5);
+  });
+
+  it('starts as grassland', () => {
+    expect(grid.getCols()).toBe(20);
+    expect(grid.getRows()).toBe(10);
+    expect(grid.getCounts()).toEqual({ grassland: 200, forest: 0, water: 0, rock: 0 });
+  });
+
+  it('sets and gets tiles', () => {
+    grid.set(3, 4, 'water');
+
+    expect(grid.get(3, 4)).toBe('water');
+    expect(grid.getAt(17, 22)).toBe('water');
+  });
+
+  it('treats out of bounds tiles as rock', () => {
+    expect(grid.get(-1, 0)).toBe('rock');
+    expect(grid.get(20, 0)).toBe('rock');
+  });
+
+  it('maps the far world edge to the last tile', () => {
+    grid.set(19, 9, 'forest');
+
+    expect(grid.getAt(100, 50)).toBe('forest');
+  });
+
+  it('only grassland and forest are fertile', () => {
+    grid.set(0, 0, 'forest');
+    grid.set(1, 0, 'water');
+    grid.set(2, 0, 'rock');
+
+    expect(grid.isFertile(0, 0)).toBe(true);
+    expect(grid.isFertile(1, 0)).toBe(false);
+    expect(grid.isFertile(2, 0)).toBe(false);
+    expect(grid.isFertile(3, 0)).toBe(true);
+    expect(grid.isFertile(-1, 0)).toBe(false);
+  });
+
+  it('round-trips through encode and decode', () => {
+    grid.set(0, 0, 'forest');
+    grid.set(5, 5, 'water');
+    grid.set(19, 9, 'rock');
+
+    const copy = createTerrainGrid(100, 50, 5);
+    copy.decode(grid.encode());
+
+    expect(copy.encode()).toBe(grid.encode());
+    expect(copy.get(5, 5)).toBe('water');
+  });
+
+  it('decodes an empty string to grassland', () => {
+    grid.set(0, 0, 'rock');
+    grid.decode('');
+
+    expect(grid.getCounts().grassland).toBe(200);
+  });
+});
+
+describe('generateTerrain', () => {
+  function terrainConfig(overrides: Partial<TerrainConfig> = {}): TerrainConfig {
+    return { ...getDefaultConfig().terrain, ...overrides };
+  }
+
+  it('covers the configured fraction of each terrain type', () => {
+    const grid = createTerrainGrid(500, 500, 5);
+    generateTerrain(grid, terrainConfig({ FOREST_COVERAGE: 0.2, WATER_COVERAGE: 0.1, ROCK_COVERAGE: 0.05 }), createSeededRandom(1));
+
+    const counts = grid.getCounts();
+    expect(counts.forest).toBe(2000);
+    expect(counts.water).toBe(1000);
+    expect(counts.rock).toBe(500);
+  });
+
+  it('leaves the grid as grassland with zero coverage', () => {
+    const grid = createTerrainGrid(100, 100, 5);
+    generateTerrain(grid, terrainConfig({ FOREST_COVERAGE: 0, WATER_COVERAGE: 0, ROCK_COVERAGE: 0 }), createSeededRandom(1));
+
+    expect(grid.getCounts().grassland).toBe(400);
+  });
+
+  it('is deterministic with the same seed', () => {
+    const a = createTerrainGrid(200, 200, 5);
+    const b = createTerrainGrid(200, 200, 5);
+    generateTerrain(a, terrainConfig(), createSeededRandom(9));
+    generateTerrain(b, terrainConfig(), createSeededRandom(9));
+
+    expect(a.encode()).toBe(b.encode());
+  });
+
+  it('grows clusters rather than scattering single tiles', () => {
+    const grid = createTerrainGrid(500, 500, 5);
+    generateTerrain(grid, terrainConfig({ FOREST_COVERAGE: 0, WATER_COVERAGE: 0.1, ROCK_COVERAGE: 0 }), createSeededRandom(3));
+
+    let waterWithWaterNeighbour = 0;
+    for (let y = 0; y < grid.getRows(); y++) {
+      for (let x = 0; x < grid.getCols(); x++) {
+        if (grid.get(x, y) !== 'water') continue;
+        if ([[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dy]) => grid.get(x + dx, y + dy) === 'water')) {
+          waterWithWaterNeighbour++;
+        }
+      }
+    }
+    expect(waterWithWaterNeighbour).toBeGreaterThan(grid.getCounts().water * 0.9);
+  });
+});
@@ -122,6 +122,42 @@ describe('VegetationGrid', () => {
     });
   });
 
+  describe('queryRadius', () => {
+    it('returns tiles whose centers are within the radius', () => {
+      grid.set(0, 0, true); // center (2.5, 2.5)
+      grid.set(2, 0, true); // center (12.5, 2.5)
+      grid.set(4, 0, true); // center (22.5, 2.5)
+
+      const positions = grid.queryRadius({ x: 2.5, y: 2.5 }, 10);
+
+      expect(positions).toEqual([{ x: 0, y: 0 }, { x: 2, y: 0 }]);
+    });
+
+    it('returns tiles in the order they grew', () => {
+      grid.set(3, 3, true);
+      grid.set(1, 1, true);
+      grid.set(2, 2, true);
+
+      expect(grid.queryRadius({ x: 10, y: 10 }, 20)).toEqual([
+        { x: 3, y: 3 },
+        { x: 1, y: 1 },
+        { x: 2, y: 2 },
+      ]);
+    });
+
+    it('matches a full scan of all positions', () => {
+      initializeVegetation(grid, 0.3, rng);
+      const center = { x: 400, y: 300 };
+
+      const scanned = grid.getAllPositions().filter(p => {
+        const world = grid.gridToWorld(p.x, p.y);
+        return Math.hypot(world.x - center.x, world.y - center.y) <= 37;
+      });
+
+      expect(grid.queryRadius(center, 37)).toEqual(scanned);
+    });
+  });
+
   describe('worldToGrid', () => {
     it('converts world coordinates to grid coordinates', () => {
       const result = grid.worldToGrid(27, 13);
@@ -262,6 +298,114 @@ describe('VegetationGrid', () => {
       expect(grid1.getCount()).toBe(grid2.getCount());
       expect(grid1.getAllPositions()).toEqual(grid2.getAllPositions());
     });
+
+    it('does not spread onto infertile tiles', () => {
+      const barren = createVegetationGrid(1000, 800, 5, (x) => (x === 101 ? 0 : 1));
+      barren.set(100, 80, true);
+      const alwaysSucceed = createSeededRandom(42);
+      alwaysSucceed.next = () => 0;
+
+      barren.spread(alwaysSucceed, 1.0);
+
+      expect(barren.has(99, 80)).toBe(true);
+      expect(barren.has(101, 80)).toBe(false);
+    });
+
+    it('matches a naive pass over every tile after grazing reopens gaps', () => {
+      const small = createVegetationGrid(60, 60, 5);
+      const naive = createVegetationGrid(60, 60, 5);
+      const ops = createSeededRandom(3);
+      const rngA = createSeededRandom(9);
+      const rngB = createSeededRandom(9);
+      small.set(6, 6, true);
+      naive.set(6, 6, true);
+
+      for (let tick = 0; tick < 200; tick++) {
+        const x = Math.floor(ops.next() * 12);
+        const y = Math.floor(ops.next() * 12);
+        small.graze(x, y, 1);
+        naive.graze(x, y, 1);
+
+        small.spread(rngA, 0.1);
+        // Every tile in insertion order, neighbours left, right, up, down
+        for (const pos of naive.getAllPositions()) {
+          for (const neighbor of naive.getNeighbors(pos.x, pos.y)) {
+            if (!naive.has(neighbor.x, neighbor.y) && rngB.next() < 0.1) {
+              naive.set(neighbor.x, neighbor.y, true);
+            }
+          }
+        }
+      }
+
+      expect(small.getAllPositions()).toEqual(naive.getAllPositions());
+      expect(rngA.next()).toBe(rngB.next());
+    });
+
+    it('seeds new tiles with the given biomass', () => {
+      grid.set(100, 80, true);
+      const alwaysSucceed = createSeededRandom(42);
+      alwaysSucceed.next = () => 0;
+
+      grid.spread(alwaysSucceed, 1.0, 0.1);
+
+      expect(grid.getBiomass(99, 80)).toBe(0.1);
+      expect(grid.getBiomass(100, 80)).toBe(1);
+    });
+  });
+
+  describe('biomass', () => {
+    it('fills set tiles to their capacity', () => {
+      const forest = createVegetationGrid(1000, 800, 5, () => 0.6);
+      forest.set(3, 3, true);
+      forest.setBiomass(4, 4, 2);
+
+      expect(forest.getBiomass(3, 3)).toBe(0.6);
+      expect(forest.getBiomass(4, 4)).toBe(0.6);
+      expect(forest.getCapacity(-1, 0)).toBe(0);
+    });
+
+    it('grazes only what is asked for and clears bare tiles', () => {
+      grid.set(5, 5, true);
+
+      expect(grid.graze(5, 5, 0.3)).toBeCloseTo(0.3);
+      expect(grid.getBiomass(5, 5)).toBeCloseTo(0.7);
+      expect(grid.graze(5, 5, 5)).toBeCloseTo(0.7);
+      expect(grid.has(5, 5)).toBe(false);
+      expect(grid.graze(5, 5, 1)).toBe(0);
+    });
+
+    it('keeps a grazed tile in its original spread order', () => {
+      grid.set(1, 1, true);
+      grid.set(2, 2, true);
+      grid.graze(1, 1, 0.5);
+
+      expect(grid.getAllPositions()).toEqual([{ x: 1, y: 1 }, { x: 2, y: 2 }]);
+    });
+
+    it('regrows logistically towards capacity', () => {
+      grid.setBiomass(0, 0, 0.1);
+      grid.setBiomass(1, 0, 0.5);
+      grid.set(2, 0, true);
+
+      grid.grow(0.2);
+
+      expect(grid.getBiomass(0, 0)).toBeCloseTo(0.1 + 0.2 * 0.1 * 0.9);
+      expect(grid.getBiomass(1, 0)).toBeCloseTo(0.5 + 0.2 * 0.5 * 0.5);
+      expect(grid.getBiomass(2, 0)).toBe(1);
+      expect(grid.getTotalBiomass()).toBeCloseTo(0.118 + 0.55 + 1);
+    });
+
+    it('drops tiles whose capacity fell to zero', () => {
+      let flooded = false;
+      const pond = createVegetationGrid(1000, 800, 5, (x) => (flooded && x === 0 ? 0 : 1));
+      pond.set(0, 0, true);
+      pond.set(1, 0, true);
+
+      flooded = true;
+      pond.grow(0.1);
+
+      expect(pond.getAllPositions()).toEqual([{ x: 1, y: 0 }]);
+    });
   });
 
   describe('clear', () => {
@@ -311,5 +455,18 @@ describe('VegetationGrid', () => {
       // 10x8 = 80 tiles
       expect(smallGrid.getCount()).toBe(80);
     });
+
+    it('skips infertile tiles without shifting the random sequence', () => {
+      const plain = createVegetationGrid(50, 40, 5);
+      const halved = createVegetationGrid(50, 40, 5, (x) => (x < 5 ? 1 : 0));
+      const rng1 = createSeededRandom(7);
+      const rng2 = createSeededRandom(7);
+
+      initializeVegetation(plain, 0.5, rng1);
+      initializeVegetation(halved, 0.5, rng2);
+
+      expect(halved.getAllPositions()).toEqual(plain.getAllPositions().filter((p) => p.x < 5));
+      expect(rng1.next()).toBe(rng2.next());
+    });
   });
 });
@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createScenarioEditor } from '../../../src/ui/ScenarioEditor';
+import { createSimulation } from '../../../src/core/Simulation';
+import { createCamera } from '../../../src/rendering/Camera';
+import { getDefaultConfig } from '../../../src/config/defaults';
+
+describe('ScenarioEditor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps running the edited world when Play is pressed while editing', () => {
+    const simulation = createSimulation(getDefaultConfig(), 1);
+    const editor = createScenarioEditor(document.createElement('canvas'), createCamera(800, 600), simulation);
+    const worldLoaded = vi.fn();
+    simulation.on('worldLoaded', worldLoaded);
+
+    editor.open();
+    expect(simulation.isPaused).toBe(true);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    document.querySelector<HTMLButtonElement>('.editor-clear')!.click();
+
+    simulation.start();
+
+    expect(editor.isActive()).toBe(false);
+    expect(worldLoaded).toHaveBeenCalledTimes(1);
+    expect(simulation.world.getAllAnimals()).toHaveLength(0);
+    expect(simulation.isPaused).toBe(false);
+
+    simulation.pause();
+    editor.destroy();
+  });
+});
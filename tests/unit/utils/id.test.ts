@@ -27,6 +27,20 @@ describe('ID utilities', () => {
       expect(gen1()).toBe('entity_1');
       expect(gen2()).toBe('corpse_1');
     });
+
+    it('reports how many IDs have been issued', () => {
+      const generate = createIdGenerator('deer');
+      expect(generate.getCount()).toBe(0);
+      generate();
+      generate();
+      expect(generate.getCount()).toBe(2);
+    });
+
+    it('continues from a start count', () => {
+      const generate = createIdGenerator('wolf', 41);
+      expect(generate()).toBe('wolf_42');
+      expect(generate.getCount()).toBe(42);
+    });
   });
 
   describe('parseId', () => {
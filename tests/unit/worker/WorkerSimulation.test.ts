@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createWorkerSimulation, type SimulationPort } from '../../../src/worker/WorkerSimulation';
+import { createSimulationHost, type SimulationHost } from '../../../src/worker/SimulationHost';
+import type { SimulationCommand, TickFrame, WorkerMessage } from '../../../src/worker/protocol';
+import { createSimulation } from '../../../src/core/Simulation';
+import { createReplayRecorder } from '../../../src/core/ReplayRecorder';
+import { createActionHistory } from '../../../src/data/ActionHistory';
+import { createTrailStore } from '../../../src/data/TrailStore';
+import type { World } from '../../../src/core/World';
+import { serializeWorld } from '../../../src/core/WorldSnapshot';
+import { getDefaultConfig } from '../../../src/config/defaults';
+import type { SimulationConfig } from '../../../src/config/types';
+
+function createSmallConfig(): SimulationConfig {
+  const config = getDefaultConfig();
+  config.world.WORLD_WIDTH = 80;
+  config.world.WORLD_HEIGHT = 80;
+  config.species.deer.initialCount = 6;
+  config.species.wolf.initialCount = 2;
+  config.replay.KEYFRAME_INTERVAL = 10;
+  return config;
+}
+
+function stateOf(world: World): string {
+  const { config: _config, ...rest } = serializeWorld(world);
+  return JSON.stringify(rest);
+}
+
+/**
+ * In-process stand-in for a Worker. Messages are structured-cloned both ways,
+ * as postMessage would, so neither side can share state with the other.
+ */
+function connect(): { port: SimulationPort; host: SimulationHost; commands: SimulationCommand[] } {
+  const commands: SimulationCommand[] = [];
+  const port: SimulationPort = {
+    onmessage: null,
+    postMessage(command: SimulationCommand): void {
+      commands.push(command);
+      host.handle(structuredClone(command));
+    },
+  };
+  const host = createSimulationHost((message: WorkerMessage) => {
+    port.onmessage?.({ data: structuredClone(message) } as MessageEvent<WorkerMessage>);
+  });
+  return { port, host, commands };
+}
+
+describe('WorkerSimulation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('mirrors the same world as a local simulation', () => {
+    const local = createSimulation(createSmallConfig(), 42);
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 42);
+
+    for (let i = 0; i < 40; i++) {
+      local.step();
+      remote.step();
+      expect(stateOf(remote.world)).toBe(stateOf(local.world));
+    }
+    expect(remote.currentTick).toBe(40);
+  });
+
+  it('emits the same events as a local simulation', () => {
+    const local = createSimulation(createSmallConfig(), 7);
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 7);
+    const localEvents: string[] = [];
+    const remoteEvents: string[] = [];
+    for (const [sim, events] of [[local, localEvents], [remote, remoteEvents]] as const) {
+      sim.on('tick', ({ tick }) => events.push(`tick ${tick}`));
+      sim.on('animalBorn', ({ animal }) => events.push(`born ${animal.id}`));
+      sim.on('animalDied', ({ record }) => events.push(`died ${record.animalId} ${record.cause}`));
+      sim.on('corpseCreated', ({ corpse }) => events.push(`corpse ${corpse.id}`));
+      sim.on('decisions', ({ decisions }) => events.push(JSON.stringify([...decisions])));
+    }
+
+    for (let i = 0; i < 150; i++) {
+      local.step();
+      remote.step();
+    }
+
+    expect(remoteEvents).toEqual(localEvents);
+  });
+
+  it('records actions and replay keyframes on the main thread', () => {
+    const history = createActionHistory();
+    const recorder = createReplayRecorder(createSmallConfig().replay);
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 3);
+    remote.setActionHistory(history);
+    remote.setReplayRecorder(recorder);
+    const states = new Map<number, string>();
+    remote.on('tick', ({ tick }) => states.set(tick, stateOf(remote.world)));
+
+    for (let i = 0; i < 25; i++) {
+      remote.step();
+    }
+
+    const [animal] = remote.world.getLivingAnimals();
+    expect(history.getHistory(animal.id).map(e => e.tick)).toContain(24);
+    expect(recorder.getEndTick()).toBe(25);
+    expect(stateOf(recorder.reconstruct(17)!)).toBe(states.get(17));
+  });
+
+  it('fills trails on the main thread like a local simulation', () => {
+    const local = createSimulation(createSmallConfig(), 4);
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 4);
+    const localTrails = createTrailStore(5);
+    const remoteTrails = createTrailStore(5);
+    local.setTrailStore(localTrails);
+    remote.setTrailStore(remoteTrails);
+
+    for (let i = 0; i < 20; i++) {
+      local.step();
+      remote.step();
+    }
+
+    const ids = local.world.getLivingAnimals().map(a => a.id);
+    expect(ids.some(id => localTrails.getTrail(id).length > 0)).toBe(true);
+    expect(ids.map(id => remoteTrails.getTrail(id))).toEqual(ids.map(id => localTrails.getTrail(id)));
+  });
+
+  it('continues from a seek in the worker as well', () => {
+    const recorder = createReplayRecorder(createSmallConfig().replay);
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 5);
+    remote.setReplayRecorder(recorder);
+    for (let i = 0; i < 30; i++) {
+      remote.step();
+    }
+
+    expect(remote.seek(12)).toBe(true);
+    remote.step();
+
+    const expected = createSimulation(createSmallConfig(), 5);
+    for (let i = 0; i < 13; i++) {
+      expected.step();
+    }
+    expect(stateOf(remote.world)).toBe(stateOf(expected.world));
+    expect(recorder.getEndTick()).toBe(13);
+  });
+
+  it('restarts the worker from a reset world', () => {
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 9);
+    for (let i = 0; i < 10; i++) {
+      remote.step();
+    }
+
+    remote.reset();
+    remote.step();
+
+    const expected = createSimulation(createSmallConfig(), 9);
+    expected.step();
+    expect(stateOf(remote.world)).toBe(stateOf(expected.world));
+  });
+
+  it('sends live config changes to the worker', () => {
+    const { port, commands } = connect();
+    const remote = createWorkerSimulation(createSmallConfig(), port, 1);
+
+    remote.config.vegetation.VEGETATION_FOOD_VALUE = 99;
+    remote.syncConfig();
+
+    const sent = commands.find(c => c.type === 'setConfig');
+    expect(sent?.type === 'setConfig' && sent.config.vegetation.VEGETATION_FOOD_VALUE).toBe(99);
+  });
+
+  it('applies animal edits in the worker as well', () => {
+    const local = createSimulation(createSmallConfig(), 13);
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 13);
+    local.step();
+    remote.step();
+
+    const id = local.world.getLivingAnimals()[0].id;
+    const edit = { baseAttributes: { agility: 18 }, hunger: 50 };
+    expect(local.editAnimal(id, edit).success).toBe(true);
+    expect(remote.editAnimal(id, edit).success).toBe(true);
+    expect(stateOf(remote.world)).toBe(stateOf(local.world));
+
+    for (let i = 0; i < 10; i++) {
+      local.step();
+      remote.step();
+    }
+    expect(stateOf(remote.world)).toBe(stateOf(local.world));
+  });
+
+  it('runs ticks on a timer while started, one frame at a time', () => {
+    vi.useFakeTimers();
+    const remote = createWorkerSimulation(createSmallConfig(), connect().port, 11);
+    const ticks: number[] = [];
+    remote.on('tick', ({ tick }) => ticks.push(tick));
+
+    remote.start();
+    vi.advanceTimersByTime(1000);
+    remote.pause();
+    const ticksAtPause = ticks.length;
+    vi.advanceTimersByTime(1000);
+
+    expect(ticksAtPause).toBeGreaterThan(0);
+    expect(ticks.length).toBe(ticksAtPause);
+    expect(ticks).toEqual(ticks.map((_, i) => i + 1));
+  });
+
+  it('sends only what changed since the previous frame', () => {
+    const frames: TickFrame[] = [];
+    const port: SimulationPort = {
+      onmessage: null,
+      postMessage(command: SimulationCommand): void {
+        host.handle(structuredClone(command));
+      },
+    };
+    const host = createSimulationHost((message: WorkerMessage) => {
+      frames.push(message.frame);
+      port.onmessage?.({ data: structuredClone(message) } as MessageEvent<WorkerMessage>);
+    });
+    const remote = createWorkerSimulation(createSmallConfig(), port, 21);
+
+    for (let i = 0; i < 20; i++) {
+      remote.step();
+    }
+
+    const last = frames[frames.length - 1];
+    const { world } = remote;
+    expect(last.vegetationSet.length / 2).toBeLessThan(world.vegetationGrid.getCount());
+    expect(frames.reduce((sum, frame) => sum + frame.born.length, 0))
+      .toBe(world.getAllAnimals().length - createSmallConfig().species.deer.initialCount - 2);
+  });
+
+  it('drops frames that belong to a replaced world', () => {
+    let held: WorkerMessage | null = null;
+    const port: SimulationPort = {
+      onmessage: null,
+      postMessage(command: SimulationCommand): void {
+        host.handle(structuredClone(command));
+      },
+    };
+    const host = createSimulationHost((message: WorkerMessage) => {
+      held = structuredClone(message);
+    });
+    const remote = createWorkerSimulation(createSmallConfig(), port, 13);
+
+    remote.step();
+    remote.reset();
+    port.onmessage?.({ data: held! } as MessageEvent<WorkerMessage>);
+
+    expect(remote.currentTick).toBe(0);
+  });
+});